@@ -1,12 +1,76 @@
-// Service Worker for Push Notifications
+// Service Worker for Push Notifications and the offline app shell
+
+// Bump to drop the cached shell of a previous release
+const SHELL_CACHE = 'sfm-shell-v1';
+
 self.addEventListener('install', (event) => {
   console.log('Service Worker installed');
-  self.skipWaiting();
+  event.waitUntil(
+    fetch('/')
+      .then((response) => response.ok && cacheShell(response))
+      .catch((error) => console.error('App shell precache failed:', error))
+      .then(() => self.skipWaiting())
+  );
 });
 
 self.addEventListener('activate', (event) => {
   console.log('Service Worker activated');
-  event.waitUntil(clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('sfm-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => clients.claim())
+  );
+});
+
+// Keep index.html with the bundles it references, which the first visit
+// loaded before the worker was in control
+async function cacheShell(response) {
+  const cache = await caches.open(SHELL_CACHE);
+  const html = await response.clone().text();
+  await cache.put('/', response);
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+  const missing = [];
+  for (const asset of assets) {
+    if (!(await cache.match(asset))) missing.push(asset);
+  }
+  await cache.addAll(missing).catch((error) => console.error('App shell precache failed:', error));
+}
+
+// Pages: network first so a deploy is picked up right away, cached index.html when offline.
+// Built assets have hashed names and never change: cache first.
+// Everything else (Supabase API, dev server modules) goes straight to the network.
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) cacheShell(response.clone());
+          return response;
+        })
+        .catch(() => caches.match('/').then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      }))
+    );
+  }
 });
 
 // Handle notification click
@@ -33,7 +97,7 @@ self.addEventListener('notificationclick', (event) => {
   );
 });
 
-// Handle push events (for future server-side push)
+// Handle push events, sent by the generate-alerts and send-test-push edge functions
 self.addEventListener('push', (event) => {
   if (!event.data) return;
 
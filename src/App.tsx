@@ -5,6 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import { SidebarProvider } from "@/contexts/SidebarContext";
+import { BoardProvider } from "@/contexts/BoardContext";
+import { RealtimeProvider } from "@/contexts/RealtimeContext";
+import { OfflineProvider } from "@/contexts/OfflineContext";
+import { OFFLINE_CACHE_MAX_AGE } from "@/lib/offlineStore";
 import { ThemeProvider } from "next-themes";
 import { PushNotificationPrompt } from "@/components/notifications/PushNotificationPrompt";
 import Index from "./pages/Index";
@@ -20,39 +24,56 @@ import ProfilePage from "./pages/ProfilePage";
 import UsersPage from "./pages/UsersPage";
 import SettingsPage from "./pages/SettingsPage";
 import AdminPage from "./pages/AdminPage";
+import AuditLogPage from "./pages/AuditLogPage";
+import KioskPage from "./pages/KioskPage";
+import MeetingPage from "./pages/MeetingPage";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Unused queries are kept as long as they can be restored from the offline cache
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { gcTime: OFFLINE_CACHE_MAX_AGE },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
       <AuthProvider>
-        <SidebarProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <PushNotificationPrompt />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="/auth" element={<Auth />} />
-                <Route path="/dashboard" element={<DashboardPage />} />
-                <Route path="/priorities" element={<PrioritiesPage />} />
-                <Route path="/alerts" element={<AlertsPage />} />
-                <Route path="/actions" element={<ActionsPage />} />
-                <Route path="/problems" element={<ProblemsPage />} />
-                <Route path="/notes" element={<NotesPage />} />
-                <Route path="/reports" element={<ReportsPage />} />
-                <Route path="/profile" element={<ProfilePage />} />
-                <Route path="/users" element={<UsersPage />} />
-                <Route path="/settings" element={<SettingsPage />} />
-                <Route path="/admin" element={<AdminPage />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
-        </SidebarProvider>
+        <OfflineProvider>
+          <BoardProvider>
+            <RealtimeProvider>
+              <SidebarProvider>
+                <TooltipProvider>
+                  <Toaster />
+                  <Sonner />
+                  <PushNotificationPrompt />
+                  <BrowserRouter>
+                    <Routes>
+                      <Route path="/" element={<Index />} />
+                      <Route path="/auth" element={<Auth />} />
+                      <Route path="/dashboard" element={<DashboardPage />} />
+                      <Route path="/priorities" element={<PrioritiesPage />} />
+                      <Route path="/alerts" element={<AlertsPage />} />
+                      <Route path="/actions" element={<ActionsPage />} />
+                      <Route path="/problems" element={<ProblemsPage />} />
+                      <Route path="/notes" element={<NotesPage />} />
+                      <Route path="/meeting" element={<MeetingPage />} />
+                      <Route path="/reports" element={<ReportsPage />} />
+                      <Route path="/profile" element={<ProfilePage />} />
+                      <Route path="/users" element={<UsersPage />} />
+                      <Route path="/settings" element={<SettingsPage />} />
+                      <Route path="/admin" element={<AdminPage />} />
+                      <Route path="/audit" element={<AuditLogPage />} />
+                      <Route path="/kiosk/:token" element={<KioskPage />} />
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                  </BrowserRouter>
+                </TooltipProvider>
+              </SidebarProvider>
+            </RealtimeProvider>
+          </BoardProvider>
+        </OfflineProvider>
       </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,441 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBoard } from '@/contexts/BoardContext';
+import { getDescendantBoardIds } from '@/hooks/useBoards';
+import { useCategories, useKpis } from '@/hooks/useSfmData';
+import { useSaveAlertRule } from '@/hooks/useAlertRules';
+import { ALERT_RULE_TYPES, OPERATOR_SYMBOLS } from '@/lib/alertRules';
+import { ActionPriority, AlertRule, AlertRuleParams, AlertRuleType, AlertSeverity, AppRole, ProblemSeverity } from '@/types/sfm';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: AlertRule | null;
+}
+
+const SEVERITIES: { value: AlertSeverity; label: string }[] = [
+  { value: 'critical', label: 'Critique' },
+  { value: 'high', label: 'Haute' },
+  { value: 'medium', label: 'Moyenne' },
+  { value: 'low', label: 'Basse' },
+];
+
+const PROBLEM_SEVERITIES: { value: ProblemSeverity; label: string }[] = SEVERITIES;
+
+const PRIORITIES: { value: ActionPriority; label: string }[] = [
+  { value: 'urgent', label: 'Urgente' },
+  { value: 'high', label: 'Haute' },
+  { value: 'medium', label: 'Moyenne' },
+  { value: 'low', label: 'Basse' },
+];
+
+const AUDIENCES: { value: AppRole | 'all'; label: string }[] = [
+  { value: 'all', label: 'Tous les membres du board' },
+  { value: 'team_leader', label: 'Chefs d\'équipe et plus' },
+  { value: 'manager', label: 'Managers uniquement' },
+];
+
+const ALL = 'all';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  rule_type: 'kpi_threshold' as AlertRuleType,
+  board_id: ALL,
+  category_id: ALL,
+  kpi_id: ALL,
+  params: ALERT_RULE_TYPES.kpi_threshold.defaultParams,
+  severity: 'high' as AlertSeverity,
+  audience_role: ALL as AppRole | 'all',
+  cooldown_minutes: '0',
+  is_active: true,
+};
+
+function toggle<T>(list: T[] | undefined, value: T, checked: boolean): T[] {
+  const current = list || [];
+  return checked ? [...current, value] : current.filter(v => v !== value);
+}
+
+export function AlertRuleDialog({ open, onOpenChange, rule }: AlertRuleDialogProps) {
+  const { user } = useAuth();
+  const { boards } = useBoard();
+  const saveRule = useSaveAlertRule();
+  const isEditing = !!rule;
+  const [formData, setFormData] = useState(emptyForm);
+
+  const scopeBoardIds = formData.board_id === ALL
+    ? boards.map(b => b.id)
+    : [formData.board_id, ...getDescendantBoardIds(boards, formData.board_id)];
+  const { data: categories } = useCategories(scopeBoardIds);
+  const { data: kpis } = useKpis(formData.category_id === ALL ? undefined : formData.category_id, scopeBoardIds);
+
+  const target = ALERT_RULE_TYPES[formData.rule_type].target;
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(rule
+      ? {
+          name: rule.name,
+          description: rule.description || '',
+          rule_type: rule.rule_type,
+          board_id: rule.board_id || ALL,
+          category_id: rule.category_id || ALL,
+          kpi_id: rule.kpi_id || ALL,
+          params: rule.params,
+          severity: rule.severity,
+          audience_role: rule.audience_role || ALL,
+          cooldown_minutes: rule.cooldown_minutes.toString(),
+          is_active: rule.is_active,
+        }
+      : emptyForm);
+  }, [rule, open]);
+
+  const setParams = (params: Partial<AlertRuleParams>) => {
+    setFormData(prev => ({ ...prev, params: { ...prev.params, ...params } }));
+  };
+
+  const handleTypeChange = (ruleType: AlertRuleType) => {
+    setFormData(prev => ({
+      ...prev,
+      rule_type: ruleType,
+      params: ALERT_RULE_TYPES[ruleType].defaultParams,
+      // Only KPI rules can target a single KPI
+      kpi_id: ALERT_RULE_TYPES[ruleType].target === 'kpi' ? prev.kpi_id : ALL,
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast.error('Veuillez donner un nom à la règle');
+      return;
+    }
+    if (formData.rule_type === 'kpi_threshold' && (formData.params.value === undefined || isNaN(formData.params.value))) {
+      toast.error('Veuillez indiquer un seuil');
+      return;
+    }
+
+    saveRule.mutate({
+      id: rule?.id,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      rule_type: formData.rule_type,
+      board_id: formData.board_id === ALL ? null : formData.board_id,
+      category_id: formData.category_id === ALL ? null : formData.category_id,
+      kpi_id: formData.kpi_id === ALL ? null : formData.kpi_id,
+      params: formData.params,
+      severity: formData.severity,
+      audience_role: formData.audience_role === ALL ? null : formData.audience_role,
+      cooldown_minutes: Math.max(0, parseInt(formData.cooldown_minutes) || 0),
+      is_active: formData.is_active,
+      created_by: rule ? rule.created_by : user?.id,
+    }, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Modifier la règle' : 'Nouvelle règle d\'alerte'}</DialogTitle>
+          <DialogDescription>
+            La règle est évaluée à chaque génération des alertes, planifiée ou manuelle
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleName">Nom *</Label>
+              <Input
+                id="ruleName"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Ex: TRS ligne 2 sous 85 %"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleDescription">Description (optionnelle)</Label>
+              <Textarea
+                id="ruleDescription"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          {/* Condition */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Condition</h3>
+            <div className="space-y-2">
+              <Label>Type de règle</Label>
+              <Select value={formData.rule_type} onValueChange={(v) => handleTypeChange(v as AlertRuleType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ALERT_RULE_TYPES) as AlertRuleType[]).map(type => (
+                    <SelectItem key={type} value={type}>{ALERT_RULE_TYPES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.rule_type === 'kpi_status' && (
+              <div className="space-y-2">
+                <Label>Statut</Label>
+                <Select value={formData.params.status || 'red'} onValueChange={(v) => setParams({ status: v as 'red' | 'orange' })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="red">Zone rouge</SelectItem>
+                    <SelectItem value="orange">Zone orange</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {formData.rule_type === 'kpi_threshold' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Opérateur</Label>
+                  <Select
+                    value={formData.params.operator || 'lt'}
+                    onValueChange={(v) => setParams({ operator: v as AlertRuleParams['operator'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(OPERATOR_SYMBOLS).map(([value, symbol]) => (
+                        <SelectItem key={value} value={value}>{symbol}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleThreshold">Seuil</Label>
+                  <Input
+                    id="ruleThreshold"
+                    type="number"
+                    step="any"
+                    value={formData.params.value ?? ''}
+                    onChange={(e) => setParams({ value: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleConsecutive">Valeurs consécutives</Label>
+                  <Input
+                    id="ruleConsecutive"
+                    type="number"
+                    min="1"
+                    value={formData.params.consecutive ?? 1}
+                    onChange={(e) => setParams({ consecutive: Math.max(1, parseInt(e.target.value) || 1) })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {(formData.rule_type === 'problem_severity' || formData.rule_type === 'open_problems') && (
+              <div className="space-y-2">
+                <Label>Gravités prises en compte</Label>
+                <div className="flex flex-wrap gap-4">
+                  {PROBLEM_SEVERITIES.map(severity => (
+                    <label key={severity.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={!!formData.params.severities?.includes(severity.value)}
+                        onCheckedChange={(checked) => setParams({ severities: toggle(formData.params.severities, severity.value, checked === true) })}
+                      />
+                      {severity.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Aucune case cochée : toutes les gravités</p>
+              </div>
+            )}
+
+            {formData.rule_type === 'open_problems' && (
+              <div className="space-y-2">
+                <Label htmlFor="ruleMaxOpen">Alerter au-delà de (problèmes ouverts par catégorie)</Label>
+                <Input
+                  id="ruleMaxOpen"
+                  type="number"
+                  min="0"
+                  value={formData.params.max_open ?? 0}
+                  onChange={(e) => setParams({ max_open: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-32"
+                />
+              </div>
+            )}
+
+            {(formData.rule_type === 'action_overdue' || formData.rule_type === 'action_due_today') && (
+              <div className="space-y-2">
+                <Label>Priorités prises en compte</Label>
+                <div className="flex flex-wrap gap-4">
+                  {PRIORITIES.map(priority => (
+                    <label key={priority.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={!!formData.params.priorities?.includes(priority.value)}
+                        onCheckedChange={(checked) => setParams({ priorities: toggle(formData.params.priorities, priority.value, checked === true) })}
+                      />
+                      {priority.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Aucune case cochée : toutes les priorités</p>
+              </div>
+            )}
+
+            {formData.rule_type === 'action_stale' && (
+              <div className="space-y-2">
+                <Label htmlFor="ruleDays">Sans mise à jour depuis (jours)</Label>
+                <Input
+                  id="ruleDays"
+                  type="number"
+                  min="1"
+                  value={formData.params.days ?? 7}
+                  onChange={(e) => setParams({ days: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-32"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Scope */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Périmètre</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Board</Label>
+                <Select
+                  value={formData.board_id}
+                  onValueChange={(v) => setFormData(prev => ({ ...prev, board_id: v, category_id: ALL, kpi_id: ALL }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Tous les boards</SelectItem>
+                    {boards.map(board => (
+                      <SelectItem key={board.id} value={board.id}>{board.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Catégorie</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(v) => setFormData(prev => ({ ...prev, category_id: v, kpi_id: ALL }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Toutes les catégories</SelectItem>
+                    {categories?.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {target === 'kpi' && (
+                <div className="space-y-2 col-span-2">
+                  <Label>KPI</Label>
+                  <Select value={formData.kpi_id} onValueChange={(v) => setFormData(prev => ({ ...prev, kpi_id: v }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Tous les KPIs</SelectItem>
+                      {kpis?.map(kpi => (
+                        <SelectItem key={kpi.id} value={kpi.id}>{kpi.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Alert */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Alerte</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Sévérité</Label>
+                <Select value={formData.severity} onValueChange={(v) => setFormData(prev => ({ ...prev, severity: v as AlertSeverity }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map(severity => (
+                      <SelectItem key={severity.value} value={severity.value}>{severity.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Destinataires</Label>
+                <Select
+                  value={formData.audience_role}
+                  onValueChange={(v) => setFormData(prev => ({ ...prev, audience_role: v as AppRole | 'all' }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUDIENCES.map(audience => (
+                      <SelectItem key={audience.value} value={audience.value}>{audience.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleCooldown">Délai avant nouvelle alerte (min)</Label>
+                <Input
+                  id="ruleCooldown"
+                  type="number"
+                  min="0"
+                  value={formData.cooldown_minutes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, cooldown_minutes: e.target.value }))}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border border-border/50 bg-muted/20 p-3 self-end">
+                <Label htmlFor="ruleActive" className="text-sm">Règle active</Label>
+                <Switch
+                  id="ruleActive"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuler
+            </Button>
+            <Button type="submit" disabled={saveRule.isPending}>
+              {saveRule.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? 'Enregistrer' : 'Créer la règle'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
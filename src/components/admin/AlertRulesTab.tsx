@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertRuleDialog } from '@/components/admin/AlertRuleDialog';
+import { useAlertRules, useToggleAlertRule, useDeleteAlertRule } from '@/hooks/useAlertRules';
+import { useBoard } from '@/contexts/BoardContext';
+import { useCategories } from '@/hooks/useSfmData';
+import { ALERT_RULE_TYPES, describeAlertRule } from '@/lib/alertRules';
+import { AlertRule, AlertSeverity, AppRole } from '@/types/sfm';
+import { BellRing, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const SEVERITY_STYLES: Record<AlertSeverity, { label: string; color: string }> = {
+  critical: { label: 'Critique', color: 'hsl(var(--status-red))' },
+  high: { label: 'Haute', color: 'hsl(var(--status-orange))' },
+  medium: { label: 'Moyenne', color: 'hsl(var(--primary))' },
+  low: { label: 'Basse', color: 'hsl(var(--muted-foreground))' },
+};
+
+const AUDIENCE_LABELS: Record<AppRole, string> = {
+  admin: 'Admins',
+  manager: 'Managers',
+  team_leader: 'Chefs d\'équipe +',
+  operator: 'Tous',
+};
+
+export function AlertRulesTab() {
+  const { boards } = useBoard();
+  const { data: rules, isLoading } = useAlertRules();
+  const { data: categories } = useCategories(boards.map(b => b.id));
+  const toggleRule = useToggleAlertRule();
+  const deleteRule = useDeleteAlertRule();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+
+  const scopeLabel = (rule: AlertRule) => {
+    const parts = [
+      rule.board_id && boards.find(b => b.id === rule.board_id)?.name,
+      rule.category_id && categories?.find(c => c.id === rule.category_id)?.name,
+      rule.kpi_id && 'KPI ciblé',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : 'Tout le site';
+  };
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Règles d'alerte
+          </CardTitle>
+          <CardDescription>
+            Conditions vérifiées à chaque génération des alertes, par périmètre et destinataires
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nouvelle règle
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Règle</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Périmètre</TableHead>
+                <TableHead>Sévérité</TableHead>
+                <TableHead>Destinataires</TableHead>
+                <TableHead>Délai</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!rules || rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    Aucune règle configurée, aucune alerte ne sera générée
+                  </TableCell>
+                </TableRow>
+              ) : rules.map(rule => (
+                <TableRow key={rule.id} className={rule.is_active ? undefined : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium">{rule.name}</div>
+                    <div className="text-xs text-muted-foreground">{ALERT_RULE_TYPES[rule.rule_type].label}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{describeAlertRule(rule)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{scopeLabel(rule)}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      style={{ borderColor: SEVERITY_STYLES[rule.severity].color, color: SEVERITY_STYLES[rule.severity].color }}
+                    >
+                      {SEVERITY_STYLES[rule.severity].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{rule.audience_role ? AUDIENCE_LABELS[rule.audience_role] : 'Tous'}</TableCell>
+                  <TableCell className="text-sm font-mono-data">
+                    {rule.cooldown_minutes > 0 ? `${rule.cooldown_minutes} min` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={(checked) => toggleRule.mutate({ id: rule.id, is_active: checked })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => openDialog(rule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => deleteRule.mutate(rule.id)}
+                        disabled={deleteRule.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertRuleDialog open={dialogOpen} onOpenChange={setDialogOpen} rule={editingRule} />
+    </Card>
+  );
+}
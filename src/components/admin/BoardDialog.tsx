@@ -0,0 +1,217 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Board, BoardLevel } from '@/types/sfm';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfiles } from '@/hooks/useSfmData';
+import { useBoardMembers, useSaveBoard, getDescendantBoardIds } from '@/hooks/useBoards';
+import { useBoard } from '@/contexts/BoardContext';
+
+interface BoardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  board?: Board | null;
+  defaultParentId?: string;
+}
+
+const BOARD_LEVELS: { value: BoardLevel; label: string }[] = [
+  { value: 'site', label: 'Site' },
+  { value: 'area', label: 'Zone' },
+  { value: 'line', label: 'Ligne' },
+];
+
+const NO_PARENT = 'none';
+
+export function BoardDialog({ open, onOpenChange, board, defaultParentId }: BoardDialogProps) {
+  const { user, role } = useAuth();
+  const { boards } = useBoard();
+  const { data: profiles } = useProfiles();
+  const { data: memberIds } = useBoardMembers(board?.id);
+  const saveBoard = useSaveBoard();
+  const isEditing = !!board;
+  // Root boards are created and re-parented by admins only
+  const canUseRoot = role === 'admin';
+  const firstBoardId = boards[0]?.id;
+
+  const [formData, setFormData] = useState({
+    name: '',
+    code: '',
+    level: 'line' as BoardLevel,
+    parent_id: NO_PARENT,
+    display_order: 0,
+  });
+  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (board) {
+      setFormData({
+        name: board.name,
+        code: board.code,
+        level: board.level,
+        parent_id: board.parent_id || NO_PARENT,
+        display_order: board.display_order,
+      });
+    } else {
+      setFormData({
+        name: '',
+        code: '',
+        level: defaultParentId || !canUseRoot ? 'line' : 'site',
+        parent_id: defaultParentId || (canUseRoot ? NO_PARENT : firstBoardId ?? NO_PARENT),
+        display_order: 0,
+      });
+      setSelectedMembers(user ? [user.id] : []);
+    }
+  }, [board, defaultParentId, user, open, canUseRoot, firstBoardId]);
+
+  useEffect(() => {
+    if (board && memberIds) {
+      setSelectedMembers(memberIds);
+    }
+  }, [board, memberIds]);
+
+  // A board cannot be attached below itself or one of its descendants
+  const parentOptions = useMemo(() => {
+    if (!board) return boards;
+    const excluded = new Set([board.id, ...getDescendantBoardIds(boards, board.id)]);
+    return boards.filter(b => !excluded.has(b.id));
+  }, [boards, board]);
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setSelectedMembers(prev => checked ? [...prev, userId] : prev.filter(id => id !== userId));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name || !formData.code) {
+      toast.error('Veuillez remplir tous les champs obligatoires');
+      return;
+    }
+    saveBoard.mutate({
+      id: board?.id,
+      name: formData.name,
+      code: formData.code,
+      level: formData.level,
+      parent_id: formData.parent_id === NO_PARENT ? null : formData.parent_id,
+      display_order: formData.display_order,
+      created_by: isEditing ? undefined : user?.id,
+      memberIds: selectedMembers,
+    }, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Modifier le tableau' : 'Nouveau tableau'}</DialogTitle>
+          <DialogDescription>
+            {isEditing ? 'Modifiez le tableau et ses membres' : 'Créez un site, une zone ou une ligne de production'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="board-name">Nom *</Label>
+              <Input
+                id="board-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Ex: Ligne 2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="board-code">Code *</Label>
+              <Input
+                id="board-code"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase().slice(0, 10) }))}
+                placeholder="Ex: L2"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Niveau</Label>
+              <Select
+                value={formData.level}
+                onValueChange={(value: BoardLevel) => setFormData(prev => ({ ...prev, level: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOARD_LEVELS.map((level) => (
+                    <SelectItem key={level.value} value={level.value}>
+                      {level.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tableau parent</Label>
+              <Select
+                value={formData.parent_id}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, parent_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT} disabled={!canUseRoot}>Aucun (racine)</SelectItem>
+                  {parentOptions.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Membres ({selectedMembers.length})</Label>
+            <ScrollArea className="h-48 rounded-md border p-2">
+              <div className="space-y-2">
+                {profiles?.map((profile) => (
+                  <label key={profile.user_id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedMembers.includes(profile.user_id)}
+                      onCheckedChange={(checked) => toggleMember(profile.user_id, checked === true)}
+                    />
+                    <span className="truncate">{profile.full_name}</span>
+                    <span className="text-xs text-muted-foreground truncate">{profile.email}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+            <p className="text-xs text-muted-foreground">
+              Les membres d'un tableau ont aussi accès à ses sous-tableaux
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuler
+            </Button>
+            <Button type="submit" disabled={saveBoard.isPending}>
+              {saveBoard.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? 'Modifier' : 'Créer'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ interface CategoryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   category?: SfmCategory | null;
+  boardId?: string;
 }
 
 const ICONS = [
@@ -38,7 +39,7 @@ const COLORS = [
   { value: '#6366F1', label: 'Indigo' },
 ];
 
-export function CategoryDialog({ open, onOpenChange, category }: CategoryDialogProps) {
+export function CategoryDialog({ open, onOpenChange, category, boardId }: CategoryDialogProps) {
   const queryClient = useQueryClient();
   const isEditing = !!category;
 
@@ -79,9 +80,10 @@ export function CategoryDialog({ open, onOpenChange, category }: CategoryDialogP
           .eq('id', category.id);
         if (error) throw error;
       } else {
+        if (!boardId) throw new Error('Aucun tableau sélectionné');
         const { error } = await supabase
           .from('sfm_categories')
-          .insert(data);
+          .insert({ ...data, board_id: boardId });
         if (error) throw error;
       }
     },
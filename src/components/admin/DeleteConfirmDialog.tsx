@@ -1,5 +1,4 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
+import { useSoftDelete } from '@/hooks/useTrash';
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -10,7 +9,6 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { toast } from 'sonner';
 
 interface DeleteConfirmDialogProps {
   open: boolean;
@@ -27,31 +25,14 @@ export function DeleteConfirmDialog({
   itemId, 
   itemName 
 }: DeleteConfirmDialogProps) {
-  const queryClient = useQueryClient();
+  const softDelete = useSoftDelete();
 
-  const deleteMutation = useMutation({
-    mutationFn: async () => {
-      const table = itemType === 'category' ? 'sfm_categories' : 'kpis';
-      const { error } = await supabase
-        .from(table)
-        .delete()
-        .eq('id', itemId);
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [itemType === 'category' ? 'categories' : 'kpis'] });
-      toast.success(`${itemType === 'category' ? 'Catégorie' : 'KPI'} supprimé(e)`);
-      onOpenChange(false);
-    },
-    onError: (error: any) => {
-      console.error('Error deleting:', error);
-      if (error.message?.includes('violates foreign key constraint')) {
-        toast.error(`Impossible de supprimer: des données sont liées à ${itemType === 'category' ? 'cette catégorie' : 'ce KPI'}`);
-      } else {
-        toast.error('Erreur lors de la suppression');
-      }
-    },
-  });
+  const handleDelete = () => {
+    softDelete.mutate(
+      { table: itemType === 'category' ? 'sfm_categories' : 'kpis', id: itemId },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
 
   return (
     <AlertDialog open={open} onOpenChange={onOpenChange}>
@@ -59,13 +40,15 @@ export function DeleteConfirmDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Confirmer la suppression</AlertDialogTitle>
           <AlertDialogDescription>
-            Êtes-vous sûr de vouloir supprimer "{itemName}" ? Cette action est irréversible.
+            "{itemName}" sera déplacé(e) dans la corbeille
+            {itemType === 'category' && ' avec ses KPIs et ses actions'}.
+            Un manager pourra le restaurer depuis l'onglet Corbeille.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
           <AlertDialogCancel>Annuler</AlertDialogCancel>
           <AlertDialogAction
-            onClick={() => deleteMutation.mutate()}
+            onClick={handleDelete}
             className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
           >
             Supprimer
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useBoard } from '@/contexts/BoardContext';
+import {
+  useDisplayTokens,
+  useCreateDisplayToken,
+  useRevokeDisplayToken,
+  useDeleteDisplayToken,
+  getKioskUrl,
+} from '@/hooks/useDisplayTokens';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Ban, Copy, ExternalLink, Monitor, Plus, Trash2 } from 'lucide-react';
+
+export function DisplayTokensTab() {
+  const { boards, currentBoard } = useBoard();
+  const { data: tokens, isLoading } = useDisplayTokens();
+  const createToken = useCreateDisplayToken();
+  const revokeToken = useRevokeDisplayToken();
+  const deleteToken = useDeleteDisplayToken();
+
+  const [name, setName] = useState('');
+  const [boardId, setBoardId] = useState('');
+  const [rotateSeconds, setRotateSeconds] = useState(20);
+  // Shown once, right after creation
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const selectedBoardId = boardId || currentBoard?.id || '';
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !selectedBoardId) return;
+    createToken.mutate(
+      { name: name.trim(), boardId: selectedBoardId, rotateSeconds },
+      {
+        onSuccess: (token) => {
+          setName('');
+          setCreatedUrl(getKioskUrl(token));
+        },
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    await navigator.clipboard.writeText(createdUrl);
+    toast.success('Lien copié');
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Écrans d'affichage
+        </CardTitle>
+        <CardDescription>
+          Lien en lecture seule pour afficher un tableau sur un écran d'atelier sans connexion utilisateur
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-[1fr_1fr_auto_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="display-name">Nom de l'écran</Label>
+            <Input
+              id="display-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Salle de réunion ligne 2"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tableau</Label>
+            <Select value={selectedBoardId} onValueChange={setBoardId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choisir un tableau" />
+              </SelectTrigger>
+              <SelectContent>
+                {boards.map(board => (
+                  <SelectItem key={board.id} value={board.id}>{board.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="display-rotate">Rotation (s)</Label>
+            <Input
+              id="display-rotate"
+              type="number"
+              min="5"
+              max="600"
+              value={rotateSeconds}
+              onChange={(e) => setRotateSeconds(parseInt(e.target.value) || 20)}
+              className="w-24"
+            />
+          </div>
+          <Button type="submit" disabled={!name.trim() || !selectedBoardId || createToken.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Créer
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Écran</TableHead>
+                <TableHead>Tableau</TableHead>
+                <TableHead>Jeton</TableHead>
+                <TableHead>Rotation</TableHead>
+                <TableHead>Dernier accès</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!tokens?.length ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    Aucun écran d'affichage
+                  </TableCell>
+                </TableRow>
+              ) : tokens.map(token => (
+                <TableRow key={token.id} className={token.revoked_at ? 'opacity-60' : undefined}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell>{token.board?.name || '-'}</TableCell>
+                  <TableCell className="font-mono text-xs">••••{token.token_hint}</TableCell>
+                  <TableCell>{token.rotate_seconds} s</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {token.last_used_at
+                      ? format(new Date(token.last_used_at), 'dd/MM/yyyy HH:mm', { locale: fr })
+                      : 'Jamais'}
+                  </TableCell>
+                  <TableCell>
+                    {token.revoked_at ? (
+                      <Badge variant="outline" className="text-destructive border-destructive/30">Révoqué</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-[hsl(var(--status-green))] border-[hsl(var(--status-green))]/30">Actif</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {!token.revoked_at && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => revokeToken.mutate(token.id)}
+                          disabled={revokeToken.isPending}
+                          title="Révoquer"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => deleteToken.mutate(token.id)}
+                        disabled={deleteToken.isPending}
+                        title="Supprimer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!createdUrl} onOpenChange={(open) => !open && setCreatedUrl(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Lien de l'écran</DialogTitle>
+            <DialogDescription>
+              Ouvrez ce lien sur l'écran d'atelier. Il ne sera plus affiché ensuite : copiez-le maintenant.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input value={createdUrl || ''} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" asChild>
+              <a href={createdUrl || '#'} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
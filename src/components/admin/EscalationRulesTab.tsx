@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEscalationRules, useSaveEscalationRule, useDeleteEscalationRule } from '@/hooks/useEscalation';
+import { AppRole, EscalationRule, ProblemSeverity } from '@/types/sfm';
+import { ArrowUpCircle, Plus, Save, Trash2 } from 'lucide-react';
+
+const SEVERITIES: { value: ProblemSeverity; label: string; color: string }[] = [
+  { value: 'critical', label: 'Critique', color: 'hsl(var(--status-red))' },
+  { value: 'high', label: 'Haute', color: 'hsl(var(--status-orange))' },
+  { value: 'medium', label: 'Moyenne', color: 'hsl(var(--primary))' },
+  { value: 'low', label: 'Basse', color: 'hsl(var(--muted-foreground))' },
+];
+
+const TARGET_ROLES: { value: AppRole; label: string }[] = [
+  { value: 'team_leader', label: 'Chefs d\'équipe' },
+  { value: 'manager', label: 'Managers' },
+  { value: 'admin', label: 'Directeurs (admins)' },
+];
+
+function EscalationRuleRow({ rule }: { rule: EscalationRule }) {
+  const saveRule = useSaveEscalationRule();
+  const deleteRule = useDeleteEscalationRule();
+  const [draft, setDraft] = useState(rule);
+
+  useEffect(() => {
+    setDraft(rule);
+  }, [rule]);
+
+  const isDirty = draft.label !== rule.label
+    || draft.after_hours !== rule.after_hours
+    || draft.target_role !== rule.target_role
+    || draft.target_scope !== rule.target_scope
+    || draft.reassign !== rule.reassign;
+
+  const handleSave = () => {
+    if (!draft.label.trim() || draft.after_hours <= 0) return;
+    saveRule.mutate({
+      id: rule.id,
+      severity: rule.severity,
+      level: rule.level,
+      label: draft.label.trim(),
+      after_hours: draft.after_hours,
+      target_role: draft.target_role,
+      target_scope: draft.target_scope,
+      reassign: draft.reassign,
+    });
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-mono">N{rule.level}</TableCell>
+      <TableCell>
+        <Input
+          value={draft.label}
+          onChange={(e) => setDraft(prev => ({ ...prev, label: e.target.value }))}
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="1"
+            value={draft.after_hours}
+            onChange={(e) => setDraft(prev => ({ ...prev, after_hours: parseInt(e.target.value) || 0 }))}
+            className="h-8 w-20"
+          />
+          <span className="text-sm text-muted-foreground">h</span>
+        </div>
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Select
+            value={draft.target_role}
+            onValueChange={(v) => setDraft(prev => ({ ...prev, target_role: v as AppRole }))}
+          >
+            <SelectTrigger className="h-8 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TARGET_ROLES.map(role => (
+                <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.target_scope}
+            onValueChange={(v) => setDraft(prev => ({ ...prev, target_scope: v as EscalationRule['target_scope'] }))}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="board">du board</SelectItem>
+              <SelectItem value="site">du site</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={draft.reassign}
+          onCheckedChange={(checked) => setDraft(prev => ({ ...prev, reassign: checked }))}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={handleSave} disabled={!isDirty || saveRule.isPending}>
+            <Save className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-destructive hover:text-destructive"
+            onClick={() => deleteRule.mutate(rule.id)}
+            disabled={deleteRule.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function EscalationRulesTab() {
+  const { data: rules, isLoading } = useEscalationRules();
+  const saveRule = useSaveEscalationRule();
+
+  const handleAddLevel = (severity: ProblemSeverity) => {
+    const levels = rules?.filter(r => r.severity === severity) || [];
+    const last = levels[levels.length - 1];
+    saveRule.mutate({
+      severity,
+      level: (last?.level || 0) + 1,
+      label: `Niveau ${(last?.level || 0) + 1}`,
+      after_hours: (last?.after_hours || 0) + 24,
+      target_role: last?.target_role || 'manager',
+      target_scope: last?.target_scope || 'site',
+      reassign: true,
+    });
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowUpCircle className="h-5 w-5" />
+          Matrice d'escalade
+        </CardTitle>
+        <CardDescription>
+          Délai après la création d'un problème non résolu avant son escalade au niveau suivant
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-16 w-full" />)}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {SEVERITIES.map(severity => {
+              const severityRules = rules?.filter(r => r.severity === severity.value) || [];
+              return (
+                <div key={severity.value} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline" style={{ borderColor: severity.color, color: severity.color }}>
+                      {severity.label}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleAddLevel(severity.value)}
+                      disabled={saveRule.isPending}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Ajouter un niveau
+                    </Button>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Niveau</TableHead>
+                        <TableHead>Libellé</TableHead>
+                        <TableHead>Après</TableHead>
+                        <TableHead>Destinataires</TableHead>
+                        <TableHead>Réassigner</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {severityRules.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center text-muted-foreground">
+                            Aucune escalade pour cette sévérité
+                          </TableCell>
+                        </TableRow>
+                      ) : severityRules.map(rule => (
+                        <EscalationRuleRow key={rule.id} rule={rule} />
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useQueryClient, useMutation, useQuery } from '@tanstack/react-query';
+import { useQueryClient, useMutation } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useCategories } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -49,18 +51,8 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
   const queryClient = useQueryClient();
   const isEditing = !!kpi;
 
-  const { data: categories } = useQuery({
-    queryKey: ['categories'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('sfm_categories')
-        .select('*')
-        .eq('is_active', true)
-        .order('display_order');
-      if (error) throw error;
-      return data;
-    },
-  });
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -73,6 +65,7 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
     warning_threshold: '',
     critical_threshold: '',
     chart_type: 'time_series' as 'time_series' | 'pareto' | 'histogram' | 'control_chart' | 'box_plot',
+    spc_baseline_size: '20',
     display_order: '0',
     is_active: true,
   });
@@ -90,6 +83,7 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
         warning_threshold: (kpi as any).warning_threshold?.toString() || '',
         critical_threshold: (kpi as any).critical_threshold?.toString() || '',
         chart_type: kpi.chart_type || 'time_series',
+        spc_baseline_size: kpi.spc_baseline_size?.toString() || '20',
         display_order: (kpi as any).display_order?.toString() || '0',
         is_active: kpi.is_active ?? true,
       });
@@ -105,6 +99,7 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
         warning_threshold: '',
         critical_threshold: '',
         chart_type: 'time_series',
+        spc_baseline_size: '20',
         display_order: '0',
         is_active: true,
       });
@@ -124,6 +119,7 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
         warning_threshold: data.warning_threshold ? parseFloat(data.warning_threshold) : null,
         critical_threshold: data.critical_threshold ? parseFloat(data.critical_threshold) : null,
         chart_type: data.chart_type,
+        spc_baseline_size: parseInt(data.spc_baseline_size) || 20,
         display_order: parseInt(data.display_order) || 0,
         is_active: data.is_active,
       };
@@ -158,6 +154,11 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
       toast.error('Veuillez remplir tous les champs obligatoires');
       return;
     }
+    const baselineSize = Number(formData.spc_baseline_size || 20);
+    if (!Number.isInteger(baselineSize) || baselineSize < 2) {
+      toast.error('La période de référence SPC doit compter au moins 2 valeurs');
+      return;
+    }
     saveMutation.mutate(formData);
   };
 
@@ -366,6 +367,24 @@ export function KpiDialog({ open, onOpenChange, kpi, defaultCategoryId }: KpiDia
                 </Select>
               </div>
 
+              {formData.chart_type === 'control_chart' && (
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="spc_baseline_size">Période de référence SPC (nombre de valeurs)</Label>
+                  <Input
+                    id="spc_baseline_size"
+                    type="number"
+                    min="2"
+                    step="1"
+                    value={formData.spc_baseline_size}
+                    onChange={(e) => setFormData(prev => ({ ...prev, spc_baseline_size: e.target.value }))}
+                    placeholder="20"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    La moyenne et les limites de contrôle (±3σ) sont calculées sur les premières valeurs saisies
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="order">Ordre d'affichage</Label>
                 <Input
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useTrash, useRestoreItem, usePurgeItem, useTrashDependants } from '@/hooks/useTrash';
+import { TrashItem, TrashTable } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Trash2, RotateCcw } from 'lucide-react';
+
+const TABLE_LABELS: Record<TrashTable, string> = {
+  sfm_categories: 'Catégorie',
+  kpis: 'KPI',
+  actions: 'Action',
+};
+
+const DEPENDANT_LABELS: Record<string, string> = {
+  kpis: 'KPI(s)',
+  kpi_values: 'valeur(s) KPI',
+  actions: 'action(s)',
+  action_templates: 'modèle(s) d\'action',
+  problems: 'problème(s)',
+  notes: 'note(s)',
+  attachments: 'pièce(s) jointe(s)',
+};
+
+export function TrashTab() {
+  const { data: items, isLoading } = useTrash();
+  const restoreItem = useRestoreItem();
+  const purgeItem = usePurgeItem();
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem | null>(null);
+  const { data: dependants, isLoading: dependantsLoading } = useTrashDependants(purgeTarget);
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Corbeille
+        </CardTitle>
+        <CardDescription>
+          Restaurez les éléments supprimés par erreur ou supprimez-les définitivement
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-16 w-full" />)}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Nom</TableHead>
+                <TableHead>Catégorie</TableHead>
+                <TableHead>Supprimé le</TableHead>
+                <TableHead>Par</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items?.length ? items.map((item) => (
+                <TableRow key={`${item.table}-${item.id}`}>
+                  <TableCell>
+                    <Badge variant="outline">{TABLE_LABELS[item.table]}</Badge>
+                  </TableCell>
+                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{item.context || '-'}</TableCell>
+                  <TableCell className="text-sm">
+                    {format(new Date(item.deleted_at), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                  </TableCell>
+                  <TableCell className="text-sm">{item.deleter?.full_name || '-'}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => restoreItem.mutate({ table: item.table, id: item.id })}
+                        disabled={restoreItem.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restaurer
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setPurgeTarget(item)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    La corbeille est vide
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer définitivement</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{purgeTarget?.name}" sera supprimé(e) définitivement
+              {dependants?.length ? ', ainsi que :' : '.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {dependants && dependants.length > 0 && (
+            <ul className="list-disc pl-6 text-sm">
+              {dependants.map((d) => (
+                <li key={d.kind}>{d.total} {DEPENDANT_LABELS[d.kind] || d.kind}</li>
+              ))}
+            </ul>
+          )}
+          <p className="text-sm text-muted-foreground">Cette action est irréversible.</p>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={dependantsLoading}
+              onClick={() => purgeTarget && purgeItem.mutate({ table: purgeTarget.table, id: purgeTarget.id })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Supprimer définitivement
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
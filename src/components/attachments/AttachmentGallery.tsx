@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AttachmentUpload } from '@/components/attachments/AttachmentUpload';
+import { useAttachments, useDeleteAttachment } from '@/hooks/useAttachments';
+import { useAuth } from '@/hooks/useAuth';
+import { Attachment, AttachmentEntity } from '@/types/sfm';
+import { cn } from '@/lib/utils';
+import { FileText, X } from 'lucide-react';
+
+interface AttachmentGalleryProps {
+  entity: AttachmentEntity;
+  entityId: string;
+  canUpload?: boolean;
+  className?: string;
+}
+
+const isImage = (attachment: Attachment) => attachment.mime_type?.startsWith('image/');
+
+export function AttachmentGallery({ entity, entityId, canUpload = false, className }: AttachmentGalleryProps) {
+  const { data: attachments } = useAttachments(entity, entityId);
+  const deleteAttachment = useDeleteAttachment();
+  const { user, hasPermission } = useAuth();
+  const [preview, setPreview] = useState<Attachment | null>(null);
+
+  const canDelete = (attachment: Attachment) =>
+    attachment.uploaded_by === user?.id || hasPermission(['admin', 'manager']);
+
+  if (!attachments?.length && !canUpload) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {!!attachments?.length && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="relative group">
+              {isImage(attachment) ? (
+                <button
+                  type="button"
+                  onClick={() => setPreview(attachment)}
+                  className="block h-14 w-14 rounded-md overflow-hidden border border-border/50 bg-muted"
+                >
+                  <img
+                    src={attachment.url}
+                    alt={attachment.file_name}
+                    loading="lazy"
+                    className="h-full w-full object-cover"
+                  />
+                </button>
+              ) : (
+                <a
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={attachment.file_name}
+                  className="flex flex-col items-center justify-center h-14 w-14 rounded-md border border-border/50 bg-muted text-muted-foreground hover:text-foreground"
+                >
+                  <FileText className="h-5 w-5" />
+                  <span className="text-[10px] w-full truncate px-1 text-center">{attachment.file_name}</span>
+                </a>
+              )}
+              {canDelete(attachment) && (
+                <button
+                  type="button"
+                  onClick={() => deleteAttachment.mutate(attachment)}
+                  className="absolute -top-1.5 -right-1.5 hidden group-hover:flex h-4 w-4 items-center justify-center rounded-full bg-destructive text-destructive-foreground"
+                  aria-label="Supprimer la pièce jointe"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canUpload && <AttachmentUpload entity={entity} entityId={entityId} />}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{preview?.file_name}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <img src={preview.url} alt={preview.file_name} className="w-full max-h-[75vh] object-contain rounded-md" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useUploadAttachment } from '@/hooks/useAttachments';
+import { AttachmentEntity } from '@/types/sfm';
+import { Camera, Loader2, Paperclip } from 'lucide-react';
+
+interface AttachmentUploadProps {
+  entity: AttachmentEntity;
+  entityId: string;
+}
+
+export function AttachmentUpload({ entity, entityId }: AttachmentUploadProps) {
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const upload = useUploadAttachment();
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    for (const file of files) {
+      await upload.mutateAsync({ entity, entityId, file }).catch(() => undefined);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {/* capture opens the rear camera directly on mobile devices */}
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={handleFiles}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*,application/pdf"
+        multiple
+        className="hidden"
+        onChange={handleFiles}
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="h-7 text-xs"
+        onClick={() => cameraInputRef.current?.click()}
+        disabled={upload.isPending}
+      >
+        <Camera className="h-3 w-3 mr-1" />
+        Photo
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="h-7 text-xs"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={upload.isPending}
+      >
+        {upload.isPending
+          ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          : <Paperclip className="h-3 w-3 mr-1" />}
+        Fichier
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useActivityLog } from '@/hooks/useComments';
+import { ActivityEntry, ActivityEvent, DiscussionEntity } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ArrowUpCircle, CalendarClock, PlusCircle, RefreshCw, UserCheck } from 'lucide-react';
+
+interface ActivityTimelineProps {
+  entity: DiscussionEntity;
+  entityId: string;
+}
+
+const eventIcons: Record<ActivityEvent, React.ElementType> = {
+  created: PlusCircle,
+  status_changed: RefreshCw,
+  reassigned: UserCheck,
+  due_date_changed: CalendarClock,
+  escalated: ArrowUpCircle,
+};
+
+// Action and problem statuses
+const statusLabels: Record<string, string> = {
+  todo: 'À faire',
+  in_progress: 'En cours',
+  pending_validation: 'À valider',
+  completed: 'Terminée',
+  overdue: 'En retard',
+  open: 'Ouvert',
+  resolved: 'Résolu',
+};
+
+const formatDate = (value?: string | null) =>
+  value ? format(new Date(value), 'dd/MM/yyyy', { locale: fr }) : '-';
+
+function describeEntry(entry: ActivityEntry): string {
+  switch (entry.event) {
+    case 'created':
+      return 'Création';
+    case 'status_changed':
+      return `Statut : ${statusLabels[entry.old_value || ''] || entry.old_value} → ${statusLabels[entry.new_value || ''] || entry.new_value}`;
+    case 'reassigned':
+      return entry.new_value ? `Assigné à ${entry.new_value}` : 'Désassigné';
+    case 'due_date_changed':
+      return `Échéance : ${formatDate(entry.old_value)} → ${formatDate(entry.new_value)}`;
+    case 'escalated':
+      return `Escaladé au niveau ${entry.new_value}`;
+    default:
+      return entry.event;
+  }
+}
+
+export function ActivityTimeline({ entity, entityId }: ActivityTimelineProps) {
+  const { data: entries, isLoading } = useActivityLog(entity, entityId);
+
+  return (
+    <ScrollArea className="h-72 rounded-md border">
+      {isLoading ? (
+        <div className="p-4 text-center text-sm text-muted-foreground">Chargement...</div>
+      ) : entries?.length ? (
+        <ol className="relative m-4 border-l border-border">
+          {entries.map((entry) => {
+            const Icon = eventIcons[entry.event] || RefreshCw;
+            return (
+              <li key={entry.id} className="mb-4 ml-5">
+                <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-muted">
+                  <Icon className="h-3 w-3 text-primary" />
+                </span>
+                <p className="text-sm">{describeEntry(entry)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                  {' · '}
+                  {entry.actor?.full_name || 'Système'}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <div className="p-8 text-center text-sm text-muted-foreground">Aucune activité</div>
+      )}
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,175 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useComments, useAddComment, useDeleteComment, useMentionableProfiles } from '@/hooks/useComments';
+import { useAuth } from '@/hooks/useAuth';
+import { Comment, DiscussionEntity } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Loader2, Send, Trash2 } from 'lucide-react';
+
+interface CommentThreadProps {
+  entity: DiscussionEntity;
+  entityId: string;
+}
+
+type MentionableProfile = { user_id: string; full_name: string };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highlight the @mentions of a comment
+function CommentContent({ comment, profiles }: { comment: Comment; profiles: MentionableProfile[] }) {
+  const names = profiles.filter(p => comment.mentions.includes(p.user_id)).map(p => p.full_name);
+  if (names.length === 0) return <>{comment.content}</>;
+
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join('|')}))`, 'g');
+  return (
+    <>
+      {comment.content.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <span key={index} className="font-medium text-primary">{part}</span>
+          : part
+      )}
+    </>
+  );
+}
+
+export function CommentThread({ entity, entityId }: CommentThreadProps) {
+  const { data: comments, isLoading } = useComments(entity, entityId);
+  const { data: profiles } = useMentionableProfiles();
+  const addComment = useAddComment();
+  const deleteComment = useDeleteComment();
+  const { user, hasPermission } = useAuth();
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [content, setContent] = useState('');
+  const [mentions, setMentions] = useState<MentionableProfile[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+
+  const suggestions = mentionQuery !== null
+    ? (profiles || [])
+        .filter(p => p.user_id !== user?.id && p.full_name.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 5)
+    : [];
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setContent(e.target.value);
+    // An @ followed by a word right before the caret opens the suggestions
+    const beforeCaret = e.target.value.slice(0, e.target.selectionStart);
+    const match = beforeCaret.match(/(?:^|\s)@([^\s@]*)$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const handleMention = (profile: MentionableProfile) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? content.length;
+    const beforeCaret = content.slice(0, caret).replace(/@([^\s@]*)$/, `@${profile.full_name} `);
+    setContent(beforeCaret + content.slice(caret));
+    setMentions(prev => prev.some(m => m.user_id === profile.user_id) ? prev : [...prev, profile]);
+    setMentionQuery(null);
+    textarea?.focus();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    addComment.mutate({
+      entity_type: entity,
+      entity_id: entityId,
+      content: content.trim(),
+      // Drop mentions that were removed from the text
+      mentions: mentions.filter(m => content.includes(`@${m.full_name}`)).map(m => m.user_id),
+    }, {
+      onSuccess: () => {
+        setContent('');
+        setMentions([]);
+      },
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && suggestions.length > 0) {
+      e.preventDefault();
+      handleMention(suggestions[0]);
+    } else if (e.key === 'Escape' && mentionQuery !== null) {
+      e.stopPropagation();
+      setMentionQuery(null);
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      handleSubmit(e);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <ScrollArea className="h-64 rounded-md border">
+        <div className="divide-y">
+          {isLoading ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">Chargement...</div>
+          ) : comments?.length ? comments.map((comment) => (
+            <div key={comment.id} className="p-3 space-y-1 text-sm group">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{comment.author?.full_name || 'Inconnu'}</span>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(comment.created_at), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                  </span>
+                  {(comment.author_id === user?.id || hasPermission(['admin', 'manager'])) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 opacity-0 group-hover:opacity-100 text-destructive"
+                      onClick={() => deleteComment.mutate(comment.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <p className="whitespace-pre-wrap">
+                <CommentContent comment={comment} profiles={profiles || []} />
+              </p>
+            </div>
+          )) : (
+            <div className="p-8 text-center text-sm text-muted-foreground">Aucun commentaire</div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <form onSubmit={handleSubmit} className="relative space-y-2">
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full mb-1 z-10 w-64 rounded-md border bg-popover shadow-md">
+            {suggestions.map((profile) => (
+              <button
+                key={profile.user_id}
+                type="button"
+                className="block w-full px-3 py-1.5 text-left text-sm hover:bg-muted"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleMention(profile)}
+              >
+                {profile.full_name}
+              </button>
+            ))}
+          </div>
+        )}
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          placeholder="Ajouter un commentaire... (@ pour mentionner)"
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={!content.trim() || addComment.isPending}>
+            {addComment.isPending
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Send className="h-4 w-4 mr-2" />}
+            Envoyer
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { format, isToday, isPast, parseISO } from 'date-fns';
 import { fr } from 'date-fns/locale';
-import { Calendar, User, AlertTriangle, Clock, CheckCircle, MoreHorizontal, Pencil, Trash2, Play, Check } from 'lucide-react';
+import { Calendar, User, AlertTriangle, Clock, CheckCircle, MoreHorizontal, Pencil, Trash2, Play, Check, Repeat, Hourglass, MessageSquareWarning } from 'lucide-react';
 import { Action } from '@/types/sfm';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
@@ -15,6 +15,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useUpdateAction, useDeleteAction } from '@/hooks/useSfmData';
 import { useAuth } from '@/hooks/useAuth';
+import { formatRecurrence } from '@/lib/recurrence';
+import { AttachmentGallery } from '@/components/attachments/AttachmentGallery';
 
 interface ActionCardProps {
   action: Action;
@@ -32,25 +34,30 @@ const priorityConfig = {
 const statusConfig = {
   todo: { label: 'À faire', icon: Clock, color: 'text-muted-foreground' },
   in_progress: { label: 'En cours', icon: Clock, color: 'text-primary' },
+  pending_validation: { label: 'À valider', icon: Hourglass, color: 'text-status-orange' },
   completed: { label: 'Terminée', icon: CheckCircle, color: 'text-status-green' },
   overdue: { label: 'En retard', icon: AlertTriangle, color: 'text-destructive' },
 };
 
 export function ActionCard({ action, compact = false, onEdit }: ActionCardProps) {
-  const { hasPermission, role } = useAuth();
+  const { hasPermission, role, user } = useAuth();
   const updateAction = useUpdateAction();
   const deleteAction = useDeleteAction();
 
   const dueDate = parseISO(action.due_date);
-  const isOverdue = isPast(dueDate) && action.status !== 'completed';
+  const isOverdue = isPast(dueDate) && action.status !== 'completed' && action.status !== 'pending_validation';
   const isDueToday = isToday(dueDate);
 
   const priority = priorityConfig[action.priority];
   const status = statusConfig[isOverdue ? 'overdue' : action.status];
   const StatusIcon = status.icon;
+  const recurrence = action.template ? formatRecurrence(action.template) : null;
 
   // All roles except operator can manage
   const canManage = role !== 'operator';
+  // The responsible can move their own action through the workflow
+  const canUpdateStatus = canManage || (!!user && action.responsible_id === user.id);
+  const isOpen = action.status !== 'completed' && action.status !== 'pending_validation';
 
   const handleStatusChange = (newStatus: 'todo' | 'in_progress' | 'completed') => {
     updateAction.mutate({
@@ -61,7 +68,7 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
   };
 
   const handleDelete = () => {
-    if (confirm('Supprimer cette action ?')) {
+    if (confirm('Déplacer cette action dans la corbeille ?')) {
       deleteAction.mutate(action.id);
     }
   };
@@ -85,7 +92,7 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
             <Badge variant="outline" className={cn("text-xs px-2 py-0.5", priority.className)}>
               {priority.label}
             </Badge>
-            {canManage && (
+            {canUpdateStatus && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button 
@@ -97,13 +104,13 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  {onEdit && (
+                  {canManage && onEdit && (
                     <DropdownMenuItem onClick={() => onEdit(action)}>
                       <Pencil className="h-3.5 w-3.5 mr-2" />
                       Modifier
                     </DropdownMenuItem>
                   )}
-                  {action.status !== 'completed' && (
+                  {isOpen && (
                     <>
                       <DropdownMenuItem onClick={() => handleStatusChange('in_progress')}>
                         <Play className="h-3.5 w-3.5 mr-2" />
@@ -115,17 +122,21 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
                       </DropdownMenuItem>
                     </>
                   )}
-                  {action.status === 'completed' && (
+                  {canManage && action.status === 'completed' && (
                     <DropdownMenuItem onClick={() => handleStatusChange('todo')}>
                       <Clock className="h-3.5 w-3.5 mr-2" />
                       Réouvrir
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem onClick={handleDelete} className="text-destructive">
-                    <Trash2 className="h-3.5 w-3.5 mr-2" />
-                    Supprimer
-                  </DropdownMenuItem>
+                  {canManage && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+                        <Trash2 className="h-3.5 w-3.5 mr-2" />
+                        Supprimer
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
@@ -141,6 +152,12 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
           )}>
             {format(dueDate, 'dd MMM.', { locale: fr })}
           </span>
+          {recurrence && (
+            <span className="flex items-center gap-1" title={recurrence}>
+              <Repeat className="h-3.5 w-3.5 flex-shrink-0" />
+              Récurrente
+            </span>
+          )}
         </div>
       </div>
     );
@@ -184,7 +201,23 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
                 <span>{action.responsible.full_name}</span>
               </div>
             )}
+
+            {recurrence && (
+              <div className="flex items-center gap-1">
+                <Repeat className="h-3.5 w-3.5" />
+                <span>{recurrence}</span>
+              </div>
+            )}
           </div>
+
+          {action.validation_comment && isOpen && (
+            <div className="flex items-start gap-1 mt-2 text-xs text-destructive">
+              <MessageSquareWarning className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+              <span>Rejetée : {action.validation_comment}</span>
+            </div>
+          )}
+
+          <AttachmentGallery entity="action" entityId={action.id} canUpload={canUpdateStatus} className="mt-3" />
         </div>
 
         <div className="flex flex-col items-end gap-2">
@@ -192,7 +225,7 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
             {priority.label}
           </Badge>
           
-          {canManage && (
+          {canUpdateStatus && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-7 w-7">
@@ -200,13 +233,13 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                {onEdit && (
+                {canManage && onEdit && (
                   <DropdownMenuItem onClick={() => onEdit(action)}>
                     <Pencil className="h-3.5 w-3.5 mr-2" />
                     Modifier
                   </DropdownMenuItem>
                 )}
-                {action.status !== 'completed' && (
+                {isOpen && (
                   <>
                     <DropdownMenuItem onClick={() => handleStatusChange('in_progress')}>
                       <Play className="h-3.5 w-3.5 mr-2" />
@@ -218,17 +251,21 @@ export function ActionCard({ action, compact = false, onEdit }: ActionCardProps)
                     </DropdownMenuItem>
                   </>
                 )}
-                {action.status === 'completed' && (
+                {canManage && action.status === 'completed' && (
                   <DropdownMenuItem onClick={() => handleStatusChange('todo')}>
                     <Clock className="h-3.5 w-3.5 mr-2" />
                     Réouvrir
                   </DropdownMenuItem>
                 )}
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={handleDelete} className="text-destructive">
-                  <Trash2 className="h-3.5 w-3.5 mr-2" />
-                  Supprimer
-                </DropdownMenuItem>
+                {canManage && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+                      <Trash2 className="h-3.5 w-3.5 mr-2" />
+                      Supprimer
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           )}
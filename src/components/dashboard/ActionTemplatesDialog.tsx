@@ -0,0 +1,97 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useActionTemplates, useSaveActionTemplate, useDeleteActionTemplate } from '@/hooks/useActionTemplates';
+import { useBoard } from '@/contexts/BoardContext';
+import { formatRecurrence } from '@/lib/recurrence';
+import { ActionTemplate } from '@/types/sfm';
+import { LayoutTemplate, Repeat, Trash2 } from 'lucide-react';
+
+interface ActionTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ActionTemplatesDialog({ open, onOpenChange }: ActionTemplatesDialogProps) {
+  const { boardIds } = useBoard();
+  const { data: templates, isLoading } = useActionTemplates(boardIds);
+  const saveTemplate = useSaveActionTemplate();
+  const deleteTemplate = useDeleteActionTemplate();
+
+  const handleToggle = (template: ActionTemplate, isActive: boolean) => {
+    saveTemplate.mutate({
+      id: template.id,
+      category_id: template.category_id,
+      title: template.title,
+      is_active: isActive,
+    });
+  };
+
+  const handleDelete = (template: ActionTemplate) => {
+    if (confirm(`Supprimer le modèle "${template.title}" ? Les actions déjà créées sont conservées.`)) {
+      deleteTemplate.mutate(template.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5 text-primary" />
+            Modèles d'actions
+          </DialogTitle>
+          <DialogDescription>
+            Les modèles se créent depuis « Nouvelle action ». Un modèle désactivé ne génère plus d'actions récurrentes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-96">
+          <div className="space-y-2 pr-3">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Chargement...</p>
+            ) : templates?.length ? templates.map((template) => {
+              const recurrence = formatRecurrence(template);
+              return (
+                <div key={template.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border/50">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium truncate">{template.title}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      {template.category && (
+                        <Badge variant="outline" className="text-xs">{template.category.name}</Badge>
+                      )}
+                      {recurrence && (
+                        <span className="flex items-center gap-1">
+                          <Repeat className="h-3 w-3" />
+                          {recurrence}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Switch
+                      checked={template.is_active}
+                      onCheckedChange={(checked) => handleToggle(template, checked)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            }) : (
+              <p className="text-sm text-muted-foreground text-center py-8">Aucun modèle</p>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
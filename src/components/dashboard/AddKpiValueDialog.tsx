@@ -6,9 +6,10 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useCategories, useKpis, useAddKpiValue, useKpiValues } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { useAuth } from '@/hooks/useAuth';
-import { Kpi, KpiStatus, KpiTrend } from '@/types/sfm';
-import { Target, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { calculateStatus, calculateTrend } from '@/lib/kpiStatus';
+import { Target, TrendingUp, TrendingDown, Minus, Plus, X } from 'lucide-react';
 
 interface AddKpiValueDialogProps {
   open: boolean;
@@ -17,66 +18,10 @@ interface AddKpiValueDialogProps {
   defaultCategoryId?: string;
 }
 
-// Calculate status based on value, target, thresholds, and performance direction
-function calculateStatus(
-  value: number,
-  target: number | null | undefined,
-  warningThreshold: number | null | undefined,
-  criticalThreshold: number | null | undefined,
-  direction: string | null | undefined
-): KpiStatus {
-  if (!target) return 'green';
-  
-  const isHigherBetter = direction !== 'lower_is_better';
-  
-  // Calculate difference from target
-  const diff = isHigherBetter ? target - value : value - target;
-  const percentDiff = Math.abs(diff / target) * 100;
-  
-  // Check against thresholds
-  if (criticalThreshold !== null && criticalThreshold !== undefined) {
-    if (diff > 0 && percentDiff >= criticalThreshold) {
-      return 'red';
-    }
-  }
-  
-  if (warningThreshold !== null && warningThreshold !== undefined) {
-    if (diff > 0 && percentDiff >= warningThreshold) {
-      return 'orange';
-    }
-  }
-  
-  // Simple comparison if no thresholds
-  if (isHigherBetter) {
-    if (value >= target) return 'green';
-    if (value >= target * 0.9) return 'orange';
-    return 'red';
-  } else {
-    if (value <= target) return 'green';
-    if (value <= target * 1.1) return 'orange';
-    return 'red';
-  }
-}
-
-// Calculate trend based on current and previous value
-function calculateTrend(
-  currentValue: number,
-  previousValue: number | null | undefined,
-  direction: string | null | undefined
-): KpiTrend {
-  if (previousValue === null || previousValue === undefined) return 'stable';
-  
-  const diff = currentValue - previousValue;
-  const threshold = Math.abs(previousValue * 0.01); // 1% threshold for stability
-  
-  if (Math.abs(diff) <= threshold) return 'stable';
-  
-  return diff > 0 ? 'up' : 'down';
-}
-
 export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCategoryId }: AddKpiValueDialogProps) {
   const { user } = useAuth();
-  const { data: categories } = useCategories();
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>(defaultCategoryId || '');
   const [selectedKpiId, setSelectedKpiId] = useState<string>(defaultKpiId || '');
   const [value, setValue] = useState('');
@@ -84,6 +29,7 @@ export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCat
   const [weekNumber, setWeekNumber] = useState('');
   const [recordedDate, setRecordedDate] = useState(new Date().toISOString().split('T')[0]);
   const [comment, setComment] = useState('');
+  const [breakdown, setBreakdown] = useState<{ cause: string; value: string }[]>([]);
 
   const { data: allKpis } = useKpis(selectedCategoryId || undefined);
   const addKpiValue = useAddKpiValue();
@@ -106,6 +52,7 @@ export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCat
       setWeekNumber('');
       setRecordedDate(new Date().toISOString().split('T')[0]);
       setComment('');
+      setBreakdown([{ cause: '', value: '' }]);
       
       // Set current week number
       const now = new Date();
@@ -122,6 +69,16 @@ export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCat
     }
   }, [allKpis, selectedKpiId]);
 
+  const isPareto = selectedKpi?.chart_type === 'pareto';
+
+  // The measured value of a Pareto KPI is the total of its causes
+  const updateBreakdown = (index: number, field: 'cause' | 'value', fieldValue: string) => {
+    const next = breakdown.map((row, i) => (i === index ? { ...row, [field]: fieldValue } : row));
+    setBreakdown(next);
+    const total = next.reduce((sum, row) => sum + (parseFloat(row.value) || 0), 0);
+    if (total > 0) setValue(total.toString());
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -130,30 +87,19 @@ export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCat
     const numValue = parseFloat(value);
     if (isNaN(numValue)) return;
 
-    // Calculate status and trend
-    const status = calculateStatus(
-      numValue,
-      selectedKpi?.target_value,
-      (selectedKpi as any)?.warning_threshold,
-      (selectedKpi as any)?.critical_threshold,
-      (selectedKpi as any)?.performance_direction
-    );
-
-    const trend = calculateTrend(
-      numValue,
-      latestValue?.value,
-      (selectedKpi as any)?.performance_direction
-    );
-
+    // Status and trend are derived by the database
     addKpiValue.mutate({
       kpi_id: selectedKpiId,
       value: numValue,
       week_number: periodType === 'week' ? parseInt(weekNumber) : undefined,
       recorded_at: recordedDate,
-      status,
-      trend,
       comment: comment || undefined,
       recorded_by: user?.id,
+      breakdown: isPareto
+        ? breakdown
+            .filter(row => row.cause.trim() && !isNaN(parseFloat(row.value)))
+            .map(row => ({ cause: row.cause.trim(), value: parseFloat(row.value) }))
+        : undefined,
     }, {
       onSuccess: () => {
         onOpenChange(false);
@@ -311,6 +257,49 @@ export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCat
             </div>
           </div>
 
+          {/* Cause breakdown (Pareto) */}
+          {isPareto && (
+            <div className="space-y-2">
+              <Label>Répartition par cause</Label>
+              {breakdown.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={row.cause}
+                    onChange={(e) => updateBreakdown(index, 'cause', e.target.value)}
+                    placeholder="Cause"
+                    className="flex-1"
+                  />
+                  <Input
+                    type="number"
+                    step="any"
+                    value={row.value}
+                    onChange={(e) => updateBreakdown(index, 'value', e.target.value)}
+                    placeholder="Valeur"
+                    className="w-28"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setBreakdown(prev => prev.filter((_, i) => i !== index))}
+                    disabled={breakdown.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setBreakdown(prev => [...prev, { cause: '', value: '' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Ajouter une cause
+              </Button>
+            </div>
+          )}
+
           {/* Status & Trend Preview */}
           {previewStatus && value && (
             <div className="p-3 rounded-lg bg-muted/50 flex items-center justify-between">
@@ -326,7 +315,7 @@ export function AddKpiValueDialog({ open, onOpenChange, defaultKpiId, defaultCat
               <div className="flex items-center gap-2">
                 <TrendIcon className="h-4 w-4" style={{ color: statusColors[previewStatus] }} />
                 <span className="text-sm text-muted-foreground">
-                  {previewTrend === 'up' ? 'Hausse' : previewTrend === 'down' ? 'Baisse' : 'Stable'}
+                  {previewTrend === 'up' ? 'Amélioration' : previewTrend === 'down' ? 'Dégradation' : 'Stable'}
                 </span>
               </div>
             </div>
@@ -1,9 +1,15 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '@/hooks/useAuth';
 import { useCreateAction, useCategories, useResponsibleProfiles } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
+import { useActionTemplates, useSaveActionTemplate } from '@/hooks/useActionTemplates';
+import { RECURRENCE_TYPES, WEEKDAYS, formatRecurrence } from '@/lib/recurrence';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -38,7 +44,15 @@ const actionSchema = z.object({
   priority: z.enum(['low', 'medium', 'high', 'urgent']),
   responsible_id: z.string().uuid().optional().nullable(),
   due_date: z.string().min(1, 'Date d\'échéance requise'),
-});
+  recurrence_type: z.enum(['none', 'daily', 'weekly', 'monthly']),
+  recurrence_weekdays: z.array(z.number().int().min(1).max(7)),
+  recurrence_day_of_month: z.coerce.number().int().min(1).max(31),
+  save_as_template: z.boolean(),
+  requires_validation: z.boolean(),
+}).refine(
+  (data) => data.recurrence_type !== 'weekly' || data.recurrence_weekdays.length > 0,
+  { message: 'Sélectionnez au moins un jour', path: ['recurrence_weekdays'] }
+);
 
 type ActionFormData = z.infer<typeof actionSchema>;
 
@@ -46,13 +60,25 @@ interface CreateActionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   defaultCategoryId?: string;
+  defaultTitle?: string;
+  // Links the new action to a problem and, optionally, to one of its root causes
+  problemId?: string;
+  problemCauseId?: string;
+  // Links the new action to a KPI as a countermeasure
+  kpiId?: string;
+  // Records the action as a decision of a running SFM meeting
+  meetingId?: string;
 }
 
-export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: CreateActionDialogProps) {
+export function CreateActionDialog({ open, onOpenChange, defaultCategoryId, defaultTitle, problemId, problemCauseId, kpiId, meetingId }: CreateActionDialogProps) {
   const { user } = useAuth();
-  const { data: categories } = useCategories();
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
   const { data: profiles } = useResponsibleProfiles();
+  const { data: templates } = useActionTemplates(boardIds);
   const createAction = useCreateAction();
+  const saveTemplate = useSaveActionTemplate();
+  const [templateId, setTemplateId] = useState<string | null>(null);
 
   const form = useForm<ActionFormData>({
     resolver: zodResolver(actionSchema),
@@ -63,10 +89,55 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
       priority: 'medium',
       responsible_id: null,
       due_date: new Date().toISOString().split('T')[0],
+      recurrence_type: 'none',
+      recurrence_weekdays: [],
+      recurrence_day_of_month: new Date().getDate(),
+      save_as_template: false,
+      requires_validation: false,
     },
   });
 
+  useEffect(() => {
+    if (!open) return;
+    setTemplateId(null);
+    if (defaultCategoryId) form.setValue('category_id', defaultCategoryId);
+    if (defaultTitle) form.setValue('title', defaultTitle);
+  }, [open, defaultCategoryId, defaultTitle, form]);
+
+  const selectedTemplate = templates?.find(t => t.id === templateId);
+  const recurrenceType = form.watch('recurrence_type');
+
+  // Prefill the form from a template; the action stays linked to it
+  const applyTemplate = (id: string) => {
+    const template = templates?.find(t => t.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    form.setValue('title', template.title);
+    form.setValue('description', template.description || '');
+    form.setValue('category_id', template.category_id);
+    form.setValue('priority', template.priority || 'medium');
+    form.setValue('responsible_id', template.responsible_id || null);
+  };
+
   const onSubmit = async (data: ActionFormData) => {
+    let linkedTemplateId = templateId;
+
+    // A recurring action is driven by its own template
+    if (!templateId && (data.recurrence_type !== 'none' || data.save_as_template)) {
+      const template = await saveTemplate.mutateAsync({
+        category_id: data.category_id,
+        title: data.title,
+        description: data.description || null,
+        priority: data.priority,
+        responsible_id: data.responsible_id || null,
+        recurrence_type: data.recurrence_type === 'none' ? null : data.recurrence_type,
+        recurrence_weekdays: data.recurrence_type === 'weekly' ? data.recurrence_weekdays : [],
+        recurrence_day_of_month: data.recurrence_type === 'monthly' ? data.recurrence_day_of_month : null,
+        created_by: user?.id,
+      });
+      linkedTemplateId = template.id;
+    }
+
     await createAction.mutateAsync({
       category_id: data.category_id,
       title: data.title,
@@ -76,6 +147,12 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
       responsible_id: data.responsible_id || undefined,
       created_by: user?.id,
       status: 'todo' as const,
+      template_id: linkedTemplateId || undefined,
+      requires_validation: data.requires_validation,
+      problem_id: problemId,
+      problem_cause_id: problemCauseId,
+      kpi_id: kpiId,
+      meeting_id: meetingId,
     });
     form.reset();
     onOpenChange(false);
@@ -83,16 +160,46 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Nouvelle action</DialogTitle>
           <DialogDescription>
-            Créez une nouvelle action à suivre
+            {problemId
+              ? 'Action liée au problème, qui reste en cours tant qu\'elle n\'est pas terminée'
+              : kpiId
+                ? 'Contre-mesure liée à l\'indicateur KPI'
+                : 'Créez une nouvelle action à suivre'}
           </DialogDescription>
         </DialogHeader>
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {templates && templates.length > 0 && (
+              <div className="space-y-2">
+                <Label>Modèle</Label>
+                <Select value={templateId || undefined} onValueChange={applyTemplate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Partir d'un modèle (optionnel)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.filter(t => t.is_active).map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        <div className="flex items-center gap-2">
+                          {template.recurrence_type && <Repeat className="h-3 w-3 text-muted-foreground" />}
+                          {template.title}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate?.recurrence_type && (
+                  <p className="text-xs text-muted-foreground">
+                    Action récurrente : {formatRecurrence(selectedTemplate)}
+                  </p>
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="title"
@@ -133,7 +240,7 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Catégorie SFM</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Sélectionner" />
@@ -164,7 +271,7 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Priorité</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Sélectionner" />
@@ -190,7 +297,7 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Responsable</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                    <Select onValueChange={field.onChange} value={field.value || undefined}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Sélectionner" />
@@ -224,11 +331,122 @@ export function CreateActionDialog({ open, onOpenChange, defaultCategoryId }: Cr
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="requires_validation"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Validation requise par un manager</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {!templateId && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <FormField
+                  control={form.control}
+                  name="recurrence_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Repeat className="h-4 w-4" />
+                        Récurrence
+                      </FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Aucune</SelectItem>
+                          {RECURRENCE_TYPES.map((type) => (
+                            <SelectItem key={type.value} value={type.value}>
+                              {type.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {recurrenceType === 'weekly' && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_weekdays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Jours</FormLabel>
+                        <div className="flex flex-wrap gap-3">
+                          {WEEKDAYS.map((day) => (
+                            <label key={day.value} className="flex items-center gap-1 text-sm cursor-pointer">
+                              <Checkbox
+                                checked={field.value.includes(day.value)}
+                                onCheckedChange={(checked) => field.onChange(
+                                  checked
+                                    ? [...field.value, day.value].sort()
+                                    : field.value.filter((d) => d !== day.value)
+                                )}
+                              />
+                              {day.label}
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrenceType === 'monthly' && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_day_of_month"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Jour du mois</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" max="31" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrenceType === 'none' && (
+                  <FormField
+                    control={form.control}
+                    name="save_as_template"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                        </FormControl>
+                        <FormLabel className="font-normal">Enregistrer comme modèle</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrenceType !== 'none' && (
+                  <p className="text-xs text-muted-foreground">
+                    L'action suivante est créée automatiquement lorsque celle-ci est terminée ou au début de sa période.
+                  </p>
+                )}
+              </div>
+            )}
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
                 Annuler
               </Button>
-              <Button type="submit" disabled={createAction.isPending}>
+              <Button type="submit" disabled={createAction.isPending || saveTemplate.isPending}>
                 {createAction.isPending ? 'Création...' : 'Créer l\'action'}
               </Button>
             </DialogFooter>
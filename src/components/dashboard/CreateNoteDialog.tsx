@@ -1,8 +1,10 @@
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '@/hooks/useAuth';
 import { useCreateNote, useCategories } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
@@ -45,11 +47,15 @@ type NoteFormData = z.infer<typeof noteSchema>;
 interface CreateNoteDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  defaultCategoryId?: string;
+  // Records the note as a decision of a running SFM meeting
+  meetingId?: string;
 }
 
-export function CreateNoteDialog({ open, onOpenChange }: CreateNoteDialogProps) {
+export function CreateNoteDialog({ open, onOpenChange, defaultCategoryId, meetingId }: CreateNoteDialogProps) {
   const { user } = useAuth();
-  const { data: categories } = useCategories();
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
   const createNote = useCreateNote();
 
   const form = useForm<NoteFormData>({
@@ -62,6 +68,10 @@ export function CreateNoteDialog({ open, onOpenChange }: CreateNoteDialogProps)
     },
   });
 
+  useEffect(() => {
+    if (open && defaultCategoryId) form.setValue('category_id', defaultCategoryId);
+  }, [open, defaultCategoryId, form]);
+
   const onSubmit = async (data: NoteFormData) => {
     await createNote.mutateAsync({
       title: data.title || undefined,
@@ -69,6 +79,7 @@ export function CreateNoteDialog({ open, onOpenChange }: CreateNoteDialogProps)
       category_id: data.category_id || undefined,
       is_pinned: data.is_pinned,
       created_by: user?.id,
+      meeting_id: meetingId,
     });
     form.reset();
     onOpenChange(false);
@@ -128,7 +139,7 @@ export function CreateNoteDialog({ open, onOpenChange }: CreateNoteDialogProps)
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Catégorie SFM (optionnel)</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                  <Select onValueChange={field.onChange} value={field.value || undefined}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Aucune catégorie" />
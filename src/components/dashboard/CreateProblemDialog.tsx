@@ -1,8 +1,11 @@
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '@/hooks/useAuth';
-import { useCreateProblem, useCategories } from '@/hooks/useSfmData';
+import { useCreateProblem, useCategories, useResponsibleProfiles } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
+import { useUploadAttachment } from '@/hooks/useAttachments';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -22,6 +25,7 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
 import {
   Select,
   SelectContent,
@@ -29,12 +33,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Camera, X } from 'lucide-react';
+import { toast } from 'sonner';
 
 const problemSchema = z.object({
   title: z.string().min(2, 'Titre requis (2 caractères minimum)').max(200),
   description: z.string().max(1000).optional(),
   category_id: z.string().uuid('Catégorie requise'),
   severity: z.enum(['low', 'medium', 'high', 'critical']),
+  assigned_to: z.string().uuid().optional().nullable(),
 });
 
 type ProblemFormData = z.infer<typeof problemSchema>;
@@ -47,8 +54,12 @@ interface CreateProblemDialogProps {
 
 export function CreateProblemDialog({ open, onOpenChange, defaultCategoryId }: CreateProblemDialogProps) {
   const { user } = useAuth();
-  const { data: categories } = useCategories();
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
+  const { data: profiles } = useResponsibleProfiles();
   const createProblem = useCreateProblem();
+  const uploadAttachment = useUploadAttachment();
+  const [files, setFiles] = useState<File[]>([]);
 
   const form = useForm<ProblemFormData>({
     resolver: zodResolver(problemSchema),
@@ -57,19 +68,29 @@ export function CreateProblemDialog({ open, onOpenChange, defaultCategoryId }: C
       description: '',
       category_id: defaultCategoryId || '',
       severity: 'medium',
+      assigned_to: null,
     },
   });
 
   const onSubmit = async (data: ProblemFormData) => {
-    await createProblem.mutateAsync({
+    const problem = await createProblem.mutateAsync({
       category_id: data.category_id,
       title: data.title,
       description: data.description,
       severity: data.severity,
       reported_by: user?.id,
+      assigned_to: data.assigned_to || null,
       status: 'open' as const,
-      escalated: data.severity === 'critical',
     });
+    if (problem) {
+      for (const file of files) {
+        await uploadAttachment.mutateAsync({ entity: 'problem', entityId: problem.id, file }).catch(() => undefined);
+      }
+    } else if (files.length > 0) {
+      // Queued offline: the problem does not exist yet, photos can be added once it is sent
+      toast.warning('Les pièces jointes n\'ont pas été envoyées, ajoutez-les au retour du réseau');
+    }
+    setFiles([]);
     form.reset();
     onOpenChange(false);
   };
@@ -176,12 +197,74 @@ export function CreateProblemDialog({ open, onOpenChange, defaultCategoryId }: C
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="assigned_to"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Assigné à</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === 'unassigned' ? null : value)}
+                    value={field.value || 'unassigned'}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sélectionner" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="unassigned">Non assigné</SelectItem>
+                      {profiles?.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.user_id}>
+                          {profile.full_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>Photos / pièces jointes</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {files.map((file, index) => (
+                  <span key={index} className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs">
+                    {file.name}
+                    <button
+                      type="button"
+                      onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Retirer"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+                <label className="flex items-center gap-1 cursor-pointer rounded-md border border-dashed px-2 py-1 text-xs text-muted-foreground hover:text-foreground">
+                  <Camera className="h-3 w-3" />
+                  Ajouter
+                  <input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      const selected = Array.from(e.target.files || []);
+                      e.target.value = '';
+                      setFiles(prev => [...prev, ...selected]);
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
                 Annuler
               </Button>
-              <Button type="submit" disabled={createProblem.isPending}>
-                {createProblem.isPending ? 'Déclaration...' : 'Déclarer le problème'}
+              <Button type="submit" disabled={createProblem.isPending || uploadAttachment.isPending}>
+                {createProblem.isPending || uploadAttachment.isPending ? 'Déclaration...' : 'Déclarer le problème'}
               </Button>
             </DialogFooter>
           </form>
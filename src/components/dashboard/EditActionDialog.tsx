@@ -1,15 +1,21 @@
 import { useState, useEffect } from 'react';
-import { useQueryClient, useMutation, useQuery } from '@tanstack/react-query';
+import { useQueryClient, useMutation } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useCategories } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CommentThread } from '@/components/comments/CommentThread';
+import { ActivityTimeline } from '@/components/comments/ActivityTimeline';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
-import { Action } from '@/types/sfm';
+import { Action, ActionStatus } from '@/types/sfm';
 
 interface EditActionDialogProps {
   open: boolean;
@@ -30,29 +36,22 @@ const STATUSES = [
   { value: 'completed', label: 'Terminée' },
 ];
 
+type FormStatus = Exclude<ActionStatus, 'overdue'>;
+
 export function EditActionDialog({ open, onOpenChange, action }: EditActionDialogProps) {
   const queryClient = useQueryClient();
 
-  const { data: categories } = useQuery({
-    queryKey: ['categories'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('sfm_categories')
-        .select('*')
-        .eq('is_active', true)
-        .order('display_order');
-      if (error) throw error;
-      return data;
-    },
-  });
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
 
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     category_id: '',
     priority: 'medium' as 'low' | 'medium' | 'high' | 'urgent',
-    status: 'todo' as 'todo' | 'in_progress' | 'completed',
+    status: 'todo' as FormStatus,
     due_date: '',
+    requires_validation: false,
   });
 
   useEffect(() => {
@@ -64,8 +63,9 @@ export function EditActionDialog({ open, onOpenChange, action }: EditActionDialo
         description: action.description || '',
         category_id: action.category_id,
         priority: action.priority,
-        status: statusForForm as 'todo' | 'in_progress' | 'completed',
+        status: statusForForm as FormStatus,
         due_date: action.due_date,
+        requires_validation: action.requires_validation ?? false,
       });
     }
   }, [action, open]);
@@ -81,7 +81,10 @@ export function EditActionDialog({ open, onOpenChange, action }: EditActionDialo
         priority: data.priority,
         status: data.status,
         due_date: data.due_date,
-        completed_at: data.status === 'completed' ? new Date().toISOString() : null,
+        requires_validation: data.requires_validation,
+        completed_at: data.status === 'completed' || data.status === 'pending_validation'
+          ? action.completed_at || new Date().toISOString()
+          : null,
       };
 
       const { error } = await supabase
@@ -123,110 +126,140 @@ export function EditActionDialog({ open, onOpenChange, action }: EditActionDialo
           </DialogDescription>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Titre *</Label>
-            <Input
-              id="title"
-              value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-              placeholder="Titre de l'action"
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={formData.description}
-              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-              placeholder="Description de l'action"
-              rows={2}
-            />
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Catégorie *</Label>
-              <Select 
-                value={formData.category_id} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, category_id: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Sélectionner" />
-                </SelectTrigger>
-                <SelectContent>
-                  {categories?.map((cat) => (
-                    <SelectItem key={cat.id} value={cat.id}>
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
-                        {cat.name}
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="due_date">Date d'échéance *</Label>
-              <Input
-                id="due_date"
-                type="date"
-                value={formData.due_date}
-                onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label>Priorité</Label>
-              <Select 
-                value={formData.priority} 
-                onValueChange={(value: 'low' | 'medium' | 'high' | 'urgent') => setFormData(prev => ({ ...prev, priority: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {PRIORITIES.map((p) => (
-                    <SelectItem key={p.value} value={p.value}>
-                      {p.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label>Statut</Label>
-              <Select 
-                value={formData.status} 
-                onValueChange={(value: 'todo' | 'in_progress' | 'completed') => setFormData(prev => ({ ...prev, status: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {STATUSES.map((s) => (
-                    <SelectItem key={s.value} value={s.value}>
-                      {s.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          <div className="flex justify-end gap-2 pt-4">
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-              Annuler
-            </Button>
-            <Button type="submit" disabled={saveMutation.isPending}>
-              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-              Enregistrer
-            </Button>
-          </div>
-        </form>
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="details">Détails</TabsTrigger>
+            <TabsTrigger value="comments">Commentaires</TabsTrigger>
+            <TabsTrigger value="activity">Historique</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">Titre *</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="Titre de l'action"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Description de l'action"
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Catégorie *</Label>
+                  <Select 
+                    value={formData.category_id} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, category_id: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Sélectionner" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories?.map((cat) => (
+                        <SelectItem key={cat.id} value={cat.id}>
+                          <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                            {cat.name}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="due_date">Date d'échéance *</Label>
+                  <Input
+                    id="due_date"
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Priorité</Label>
+                  <Select 
+                    value={formData.priority} 
+                    onValueChange={(value: 'low' | 'medium' | 'high' | 'urgent') => setFormData(prev => ({ ...prev, priority: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRIORITIES.map((p) => (
+                        <SelectItem key={p.value} value={p.value}>
+                          {p.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Statut</Label>
+                  <Select 
+                    value={formData.status} 
+                    onValueChange={(value: FormStatus) => setFormData(prev => ({ ...prev, status: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATUSES.map((s) => (
+                        <SelectItem key={s.value} value={s.value}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                      {action.status === 'pending_validation' && (
+                        <SelectItem value="pending_validation">À valider</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="requires_validation"
+                  checked={formData.requires_validation}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, requires_validation: checked === true }))}
+                />
+                <Label htmlFor="requires_validation" className="font-normal">Validation requise par un manager</Label>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Annuler
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Enregistrer
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="comments">
+            <CommentThread entity="action" entityId={action.id} />
+          </TabsContent>
+
+          <TabsContent value="activity">
+            <ActivityTimeline entity="action" entityId={action.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
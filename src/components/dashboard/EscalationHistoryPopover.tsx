@@ -0,0 +1,63 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { useProblemEscalations } from '@/hooks/useEscalation';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ArrowUpCircle } from 'lucide-react';
+
+interface EscalationHistoryPopoverProps {
+  problemId: string;
+  level: number;
+  label?: string;
+}
+
+// Rendered only while the popover is open, so the history is fetched on demand
+function EscalationHistoryList({ problemId }: { problemId: string }) {
+  const { data: escalations, isLoading } = useProblemEscalations(problemId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Chargement...</p>;
+  }
+
+  if (!escalations?.length) {
+    return <p className="text-sm text-muted-foreground">Aucun historique</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {escalations.map((escalation) => (
+        <li key={escalation.id} className="text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">N{escalation.level} · {escalation.label}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {format(new Date(escalation.escalated_at), 'dd/MM HH:mm', { locale: fr })}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {escalation.notified_count} personne(s) notifiée(s)
+            {escalation.assignee && ` · Assigné à ${escalation.assignee.full_name}`}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function EscalationHistoryPopover({ problemId, level, label }: EscalationHistoryPopoverProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button">
+          <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20 cursor-pointer">
+            <ArrowUpCircle className="h-3 w-3 mr-1" />
+            Niveau {level}{label && ` · ${label}`}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72">
+        <h4 className="text-sm font-semibold mb-2">Historique d'escalade</h4>
+        <EscalationHistoryList problemId={problemId} />
+      </PopoverContent>
+    </Popover>
+  );
+}
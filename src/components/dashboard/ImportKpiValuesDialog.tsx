@@ -0,0 +1,376 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useKpis, useImportKpiValues, useKpiValueHistory } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
+import { useAuth } from '@/hooks/useAuth';
+import { Kpi, KpiStatus, KpiTrend } from '@/types/sfm';
+import { calculateStatus, calculateTrend } from '@/lib/kpiStatus';
+import {
+  ImportCell,
+  ImportColumnMapping,
+  NO_COLUMN,
+  readImportFile,
+  guessColumnMapping,
+  parseImportNumber,
+  parseImportDate,
+  weekToDate,
+} from '@/lib/kpiImport';
+import { FileSpreadsheet, Loader2, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ImportKpiValuesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+interface PreviewRow {
+  line: number;
+  kpiName: string;
+  kpiId?: string;
+  recordedAt?: string;
+  weekNumber?: number;
+  value?: number;
+  comment?: string;
+  status?: KpiStatus;
+  trend?: KpiTrend;
+  errors: string[];
+}
+
+const MAPPING_FIELDS: { key: keyof ImportColumnMapping; label: string; required?: boolean }[] = [
+  { key: 'kpi', label: 'KPI (nom ou identifiant)', required: true },
+  { key: 'value', label: 'Valeur', required: true },
+  { key: 'date', label: 'Date' },
+  { key: 'week', label: 'Semaine' },
+  { key: 'comment', label: 'Commentaire' },
+];
+
+const EMPTY_MAPPING: ImportColumnMapping = {
+  kpi: NO_COLUMN,
+  date: NO_COLUMN,
+  week: NO_COLUMN,
+  value: NO_COLUMN,
+  comment: NO_COLUMN,
+};
+
+const statusColors: Record<KpiStatus, string> = {
+  green: 'hsl(var(--status-green))',
+  orange: 'hsl(var(--status-orange))',
+  red: 'hsl(var(--status-red))',
+};
+
+export function ImportKpiValuesDialog({ open, onOpenChange }: ImportKpiValuesDialogProps) {
+  const { user } = useAuth();
+  const { boardIds } = useBoard();
+  const { data: kpis } = useKpis(undefined, boardIds);
+  const importValues = useImportKpiValues();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportCell[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>(EMPTY_MAPPING);
+  // Year of the rows given by week number only
+  const [weekYear, setWeekYear] = useState(() => new Date().getFullYear());
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setFileName('');
+      setRows([]);
+      setMapping(EMPTY_MAPPING);
+      setWeekYear(new Date().getFullYear());
+    }
+  }, [open]);
+
+  const headers = rows[0] || [];
+  const dataRows = useMemo(() => rows.slice(1), [rows]);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.length < 2) {
+        toast.error('Le fichier ne contient aucune ligne de données');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+      setStep('mapping');
+    } catch {
+      toast.error('Impossible de lire le fichier');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Resolve KPIs, dates and values of every row, without status or trend yet
+  const parsedRows = useMemo<PreviewRow[]>(() => {
+    if (step !== 'preview') return [];
+    // Sub-boards can have KPIs of the same name (e.g. "TRS" on every line)
+    const kpisByName = new Map<string, Kpi[]>();
+    for (const k of kpis || []) {
+      const key = k.name.trim().toLowerCase();
+      kpisByName.set(key, [...(kpisByName.get(key) || []), k]);
+    }
+
+    return dataRows.map((row, index) => {
+      const cell = (column: number) => (column === NO_COLUMN ? null : row[column] ?? null);
+      const errors: string[] = [];
+
+      const kpiName = String(cell(mapping.kpi) ?? '').trim();
+      const namesakes = kpisByName.get(kpiName.toLowerCase()) || [];
+      const kpi = kpis?.find(k => k.id === kpiName) || (namesakes.length === 1 ? namesakes[0] : undefined);
+      if (!kpiName) errors.push('KPI manquant');
+      else if (!kpi && namesakes.length > 1) errors.push(`KPI ambigu: ${kpiName} existe sur plusieurs tableaux, indiquez son identifiant`);
+      else if (!kpi) errors.push(`KPI inconnu: ${kpiName}`);
+
+      const value = parseImportNumber(cell(mapping.value));
+      if (value === null) errors.push('Valeur invalide');
+
+      const weekNumber = parseImportNumber(cell(mapping.week));
+      const isWeekValid = weekNumber !== null && Number.isInteger(weekNumber) && weekNumber >= 1 && weekNumber <= 53;
+      if (weekNumber !== null && !isWeekValid) errors.push('Semaine invalide');
+
+      // An explicit date wins over the week number
+      const rawDate = cell(mapping.date);
+      let recordedAt = parseImportDate(rawDate);
+      if (!recordedAt && rawDate !== null && String(rawDate).trim() !== '') {
+        errors.push('Date invalide');
+      } else if (!recordedAt && isWeekValid) {
+        recordedAt = weekToDate(weekNumber, weekYear);
+      } else if (!recordedAt && weekNumber === null) {
+        errors.push('Date ou semaine manquante');
+      }
+
+      const comment = cell(mapping.comment);
+
+      return {
+        line: index + 2,
+        kpiName: kpi?.name || kpiName,
+        kpiId: kpi?.id,
+        recordedAt: recordedAt || undefined,
+        weekNumber: weekNumber ?? undefined,
+        value: value ?? undefined,
+        comment: comment ? String(comment) : undefined,
+        errors,
+      };
+    });
+  }, [step, dataRows, mapping, weekYear, kpis]);
+
+  const importedKpiIds = useMemo(
+    () => [...new Set(parsedRows.filter(r => r.kpiId).map(r => r.kpiId!))],
+    [parsedRows]
+  );
+  const { data: history } = useKpiValueHistory(importedKpiIds);
+
+  // Preview status and trend the way the database will compute them
+  const previewRows = useMemo<PreviewRow[]>(() => {
+    return parsedRows.map(row => {
+      if (row.errors.length > 0) return row;
+      const kpi = kpis?.find(k => k.id === row.kpiId);
+      if (!kpi) return row;
+
+      const previous = [
+        ...(history || []).filter(h => h.kpi_id === row.kpiId),
+        ...parsedRows.filter(r => r !== row && r.kpiId === row.kpiId && r.errors.length === 0)
+          .map(r => ({ value: r.value!, recorded_at: r.recordedAt! })),
+      ]
+        .filter(h => h.recorded_at.slice(0, 10) < row.recordedAt!)
+        .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+        .pop();
+
+      return {
+        ...row,
+        status: calculateStatus(
+          row.value!,
+          kpi.target_value,
+          kpi.warning_threshold,
+          kpi.critical_threshold,
+          kpi.performance_direction
+        ),
+        trend: calculateTrend(row.value!, previous ? Number(previous.value) : undefined, kpi.performance_direction),
+      };
+    });
+  }, [parsedRows, history, kpis]);
+
+  const validRows = previewRows.filter(r => r.errors.length === 0);
+  const errorCount = previewRows.length - validRows.length;
+  const isWeekYearValid = Number.isInteger(weekYear) && weekYear >= 2000 && weekYear <= 2100;
+  const canPreview = mapping.kpi !== NO_COLUMN && mapping.value !== NO_COLUMN
+    && (mapping.date !== NO_COLUMN || mapping.week !== NO_COLUMN)
+    && (mapping.week === NO_COLUMN || isWeekYearValid);
+
+  const handleImport = () => {
+    importValues.mutate(validRows.map(row => ({
+      kpi_id: row.kpiId!,
+      value: row.value!,
+      week_number: row.weekNumber,
+      recorded_at: row.recordedAt!,
+      comment: row.comment,
+      recorded_by: user?.id,
+    })), {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Importer des valeurs KPI
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Sélectionnez un fichier CSV ou Excel (.xlsx) avec une ligne d\'en-tête'}
+            {step === 'mapping' && `${fileName} · ${dataRows.length} ligne(s) - associez les colonnes du fichier`}
+            {step === 'preview' && `${validRows.length} ligne(s) valide(s), ${errorCount} en erreur`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="kpi-import-file">Fichier</Label>
+            <Input
+              id="kpi-import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isReading}
+            />
+            <p className="text-xs text-muted-foreground">
+              Colonnes attendues : KPI, Date ou Semaine, Valeur, Commentaire (optionnel)
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="grid grid-cols-2 gap-4">
+            {MAPPING_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label>{field.label}{field.required && ' *'}</Label>
+                <Select
+                  value={mapping[field.key].toString()}
+                  onValueChange={(v) => setMapping(prev => ({ ...prev, [field.key]: parseInt(v) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN.toString()}>Aucune colonne</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {String(header ?? '') || `Colonne ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {mapping.week !== NO_COLUMN && (
+              <div className="space-y-2">
+                <Label htmlFor="kpi-import-week-year">Année des semaines</Label>
+                <Input
+                  id="kpi-import-week-year"
+                  type="number"
+                  min={2000}
+                  max={2100}
+                  value={weekYear}
+                  onChange={(e) => setWeekYear(parseInt(e.target.value))}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <ScrollArea className="h-[50vh] rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Ligne</TableHead>
+                  <TableHead>KPI</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Valeur</TableHead>
+                  <TableHead>Statut</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewRows.map((row) => {
+                  const TrendIcon = row.trend === 'up' ? TrendingUp : row.trend === 'down' ? TrendingDown : Minus;
+                  return (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>{row.kpiName || '-'}</TableCell>
+                      <TableCell>
+                        {row.recordedAt || '-'}
+                        {row.weekNumber !== undefined && (
+                          <span className="text-xs text-muted-foreground ml-1">(S{row.weekNumber})</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono-data">
+                        {row.value !== undefined ? row.value.toLocaleString('fr-FR') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {row.errors.map((error) => (
+                              <Badge key={error} variant="destructive" className="text-xs">{error}</Badge>
+                            ))}
+                          </div>
+                        ) : row.status && (
+                          <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: statusColors[row.status] }} />
+                            <TrendIcon className="h-4 w-4" style={{ color: statusColors[row.status] }} />
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {step !== 'upload' && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+            >
+              Retour
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <Button type="button" onClick={() => setStep('preview')} disabled={!canPreview}>
+              Aperçu
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={validRows.length === 0 || importValues.isPending}
+            >
+              {importValues.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Importer {validRows.length} valeur(s)
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
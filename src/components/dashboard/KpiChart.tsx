@@ -1,26 +1,117 @@
-import { useMemo } from 'react';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, BarChart, Bar } from 'recharts';
+import { useMemo, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, BarChart, Bar, LineChart, Line, ComposedChart } from 'recharts';
 import { Kpi } from '@/types/sfm';
-import { useKpiValues } from '@/hooks/useSfmData';
-import { TrendingUp, TrendingDown, Minus, Target } from 'lucide-react';
+import { useKpiValues, useKpiBaseline, useKpiBreakdowns, useKpiActions } from '@/hooks/useSfmData';
+import { computeSpcLimits, detectSpcViolations, DEFAULT_SPC_BASELINE_SIZE, SPC_RULE_LABELS } from '@/lib/spc';
+import { computePareto, computeBoxPlot, BoxPlotGrouping, BoxPlotPoint } from '@/lib/kpiCharts';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { TrendingUp, TrendingDown, Minus, Target, AlertTriangle, Plus, ClipboardCheck } from 'lucide-react';
 
 interface KpiChartProps {
   kpi: Kpi;
   categoryColor: string;
+  // Offered when the latest value is red
+  onCreateAction?: () => void;
 }
 
-export function KpiChart({ kpi, categoryColor }: KpiChartProps) {
-  const { data: values, isLoading } = useKpiValues(kpi.id);
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+  fontSize: '12px',
+};
+
+// Whiskers from min to max, box from Q1 to Q3 and a median line, drawn over a [min, max] range bar
+interface BoxPlotShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  fill?: string;
+  payload?: BoxPlotPoint;
+}
+
+function BoxPlotShape({ x = 0, y = 0, width = 0, height = 0, fill, payload: point }: BoxPlotShapeProps) {
+  if (!point) return null;
+  const spread = point.max - point.min;
+  const toY = (v: number) => (spread === 0 ? y : y + ((point.max - v) / spread) * height);
+  const center = x + width / 2;
+  const boxWidth = Math.max(width * 0.6, 4);
+  const boxX = center - boxWidth / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={toY(point.max)} y2={toY(point.q3)} stroke={fill} />
+      <line x1={center} x2={center} y1={toY(point.q1)} y2={toY(point.min)} stroke={fill} />
+      <line x1={boxX} x2={boxX + boxWidth} y1={toY(point.max)} y2={toY(point.max)} stroke={fill} />
+      <line x1={boxX} x2={boxX + boxWidth} y1={toY(point.min)} y2={toY(point.min)} stroke={fill} />
+      <rect
+        x={boxX}
+        y={toY(point.q3)}
+        width={boxWidth}
+        height={Math.max(toY(point.q1) - toY(point.q3), 1)}
+        fill={fill}
+        fillOpacity={0.3}
+        stroke={fill}
+      />
+      <line x1={boxX} x2={boxX + boxWidth} y1={toY(point.median)} y2={toY(point.median)} stroke={fill} strokeWidth={2} />
+    </g>
+  );
+}
+
+export function KpiChart({ kpi, categoryColor, onCreateAction }: KpiChartProps) {
+  const isControlChart = kpi.chart_type === 'control_chart';
+  const isPareto = kpi.chart_type === 'pareto';
+  const isBoxPlot = kpi.chart_type === 'box_plot';
+  const { data: values, isLoading } = useKpiValues(kpi.id, isControlChart ? 25 : isBoxPlot ? 90 : 12);
+  const { data: breakdowns } = useKpiBreakdowns(kpi.id, 12, isPareto);
+  const { data: kpiActions } = useKpiActions(kpi.id);
+  const [boxPlotGrouping, setBoxPlotGrouping] = useState<BoxPlotGrouping>(
+    kpi.frequency === 'daily' ? 'week' : 'month'
+  );
+
+  const paretoData = useMemo(
+    () => (isPareto && breakdowns ? computePareto(breakdowns) : []),
+    [isPareto, breakdowns]
+  );
+
+  const boxPlotData = useMemo(
+    () => (isBoxPlot && values ? computeBoxPlot(values, boxPlotGrouping) : []),
+    [isBoxPlot, values, boxPlotGrouping]
+  );
+  const { data: baseline } = useKpiBaseline(
+    kpi.id,
+    kpi.spc_baseline_size || DEFAULT_SPC_BASELINE_SIZE,
+    isControlChart
+  );
+
+  const spcLimits = useMemo(() => {
+    if (!isControlChart || !baseline) return null;
+    return computeSpcLimits(baseline.map(v => Number(v.value)));
+  }, [isControlChart, baseline]);
+
+  const spcViolations = useMemo(() => {
+    if (!spcLimits || !values) return [];
+    return detectSpcViolations(values.map(v => Number(v.value)), spcLimits);
+  }, [spcLimits, values]);
 
   const chartData = useMemo(() => {
     if (!values) return [];
+    const violating = new Set(spcViolations.map(v => v.index));
     return values.map((v, index) => ({
       name: v.week_number ? `S${v.week_number}` : `W${index + 1}`,
       value: Number(v.value),
       target: kpi.target_value ? Number(kpi.target_value) : undefined,
       status: v.status,
+      outOfControl: violating.has(index),
     }));
-  }, [values, kpi.target_value]);
+  }, [values, kpi.target_value, spcViolations]);
+
+  // Rules broken by the latest point, shown under the current value
+  const latestViolation = values && spcViolations.find(v => v.index === values.length - 1);
 
   const latestValue = values?.[values.length - 1];
   const previousValue = values?.[values.length - 2];
@@ -81,6 +172,15 @@ export function KpiChart({ kpi, categoryColor }: KpiChartProps) {
               </span>
             </div>
           )}
+          {latestViolation && (
+            <div
+              className="flex items-center gap-1 mt-1"
+              title={latestViolation.rules.map(rule => SPC_RULE_LABELS[rule]).join('\n')}
+            >
+              <AlertTriangle className="h-3 w-3 text-status-red" />
+              <span className="text-xs text-status-red">Hors contrôle</span>
+            </div>
+          )}
         </div>
         <div 
           className="p-2 rounded-lg"
@@ -90,92 +190,308 @@ export function KpiChart({ kpi, categoryColor }: KpiChartProps) {
         </div>
       </div>
 
+      {isBoxPlot && (
+        <div className="flex justify-end gap-1">
+          {(['week', 'month'] as BoxPlotGrouping[]).map((grouping) => (
+            <Button
+              key={grouping}
+              type="button"
+              variant="ghost"
+              size="sm"
+              className={cn('h-6 px-2 text-xs', boxPlotGrouping === grouping && 'bg-muted')}
+              onClick={() => setBoxPlotGrouping(grouping)}
+            >
+              {grouping === 'week' ? 'Semaine' : 'Mois'}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* Chart */}
       <div className="h-32">
-        <ResponsiveContainer width="100%" height="100%">
-          {kpi.chart_type === 'histogram' ? (
-            <BarChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
-              <XAxis 
-                dataKey="name" 
-                axisLine={false} 
-                tickLine={false} 
-                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
-              />
-              <YAxis 
-                axisLine={false} 
-                tickLine={false} 
-                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: 'hsl(var(--popover))',
-                  border: '1px solid hsl(var(--border))',
-                  borderRadius: '8px',
-                  fontSize: '12px',
-                }}
-                labelStyle={{ color: 'hsl(var(--foreground))' }}
-              />
-              {kpi.target_value && (
-                <ReferenceLine 
-                  y={Number(kpi.target_value)} 
-                  stroke="hsl(var(--status-green))" 
-                  strokeDasharray="3 3"
-                  strokeOpacity={0.7}
+        {isPareto && paretoData.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-xs text-muted-foreground">
+            Aucune répartition par cause
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            {isPareto ? (
+              <ComposedChart data={paretoData} margin={{ top: 5, right: -15, left: -20, bottom: 0 }}>
+                <XAxis 
+                  dataKey="cause" 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <YAxis 
+                  yAxisId="value"
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <YAxis 
+                  yAxisId="percent"
+                  orientation="right"
+                  domain={[0, 100]}
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                  tickFormatter={(v) => `${v}%`}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                  formatter={(value: number, name: string) => 
+                    name === 'cumulativePercent' ? [`${value}%`, 'Cumul'] : [value, 'Valeur']
+                  }
                 />
-              )}
-              <Bar 
-                dataKey="value" 
-                fill={categoryColor}
-                radius={[4, 4, 0, 0]}
-              />
-            </BarChart>
-          ) : (
-            <AreaChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
-              <defs>
-                <linearGradient id={`gradient-${kpi.id}`} x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="0%" stopColor={categoryColor} stopOpacity={0.3} />
-                  <stop offset="100%" stopColor={categoryColor} stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              <XAxis 
-                dataKey="name" 
-                axisLine={false} 
-                tickLine={false} 
-                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
-              />
-              <YAxis 
-                axisLine={false} 
-                tickLine={false} 
-                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: 'hsl(var(--popover))',
-                  border: '1px solid hsl(var(--border))',
-                  borderRadius: '8px',
-                  fontSize: '12px',
-                }}
-                labelStyle={{ color: 'hsl(var(--foreground))' }}
-              />
-              {kpi.target_value && (
                 <ReferenceLine 
-                  y={Number(kpi.target_value)} 
-                  stroke="hsl(var(--status-green))" 
+                  yAxisId="percent"
+                  y={80} 
+                  stroke="hsl(var(--status-orange))" 
                   strokeDasharray="3 3"
                   strokeOpacity={0.7}
                 />
-              )}
-              <Area 
-                type="monotone" 
-                dataKey="value" 
-                stroke={categoryColor} 
-                strokeWidth={2}
-                fill={`url(#gradient-${kpi.id})`}
-              />
-            </AreaChart>
-          )}
-        </ResponsiveContainer>
+                <Bar 
+                  yAxisId="value"
+                  dataKey="value" 
+                  fill={categoryColor}
+                  radius={[4, 4, 0, 0]}
+                />
+                <Line 
+                  yAxisId="percent"
+                  type="monotone" 
+                  dataKey="cumulativePercent" 
+                  stroke="hsl(var(--foreground))" 
+                  strokeWidth={2}
+                  dot={{ r: 2 }}
+                />
+              </ComposedChart>
+            ) : isBoxPlot ? (
+              <BarChart data={boxPlotData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <XAxis 
+                  dataKey="name" 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <YAxis 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                  content={({ active, payload, label }) => {
+                    if (!active || !payload?.length) return null;
+                    const point = payload[0].payload as BoxPlotPoint;
+                    return (
+                      <div style={tooltipStyle} className="p-2 space-y-0.5">
+                        <div className="font-medium">{label} ({point.count} val.)</div>
+                        <div>Max: {point.max.toLocaleString('fr-FR')}</div>
+                        <div>Q3: {point.q3.toLocaleString('fr-FR')}</div>
+                        <div>Médiane: {point.median.toLocaleString('fr-FR')}</div>
+                        <div>Q1: {point.q1.toLocaleString('fr-FR')}</div>
+                        <div>Min: {point.min.toLocaleString('fr-FR')}</div>
+                      </div>
+                    );
+                  }}
+                />
+                {kpi.target_value && (
+                  <ReferenceLine 
+                    y={Number(kpi.target_value)} 
+                    stroke="hsl(var(--status-green))" 
+                    strokeDasharray="3 3"
+                    strokeOpacity={0.7}
+                  />
+                )}
+                <Bar 
+                  dataKey="range" 
+                  fill={categoryColor}
+                  shape={<BoxPlotShape />}
+                  isAnimationActive={false}
+                />
+              </BarChart>
+            ) : kpi.chart_type === 'histogram' ? (
+              <BarChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <XAxis 
+                  dataKey="name" 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <YAxis 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    fontSize: '12px',
+                  }}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                />
+                {kpi.target_value && (
+                  <ReferenceLine 
+                    y={Number(kpi.target_value)} 
+                    stroke="hsl(var(--status-green))" 
+                    strokeDasharray="3 3"
+                    strokeOpacity={0.7}
+                  />
+                )}
+                <Bar 
+                  dataKey="value" 
+                  fill={categoryColor}
+                  radius={[4, 4, 0, 0]}
+                />
+              </BarChart>
+            ) : isControlChart ? (
+              <LineChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <XAxis 
+                  dataKey="name" 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <YAxis 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    fontSize: '12px',
+                  }}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                />
+                {spcLimits && (
+                  <>
+                    <ReferenceLine 
+                      y={spcLimits.mean} 
+                      stroke="hsl(var(--muted-foreground))" 
+                      strokeOpacity={0.7}
+                    />
+                    <ReferenceLine 
+                      y={spcLimits.ucl} 
+                      stroke="hsl(var(--status-red))" 
+                      strokeDasharray="3 3"
+                      strokeOpacity={0.7}
+                    />
+                    <ReferenceLine 
+                      y={spcLimits.lcl} 
+                      stroke="hsl(var(--status-red))" 
+                      strokeDasharray="3 3"
+                      strokeOpacity={0.7}
+                    />
+                  </>
+                )}
+                <Line 
+                  type="linear" 
+                  dataKey="value" 
+                  stroke={categoryColor} 
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                  dot={({ cx, cy, payload, index }) => (
+                    <circle
+                      key={index}
+                      cx={cx}
+                      cy={cy}
+                      r={payload.outOfControl ? 4 : 2}
+                      fill={payload.outOfControl ? 'hsl(var(--status-red))' : categoryColor}
+                      stroke="none"
+                    />
+                  )}
+                />
+              </LineChart>
+            ) : (
+              <AreaChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <defs>
+                  <linearGradient id={`gradient-${kpi.id}`} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor={categoryColor} stopOpacity={0.3} />
+                    <stop offset="100%" stopColor={categoryColor} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <XAxis 
+                  dataKey="name" 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <YAxis 
+                  axisLine={false} 
+                  tickLine={false} 
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    fontSize: '12px',
+                  }}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                />
+                {kpi.target_value && (
+                  <ReferenceLine 
+                    y={Number(kpi.target_value)} 
+                    stroke="hsl(var(--status-green))" 
+                    strokeDasharray="3 3"
+                    strokeOpacity={0.7}
+                  />
+                )}
+                <Area 
+                  type="monotone" 
+                  dataKey="value" 
+                  stroke={categoryColor} 
+                  strokeWidth={2}
+                  fill={`url(#gradient-${kpi.id})`}
+                />
+              </AreaChart>
+            )}
+          </ResponsiveContainer>
+        )}
       </div>
+
+      {/* Countermeasures */}
+      {(!!kpiActions?.length || (latestValue.status === 'red' && onCreateAction)) && (
+        <div className="space-y-1.5 pt-2 border-t border-border/30">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-muted-foreground">
+              Contre-mesures ({kpiActions?.length || 0})
+            </span>
+            {latestValue.status === 'red' && onCreateAction && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-status-red"
+                onClick={onCreateAction}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Contre-mesure
+              </Button>
+            )}
+          </div>
+          {kpiActions?.slice(0, 3).map((action) => (
+            <div key={action.id} className="flex items-center gap-1.5 text-xs">
+              <ClipboardCheck className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate">{action.title}</span>
+              <span className="text-muted-foreground flex-shrink-0">
+                {format(new Date(action.due_date), 'dd MMM', { locale: fr })}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useKpiValues, useUpdateKpiValue, useDeleteKpiValue, useKpiValueCorrections } from '@/hooks/useSfmData';
+import { Kpi, KpiValue } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { History, Pencil, Trash2, Loader2 } from 'lucide-react';
+
+interface KpiValueHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kpi: Kpi | null;
+}
+
+type PendingChange = { mode: 'edit' | 'delete'; kpiValue: KpiValue };
+
+const statusColors = {
+  green: 'hsl(var(--status-green))',
+  orange: 'hsl(var(--status-orange))',
+  red: 'hsl(var(--status-red))',
+};
+
+export function KpiValueHistoryDialog({ open, onOpenChange, kpi }: KpiValueHistoryDialogProps) {
+  const { data: values, isLoading } = useKpiValues(open && kpi ? kpi.id : '', 200);
+  const { data: corrections } = useKpiValueCorrections(open ? kpi?.id : undefined);
+  const updateValue = useUpdateKpiValue();
+  const deleteValue = useDeleteKpiValue();
+
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [form, setForm] = useState({ value: '', recorded_at: '', week_number: '', comment: '' });
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) setPending(null);
+  }, [open]);
+
+  const startChange = (mode: PendingChange['mode'], kpiValue: KpiValue) => {
+    setPending({ mode, kpiValue });
+    setForm({
+      value: kpiValue.value.toString(),
+      recorded_at: kpiValue.recorded_at.slice(0, 10),
+      week_number: kpiValue.week_number?.toString() || '',
+      comment: kpiValue.comment || '',
+    });
+    setReason('');
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending || !reason.trim()) return;
+    const onSuccess = () => setPending(null);
+
+    if (pending.mode === 'delete') {
+      deleteValue.mutate({ id: pending.kpiValue.id, reason: reason.trim() }, { onSuccess });
+      return;
+    }
+
+    const numValue = parseFloat(form.value);
+    if (isNaN(numValue) || !form.recorded_at) return;
+    updateValue.mutate({
+      id: pending.kpiValue.id,
+      value: numValue,
+      recorded_at: form.recorded_at,
+      week_number: form.week_number ? parseInt(form.week_number) : null,
+      comment: form.comment || null,
+      reason: reason.trim(),
+    }, { onSuccess });
+  };
+
+  const isSaving = updateValue.isPending || deleteValue.isPending;
+  const history = values ? [...values].reverse() : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Historique: {kpi?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Corrigez ou supprimez une valeur saisie par erreur. Chaque modification est tracée avec son motif.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="values">
+          <TabsList>
+            <TabsTrigger value="values">Valeurs ({history.length})</TabsTrigger>
+            <TabsTrigger value="corrections">Corrections ({corrections?.length || 0})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="values" className="space-y-4">
+            <ScrollArea className="h-72 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Valeur</TableHead>
+                    <TableHead>Statut</TableHead>
+                    <TableHead>Commentaire</TableHead>
+                    <TableHead className="w-20" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">Chargement...</TableCell>
+                    </TableRow>
+                  ) : history.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">Aucune donnée</TableCell>
+                    </TableRow>
+                  ) : history.map((kpiValue) => (
+                    <TableRow
+                      key={kpiValue.id}
+                      className={pending?.kpiValue.id === kpiValue.id ? 'bg-muted/50' : undefined}
+                    >
+                      <TableCell>
+                        {format(new Date(kpiValue.recorded_at), 'dd/MM/yyyy', { locale: fr })}
+                        {kpiValue.week_number && (
+                          <span className="text-xs text-muted-foreground ml-1">(S{kpiValue.week_number})</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono-data">
+                        {Number(kpiValue.value).toLocaleString('fr-FR')} {kpi?.unit}
+                      </TableCell>
+                      <TableCell>
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: statusColors[kpiValue.status] }} />
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
+                        {kpiValue.comment}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startChange('edit', kpiValue)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => startChange('delete', kpiValue)}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {pending && (
+              <form onSubmit={handleConfirm} className="space-y-4 p-4 rounded-lg border bg-muted/30">
+                <h3 className="text-sm font-semibold">
+                  {pending.mode === 'edit' ? 'Corriger la valeur' : 'Supprimer la valeur'} du{' '}
+                  {format(new Date(pending.kpiValue.recorded_at), 'dd/MM/yyyy', { locale: fr })}
+                  {' '}({Number(pending.kpiValue.value).toLocaleString('fr-FR')} {kpi?.unit})
+                </h3>
+
+                {pending.mode === 'edit' && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="correction-value">Valeur *</Label>
+                      <Input
+                        id="correction-value"
+                        type="number"
+                        step="any"
+                        value={form.value}
+                        onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="correction-date">Date *</Label>
+                      <Input
+                        id="correction-date"
+                        type="date"
+                        value={form.recorded_at}
+                        onChange={(e) => setForm(prev => ({ ...prev, recorded_at: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="correction-week">Semaine</Label>
+                      <Input
+                        id="correction-week"
+                        type="number"
+                        min="1"
+                        max="53"
+                        value={form.week_number}
+                        onChange={(e) => setForm(prev => ({ ...prev, week_number: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-3">
+                      <Label htmlFor="correction-comment">Commentaire</Label>
+                      <Input
+                        id="correction-comment"
+                        value={form.comment}
+                        onChange={(e) => setForm(prev => ({ ...prev, comment: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="correction-reason">Motif *</Label>
+                  <Textarea
+                    id="correction-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Ex: erreur de saisie, valeur en double..."
+                    rows={2}
+                    required
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setPending(null)}>
+                    Annuler
+                  </Button>
+                  <Button
+                    type="submit"
+                    variant={pending.mode === 'delete' ? 'destructive' : 'default'}
+                    disabled={!reason.trim() || isSaving}
+                  >
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {pending.mode === 'edit' ? 'Enregistrer la correction' : 'Supprimer'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </TabsContent>
+
+          <TabsContent value="corrections">
+            <ScrollArea className="h-72 rounded-md border">
+              <div className="divide-y">
+                {corrections?.length ? corrections.map((correction) => (
+                  <div key={correction.id} className="p-3 space-y-1 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={correction.operation === 'delete' ? 'destructive' : 'secondary'}>
+                          {correction.operation === 'delete' ? 'Suppression' : 'Correction'}
+                        </Badge>
+                        <span className="font-mono-data">
+                          {Number(correction.old_value).toLocaleString('fr-FR')}
+                          {correction.operation === 'update' && ` → ${Number(correction.new_value).toLocaleString('fr-FR')}`}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          ({format(new Date(correction.old_recorded_at), 'dd/MM/yyyy', { locale: fr })}
+                          {correction.new_recorded_at && correction.new_recorded_at !== correction.old_recorded_at &&
+                            ` → ${format(new Date(correction.new_recorded_at), 'dd/MM/yyyy', { locale: fr })}`})
+                        </span>
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {format(new Date(correction.created_at), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground">{correction.reason}</p>
+                    <p className="text-xs text-muted-foreground">Par {correction.author?.full_name || 'Inconnu'}</p>
+                  </div>
+                )) : (
+                  <div className="p-8 text-center text-sm text-muted-foreground">Aucune correction</div>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
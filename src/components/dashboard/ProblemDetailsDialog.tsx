@@ -0,0 +1,55 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CommentThread } from '@/components/comments/CommentThread';
+import { ActivityTimeline } from '@/components/comments/ActivityTimeline';
+import { Problem } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { MessageSquare } from 'lucide-react';
+
+interface ProblemDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  problem: Problem | null;
+}
+
+export function ProblemDetailsDialog({ open, onOpenChange, problem }: ProblemDetailsDialogProps) {
+  if (!problem) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5 text-primary" />
+            {problem.title}
+          </DialogTitle>
+          <DialogDescription>
+            Signalé le {format(new Date(problem.created_at), 'dd MMM yyyy', { locale: fr })}
+            {problem.reporter && ` par ${problem.reporter.full_name}`}
+            {problem.assignee && ` · Assigné à ${problem.assignee.full_name}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {problem.description && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{problem.description}</p>
+        )}
+
+        <Tabs defaultValue="comments">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="comments">Commentaires</TabsTrigger>
+            <TabsTrigger value="activity">Historique</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="comments">
+            <CommentThread entity="problem" entityId={problem.id} />
+          </TabsContent>
+
+          <TabsContent value="activity">
+            <ActivityTimeline entity="problem" entityId={problem.id} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CreateActionDialog } from '@/components/dashboard/CreateActionDialog';
+import {
+  useProblemRca,
+  useSaveProblemRca,
+  useProblemCauses,
+  useAddProblemCause,
+  useUpdateProblemCause,
+  useDeleteProblemCause,
+} from '@/hooks/useProblemRca';
+import { useProblemActions } from '@/hooks/useSfmData';
+import { useAuth } from '@/hooks/useAuth';
+import { ISHIKAWA_BRANCHES, MAX_WHYS } from '@/lib/rca';
+import { cn } from '@/lib/utils';
+import { IshikawaBranch, Problem, ProblemCause } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Microscope, Plus, Star, Trash2, ListPlus, Loader2, ArrowRight, CheckCircle2, Clock } from 'lucide-react';
+
+interface ProblemRcaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  problem: Problem | null;
+}
+
+const actionStatusLabels: Record<string, string> = {
+  todo: 'À faire',
+  in_progress: 'En cours',
+  pending_validation: 'À valider',
+  completed: 'Terminée',
+  overdue: 'En retard',
+};
+
+export function ProblemRcaDialog({ open, onOpenChange, problem }: ProblemRcaDialogProps) {
+  const { user, hasPermission } = useAuth();
+  const canEdit = hasPermission(['admin', 'manager', 'team_leader']);
+
+  const { data: rca } = useProblemRca(open ? problem?.id : undefined);
+  const { data: causes } = useProblemCauses(open ? problem?.id : undefined);
+  const { data: linkedActions } = useProblemActions(open ? problem?.id : undefined);
+  const saveRca = useSaveProblemRca();
+  const addCause = useAddProblemCause();
+  const updateCause = useUpdateProblemCause();
+  const deleteCause = useDeleteProblemCause();
+
+  const [whys, setWhys] = useState<string[]>(['']);
+  const [rootCause, setRootCause] = useState('');
+  const [containment, setContainment] = useState('');
+  const [corrective, setCorrective] = useState('');
+  const [newCauses, setNewCauses] = useState<Partial<Record<IshikawaBranch, string>>>({});
+  const [actionDialog, setActionDialog] = useState<{ title: string; causeId?: string } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setWhys(rca?.whys.length ? rca.whys : ['']);
+    setRootCause(rca?.root_cause || '');
+    setContainment(rca?.containment_measures || '');
+    setCorrective(rca?.corrective_measures || '');
+    setNewCauses({});
+  }, [open, rca]);
+
+  if (!problem) return null;
+
+  const handleSave = () => {
+    saveRca.mutate({
+      problem_id: problem.id,
+      whys: whys.map(w => w.trim()).filter(Boolean),
+      root_cause: rootCause.trim() || null,
+      containment_measures: containment.trim() || null,
+      corrective_measures: corrective.trim() || null,
+      updated_by: user?.id,
+    });
+  };
+
+  const handleAddCause = (branch: IshikawaBranch) => {
+    const description = newCauses[branch]?.trim();
+    if (!description) return;
+    addCause.mutate(
+      { problem_id: problem.id, branch, description, created_by: user?.id },
+      { onSuccess: () => setNewCauses(prev => ({ ...prev, [branch]: '' })) }
+    );
+  };
+
+  const toggleRootCause = (cause: ProblemCause) => {
+    updateCause.mutate({ id: cause.id, problem_id: problem.id, is_root_cause: !cause.is_root_cause });
+  };
+
+  const openActions = linkedActions?.filter(a => a.status !== 'completed').length || 0;
+
+  const renderBranch = (branch: IshikawaBranch, label: string) => {
+    const branchCauses = causes?.filter(c => c.branch === branch) || [];
+    return (
+      <div key={branch} className="rounded-lg border bg-card p-3 space-y-2">
+        <h4 className="text-sm font-semibold text-primary">{label}</h4>
+        <ul className="space-y-1">
+          {branchCauses.map((cause) => (
+            <li key={cause.id} className="flex items-start gap-1 text-sm group">
+              <button
+                type="button"
+                disabled={!canEdit}
+                onClick={() => toggleRootCause(cause)}
+                title={cause.is_root_cause ? 'Cause racine' : 'Marquer comme cause racine'}
+                className="mt-0.5 flex-shrink-0"
+              >
+                <Star className={cn('h-3.5 w-3.5', cause.is_root_cause ? 'fill-status-orange text-status-orange' : 'text-muted-foreground')} />
+              </button>
+              <span className={cn('flex-1 break-words', cause.is_root_cause && 'font-medium')}>{cause.description}</span>
+              {canEdit && cause.is_root_cause && (
+                <button
+                  type="button"
+                  onClick={() => setActionDialog({ title: cause.description, causeId: cause.id })}
+                  title="Créer une action"
+                  className="flex-shrink-0 text-primary"
+                >
+                  <ListPlus className="h-3.5 w-3.5" />
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => deleteCause.mutate({ id: cause.id, problem_id: problem.id })}
+                  className="flex-shrink-0 text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {canEdit && (
+          <form
+            className="flex gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAddCause(branch);
+            }}
+          >
+            <Input
+              value={newCauses[branch] || ''}
+              onChange={(e) => setNewCauses(prev => ({ ...prev, [branch]: e.target.value }))}
+              placeholder="Ajouter une cause"
+              className="h-7 text-xs"
+            />
+            <Button type="submit" size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0">
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          </form>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Microscope className="h-5 w-5 text-primary" />
+              Analyse des causes: {problem.title}
+            </DialogTitle>
+            <DialogDescription>
+              Le problème reste en cours tant que toutes ses actions ne sont pas terminées.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="whys">
+            <TabsList>
+              <TabsTrigger value="whys">5 Pourquoi</TabsTrigger>
+              <TabsTrigger value="ishikawa">Ishikawa (6M)</TabsTrigger>
+              <TabsTrigger value="measures">Mesures</TabsTrigger>
+              <TabsTrigger value="actions">Actions ({linkedActions?.length || 0})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="whys" className="space-y-3">
+              {whys.map((why, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Label className="w-24 flex-shrink-0 text-sm text-muted-foreground">Pourquoi {index + 1} ?</Label>
+                  <Input
+                    value={why}
+                    disabled={!canEdit}
+                    onChange={(e) => setWhys(prev => prev.map((w, i) => (i === index ? e.target.value : w)))}
+                    placeholder={index === 0 ? problem.title : 'Parce que...'}
+                  />
+                  {canEdit && whys.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      onClick={() => setWhys(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && whys.length < MAX_WHYS && (
+                <Button variant="outline" size="sm" onClick={() => setWhys(prev => [...prev, ''])}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Pourquoi ?
+                </Button>
+              )}
+
+              <div className="space-y-2 pt-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="rca-root-cause">Cause racine</Label>
+                  {canEdit && whys.some(w => w.trim()) && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setRootCause([...whys].reverse().find(w => w.trim()) || '')}
+                    >
+                      Reprendre le dernier pourquoi
+                    </Button>
+                  )}
+                </div>
+                <Textarea
+                  id="rca-root-cause"
+                  value={rootCause}
+                  disabled={!canEdit}
+                  onChange={(e) => setRootCause(e.target.value)}
+                  rows={2}
+                />
+                {canEdit && rootCause.trim() && (
+                  <Button variant="outline" size="sm" onClick={() => setActionDialog({ title: rootCause.trim() })}>
+                    <ListPlus className="h-4 w-4 mr-2" />
+                    Créer une action sur cette cause
+                  </Button>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="ishikawa">
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  {ISHIKAWA_BRANCHES.slice(0, 3).map(b => renderBranch(b.value, b.label))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-0.5 bg-border" />
+                  <ArrowRight className="h-5 w-5 text-muted-foreground" />
+                  <div className="px-3 py-2 rounded-lg border-2 border-destructive/50 bg-destructive/5 text-sm font-semibold max-w-xs truncate">
+                    {problem.title}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  {ISHIKAWA_BRANCHES.slice(3).map(b => renderBranch(b.value, b.label))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Marquez les causes racines avec l'étoile pour pouvoir créer une action corrective liée.
+                </p>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="measures" className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rca-containment">Mesures de confinement</Label>
+                <Textarea
+                  id="rca-containment"
+                  value={containment}
+                  disabled={!canEdit}
+                  onChange={(e) => setContainment(e.target.value)}
+                  placeholder="Actions immédiates pour protéger le client et la production"
+                  rows={3}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rca-corrective">Mesures correctives</Label>
+                <Textarea
+                  id="rca-corrective"
+                  value={corrective}
+                  disabled={!canEdit}
+                  onChange={(e) => setCorrective(e.target.value)}
+                  placeholder="Actions pour éliminer la cause racine et éviter la récurrence"
+                  rows={3}
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="actions" className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {openActions > 0
+                    ? `${openActions} action(s) en cours`
+                    : 'Toutes les actions liées sont terminées'}
+                </p>
+                {canEdit && (
+                  <Button size="sm" onClick={() => setActionDialog({ title: rootCause.trim() })}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nouvelle action
+                  </Button>
+                )}
+              </div>
+              <div className="space-y-2">
+                {linkedActions?.length ? linkedActions.map((action) => (
+                  <div key={action.id} className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border/50">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {action.status === 'completed'
+                        ? <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-status-green" />
+                        : <Clock className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+                      <span className="text-sm font-medium truncate">{action.title}</span>
+                      {action.problem_cause_id && (
+                        <Star className="h-3 w-3 flex-shrink-0 fill-status-orange text-status-orange" />
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0 text-xs text-muted-foreground">
+                      <span>{format(new Date(action.due_date), 'dd MMM', { locale: fr })}</span>
+                      <Badge variant="outline" className="text-xs">{actionStatusLabels[action.status]}</Badge>
+                    </div>
+                  </div>
+                )) : (
+                  <p className="text-center py-6 text-sm text-muted-foreground">Aucune action liée</p>
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          {canEdit && (
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Fermer
+              </Button>
+              <Button onClick={handleSave} disabled={saveRca.isPending}>
+                {saveRca.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Enregistrer l'analyse
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CreateActionDialog
+        open={!!actionDialog}
+        onOpenChange={(isOpen) => !isOpen && setActionDialog(null)}
+        defaultCategoryId={problem.category_id}
+        defaultTitle={actionDialog?.title}
+        problemId={problem.id}
+        problemCauseId={actionDialog?.causeId}
+      />
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useReviewAction } from '@/hooks/useSfmData';
+import { Action } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ThumbsUp, ThumbsDown, Loader2 } from 'lucide-react';
+
+interface ReviewActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: Action | null;
+}
+
+export function ReviewActionDialog({ open, onOpenChange, action }: ReviewActionDialogProps) {
+  const reviewAction = useReviewAction();
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (open) setComment('');
+  }, [open]);
+
+  const handleReview = (approved: boolean) => {
+    if (!action) return;
+    reviewAction.mutate(
+      { id: action.id, approved, comment: comment.trim() || undefined },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  if (!action) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Valider l'action</DialogTitle>
+          <DialogDescription>
+            Validez la réalisation de l'action ou rejetez-la avec un commentaire. Le responsable est notifié de la décision.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg border bg-muted/30 space-y-1">
+            <p className="font-semibold">{action.title}</p>
+            {action.description && (
+              <p className="text-sm text-muted-foreground">{action.description}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {action.responsible?.full_name && `${action.responsible.full_name} · `}
+              {action.completed_at
+                ? `Terminée le ${format(new Date(action.completed_at), 'dd/MM/yyyy HH:mm', { locale: fr })}`
+                : `Échéance le ${format(new Date(action.due_date), 'dd/MM/yyyy', { locale: fr })}`}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Commentaire (obligatoire en cas de rejet)</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Ex: photo du poste manquante, standard non mis à jour..."
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="text-destructive hover:text-destructive"
+            disabled={!comment.trim() || reviewAction.isPending}
+            onClick={() => handleReview(false)}
+          >
+            <ThumbsDown className="h-4 w-4 mr-2" />
+            Rejeter
+          </Button>
+          <Button disabled={reviewAction.isPending} onClick={() => handleReview(true)}>
+            {reviewAction.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ThumbsUp className="h-4 w-4 mr-2" />}
+            Valider
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
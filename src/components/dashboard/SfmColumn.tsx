@@ -1,12 +1,15 @@
 import { useState } from 'react';
-import { Shield, CheckCircle, DollarSign, Truck, TrendingUp, Users, AlertTriangle, Clock, Plus, Pencil, Trash2, MoreHorizontal, PlusCircle } from 'lucide-react';
+import { Shield, CheckCircle, DollarSign, Truck, TrendingUp, Users, AlertTriangle, Clock, Plus, Pencil, Trash2, MoreHorizontal, PlusCircle, Layers, History } from 'lucide-react';
 import { SfmCategory, Kpi, Action } from '@/types/sfm';
 import { useKpis, useCategoryStats, useActions, useDeleteKpi } from '@/hooks/useSfmData';
 import { useAuth } from '@/hooks/useAuth';
+import { useBoard } from '@/contexts/BoardContext';
 import { KpiChart } from './KpiChart';
 import { ActionCard } from './ActionCard';
 import { EditActionDialog } from './EditActionDialog';
 import { AddKpiValueDialog } from './AddKpiValueDialog';
+import { KpiValueHistoryDialog } from './KpiValueHistoryDialog';
+import { CreateActionDialog } from './CreateActionDialog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -29,6 +32,8 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
 
 interface SfmColumnProps {
   category: SfmCategory;
+  // Matching categories of child boards, rolled up into this column
+  childCategories?: SfmCategory[];
   onAddAction?: () => void;
   onAddKpi?: () => void;
   onEditCategory?: (category: SfmCategory) => void;
@@ -36,23 +41,34 @@ interface SfmColumnProps {
   onEditKpi?: (kpi: Kpi) => void;
 }
 
-export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onDeleteCategory, onEditKpi }: SfmColumnProps) {
+export function SfmColumn({ category, childCategories = [], onAddAction, onAddKpi, onEditCategory, onDeleteCategory, onEditKpi }: SfmColumnProps) {
   const { role } = useAuth();
-  const { data: kpis } = useKpis(category.id);
-  const { data: stats } = useCategoryStats(category.id);
-  const { data: actions } = useActions(category.id);
+  const { boards } = useBoard();
+  const categoryIds = [category.id, ...childCategories.map(c => c.id)];
+  const { data: kpis } = useKpis(categoryIds);
+  const { data: stats } = useCategoryStats(categoryIds);
+  const { data: actions } = useActions(categoryIds);
   const deleteKpi = useDeleteKpi();
   
   const [selectedKpiId, setSelectedKpiId] = useState<string | null>(null);
   const [editActionOpen, setEditActionOpen] = useState(false);
   const [selectedAction, setSelectedAction] = useState<Action | null>(null);
   const [addValueDialogOpen, setAddValueDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [kpiActionDialogOpen, setKpiActionDialogOpen] = useState(false);
   
   const Icon = iconMap[category.icon || 'trending-up'] || TrendingUp;
   const selectedKpi = kpis?.find(k => k.id === selectedKpiId) || kpis?.[0];
 
   const openActions = actions?.filter(a => a.status !== 'completed') || [];
 
+  // Board name of a rolled-up KPI, shown next to its name
+  const getChildBoardName = (kpi: Kpi) => {
+    const childCategory = childCategories.find(c => c.id === kpi.category_id);
+    if (!childCategory) return null;
+    return boards.find(b => b.id === childCategory.board_id)?.name || null;
+  };
+
   // All roles except operator can manage actions
   const canManage = role !== 'operator';
   // Admin and manager can manage categories and KPIs
@@ -65,7 +81,7 @@ export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onD
   };
 
   const handleDeleteKpi = (kpiId: string) => {
-    if (confirm('Supprimer cet indicateur KPI ?')) {
+    if (confirm('Déplacer cet indicateur KPI dans la corbeille ?')) {
       deleteKpi.mutate(kpiId);
     }
   };
@@ -137,6 +153,12 @@ export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onD
               {stats.openActions} actions
             </Badge>
           ) : null}
+          {childCategories.length > 0 && (
+            <Badge variant="outline" className="text-xs gap-1">
+              <Layers className="h-3 w-3" />
+              +{childCategories.length} tableau(x)
+            </Badge>
+          )}
         </div>
       </div>
 
@@ -164,11 +186,17 @@ export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onD
                 <SelectValue placeholder="Sélectionner un KPI" />
               </SelectTrigger>
               <SelectContent>
-                {kpis.map((kpi) => (
-                  <SelectItem key={kpi.id} value={kpi.id}>
-                    {kpi.name}
-                  </SelectItem>
-                ))}
+                {kpis.map((kpi) => {
+                  const childBoardName = getChildBoardName(kpi);
+                  return (
+                    <SelectItem key={kpi.id} value={kpi.id}>
+                      {kpi.name}
+                      {childBoardName && (
+                        <span className="text-muted-foreground"> · {childBoardName}</span>
+                      )}
+                    </SelectItem>
+                  );
+                })}
               </SelectContent>
             </Select>
             {canManageKpis && selectedKpi && (
@@ -183,6 +211,10 @@ export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onD
                     <Pencil className="h-4 w-4 mr-2" />
                     Modifier
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setHistoryDialogOpen(true)}>
+                    <History className="h-4 w-4 mr-2" />
+                    Historique des valeurs
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={() => handleDeleteKpi(selectedKpi.id)} 
                     className="text-destructive"
@@ -204,7 +236,11 @@ export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onD
       {/* KPI Chart */}
       {selectedKpi && (
         <div className="p-4 border-b border-border/30">
-          <KpiChart kpi={selectedKpi} categoryColor={category.color} />
+          <KpiChart
+            kpi={selectedKpi}
+            categoryColor={category.color}
+            onCreateAction={canManage ? () => setKpiActionDialogOpen(true) : undefined}
+          />
           {/* Add KPI Value Button */}
           {canManageKpis && (
             <Button 
@@ -272,6 +308,24 @@ export function SfmColumn({ category, onAddAction, onAddKpi, onEditCategory, onD
         defaultKpiId={selectedKpi?.id}
         defaultCategoryId={category.id}
       />
+
+      {/* KPI Value History Dialog */}
+      <KpiValueHistoryDialog
+        open={historyDialogOpen}
+        onOpenChange={setHistoryDialogOpen}
+        kpi={selectedKpi || null}
+      />
+
+      {/* KPI Countermeasure Dialog */}
+      {selectedKpi && (
+        <CreateActionDialog
+          open={kpiActionDialogOpen}
+          onOpenChange={setKpiActionDialogOpen}
+          defaultCategoryId={selectedKpi.category_id}
+          defaultTitle={`Contre-mesure: ${selectedKpi.name}`}
+          kpiId={selectedKpi.id}
+        />
+      )}
     </div>
   );
 }
@@ -1,12 +1,14 @@
 import { Clock, AlertTriangle, CheckCircle, ChevronRight } from 'lucide-react';
 import { useTodayPriorities } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { ActionCard } from './ActionCard';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
 export function TodayPriorities() {
-  const { data: priorities, isLoading } = useTodayPriorities();
+  const { boardIds } = useBoard();
+  const { data: priorities, isLoading } = useTodayPriorities(boardIds);
 
   const urgentCount = priorities?.filter(a => a.priority === 'urgent').length || 0;
   const highCount = priorities?.filter(a => a.priority === 'high').length || 0;
@@ -2,6 +2,9 @@ import { Bell, LogOut, User, ChevronDown, Settings, Sun, Moon } from 'lucide-rea
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useNotifications } from '@/hooks/useNotifications';
+import { BoardSelector } from './BoardSelector';
+import { LivePresence } from './LivePresence';
+import { OfflineStatus } from './OfflineStatus';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -71,6 +74,23 @@ export function AppHeader({ title, subtitle }: AppHeaderProps) {
 
         {/* Right side */}
         <div className="flex items-center gap-2 sm:gap-4">
+          {/* Board Selector - Hidden for admin */}
+          {showAlerts && (
+            <div className="hidden md:block">
+              <BoardSelector />
+            </div>
+          )}
+
+          {/* Offline mode and entries waiting to be sent */}
+          <OfflineStatus />
+
+          {/* Live updates and who is on the board */}
+          {showAlerts && (
+            <div className="hidden sm:block">
+              <LivePresence />
+            </div>
+          )}
+
           {/* Theme Toggle */}
           <Button 
             variant="ghost" 
@@ -11,7 +11,9 @@ import {
   ChevronRight,
   Users,
   FileBarChart,
-  Factory
+  Factory,
+  ScrollText,
+  Timer
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
@@ -37,14 +39,17 @@ const operatorItems: NavItem[] = [
   { title: 'Paramètres', href: '/settings', icon: Settings, requiredRole: ['manager', 'team_leader', 'operator'] },
 ];
 
-// Pages supplémentaires pour chef d'équipe et manager (Rapports uniquement)
+// Pages supplémentaires pour chef d'équipe et manager (Réunion, rapports, journal d'audit)
 const teamLeaderItems: NavItem[] = [
+  { title: 'Réunion SFM', href: '/meeting', icon: Timer, requiredRole: ['manager', 'team_leader'] },
   { title: 'Rapports', href: '/reports', icon: FileBarChart, requiredRole: ['manager'] },
+  { title: 'Journal d\'audit', href: '/audit', icon: ScrollText, requiredRole: ['manager'] },
 ];
 
 // Pages d'administration - uniquement pour admin
 const adminItems: NavItem[] = [
   { title: 'Utilisateurs', href: '/users', icon: Users, requiredRole: ['admin'] },
+  { title: 'Journal d\'audit', href: '/audit', icon: ScrollText, requiredRole: ['admin'] },
   { title: 'Paramètres', href: '/settings', icon: Settings, requiredRole: ['admin'] },
 ];
 
@@ -0,0 +1,44 @@
+import { Network } from 'lucide-react';
+import { useBoard } from '@/contexts/BoardContext';
+import { Board } from '@/types/sfm';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Order boards as a tree (parents followed by their children) with their depth
+function flattenBoards(boards: Board[]) {
+  const visibleIds = new Set(boards.map(b => b.id));
+  const result: { board: Board; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    boards
+      .filter(b => (parentId === null ? !b.parent_id || !visibleIds.has(b.parent_id) : b.parent_id === parentId))
+      .forEach(board => {
+        result.push({ board, depth });
+        visit(board.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+}
+
+export function BoardSelector() {
+  const { boards, currentBoard, setCurrentBoardId } = useBoard();
+
+  if (boards.length === 0) return null;
+
+  return (
+    <Select value={currentBoard?.id || ''} onValueChange={setCurrentBoardId}>
+      <SelectTrigger className="w-[200px] bg-background/50">
+        <div className="flex items-center gap-2 truncate">
+          <Network className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <SelectValue placeholder="Sélectionner un tableau" />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {flattenBoards(boards).map(({ board, depth }) => (
+          <SelectItem key={board.id} value={board.id}>
+            <span style={{ paddingLeft: depth * 12 }}>{board.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,47 @@
+import { Users } from 'lucide-react';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+export function LivePresence() {
+  const { isLive, onlineUsers } = useRealtime();
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2 rounded-full border bg-background/50 px-3 py-1 text-xs">
+          <span className="relative flex h-2 w-2">
+            {isLive && (
+              <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-[hsl(var(--status-green))] opacity-75" />
+            )}
+            <span
+              className={cn(
+                'relative inline-flex h-2 w-2 rounded-full',
+                isLive ? 'bg-[hsl(var(--status-green))]' : 'bg-muted-foreground'
+              )}
+            />
+          </span>
+          <span className="hidden lg:inline font-medium">{isLive ? 'En direct' : 'Hors ligne'}</span>
+          {onlineUsers.length > 0 && (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <Users className="h-3 w-3" />
+              {onlineUsers.length}
+            </span>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent align="end">
+        {isLive ? (
+          <div className="space-y-1">
+            <p className="font-medium">Sur ce tableau en ce moment</p>
+            {onlineUsers.map(u => (
+              <p key={u.user_id} className="text-muted-foreground">{u.full_name}</p>
+            ))}
+          </div>
+        ) : (
+          <p>Connexion temps réel interrompue, actualisation toutes les 30 secondes</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,99 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useOffline } from '@/contexts/OfflineContext';
+import { Kpi, QueuedMutation } from '@/types/sfm';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+// Shown only while offline or while typed entries wait to be sent
+export function OfflineStatus() {
+  const queryClient = useQueryClient();
+  const { isOnline, queue, isSyncing, sync, resolveConflict } = useOffline();
+
+  if (isOnline && queue.length === 0) return null;
+
+  const conflicts = queue.filter(m => m.conflict).length;
+
+  // KPI names come from whatever KPI lists are cached, which works offline too
+  const kpiName = (kpiId: string) => {
+    for (const [, kpis] of queryClient.getQueriesData<Kpi[]>({ queryKey: ['kpis'] })) {
+      const kpi = Array.isArray(kpis) ? kpis.find(k => k.id === kpiId) : undefined;
+      if (kpi) return kpi.name;
+    }
+    return 'KPI';
+  };
+
+  const describe = (mutation: QueuedMutation) =>
+    mutation.kind === 'kpi_value'
+      ? `${kpiName(mutation.payload.kpi_id)} : ${mutation.payload.value}`
+      : `Problème : ${mutation.payload.title}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium',
+            conflicts > 0
+              ? 'border-destructive/30 bg-destructive/10 text-destructive'
+              : 'border-[hsl(var(--status-orange))]/30 bg-[hsl(var(--status-orange))]/10 text-[hsl(var(--status-orange))]'
+          )}
+        >
+          {isSyncing ? <Loader2 className="h-3 w-3 animate-spin" /> : conflicts > 0 ? <AlertTriangle className="h-3 w-3" /> : <CloudOff className="h-3 w-3" />}
+          <span className="hidden lg:inline">{isOnline ? 'À synchroniser' : 'Hors connexion'}</span>
+          {queue.length > 0 && <span>{queue.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-3">
+          <div>
+            <p className="font-medium">{isOnline ? 'Saisies en attente' : 'Mode hors connexion'}</p>
+            <p className="text-xs text-muted-foreground">
+              {isOnline
+                ? 'Ces saisies n\'ont pas encore pu être envoyées'
+                : 'Les dernières données chargées restent affichées. Les valeurs KPI et les problèmes saisis seront envoyés au retour du réseau.'}
+            </p>
+          </div>
+
+          {queue.length > 0 && (
+            <ScrollArea className="max-h-64">
+              <div className="space-y-2 pr-3">
+                {queue.map(mutation => (
+                  <div key={mutation.id} className={cn('rounded-md border p-2 text-sm', mutation.conflict && 'border-destructive/40')}>
+                    <p className="truncate font-medium">{describe(mutation)}</p>
+                    <p className="text-xs text-muted-foreground">Saisi le {format(new Date(mutation.queued_at), 'dd/MM HH:mm')}</p>
+                    {mutation.conflict && (
+                      <>
+                        <p className="mt-1 text-xs text-destructive">{mutation.conflict}</p>
+                        <div className="mt-2 flex gap-2">
+                          <Button size="sm" variant="outline" className="h-7 gap-1" disabled={!isOnline} onClick={() => resolveConflict(mutation.id, 'force')}>
+                            <Upload className="h-3 w-3" />
+                            Envoyer quand même
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 gap-1 text-destructive" onClick={() => resolveConflict(mutation.id, 'discard')}>
+                            <Trash2 className="h-3 w-3" />
+                            Abandonner
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          {queue.length > conflicts && (
+            <Button size="sm" className="w-full gap-2" disabled={!isOnline || isSyncing} onClick={() => sync()}>
+              <RefreshCw className={cn('h-4 w-4', isSyncing && 'animate-spin')} />
+              Synchroniser maintenant
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
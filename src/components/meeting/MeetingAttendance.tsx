@@ -0,0 +1,44 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Users } from 'lucide-react';
+
+interface MeetingAttendanceProps {
+  profiles: { user_id: string; full_name: string }[];
+  // user_id -> present; people not in the map are absent
+  attendance: Record<string, boolean>;
+  onChange: (userId: string, present: boolean) => void;
+}
+
+export function MeetingAttendance({ profiles, attendance, onChange }: MeetingAttendanceProps) {
+  const presentCount = profiles.filter(p => attendance[p.user_id]).length;
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Présences
+          <span className="ml-auto text-sm font-normal text-muted-foreground">
+            {presentCount}/{profiles.length}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-56">
+          <div className="space-y-2 pr-3">
+            {profiles.map(profile => (
+              <label key={profile.user_id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={!!attendance[profile.user_id]}
+                  onCheckedChange={(checked) => onChange(profile.user_id, checked === true)}
+                />
+                {profile.full_name}
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
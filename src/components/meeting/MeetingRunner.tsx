@@ -0,0 +1,373 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { KpiChart } from '@/components/dashboard/KpiChart';
+import { ActionCard } from '@/components/dashboard/ActionCard';
+import { CreateActionDialog } from '@/components/dashboard/CreateActionDialog';
+import { CreateNoteDialog } from '@/components/dashboard/CreateNoteDialog';
+import { MeetingAttendance } from '@/components/meeting/MeetingAttendance';
+import { useKpis, useActions } from '@/hooks/useSfmData';
+import { useMentionableProfiles } from '@/hooks/useComments';
+import { useMeetingActions, useMeetingNotes, useFinishMeeting, useCancelMeeting } from '@/hooks/useMeetings';
+import { planMeetingSegments, formatClock } from '@/lib/meeting';
+import { cn } from '@/lib/utils';
+import { Meeting, MeetingSegmentDraft, SfmCategory } from '@/types/sfm';
+import { ChevronLeft, ChevronRight, Pause, Play, Flag, X, CheckSquare, FileText, Loader2 } from 'lucide-react';
+
+interface MeetingRunnerProps {
+  meeting: Meeting;
+  categories: SfmCategory[];
+}
+
+interface RunnerState {
+  segments: MeetingSegmentDraft[];
+  currentIndex: number;
+  attendance: Record<string, boolean>;
+}
+
+// The runner survives a page reload or a tablet going to sleep
+const storageKey = (meetingId: string) => `sfm-meeting-${meetingId}`;
+
+function loadState(meeting: Meeting, categories: SfmCategory[]): RunnerState {
+  const saved = localStorage.getItem(storageKey(meeting.id));
+  if (saved) {
+    try {
+      return JSON.parse(saved) as RunnerState;
+    } catch {
+      localStorage.removeItem(storageKey(meeting.id));
+    }
+  }
+  return { segments: planMeetingSegments(categories, meeting.planned_minutes), currentIndex: 0, attendance: {} };
+}
+
+function CategoryReview({ category, onCreateAction }: { category: SfmCategory; onCreateAction: (kpiId?: string) => void }) {
+  const { data: kpis } = useKpis(category.id);
+  const { data: actions } = useActions(category.id);
+  const openActions = actions?.filter(a => a.status !== 'completed') || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        {kpis?.length ? kpis.map(kpi => (
+          <Card key={kpi.id} className="bg-card/50 border-border/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">{kpi.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <KpiChart kpi={kpi} categoryColor={category.color} onCreateAction={() => onCreateAction(kpi.id)} />
+            </CardContent>
+          </Card>
+        )) : (
+          <p className="text-sm text-muted-foreground">Aucun KPI dans cette catégorie</p>
+        )}
+      </div>
+
+      <Card className="bg-card/50 border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">Actions ouvertes ({openActions.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {openActions.length ? openActions.map(action => (
+            <ActionCard key={action.id} action={action} compact />
+          )) : (
+            <p className="text-sm text-muted-foreground">Aucune action ouverte</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function MeetingRunner({ meeting, categories }: MeetingRunnerProps) {
+  const { data: profiles } = useMentionableProfiles();
+  const { data: meetingActions } = useMeetingActions(meeting.id);
+  const { data: meetingNotes } = useMeetingNotes(meeting.id);
+  const finishMeeting = useFinishMeeting();
+  const cancelMeeting = useCancelMeeting();
+
+  const [state, setState] = useState<RunnerState>(() => loadState(meeting, categories));
+  const [paused, setPaused] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [actionDialog, setActionDialog] = useState<{ open: boolean; kpiId?: string }>({ open: false });
+  const [noteDialogOpen, setNoteDialogOpen] = useState(false);
+  const [finishOpen, setFinishOpen] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [summary, setSummary] = useState('');
+
+  const { segments, currentIndex, attendance } = state;
+  const segment = segments[currentIndex];
+  const category = categories.find(c => c.id === segment?.category_id);
+
+  useEffect(() => {
+    localStorage.setItem(storageKey(meeting.id), JSON.stringify(state));
+  }, [meeting.id, state]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (paused) return;
+      setState(prev => ({
+        ...prev,
+        segments: prev.segments.map((s, i) => (i === prev.currentIndex ? { ...s, spent_seconds: s.spent_seconds + 1 } : s)),
+      }));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [paused]);
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= segments.length) return;
+    setState(prev => ({ ...prev, currentIndex: index }));
+  };
+
+  const updateSegmentComment = (comment: string) => {
+    setState(prev => ({
+      ...prev,
+      segments: prev.segments.map((s, i) => (i === prev.currentIndex ? { ...s, comment: comment || null } : s)),
+    }));
+  };
+
+  const setPresent = (userId: string, present: boolean) => {
+    setState(prev => ({ ...prev, attendance: { ...prev.attendance, [userId]: present } }));
+  };
+
+  const handleFinish = () => {
+    finishMeeting.mutate({
+      meetingId: meeting.id,
+      attendance: (profiles || []).map(p => ({ user_id: p.user_id, present: !!attendance[p.user_id] })),
+      segments,
+      summary: summary.trim() || null,
+    }, {
+      onSuccess: () => {
+        localStorage.removeItem(storageKey(meeting.id));
+        setFinishOpen(false);
+      },
+    });
+  };
+
+  const handleCancel = () => {
+    cancelMeeting.mutate(meeting.id, {
+      onSuccess: () => localStorage.removeItem(storageKey(meeting.id)),
+    });
+  };
+
+  const elapsedSeconds = Math.max(0, (now - new Date(meeting.started_at).getTime()) / 1000);
+  const plannedSeconds = meeting.planned_minutes * 60;
+  const remaining = segment ? segment.planned_seconds - segment.spent_seconds : 0;
+  const categoryActions = meetingActions?.filter(a => a.category_id === segment?.category_id) || [];
+  const categoryNotes = meetingNotes?.filter(n => n.category_id === segment?.category_id) || [];
+
+  if (!segment) {
+    return (
+      <Card className="bg-card/50 border-border/50">
+        <CardContent className="p-8 text-center text-muted-foreground">
+          Ce tableau n'a aucune catégorie à passer en revue.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Agenda */}
+      <div className="flex flex-wrap items-center gap-2">
+        {segments.map((s, i) => {
+          const segmentCategory = categories.find(c => c.id === s.category_id);
+          const isOver = s.spent_seconds > s.planned_seconds;
+          return (
+            <button
+              key={s.position}
+              onClick={() => goTo(i)}
+              className={cn(
+                'rounded-full border px-3 py-1 text-sm transition-colors',
+                i === currentIndex ? 'text-white' : 'bg-background/50 text-muted-foreground hover:text-foreground'
+              )}
+              style={i === currentIndex ? { backgroundColor: segmentCategory?.color, borderColor: segmentCategory?.color } : undefined}
+            >
+              {s.category_name}
+              {s.spent_seconds > 0 && (
+                <span className={cn('ml-2 font-mono-data text-xs', isOver && i !== currentIndex && 'text-destructive')}>
+                  {formatClock(s.spent_seconds)}
+                </span>
+              )}
+            </button>
+          );
+        })}
+        <div className="ml-auto flex items-center gap-3 text-sm text-muted-foreground">
+          <span className={cn('font-mono-data', elapsedSeconds > plannedSeconds && 'text-destructive font-semibold')}>
+            {formatClock(elapsedSeconds)} / {formatClock(plannedSeconds)}
+          </span>
+          <Progress value={Math.min(100, (elapsedSeconds / plannedSeconds) * 100)} className="w-32 h-2" />
+        </div>
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-[1fr_360px]">
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold" style={{ color: category?.color }}>{segment.category_name}</h2>
+          {category ? (
+            <CategoryReview category={category} onCreateAction={(kpiId) => setActionDialog({ open: true, kpiId })} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Cette catégorie n'est plus disponible.</p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {/* Timer */}
+          <Card className="bg-card/50 border-border/50">
+            <CardContent className="p-6 space-y-4 text-center">
+              <p className={cn('text-6xl font-bold font-mono-data', remaining < 0 && 'text-destructive')}>
+                {formatClock(remaining)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {remaining < 0 ? 'Temps dépassé' : 'Temps restant pour cette catégorie'}
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => goTo(currentIndex - 1)} disabled={currentIndex === 0}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setPaused(p => !p)} className="gap-2">
+                  {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  {paused ? 'Reprendre' : 'Pause'}
+                </Button>
+                {currentIndex < segments.length - 1 ? (
+                  <Button onClick={() => goTo(currentIndex + 1)} className="gap-2">
+                    Suivant
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button onClick={() => setFinishOpen(true)} className="gap-2">
+                    <Flag className="h-4 w-4" />
+                    Terminer
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Decisions */}
+          <Card className="bg-card/50 border-border/50">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Décisions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" className="flex-1 gap-2" onClick={() => setActionDialog({ open: true })}>
+                  <CheckSquare className="h-4 w-4" />
+                  Action
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1 gap-2" onClick={() => setNoteDialogOpen(true)}>
+                  <FileText className="h-4 w-4" />
+                  Note
+                </Button>
+              </div>
+              {categoryActions.map(action => (
+                <div key={action.id} className="flex items-center gap-2 text-sm">
+                  <Badge variant="secondary">Action</Badge>
+                  <span className="truncate">{action.title}</span>
+                </div>
+              ))}
+              {categoryNotes.map(note => (
+                <div key={note.id} className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline">Note</Badge>
+                  <span className="truncate">{note.title || note.content}</span>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="segment-comment">Commentaire</Label>
+                <Textarea
+                  id="segment-comment"
+                  value={segment.comment || ''}
+                  onChange={(e) => updateSegmentComment(e.target.value)}
+                  placeholder="Points clés de cette catégorie..."
+                  rows={3}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <MeetingAttendance profiles={profiles || []} attendance={attendance} onChange={setPresent} />
+
+          <Button variant="ghost" className="w-full text-destructive hover:text-destructive gap-2" onClick={() => setCancelOpen(true)}>
+            <X className="h-4 w-4" />
+            Annuler la réunion
+          </Button>
+        </div>
+      </div>
+
+      <CreateActionDialog
+        open={actionDialog.open}
+        onOpenChange={(open) => setActionDialog(prev => ({ ...prev, open }))}
+        defaultCategoryId={segment.category_id || undefined}
+        kpiId={actionDialog.kpiId}
+        meetingId={meeting.id}
+      />
+
+      <CreateNoteDialog
+        open={noteDialogOpen}
+        onOpenChange={setNoteDialogOpen}
+        defaultCategoryId={segment.category_id || undefined}
+        meetingId={meeting.id}
+      />
+
+      <Dialog open={finishOpen} onOpenChange={setFinishOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Terminer la réunion</DialogTitle>
+            <DialogDescription>
+              {(profiles || []).filter(p => attendance[p.user_id]).length} présent(s),{' '}
+              {meetingActions?.length || 0} action(s) et {meetingNotes?.length || 0} note(s) décidées en{' '}
+              {formatClock(elapsedSeconds)}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="meeting-summary">Synthèse (optionnel)</Label>
+            <Textarea
+              id="meeting-summary"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFinishOpen(false)}>Continuer</Button>
+            <Button onClick={handleFinish} disabled={finishMeeting.isPending}>
+              {finishMeeting.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Enregistrer la réunion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Annuler la réunion ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Les présences et les temps ne seront pas enregistrés. Les actions et notes déjà créées sont conservées.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Retour</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Annuler la réunion
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAlertSchedule, useUpdateAlertSchedule, useAlertRuns } from '@/hooks/useAlertSchedule';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { CalendarClock, Loader2, Plus, Save, X } from 'lucide-react';
+
+const INTERVALS = [
+  { value: 'none', label: 'Aux prises de poste uniquement' },
+  { value: '15', label: 'Toutes les 15 minutes' },
+  { value: '30', label: 'Toutes les 30 minutes' },
+  { value: '60', label: 'Toutes les heures' },
+  { value: '120', label: 'Toutes les 2 heures' },
+  { value: '240', label: 'Toutes les 4 heures' },
+  { value: '480', label: 'Toutes les 8 heures' },
+];
+
+export function AlertScheduleCard() {
+  const { user } = useAuth();
+  const { data: schedule, isLoading } = useAlertSchedule();
+  const { data: runs, isLoading: runsLoading } = useAlertRuns(10);
+  const updateSchedule = useUpdateAlertSchedule();
+
+  const [enabled, setEnabled] = useState(true);
+  const [intervalMinutes, setIntervalMinutes] = useState('60');
+  const [shiftStarts, setShiftStarts] = useState<string[]>([]);
+  const [newShift, setNewShift] = useState('');
+
+  useEffect(() => {
+    if (schedule) {
+      setEnabled(schedule.enabled);
+      setIntervalMinutes(schedule.interval_minutes ? schedule.interval_minutes.toString() : 'none');
+      setShiftStarts(schedule.shift_starts);
+    }
+  }, [schedule]);
+
+  const addShift = () => {
+    if (!/^([01][0-9]|2[0-3]):[0-5][0-9]$/.test(newShift) || shiftStarts.includes(newShift)) return;
+    setShiftStarts(prev => [...prev, newShift].sort());
+    setNewShift('');
+  };
+
+  const handleSave = () => {
+    updateSchedule.mutate({
+      enabled,
+      interval_minutes: intervalMinutes === 'none' ? null : parseInt(intervalMinutes),
+      shift_starts: shiftStarts,
+      updated_by: user?.id,
+    });
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50 lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Génération automatique des alertes
+        </CardTitle>
+        <CardDescription>
+          Les actions en retard, KPI critiques et problèmes graves sont vérifiés sans attendre une actualisation manuelle
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+          </div>
+        ) : !schedule ? (
+          <p className="text-sm text-muted-foreground">Planification indisponible</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between p-3 rounded-lg border border-border/50 bg-muted/20">
+                <div className="space-y-0.5">
+                  <Label htmlFor="alertScheduleEnabled" className="text-sm">Exécution planifiée</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.last_dispatched_at
+                      ? `Dernière exécution planifiée le ${format(new Date(schedule.last_dispatched_at), 'dd/MM à HH:mm')}`
+                      : 'Aucune exécution planifiée pour l\'instant'}
+                  </p>
+                </div>
+                <Switch id="alertScheduleEnabled" checked={enabled} onCheckedChange={setEnabled} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Fréquence</Label>
+                <Select value={intervalMinutes} onValueChange={setIntervalMinutes} disabled={!enabled}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INTERVALS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="newShiftStart">Prises de poste</Label>
+              <p className="text-xs text-muted-foreground">
+                Une vérification est lancée à chaque prise de poste, heure du fuseau de l'application
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {shiftStarts.length === 0 && (
+                  <span className="text-sm text-muted-foreground">Aucune</span>
+                )}
+                {shiftStarts.map(time => (
+                  <Badge key={time} variant="outline" className="gap-1 font-mono-data">
+                    {time}
+                    <button
+                      type="button"
+                      onClick={() => setShiftStarts(prev => prev.filter(t => t !== time))}
+                      disabled={!enabled}
+                      className="hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="newShiftStart"
+                  type="time"
+                  value={newShift}
+                  onChange={(e) => setNewShift(e.target.value)}
+                  disabled={!enabled}
+                  className="w-32"
+                />
+                <Button type="button" variant="outline" size="sm" className="gap-1" onClick={addShift} disabled={!enabled || !newShift}>
+                  <Plus className="h-4 w-4" />
+                  Ajouter
+                </Button>
+              </div>
+            </div>
+
+            <div className="md:col-span-2">
+              <Button onClick={handleSave} className="w-full" disabled={updateSchedule.isPending}>
+                {updateSchedule.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Enregistrer la planification
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground">Dernières exécutions</h3>
+          {runsLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Déclenchement</TableHead>
+                  <TableHead className="text-right">Vérifiées</TableHead>
+                  <TableHead className="text-right">Nouvelles alertes</TableHead>
+                  <TableHead>Statut</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!runs || runs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Aucune exécution enregistrée
+                    </TableCell>
+                  </TableRow>
+                ) : runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>{format(new Date(run.started_at), 'EEE dd/MM HH:mm', { locale: fr })}</TableCell>
+                    <TableCell>
+                      {run.trigger === 'schedule' ? 'Planifiée' : `Manuelle${run.author ? ` · ${run.author.full_name}` : ''}`}
+                    </TableCell>
+                    <TableCell className="text-right font-mono-data">{run.total_checked}</TableCell>
+                    <TableCell className="text-right font-mono-data">{run.new_alerts_created}</TableCell>
+                    <TableCell>
+                      {run.status === 'success' ? (
+                        <Badge variant="outline" className="bg-[hsl(var(--status-green))]/10 text-[hsl(var(--status-green))] border-[hsl(var(--status-green))]/20">
+                          Réussie
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20" title={run.error || undefined}>
+                          Échec
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
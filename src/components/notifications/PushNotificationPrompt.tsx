@@ -1,10 +1,12 @@
 import { useEffect, useState } from 'react';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Bell, X } from 'lucide-react';
 
 export function PushNotificationPrompt() {
+  const { user } = useAuth();
   const { isSupported, permission, requestPermission } = usePushNotifications();
   const [dismissed, setDismissed] = useState(false);
   const [showPrompt, setShowPrompt] = useState(false);
@@ -37,7 +39,8 @@ export function PushNotificationPrompt() {
     setShowPrompt(false);
   };
 
-  if (!showPrompt || dismissed || permission !== 'default') {
+  // Kiosk screens run without a session and must stay free of prompts
+  if (!user || !showPrompt || dismissed || permission !== 'default') {
     return null;
   }
 
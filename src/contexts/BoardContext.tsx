@@ -0,0 +1,72 @@
+import { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBoards, getDescendantBoardIds } from '@/hooks/useBoards';
+import { Board } from '@/types/sfm';
+
+const STORAGE_KEY = 'sfm-current-board';
+
+interface BoardContextType {
+  boards: Board[];
+  currentBoard: Board | null;
+  setCurrentBoardId: (id: string) => void;
+  // Current board and all of its descendants
+  boardIds: string[] | undefined;
+  // Descendants only, used to roll child boards up into the current one
+  childBoardIds: string[];
+  isLoading: boolean;
+}
+
+const BoardContext = createContext<BoardContextType | undefined>(undefined);
+
+export function BoardProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { data: boards = [], isLoading } = useBoards(!!user);
+  const [currentBoardId, setCurrentBoardIdState] = useState<string | null>(
+    () => localStorage.getItem(STORAGE_KEY)
+  );
+
+  // Fall back to the first root board the user can see
+  useEffect(() => {
+    if (!user || boards.length === 0) return;
+    if (!currentBoardId || !boards.some(b => b.id === currentBoardId)) {
+      const visibleIds = new Set(boards.map(b => b.id));
+      const root = boards.find(b => !b.parent_id || !visibleIds.has(b.parent_id)) || boards[0];
+      setCurrentBoardIdState(root.id);
+    }
+  }, [user, boards, currentBoardId]);
+
+  const setCurrentBoardId = (id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setCurrentBoardIdState(id);
+  };
+
+  const currentBoard = boards.find(b => b.id === currentBoardId) || null;
+
+  const childBoardIds = useMemo(
+    () => (currentBoard ? getDescendantBoardIds(boards, currentBoard.id) : []),
+    [boards, currentBoard]
+  );
+
+  const boardIds = currentBoard ? [currentBoard.id, ...childBoardIds] : undefined;
+
+  return (
+    <BoardContext.Provider value={{
+      boards,
+      currentBoard,
+      setCurrentBoardId,
+      boardIds,
+      childBoardIds,
+      isLoading,
+    }}>
+      {children}
+    </BoardContext.Provider>
+  );
+}
+
+export function useBoard() {
+  const context = useContext(BoardContext);
+  if (context === undefined) {
+    throw new Error('useBoard must be used within a BoardProvider');
+  }
+  return context;
+}
@@ -0,0 +1,291 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useQueryClient, QueryClient, dehydrate, hydrate, DehydratedState } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { insertKpiValue, insertProblem } from '@/hooks/useSfmData';
+import {
+  loadPersistedCache,
+  savePersistedCache,
+  clearPersistedCache,
+  getQueuedMutations,
+  putQueuedMutation,
+  removeQueuedMutation,
+  isNetworkError,
+  OFFLINE_CACHE_MAX_AGE,
+} from '@/lib/offlineStore';
+import { OfflineMutation, QueuedMutation } from '@/types/sfm';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+// Bump when the shape of cached data changes
+const CACHE_BUSTER = '1';
+
+interface OfflineContextType {
+  isOnline: boolean;
+  // Entries of the current user waiting to be sent, conflicts included
+  queue: QueuedMutation[];
+  isSyncing: boolean;
+  enqueue: (mutation: OfflineMutation) => Promise<void>;
+  sync: () => Promise<void>;
+  // 'force' sends a held entry anyway, 'discard' drops it
+  resolveConflict: (id: string, resolution: 'force' | 'discard') => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+// Someone else may have filled in the same data while the tablet was offline. The row
+// saved by a first send whose response was lost carries the entry's id and is not a conflict
+async function detectConflict(mutation: QueuedMutation): Promise<string | null> {
+  if (mutation.kind === 'kpi_value') {
+    const { payload } = mutation;
+    const { data: kpi, error: kpiError } = await supabase
+      .from('kpis')
+      .select('id')
+      .eq('id', payload.kpi_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (kpiError) throw kpiError;
+    if (!kpi) return 'Le KPI a été supprimé entre-temps';
+
+    const day = (payload.recorded_at || mutation.queued_at).slice(0, 10);
+    const nextDay = new Date(`${day}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    let query = supabase
+      .from('kpi_values')
+      .select('value')
+      .eq('kpi_id', payload.kpi_id)
+      .gte('recorded_at', day)
+      .lt('recorded_at', nextDay.toISOString().slice(0, 10));
+    if (payload.id) {
+      query = query.neq('id', payload.id);
+    }
+    const { data: existing, error } = await query.limit(1);
+    if (error) throw error;
+    if (existing.length > 0) {
+      return `Une valeur (${existing[0].value}) a déjà été saisie pour ce KPI le ${format(new Date(`${day}T00:00:00`), 'dd/MM/yyyy')}`;
+    }
+    return null;
+  }
+
+  const { payload } = mutation;
+  const { data: category, error: categoryError } = await supabase
+    .from('sfm_categories')
+    .select('id')
+    .eq('id', payload.category_id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (categoryError) throw categoryError;
+  if (!category) return 'La catégorie a été supprimée entre-temps';
+
+  let query = supabase
+    .from('problems')
+    .select('id')
+    .eq('category_id', payload.category_id)
+    .ilike('title', payload.title.replace(/[%_\\]/g, '\\$&'))
+    .neq('status', 'resolved')
+    .gte('created_at', mutation.queued_at);
+  if (payload.id) {
+    query = query.neq('id', payload.id);
+  }
+  const { data: existing, error } = await query.limit(1);
+  if (error) throw error;
+  if (existing.length > 0) return 'Un problème portant ce titre a déjà été déclaré entre-temps sur cette catégorie';
+  return null;
+}
+
+function send(mutation: QueuedMutation) {
+  return mutation.kind === 'kpi_value' ? insertKpiValue(mutation.payload) : insertProblem(mutation.payload);
+}
+
+function invalidateReplayed(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['kpi_values'] });
+  queryClient.invalidateQueries({ queryKey: ['kpi_value_breakdowns'] });
+  queryClient.invalidateQueries({ queryKey: ['problems'] });
+  queryClient.invalidateQueries({ queryKey: ['category_stats'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+}
+
+export function OfflineProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const previousUserIdRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Persist the query cache so that the board still shows its last data offline
+  useEffect(() => {
+    if (!userId) {
+      // Signing out must not leave the previous user's data on a shared tablet
+      if (previousUserIdRef.current) clearPersistedCache().catch(() => undefined);
+      previousUserIdRef.current = undefined;
+      return;
+    }
+    previousUserIdRef.current = userId;
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const save = () => {
+      clearTimeout(saveTimer);
+      saveTimer = setTimeout(() => {
+        savePersistedCache({
+          user_id: userId,
+          saved_at: Date.now(),
+          buster: CACHE_BUSTER,
+          state: dehydrate(queryClient),
+        }).catch((error) => console.error('Error persisting query cache:', error));
+      }, 1000);
+    };
+
+    loadPersistedCache()
+      .then((cache) => {
+        if (cancelled || !cache) return;
+        if (cache.user_id === userId && cache.buster === CACHE_BUSTER && Date.now() - cache.saved_at < OFFLINE_CACHE_MAX_AGE) {
+          // Queries fetched since startup are newer and are kept as they are
+          hydrate(queryClient, cache.state as DehydratedState);
+        }
+      })
+      .catch((error) => console.error('Error restoring query cache:', error))
+      .finally(() => {
+        // Subscribing only now avoids overwriting the saved cache before it is restored
+        if (cancelled) return;
+        unsubscribe = queryClient.getQueryCache().subscribe(save);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(saveTimer);
+      unsubscribe?.();
+    };
+  }, [userId, queryClient]);
+
+  const refreshQueue = useCallback(async () => {
+    setQueue(userId ? await getQueuedMutations(userId) : []);
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    if (!userId || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    let sent = 0;
+    let held = 0;
+    try {
+      for (const mutation of await getQueuedMutations(userId)) {
+        if (mutation.conflict) continue;
+        try {
+          const conflict = await detectConflict(mutation);
+          if (conflict) {
+            await putQueuedMutation({ ...mutation, conflict });
+            held++;
+            continue;
+          }
+          await send(mutation);
+          await removeQueuedMutation(mutation.id);
+          sent++;
+        } catch (error) {
+          // Still offline: keep the rest of the queue in order for the next attempt
+          if (isNetworkError(error)) break;
+          await putQueuedMutation({ ...mutation, conflict: `Refusé par le serveur : ${(error as Error).message}` });
+          held++;
+        }
+      }
+    } catch (error) {
+      console.error('Error replaying offline queue:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshQueue();
+    }
+
+    if (sent > 0) {
+      invalidateReplayed(queryClient);
+      toast.success(`${sent} saisie(s) hors connexion synchronisée(s)`);
+    }
+    if (held > 0) {
+      toast.warning(`${held} saisie(s) en conflit, à vérifier avant envoi`);
+    }
+  }, [userId, queryClient, refreshQueue]);
+
+  // Replay when the connection comes back, and at startup for entries left from a previous session
+  useEffect(() => {
+    refreshQueue().catch(() => undefined);
+    if (isOnline) sync();
+  }, [isOnline, refreshQueue, sync]);
+
+  // The browser may report being online while requests still fail (weak wifi), keep retrying
+  const hasPending = queue.some(m => !m.conflict);
+  useEffect(() => {
+    if (!isOnline || !hasPending) return;
+    const interval = setInterval(sync, 60000);
+    return () => clearInterval(interval);
+  }, [isOnline, hasPending, sync]);
+
+  const enqueue = useCallback(async (mutation: OfflineMutation) => {
+    if (!userId) throw new Error('Not authenticated');
+    await putQueuedMutation({
+      ...mutation,
+      id: crypto.randomUUID(),
+      user_id: userId,
+      queued_at: new Date().toISOString(),
+      conflict: null,
+    });
+    await refreshQueue();
+  }, [userId, refreshQueue]);
+
+  const resolveConflict = useCallback(async (id: string, resolution: 'force' | 'discard') => {
+    const mutation = queue.find(m => m.id === id);
+    if (!mutation) return;
+
+    if (resolution === 'discard') {
+      await removeQueuedMutation(id);
+      await refreshQueue();
+      return;
+    }
+
+    try {
+      await send(mutation);
+      await removeQueuedMutation(id);
+      invalidateReplayed(queryClient);
+      toast.success('Saisie envoyée');
+    } catch (error) {
+      if (isNetworkError(error)) {
+        toast.error('Toujours hors connexion');
+      } else {
+        await putQueuedMutation({ ...mutation, conflict: `Refusé par le serveur : ${(error as Error).message}` });
+        toast.error('Saisie refusée par le serveur');
+      }
+    } finally {
+      await refreshQueue();
+    }
+  }, [queue, queryClient, refreshQueue]);
+
+  return (
+    <OfflineContext.Provider value={{ isOnline, queue, isSyncing, enqueue, sync, resolveConflict }}>
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
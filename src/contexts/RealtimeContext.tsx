@@ -0,0 +1,162 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useQueryClient, QueryClient } from '@tanstack/react-query';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useBoard } from '@/contexts/BoardContext';
+import { Action } from '@/types/sfm';
+
+export interface OnlineUser {
+  user_id: string;
+  full_name: string;
+  online_at: string;
+}
+
+interface RealtimeContextType {
+  // Whether board changes are currently streamed from the database
+  isLive: boolean;
+  // Users looking at the current board, the current user included
+  onlineUsers: OnlineUser[];
+}
+
+type Row = Record<string, unknown>;
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+function changedRow(payload: RealtimePostgresChangesPayload<Row>): Row {
+  return payload.eventType === 'DELETE' ? payload.old : payload.new;
+}
+
+// Apply an action update to the cached lists right away, the refetch that
+// follows takes care of filters (status, board) the change may affect
+function patchActionLists(queryClient: QueryClient, row: Partial<Action>) {
+  queryClient.setQueriesData<Action[]>({ queryKey: ['actions'] }, (actions) => {
+    if (!Array.isArray(actions)) return actions;
+    if (row.deleted_at) return actions.filter(a => a.id !== row.id);
+    return actions.map(a => (a.id === row.id ? { ...a, ...row, category: a.category, template: a.template } : a));
+  });
+}
+
+function handleActionChange(queryClient: QueryClient, payload: RealtimePostgresChangesPayload<Row>) {
+  if (payload.eventType === 'UPDATE') {
+    patchActionLists(queryClient, payload.new as Partial<Action>);
+  }
+  queryClient.invalidateQueries({ queryKey: ['actions'] });
+  queryClient.invalidateQueries({ queryKey: ['today_priorities'] });
+  queryClient.invalidateQueries({ queryKey: ['overdue_actions'] });
+  queryClient.invalidateQueries({ queryKey: ['category_stats'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+  // Problem cards show the progress of their linked actions
+  if (changedRow(payload).problem_id) {
+    queryClient.invalidateQueries({ queryKey: ['problems'] });
+  }
+}
+
+function handleKpiValueChange(queryClient: QueryClient, payload: RealtimePostgresChangesPayload<Row>) {
+  const kpiId = changedRow(payload).kpi_id as string | undefined;
+  queryClient.invalidateQueries({ queryKey: kpiId ? ['kpi_values', kpiId] : ['kpi_values'] });
+  // Trend charts load several KPIs at once under ['kpi_values', 'history', ids]
+  queryClient.invalidateQueries({ queryKey: ['kpi_values', 'history'] });
+  queryClient.invalidateQueries({ queryKey: ['kpi_value_breakdowns'] });
+  queryClient.invalidateQueries({ queryKey: ['category_stats'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+}
+
+function handleProblemChange(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['problems'] });
+  queryClient.invalidateQueries({ queryKey: ['category_stats'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+}
+
+function handleNoteChange(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['notes'] });
+}
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user, profile } = useAuth();
+  const { currentBoard } = useBoard();
+  const currentBoardId = currentBoard?.id;
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+  const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
+
+  // Database changes, filtered by RLS on the server side
+  useEffect(() => {
+    if (!user?.id) return;
+    let subscribedOnce = false;
+
+    const channel = supabase
+      .channel('board-realtime')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'actions' }, (payload) =>
+        handleActionChange(queryClient, payload)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'kpi_values' }, (payload) =>
+        handleKpiValueChange(queryClient, payload)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'problems' }, () =>
+        handleProblemChange(queryClient)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'notes' }, () =>
+        handleNoteChange(queryClient)
+      )
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'smart_alerts' }, () =>
+        queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+      )
+      .subscribe((status) => {
+        setIsLive(status === 'SUBSCRIBED');
+        if (status !== 'SUBSCRIBED') return;
+        // Catch up on whatever changed while the connection was down
+        if (subscribedOnce) queryClient.invalidateQueries();
+        subscribedOnce = true;
+      });
+
+    return () => {
+      setIsLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, queryClient]);
+
+  // Who else is looking at the current board
+  useEffect(() => {
+    if (!user?.id || !currentBoardId) return;
+
+    const channel = supabase.channel(`board-presence-${currentBoardId}`, {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<OnlineUser>();
+        // One entry per user even when the board is open in several tabs
+        setOnlineUsers(Object.values(state).map(presences => presences[0]).filter(Boolean));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({
+            user_id: user.id,
+            full_name: profile?.full_name || 'Utilisateur',
+            online_at: new Date().toISOString(),
+          });
+        }
+      });
+
+    return () => {
+      setOnlineUsers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, profile?.full_name, currentBoardId]);
+
+  return (
+    <RealtimeContext.Provider value={{ isLive, onlineUsers }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+}
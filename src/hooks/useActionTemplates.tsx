@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ActionTemplate, ActionPriority, RecurrenceType } from '@/types/sfm';
+import { toast } from 'sonner';
+
+// Action templates of the given boards
+export function useActionTemplates(boardIds?: string[]) {
+  return useQuery({
+    queryKey: ['action_templates', boardIds],
+    queryFn: async () => {
+      let query = supabase
+        .from('action_templates')
+        .select('*, category:sfm_categories!inner(*)')
+        .is('category.deleted_at', null);
+
+      if (boardIds) {
+        query = query.in('category.board_id', boardIds);
+      }
+
+      const { data, error } = await query.order('title');
+      if (error) throw error;
+      return data as unknown as ActionTemplate[];
+    },
+  });
+}
+
+export function useSaveActionTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...template }: {
+      id?: string;
+      category_id: string;
+      title: string;
+      description?: string | null;
+      priority?: ActionPriority;
+      responsible_id?: string | null;
+      recurrence_type?: RecurrenceType | null;
+      recurrence_weekdays?: number[];
+      recurrence_day_of_month?: number | null;
+      is_active?: boolean;
+      created_by?: string;
+    }) => {
+      if (id) {
+        const { data, error } = await supabase.from('action_templates').update(template).eq('id', id).select().single();
+        if (error) throw error;
+        return data;
+      }
+      const { data, error } = await supabase.from('action_templates').insert(template).select().single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['action_templates'] });
+      if (variables.id) toast.success('Modèle modifié');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement du modèle');
+    },
+  });
+}
+
+export function useDeleteActionTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('action_templates').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['action_templates'] });
+      queryClient.invalidateQueries({ queryKey: ['actions'] });
+      toast.success('Modèle supprimé');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression');
+    },
+  });
+}
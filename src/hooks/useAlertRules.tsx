@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { AlertRule } from '@/types/sfm';
+import { toast } from 'sonner';
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ['alert_rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .order('created_at');
+      if (error) throw error;
+      return data as AlertRule[];
+    },
+  });
+}
+
+export function useSaveAlertRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, params, created_by, ...rule }: AlertRuleInput) => {
+      const row = { ...rule, params: params as Json };
+      const { error } = id
+        ? await supabase.from('alert_rules').update(row).eq('id', id)
+        : await supabase.from('alert_rules').insert({ ...row, created_by });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert_rules'] });
+      toast.success('Règle d\'alerte enregistrée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement de la règle');
+    },
+  });
+}
+
+export function useToggleAlertRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from('alert_rules').update({ is_active }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert_rules'] });
+    },
+    onError: () => {
+      toast.error('Erreur lors de la mise à jour de la règle');
+    },
+  });
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('alert_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert_rules'] });
+      toast.success('Règle d\'alerte supprimée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression de la règle');
+    },
+  });
+}
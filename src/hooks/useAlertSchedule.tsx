@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchProfileNames } from '@/hooks/useComments';
+import { AlertRun, AlertSchedule } from '@/types/sfm';
+import { toast } from 'sonner';
+
+export function useAlertSchedule() {
+  return useQuery({
+    queryKey: ['alert_schedule'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_schedule')
+        .select('enabled, interval_minutes, shift_starts, last_dispatched_at, updated_at')
+        .maybeSingle();
+      if (error) throw error;
+      return data as AlertSchedule | null;
+    },
+  });
+}
+
+export function useUpdateAlertSchedule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (schedule: Pick<AlertSchedule, 'enabled' | 'interval_minutes' | 'shift_starts'> & { updated_by?: string }) => {
+      const { error } = await supabase.from('alert_schedule').update(schedule).eq('id', true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert_schedule'] });
+      toast.success('Planification des alertes enregistrée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement de la planification');
+    },
+  });
+}
+
+// Latest executions of generate-alerts, scheduled or manual
+export function useAlertRuns(limit = 20) {
+  return useQuery({
+    queryKey: ['alert_runs', limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+
+      const authorsMap = await fetchProfileNames(data.map(r => r.triggered_by));
+      return data.map(r => ({
+        ...r,
+        author: r.triggered_by ? authorsMap[r.triggered_by] || null : null,
+      })) as AlertRun[];
+    },
+  });
+}
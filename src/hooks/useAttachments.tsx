@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Attachment, AttachmentEntity } from '@/types/sfm';
+import { toast } from 'sonner';
+
+const BUCKET = 'attachments';
+const SIGNED_URL_TTL = 3600;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const entityColumn = (entity: AttachmentEntity) => `${entity}_id` as 'problem_id' | 'action_id' | 'note_id';
+
+export function useAttachments(entity: AttachmentEntity, entityId?: string) {
+  return useQuery({
+    queryKey: ['attachments', entity, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attachments')
+        .select('*')
+        .eq(entityColumn(entity), entityId!)
+        .order('created_at');
+      if (error) throw error;
+      if (!data?.length) return [] as Attachment[];
+
+      // Sign all paths in one request
+      const { data: signed } = await supabase.storage
+        .from(BUCKET)
+        .createSignedUrls(data.map(a => a.storage_path), SIGNED_URL_TTL);
+      const urlMap = new Map(signed?.map(s => [s.path, s.signedUrl]) || []);
+
+      return data.map(attachment => ({
+        ...attachment,
+        url: urlMap.get(attachment.storage_path),
+      })) as Attachment[];
+    },
+    enabled: !!entityId,
+    // Refetch before the signed URLs expire
+    staleTime: (SIGNED_URL_TTL - 300) * 1000,
+  });
+}
+
+export function useUploadAttachment() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async ({ entity, entityId, file }: { entity: AttachmentEntity; entityId: string; file: File }) => {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error('Fichier trop volumineux (10 Mo maximum)');
+      }
+
+      const fileExt = file.name.split('.').pop();
+      const storagePath = `${entity}/${entityId}/${crypto.randomUUID()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(storagePath, file, { contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase.from('attachments').insert({
+        [entityColumn(entity)]: entityId,
+        storage_path: storagePath,
+        file_name: file.name,
+        mime_type: file.type || null,
+        size_bytes: file.size,
+        uploaded_by: user?.id,
+      });
+      if (error) {
+        // Don't leave an orphan file behind
+        await supabase.storage.from(BUCKET).remove([storagePath]);
+        throw error;
+      }
+    },
+    onSuccess: (_, { entity, entityId }) => {
+      queryClient.invalidateQueries({ queryKey: ['attachments', entity, entityId] });
+      toast.success('Pièce jointe ajoutée');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Erreur lors de l\'envoi du fichier');
+    },
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (attachment: Attachment) => {
+      const { error } = await supabase.from('attachments').delete().eq('id', attachment.id);
+      if (error) throw error;
+      await supabase.storage.from(BUCKET).remove([attachment.storage_path]);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attachments'] });
+      toast.success('Pièce jointe supprimée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression');
+    },
+  });
+}
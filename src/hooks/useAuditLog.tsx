@@ -0,0 +1,47 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchProfileNames } from '@/hooks/useComments';
+import { AuditLogEntry } from '@/types/sfm';
+
+export interface AuditLogFilters {
+  tableName?: string;
+  actorId?: string;
+  // yyyy-MM-dd, both inclusive
+  from?: string;
+  to?: string;
+}
+
+export function useAuditLog(filters: AuditLogFilters, limit = 100) {
+  return useQuery({
+    queryKey: ['audit_log', filters, limit],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*');
+
+      if (filters.tableName) {
+        query = query.eq('table_name', filters.tableName);
+      }
+      if (filters.actorId) {
+        query = query.eq('actor_id', filters.actorId);
+      }
+      if (filters.from) {
+        query = query.gte('created_at', `${filters.from}T00:00:00`);
+      }
+      if (filters.to) {
+        query = query.lte('created_at', `${filters.to}T23:59:59.999`);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+      if (error) throw error;
+
+      const actorsMap = await fetchProfileNames(data?.map(e => e.actor_id) || []);
+
+      return (data || []).map(entry => ({
+        ...entry,
+        actor: entry.actor_id ? actorsMap[entry.actor_id] : null,
+      })) as AuditLogEntry[];
+    },
+    placeholderData: keepPreviousData,
+  });
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, createContext, useContext, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { AppRole, Profile } from '@/types/sfm';
+import { isNetworkError } from '@/lib/offlineStore';
+import { removeDevicePushSubscription } from '@/lib/pushSubscription';
 
 interface AuthContextType {
   user: User | null;
@@ -18,6 +20,9 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Last known profile and role, so that a tablet started offline keeps its menus and permissions
+const USER_CACHE_KEY = 'sfm-user-cache';
+
 const ROLE_HIERARCHY: Record<AppRole, number> = {
   'admin': 4,
   'manager': 3,
@@ -90,6 +95,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         supabase.from('user_roles').select('role').eq('user_id', userId).maybeSingle(),
       ]);
 
+      if (isNetworkError(profileRes.error) || isNetworkError(roleRes.error)) {
+        const cached = JSON.parse(localStorage.getItem(USER_CACHE_KEY) || 'null');
+        if (cached?.profile?.user_id === userId) {
+          setProfile(cached.profile);
+          setIsPending(cached.profile.status === 'pending');
+          setRole(cached.role);
+        }
+        return;
+      }
+
       if (profileRes.data) {
         const profileData = profileRes.data as Profile & { status?: string };
         setProfile(profileData);
@@ -99,6 +114,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (roleRes.data) {
         setRole(roleRes.data.role as AppRole);
       }
+
+      localStorage.setItem(USER_CACHE_KEY, JSON.stringify({ profile: profileRes.data, role: roleRes.data?.role ?? null }));
     } catch (error) {
       console.error('Error fetching user data:', error);
     } finally {
@@ -125,7 +142,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    // Shared tablets must not keep receiving the alerts of the previous user
+    await removeDevicePushSubscription();
     await supabase.auth.signOut();
+    localStorage.removeItem(USER_CACHE_KEY);
     setUser(null);
     setSession(null);
     setProfile(null);
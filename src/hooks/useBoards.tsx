@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Board, BoardLevel } from '@/types/sfm';
+import { toast } from 'sonner';
+
+// Boards (site -> area -> line)
+export function useBoards(enabled = true) {
+  return useQuery({
+    queryKey: ['boards'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('boards')
+        .select('*')
+        .eq('is_active', true)
+        .order('display_order')
+        .order('name');
+      if (error) throw error;
+      return data as Board[];
+    },
+    enabled,
+  });
+}
+
+// Collect a board and all of its descendants
+export function getDescendantBoardIds(boards: Board[], boardId: string): string[] {
+  const ids: string[] = [];
+  const queue = [boardId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const board of boards) {
+      if (board.parent_id === current && !ids.includes(board.id)) {
+        ids.push(board.id);
+        queue.push(board.id);
+      }
+    }
+  }
+  return ids;
+}
+
+export function useBoardMembers(boardId?: string) {
+  return useQuery({
+    queryKey: ['board_members', boardId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('board_members')
+        .select('user_id')
+        .eq('board_id', boardId!);
+      if (error) throw error;
+      return (data || []).map(m => m.user_id);
+    },
+    enabled: !!boardId,
+  });
+}
+
+export function useSaveBoard() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, memberIds, ...board }: {
+      id?: string;
+      name: string;
+      code: string;
+      level: BoardLevel;
+      parent_id?: string | null;
+      display_order?: number;
+      created_by?: string;
+      memberIds: string[];
+    }) => {
+      // Generate the id client-side: a new root board is not readable before its members exist
+      const boardId = id || crypto.randomUUID();
+      if (id) {
+        const { error } = await supabase.from('boards').update(board).eq('id', boardId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('boards').insert({ id: boardId, ...board });
+        if (error) throw error;
+      }
+
+      const { error: membersError } = await supabase.rpc('set_board_members', {
+        _board_id: boardId,
+        _user_ids: memberIds,
+      });
+      if (membersError) throw membersError;
+
+      return boardId;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['boards'] });
+      queryClient.invalidateQueries({ queryKey: ['board_members'] });
+      toast.success(variables.id ? 'Tableau modifié' : 'Tableau créé');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la sauvegarde du tableau');
+    },
+  });
+}
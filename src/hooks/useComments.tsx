@@ -0,0 +1,129 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ActivityEntry, Comment, DiscussionEntity } from '@/types/sfm';
+import { toast } from 'sonner';
+
+// Map of user_id to full name for the given ids
+export async function fetchProfileNames(ids: (string | null | undefined)[]) {
+  const userIds = [...new Set(ids.filter(Boolean))] as string[];
+  let namesMap: Record<string, { full_name: string }> = {};
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', userIds);
+
+    if (profiles) {
+      namesMap = profiles.reduce((acc, p) => {
+        acc[p.user_id] = { full_name: p.full_name };
+        return acc;
+      }, {} as Record<string, { full_name: string }>);
+    }
+  }
+
+  return namesMap;
+}
+
+export function useComments(entity: DiscussionEntity, entityId?: string) {
+  return useQuery({
+    queryKey: ['comments', entity, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('comments')
+        .select('*')
+        .eq('entity_type', entity)
+        .eq('entity_id', entityId!)
+        .order('created_at');
+      if (error) throw error;
+
+      const authorsMap = await fetchProfileNames(data?.map(c => c.author_id) || []);
+
+      return (data || []).map(comment => ({
+        ...comment,
+        author: comment.author_id ? authorsMap[comment.author_id] : null,
+      })) as Comment[];
+    },
+    enabled: !!entityId,
+  });
+}
+
+export function useAddComment() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (comment: { entity_type: DiscussionEntity; entity_id: string; content: string; mentions: string[] }) => {
+      const { error } = await supabase.from('comments').insert({ ...comment, author_id: user?.id });
+      if (error) throw error;
+    },
+    onSuccess: (_, { entity_type, entity_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['comments', entity_type, entity_id] });
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'envoi du commentaire');
+    },
+  });
+}
+
+export function useDeleteComment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('comments').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      toast.success('Commentaire supprimé');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression');
+    },
+  });
+}
+
+// Approved profiles that can be mentioned, operators included
+export function useMentionableProfiles() {
+  return useQuery({
+    queryKey: ['mentionable_profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .eq('status', 'approved')
+        .order('full_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useActivityLog(entity: DiscussionEntity, entityId?: string) {
+  return useQuery({
+    queryKey: ['activity_log', entity, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('activity_log')
+        .select('*')
+        .eq('entity_type', entity)
+        .eq('entity_id', entityId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      // Reassignments store user ids, resolve them with the actors
+      const namesMap = await fetchProfileNames([
+        ...(data || []).map(e => e.actor_id),
+        ...(data || []).filter(e => e.event === 'reassigned').flatMap(e => [e.old_value, e.new_value]),
+      ]);
+
+      return (data || []).map(entry => ({
+        ...entry,
+        actor: entry.actor_id ? namesMap[entry.actor_id] : null,
+        old_value: entry.event === 'reassigned' && entry.old_value ? namesMap[entry.old_value]?.full_name : entry.old_value,
+        new_value: entry.event === 'reassigned' && entry.new_value ? namesMap[entry.new_value]?.full_name : entry.new_value,
+      })) as ActivityEntry[];
+    },
+    enabled: !!entityId,
+  });
+}
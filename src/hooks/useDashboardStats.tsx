@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useRealtime } from '@/contexts/RealtimeContext';
 
 export interface DashboardStats {
   activeCategories: number;
@@ -11,10 +12,30 @@ export interface DashboardStats {
   unreadAlerts: number;
 }
 
-export function useDashboardStats() {
+export function useDashboardStats(boardIds?: string[]) {
+  const { isLive } = useRealtime();
   return useQuery({
-    queryKey: ['dashboard-stats'],
+    queryKey: ['dashboard-stats', boardIds],
     queryFn: async (): Promise<DashboardStats> => {
+      let categoriesQuery = supabase.from('sfm_categories').select('id', { count: 'exact' }).eq('is_active', true).is('deleted_at', null);
+      let kpisQuery = supabase.from('kpis').select('id, category:sfm_categories!inner(board_id)', { count: 'exact' }).eq('is_active', true).is('deleted_at', null);
+      let actionsQuery = supabase.from('actions').select('id, status, category:sfm_categories!inner(board_id)').is('deleted_at', null);
+      let problemsQuery = supabase.from('problems').select('id, status, severity, category:sfm_categories!inner(board_id, deleted_at)').is('category.deleted_at', null);
+      // Own deliveries only, each user has their own unread count; snoozed alerts are left out like in the bell
+      const alertsQuery = supabase
+        .from('alert_deliveries')
+        .select('id, alert:smart_alerts!inner(resolved_at, snoozed_until)', { count: 'exact' })
+        .is('read_at', null)
+        .is('alert.resolved_at', null)
+        .or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`, { referencedTable: 'alert' });
+
+      if (boardIds) {
+        categoriesQuery = categoriesQuery.in('board_id', boardIds);
+        kpisQuery = kpisQuery.in('category.board_id', boardIds);
+        actionsQuery = actionsQuery.in('category.board_id', boardIds);
+        problemsQuery = problemsQuery.in('category.board_id', boardIds);
+      }
+
       const [
         categoriesRes,
         kpisRes,
@@ -22,11 +43,11 @@ export function useDashboardStats() {
         problemsRes,
         alertsRes,
       ] = await Promise.all([
-        supabase.from('sfm_categories').select('id', { count: 'exact' }).eq('is_active', true),
-        supabase.from('kpis').select('id', { count: 'exact' }).eq('is_active', true),
-        supabase.from('actions').select('id, status'),
-        supabase.from('problems').select('id, status, severity'),
-        supabase.from('smart_alerts').select('id', { count: 'exact' }).eq('is_read', false),
+        categoriesQuery,
+        kpisQuery,
+        actionsQuery,
+        problemsQuery,
+        alertsQuery,
       ]);
 
       const actions = actionsRes.data || [];
@@ -42,6 +63,7 @@ export function useDashboardStats() {
         unreadAlerts: alertsRes.count || 0,
       };
     },
-    refetchInterval: 30000, // Refresh every 30 seconds
+    // Realtime events keep the stats fresh, poll only while disconnected
+    refetchInterval: isLive ? false : 30000,
   });
 }
@@ -0,0 +1,98 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DisplayBoard, DisplayToken } from '@/types/sfm';
+import { toast } from 'sonner';
+
+export function getKioskUrl(token: string) {
+  return `${window.location.origin}/kiosk/${token}`;
+}
+
+export function useDisplayTokens() {
+  return useQuery({
+    queryKey: ['display_tokens'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('display_tokens')
+        .select('*, board:boards(name)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as DisplayToken[];
+    },
+  });
+}
+
+// Resolves with the plain token, which is only available at creation time
+export function useCreateDisplayToken() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ name, boardId, rotateSeconds }: { name: string; boardId: string; rotateSeconds: number }) => {
+      const { data, error } = await supabase.rpc('create_display_token', {
+        _name: name,
+        _board_id: boardId,
+        _rotate_seconds: rotateSeconds,
+      });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['display_tokens'] });
+      toast.success('Écran d\'affichage créé');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la création de l\'écran');
+    },
+  });
+}
+
+export function useRevokeDisplayToken() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('display_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['display_tokens'] });
+      toast.success('Accès de l\'écran révoqué');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la révocation');
+    },
+  });
+}
+
+export function useDeleteDisplayToken() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('display_tokens').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['display_tokens'] });
+      toast.success('Écran supprimé');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression');
+    },
+  });
+}
+
+// Board snapshot for a kiosk screen, no user session involved
+export function useDisplayBoard(token?: string) {
+  return useQuery({
+    queryKey: ['display_board', token],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_display_board', { _token: token! });
+      if (error) throw error;
+      return data as unknown as DisplayBoard;
+    },
+    enabled: !!token,
+    refetchInterval: 30000,
+    refetchIntervalInBackground: true,
+    retry: 1,
+  });
+}
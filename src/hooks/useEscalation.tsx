@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole, EscalationRule, EscalationScope, ProblemEscalation, ProblemSeverity } from '@/types/sfm';
+import { toast } from 'sonner';
+
+export function useEscalationRules() {
+  return useQuery({
+    queryKey: ['escalation_rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('escalation_rules')
+        .select('*')
+        .order('severity')
+        .order('level');
+      if (error) throw error;
+      return data as EscalationRule[];
+    },
+  });
+}
+
+export function useSaveEscalationRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...rule }: {
+      id?: string;
+      severity: ProblemSeverity;
+      level: number;
+      label: string;
+      after_hours: number;
+      target_role: AppRole;
+      target_scope: EscalationScope;
+      reassign: boolean;
+    }) => {
+      const { error } = id
+        ? await supabase.from('escalation_rules').update(rule).eq('id', id)
+        : await supabase.from('escalation_rules').insert(rule);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['escalation_rules'] });
+      toast.success('Règle d\'escalade enregistrée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement de la règle');
+    },
+  });
+}
+
+export function useDeleteEscalationRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('escalation_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['escalation_rules'] });
+      toast.success('Règle d\'escalade supprimée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression');
+    },
+  });
+}
+
+// Escalation history of a problem, with the profile of each new assignee
+export function useProblemEscalations(problemId?: string) {
+  return useQuery({
+    queryKey: ['problem_escalations', problemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('problem_escalations')
+        .select('*')
+        .eq('problem_id', problemId!)
+        .order('escalated_at');
+      if (error) throw error;
+
+      const assigneeIds = [...new Set(data?.filter(e => e.assigned_to).map(e => e.assigned_to) || [])] as string[];
+      let assigneesMap: Record<string, { full_name: string }> = {};
+
+      if (assigneeIds.length > 0) {
+        const { data: assignees } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', assigneeIds);
+
+        if (assignees) {
+          assigneesMap = assignees.reduce((acc, a) => {
+            acc[a.user_id] = { full_name: a.full_name };
+            return acc;
+          }, {} as Record<string, { full_name: string }>);
+        }
+      }
+
+      return (data || []).map(escalation => ({
+        ...escalation,
+        assignee: escalation.assigned_to ? assigneesMap[escalation.assigned_to] : null,
+      })) as ProblemEscalation[];
+    },
+    enabled: !!problemId,
+  });
+}
@@ -0,0 +1,177 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchProfileNames } from '@/hooks/useComments';
+import { Action, Meeting, MeetingDetails, MeetingSegmentDraft, Note } from '@/types/sfm';
+import { toast } from 'sonner';
+
+// Past and running meetings of a board, most recent first
+export function useMeetings(boardId?: string) {
+  return useQuery({
+    queryKey: ['meetings', boardId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('meetings')
+        .select('*')
+        .eq('board_id', boardId!)
+        .order('started_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+
+      const facilitatorsMap = await fetchProfileNames(data.map(m => m.facilitator_id));
+      return data.map(m => ({
+        ...m,
+        facilitator: m.facilitator_id ? facilitatorsMap[m.facilitator_id] || null : null,
+      })) as Meeting[];
+    },
+    enabled: !!boardId,
+  });
+}
+
+// Decisions are plain actions and notes, so that the usual cache
+// invalidations of useCreateAction / useCreateNote refresh them too
+export function useMeetingActions(meetingId?: string) {
+  return useQuery({
+    queryKey: ['actions', 'meeting', meetingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('actions')
+        .select('*, category:sfm_categories(*)')
+        .eq('meeting_id', meetingId!)
+        .is('deleted_at', null)
+        .order('created_at');
+      if (error) throw error;
+      return data as unknown as Action[];
+    },
+    enabled: !!meetingId,
+  });
+}
+
+export function useMeetingNotes(meetingId?: string) {
+  return useQuery({
+    queryKey: ['notes', 'meeting', meetingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notes')
+        .select('*, category:sfm_categories(*)')
+        .eq('meeting_id', meetingId!)
+        .order('created_at');
+      if (error) throw error;
+      return data as unknown as Note[];
+    },
+    enabled: !!meetingId,
+  });
+}
+
+// Everything needed to write the minutes of a meeting
+export async function fetchMeetingDetails(meetingId: string): Promise<MeetingDetails> {
+  const [meetingRes, attendeesRes, segmentsRes, notesRes, actionsRes] = await Promise.all([
+    supabase.from('meetings').select('*, board:boards(name)').eq('id', meetingId).single(),
+    supabase.from('meeting_attendees').select('*').eq('meeting_id', meetingId),
+    supabase.from('meeting_segments').select('*').eq('meeting_id', meetingId).order('position'),
+    supabase.from('notes').select('*, category:sfm_categories(*)').eq('meeting_id', meetingId).order('created_at'),
+    supabase.from('actions').select('*, category:sfm_categories(*)').eq('meeting_id', meetingId).is('deleted_at', null).order('created_at'),
+  ]);
+  const error = meetingRes.error || attendeesRes.error || segmentsRes.error || notesRes.error || actionsRes.error;
+  if (error) throw error;
+
+  const profilesMap = await fetchProfileNames([
+    meetingRes.data.facilitator_id,
+    ...attendeesRes.data.map(a => a.user_id),
+    ...actionsRes.data.map(a => a.responsible_id),
+  ]);
+
+  return {
+    ...meetingRes.data,
+    facilitator: meetingRes.data.facilitator_id ? profilesMap[meetingRes.data.facilitator_id] || null : null,
+    attendees: attendeesRes.data
+      .map(a => ({ ...a, profile: profilesMap[a.user_id] || null }))
+      .sort((a, b) => (a.profile?.full_name || '').localeCompare(b.profile?.full_name || '')),
+    segments: segmentsRes.data,
+    notes: notesRes.data as unknown as Note[],
+    actions: actionsRes.data.map(a => ({
+      ...a,
+      responsible: a.responsible_id ? profilesMap[a.responsible_id] : undefined,
+    })) as unknown as Action[],
+  };
+}
+
+export function useStartMeeting() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ boardId, plannedMinutes, facilitatorId }: { boardId: string; plannedMinutes: number; facilitatorId: string }) => {
+      const { data, error } = await supabase
+        .from('meetings')
+        .insert({ board_id: boardId, planned_minutes: plannedMinutes, facilitator_id: facilitatorId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as Meeting;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+    },
+    onError: () => {
+      toast.error('Erreur lors du démarrage de la réunion');
+    },
+  });
+}
+
+export function useFinishMeeting() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ meetingId, attendance, segments, summary }: {
+      meetingId: string;
+      attendance: { user_id: string; present: boolean }[];
+      segments: MeetingSegmentDraft[];
+      summary: string | null;
+    }) => {
+      if (attendance.length > 0) {
+        const { error } = await supabase
+          .from('meeting_attendees')
+          .upsert(attendance.map(a => ({ ...a, meeting_id: meetingId })));
+        if (error) throw error;
+      }
+
+      // Saving twice (e.g. after a network error) must not duplicate the segments
+      const { error: clearError } = await supabase.from('meeting_segments').delete().eq('meeting_id', meetingId);
+      if (clearError) throw clearError;
+      if (segments.length > 0) {
+        const { error } = await supabase
+          .from('meeting_segments')
+          .insert(segments.map(s => ({ ...s, meeting_id: meetingId })));
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('meetings')
+        .update({ ended_at: new Date().toISOString(), summary })
+        .eq('id', meetingId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+      toast.success('Réunion enregistrée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement de la réunion');
+    },
+  });
+}
+
+// Abandoned meetings are removed; their decisions stay as regular notes and actions
+export function useCancelMeeting() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (meetingId: string) => {
+      const { error } = await supabase.from('meetings').delete().eq('id', meetingId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+      toast.success('Réunion annulée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'annulation');
+    },
+  });
+}
@@ -11,10 +11,10 @@ interface SmartAlert {
   message: string;
   severity: string;
   category_id: string | null;
-  is_read: boolean | null;
   created_at: string;
   related_id: string | null;
   related_type: string | null;
+  recipient_id: string | null;
 }
 
 interface NotificationSettings {
@@ -25,7 +25,7 @@ interface NotificationSettings {
 }
 
 export function useNotifications() {
-  const { user, role } = useAuth();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [settings, setSettings] = useState<NotificationSettings>({
     email_alerts: true,
@@ -62,53 +62,56 @@ export function useNotifications() {
     }
   }, [userSettings]);
 
-  // Fetch unread alerts
+  // Fetch the user's unread alerts, the read state is kept per recipient
   const { data: alerts, refetch: refetchAlerts } = useQuery({
-    queryKey: ['smart-alerts-unread'],
+    queryKey: ['smart-alerts-unread', user?.id],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('smart_alerts')
-        .select('*')
-        .eq('is_read', false)
+        .from('alert_deliveries')
+        .select('alert:smart_alerts!inner(*)')
+        .eq('user_id', user!.id)
+        .is('read_at', null)
+        .is('alert.resolved_at', null)
+        .or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`, { referencedTable: 'alert' })
         .order('created_at', { ascending: false })
         .limit(50);
       if (error) throw error;
-      return data as SmartAlert[];
+      return data.map(d => d.alert) as SmartAlert[];
     },
     enabled: !!user?.id,
   });
 
-  // Subscribe to realtime alerts
+  // Subscribe to the alerts delivered to this user, targeting is done by the database
   useEffect(() => {
     if (!user?.id) return;
 
     const channel = supabase
-      .channel('smart-alerts-realtime')
+      .channel('alert-deliveries-realtime')
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'smart_alerts',
+          table: 'alert_deliveries',
+          filter: `user_id=eq.${user.id}`,
         },
-        (payload) => {
-          const newAlert = payload.new as SmartAlert;
-          
+        async (payload) => {
+          const { data: newAlert } = await supabase
+            .from('smart_alerts')
+            .select('*')
+            .eq('id', (payload.new as { alert_id: string }).alert_id)
+            .maybeSingle();
+          if (!newAlert) return;
+
           // Check notification settings before showing
           const shouldNotify = () => {
-            if (newAlert.type === 'kpi_critical' && !settings.kpi_alerts) return false;
+            if ((newAlert.type === 'kpi_critical' || newAlert.type === 'kpi_spc_violation') && !settings.kpi_alerts) return false;
             if (newAlert.type === 'action_overdue' && !settings.action_reminders) return false;
-            if (newAlert.type === 'problem_critical' && !settings.problem_escalation) return false;
-            return true;
-          };
-
-          // Check role permissions
-          const canSeeAlert = () => {
-            if (role === 'admin') return false; // Admin ne voit pas les alertes opérationnelles
+            if ((newAlert.type === 'problem_critical' || newAlert.type === 'problem_escalated') && !settings.problem_escalation) return false;
             return true;
           };
 
-          if (shouldNotify() && canSeeAlert()) {
+          if (shouldNotify()) {
             // Show toast notification
             const severity = newAlert.severity;
             const title = newAlert.title || 'Nouvelle alerte';
@@ -125,7 +128,7 @@ export function useNotifications() {
 
           // Refetch alerts to update the list
           queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
-          queryClient.invalidateQueries({ queryKey: ['smart-alerts'] });
+          queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
         }
       )
       .subscribe();
@@ -133,14 +136,16 @@ export function useNotifications() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user?.id, settings, role, queryClient]);
+  }, [user?.id, settings, queryClient]);
 
-  // Mark alert as read
+  // Mark alert as read, for this user only
   const markAsRead = async (alertId: string) => {
+    if (!user?.id) return false;
     const { error } = await supabase
-      .from('smart_alerts')
-      .update({ is_read: true })
-      .eq('id', alertId);
+      .from('alert_deliveries')
+      .update({ read_at: new Date().toISOString() })
+      .eq('alert_id', alertId)
+      .eq('user_id', user.id);
 
     if (error) {
       console.error('Error marking alert as read:', error);
@@ -148,16 +153,18 @@ export function useNotifications() {
     }
 
     queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
-    queryClient.invalidateQueries({ queryKey: ['smart-alerts'] });
+    queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
     return true;
   };
 
   // Mark all as read
   const markAllAsRead = async () => {
+    if (!user?.id) return false;
     const { error } = await supabase
-      .from('smart_alerts')
-      .update({ is_read: true })
-      .eq('is_read', false);
+      .from('alert_deliveries')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
 
     if (error) {
       console.error('Error marking all alerts as read:', error);
@@ -165,7 +172,7 @@ export function useNotifications() {
     }
 
     queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
-    queryClient.invalidateQueries({ queryKey: ['smart-alerts'] });
+    queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
     return true;
   };
 
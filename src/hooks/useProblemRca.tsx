@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { IshikawaBranch, ProblemCause, ProblemRca } from '@/types/sfm';
+import { toast } from 'sonner';
+
+export function useProblemRca(problemId?: string) {
+  return useQuery({
+    queryKey: ['problem_rca', problemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('problem_rca')
+        .select('*')
+        .eq('problem_id', problemId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ProblemRca | null;
+    },
+    enabled: !!problemId,
+  });
+}
+
+// One RCA per problem, created on first save
+export function useSaveProblemRca() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (rca: {
+      problem_id: string;
+      whys: string[];
+      root_cause: string | null;
+      containment_measures: string | null;
+      corrective_measures: string | null;
+      updated_by?: string;
+    }) => {
+      const { data, error } = await supabase
+        .from('problem_rca')
+        .upsert(rca, { onConflict: 'problem_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { problem_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['problem_rca', problem_id] });
+      toast.success('Analyse enregistrée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement de l\'analyse');
+    },
+  });
+}
+
+export function useProblemCauses(problemId?: string) {
+  return useQuery({
+    queryKey: ['problem_causes', problemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('problem_causes')
+        .select('*')
+        .eq('problem_id', problemId!)
+        .order('created_at');
+      if (error) throw error;
+      return data as ProblemCause[];
+    },
+    enabled: !!problemId,
+  });
+}
+
+export function useAddProblemCause() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (cause: { problem_id: string; branch: IshikawaBranch; description: string; created_by?: string }) => {
+      const { data, error } = await supabase.from('problem_causes').insert(cause).select().single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { problem_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['problem_causes', problem_id] });
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'ajout de la cause');
+    },
+  });
+}
+
+export function useUpdateProblemCause() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, problem_id, ...updates }: { id: string; problem_id: string; is_root_cause?: boolean; description?: string }) => {
+      const { error } = await supabase.from('problem_causes').update(updates).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { problem_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['problem_causes', problem_id] });
+    },
+    onError: () => {
+      toast.error('Erreur lors de la mise à jour de la cause');
+    },
+  });
+}
+
+export function useDeleteProblemCause() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; problem_id: string }) => {
+      const { error } = await supabase.from('problem_causes').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { problem_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['problem_causes', problem_id] });
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression de la cause');
+    },
+  });
+}
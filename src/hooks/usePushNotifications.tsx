@@ -2,6 +2,15 @@ import { useEffect, useState, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useQueryClient } from '@tanstack/react-query';
+import { removeDevicePushSubscription } from '@/lib/pushSubscription';
+
+// Public half of the VAPID key pair, the private half is a secret of the edge functions
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
 
 export interface PushNotificationSettings {
   push_enabled: boolean;
@@ -15,6 +24,8 @@ export function usePushNotifications() {
   const queryClient = useQueryClient();
   const [permission, setPermission] = useState<NotificationPermission>('default');
   const [isSupported, setIsSupported] = useState(false);
+  // This device receives server push
+  const [isSubscribed, setIsSubscribed] = useState(false);
   const [settings, setSettings] = useState<PushNotificationSettings>({
     push_enabled: false,
     push_kpi_alerts: true,
@@ -64,6 +75,47 @@ export function usePushNotifications() {
     loadSettings();
   }, [user?.id]);
 
+  // Register this browser with the push service and store its subscription
+  const subscribeDevice = useCallback(async () => {
+    if (!VAPID_PUBLIC_KEY || !('PushManager' in window) || !user?.id) return false;
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+        });
+
+      const { keys } = subscription.toJSON();
+      const { error } = await supabase.rpc('register_push_subscription', {
+        _endpoint: subscription.endpoint,
+        _p256dh: keys?.p256dh || '',
+        _auth: keys?.auth || '',
+        _user_agent: navigator.userAgent,
+      });
+      if (error) throw error;
+
+      setIsSubscribed(true);
+      return true;
+    } catch (error) {
+      console.error('Error subscribing to push:', error);
+      return false;
+    }
+  }, [user?.id]);
+
+  const unsubscribeDevice = useCallback(async () => {
+    await removeDevicePushSubscription();
+    setIsSubscribed(false);
+  }, []);
+
+  // Refresh the subscription of this device, the push service may have rotated it
+  useEffect(() => {
+    if (isSupported && permission === 'granted' && settings.push_enabled) {
+      subscribeDevice();
+    }
+  }, [isSupported, permission, settings.push_enabled, subscribeDevice]);
+
   // Request permission
   const requestPermission = useCallback(async () => {
     if (!isSupported) return false;
@@ -93,6 +145,7 @@ export function usePushNotifications() {
 
         setSettings(prev => ({ ...prev, push_enabled: true }));
         queryClient.invalidateQueries({ queryKey: ['user-settings'] });
+        await subscribeDevice();
       }
 
       return result === 'granted';
@@ -100,7 +153,7 @@ export function usePushNotifications() {
       console.error('Error requesting notification permission:', error);
       return false;
     }
-  }, [isSupported, user?.id, queryClient]);
+  }, [isSupported, user?.id, queryClient, subscribeDevice]);
 
   // Update settings
   const updateSettings = useCallback(async (newSettings: Partial<PushNotificationSettings>) => {
@@ -128,12 +181,22 @@ export function usePushNotifications() {
 
       setSettings(updatedSettings);
       queryClient.invalidateQueries({ queryKey: ['user-settings'] });
+
+      if (newSettings.push_enabled === true) await subscribeDevice();
+      if (newSettings.push_enabled === false) await unsubscribeDevice();
       return true;
     } catch (error) {
       console.error('Error updating push settings:', error);
       return false;
     }
-  }, [user?.id, settings, queryClient]);
+  }, [user?.id, settings, queryClient, subscribeDevice, unsubscribeDevice]);
+
+  // Sent by the send-test-push edge function to every device of the user
+  const sendTestNotification = useCallback(async () => {
+    const { data, error } = await supabase.functions.invoke('send-test-push');
+    if (error) throw error;
+    return data as { sent: number; removed: number };
+  }, []);
 
   // Show notification
   const showNotification = useCallback((title: string, options?: NotificationOptions & { url?: string }) => {
@@ -160,7 +223,8 @@ export function usePushNotifications() {
     }
   }, [isSupported, permission, settings.push_enabled]);
 
-  // Subscribe to realtime alerts
+  // Immediate notification while the app is open: server push only goes out with the
+  // next generate-alerts run, and then replaces this one as both are tagged with the alert id
   useEffect(() => {
     if (!user?.id || !isSupported || permission !== 'granted' || !settings.push_enabled) return;
 
@@ -182,13 +246,16 @@ export function usePushNotifications() {
             severity: string;
             related_type: string | null;
             related_id: string | null;
+            recipient_id: string | null;
           };
 
+          if (alert.recipient_id && alert.recipient_id !== user?.id) return;
+
           // Check settings for notification type
           const shouldNotify = () => {
-            if (alert.type === 'kpi_critical' && !settings.push_kpi_alerts) return false;
+            if ((alert.type === 'kpi_critical' || alert.type === 'kpi_spc_violation') && !settings.push_kpi_alerts) return false;
             if (alert.type === 'action_overdue' && !settings.push_action_reminders) return false;
-            if ((alert.type === 'problem_critical' || alert.type === 'problem_high') && !settings.push_problem_alerts) return false;
+            if ((alert.type === 'problem_critical' || alert.type === 'problem_high' || alert.type === 'problem_escalated') && !settings.push_problem_alerts) return false;
             return true;
           };
 
@@ -221,10 +288,12 @@ export function usePushNotifications() {
 
   return {
     isSupported,
+    isSubscribed,
     permission,
     settings,
     requestPermission,
     updateSettings,
     showNotification,
+    sendTestNotification,
   };
 }
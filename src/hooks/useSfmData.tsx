@@ -4,23 +4,43 @@ import {
   SfmCategory, 
   Kpi, 
   KpiValue, 
+  KpiValueBreakdown,
+  KpiValueCorrection,
   Action, 
+  ActionStatus,
   Problem, 
   Note, 
   SmartAlert,
+  NewKpiValue,
+  NewProblem,
 } from '@/types/sfm';
+import { useOffline } from '@/contexts/OfflineContext';
+import { isNetworkError } from '@/lib/offlineStore';
+import { meanTimeToAcknowledge } from '@/lib/alertLifecycle';
+import { fetchProfileNames } from '@/hooks/useComments';
 import { toast } from 'sonner';
 
+// A category filter is either one category or a rolled-up set of categories;
+// a board scope is the list of boards (usually a board and its descendants) to read from
+type CategoryScope = string | string[];
+
+const toCategoryIds = (categoryId?: CategoryScope) =>
+  categoryId === undefined ? undefined : Array.isArray(categoryId) ? categoryId : [categoryId];
+
 // Categories
-export function useCategories() {
+export function useCategories(boardIds?: string[]) {
   return useQuery({
-    queryKey: ['categories'],
+    queryKey: ['categories', boardIds],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('sfm_categories')
         .select('*')
         .eq('is_active', true)
-        .order('display_order');
+        .is('deleted_at', null);
+      if (boardIds) {
+        query = query.in('board_id', boardIds);
+      }
+      const { data, error } = await query.order('display_order');
       if (error) throw error;
       return data as SfmCategory[];
     },
@@ -28,17 +48,25 @@ export function useCategories() {
 }
 
 // KPIs
-export function useKpis(categoryId?: string) {
+export function useKpis(categoryId?: CategoryScope, boardIds?: string[]) {
+  const categoryIds = toCategoryIds(categoryId);
   return useQuery({
-    queryKey: ['kpis', categoryId],
+    queryKey: ['kpis', categoryIds, boardIds],
     queryFn: async () => {
-      let query = supabase.from('kpis').select('*').eq('is_active', true);
-      if (categoryId) {
-        query = query.eq('category_id', categoryId);
+      let query = supabase
+        .from('kpis')
+        .select('*, category:sfm_categories!inner(board_id)')
+        .eq('is_active', true)
+        .is('deleted_at', null);
+      if (categoryIds) {
+        query = query.in('category_id', categoryIds);
+      }
+      if (boardIds) {
+        query = query.in('category.board_id', boardIds);
       }
       const { data, error } = await query.order('name');
       if (error) throw error;
-      return data as Kpi[];
+      return data as unknown as Kpi[];
     },
   });
 }
@@ -60,6 +88,49 @@ export function useKpiValues(kpiId: string, limit = 12) {
   });
 }
 
+// First values of a KPI, used as the SPC baseline window
+export function useKpiBaseline(kpiId: string, size: number, enabled = true) {
+  return useQuery({
+    queryKey: ['kpi_values', kpiId, 'baseline', size],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('kpi_values')
+        .select('*')
+        .eq('kpi_id', kpiId)
+        .order('recorded_at', { ascending: true })
+        .limit(size);
+      if (error) throw error;
+      return data as KpiValue[];
+    },
+    enabled: !!kpiId && enabled,
+  });
+}
+
+// Cause breakdown of the latest values of a KPI (Pareto charts)
+export function useKpiBreakdowns(kpiId: string, limit = 12, enabled = true) {
+  return useQuery({
+    queryKey: ['kpi_value_breakdowns', kpiId, limit],
+    queryFn: async () => {
+      const { data: values, error: valuesError } = await supabase
+        .from('kpi_values')
+        .select('id')
+        .eq('kpi_id', kpiId)
+        .order('recorded_at', { ascending: false })
+        .limit(limit);
+      if (valuesError) throw valuesError;
+      if (!values || values.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('kpi_value_breakdowns')
+        .select('*')
+        .in('kpi_value_id', values.map(v => v.id));
+      if (error) throw error;
+      return data as KpiValueBreakdown[];
+    },
+    enabled: !!kpiId && enabled,
+  });
+}
+
 export function useCreateKpi() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -105,12 +176,13 @@ export function useDeleteKpi() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase.from('kpis').delete().eq('id', id);
+      const { error } = await supabase.rpc('soft_delete_item', { _table: 'kpis', _id: id });
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['kpis'] });
-      toast.success('KPI supprimé');
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success('KPI déplacé dans la corbeille');
     },
     onError: () => {
       toast.error('Erreur lors de la suppression');
@@ -118,49 +190,212 @@ export function useDeleteKpi() {
   });
 }
 
+// Shared with the offline queue, which replays the same insert once back online
+export async function insertKpiValue(value: NewKpiValue) {
+  const { data, error } = await supabase.rpc('add_kpi_value', {
+    _kpi_id: value.kpi_id,
+    _value: value.value,
+    _recorded_at: value.recorded_at,
+    _week_number: value.week_number,
+    _comment: value.comment,
+    _recorded_by: value.recorded_by,
+    _breakdown: value.breakdown ?? [],
+    _id: value.id,
+  });
+  if (error) throw error;
+  return data;
+}
+
 export function useAddKpiValue() {
   const queryClient = useQueryClient();
+  const { enqueue } = useOffline();
   return useMutation({
-    mutationFn: async (value: { 
-      kpi_id: string; 
-      value: number; 
+    // Runs while offline too, so that the value is queued instead of the mutation being paused
+    networkMode: 'always',
+    mutationFn: async (newValue: NewKpiValue) => {
+      // A network error may hide a committed insert: the replay reuses the id
+      const value = { ...newValue, id: newValue.id ?? crypto.randomUUID() };
+      try {
+        if (!navigator.onLine) throw new TypeError('Failed to fetch');
+        return await insertKpiValue(value);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await enqueue({ kind: 'kpi_value', payload: value });
+        return null;
+      }
+    },
+    onSuccess: (data) => {
+      if (!data) {
+        toast.info('Hors connexion : la valeur sera envoyée au retour du réseau');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['kpi_values'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi_value_breakdowns'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard_stats'] });
+      toast.success('Valeur KPI enregistrée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'enregistrement');
+    },
+  });
+}
+
+// Bulk import of KPI values, status and trend are derived by the database
+export function useImportKpiValues() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (values: {
+      kpi_id: string;
+      value: number;
       week_number?: number;
-      recorded_at?: string;
-      status?: 'green' | 'orange' | 'red';
-      trend?: 'up' | 'down' | 'stable';
+      recorded_at: string;
       comment?: string;
       recorded_by?: string;
-    }) => {
-      const { data, error } = await supabase.from('kpi_values').insert(value).select().single();
+    }[]) => {
+      const { error } = await supabase.from('kpi_values').insert(values);
+      if (error) throw error;
+      return values.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['kpi_values'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast.success(`${count} valeur(s) KPI importée(s)`);
+    },
+    onError: () => {
+      toast.error('Erreur lors de l\'import');
+    },
+  });
+}
+
+// Full value history of several KPIs, used to preview the trend of imported values
+export function useKpiValueHistory(kpiIds: string[]) {
+  return useQuery({
+    queryKey: ['kpi_values', 'history', kpiIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('kpi_values')
+        .select('kpi_id, value, recorded_at')
+        .in('kpi_id', kpiIds)
+        .order('recorded_at');
       if (error) throw error;
       return data;
     },
+    enabled: kpiIds.length > 0,
+  });
+}
+
+// Correct a recorded value; the reason is kept in kpi_value_corrections
+export function useUpdateKpiValue() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, value, recorded_at, week_number, comment, reason }: {
+      id: string;
+      value: number;
+      recorded_at: string;
+      week_number?: number | null;
+      comment?: string | null;
+      reason: string;
+    }) => {
+      const { error } = await supabase.rpc('update_kpi_value', {
+        _id: id,
+        _value: value,
+        _recorded_at: recorded_at,
+        _week_number: week_number ?? null,
+        _comment: comment ?? null,
+        _reason: reason,
+      });
+      if (error) throw error;
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['kpi_values'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard_stats'] });
-      toast.success('Valeur KPI enregistrée');
+      queryClient.invalidateQueries({ queryKey: ['kpi_value_corrections'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast.success('Valeur KPI corrigée');
     },
     onError: () => {
-      toast.error('Erreur lors de l\'enregistrement');
+      toast.error('Erreur lors de la correction');
+    },
+  });
+}
+
+export function useDeleteKpiValue() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const { error } = await supabase.rpc('delete_kpi_value', { _id: id, _reason: reason });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kpi_values'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi_value_breakdowns'] });
+      queryClient.invalidateQueries({ queryKey: ['kpi_value_corrections'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast.success('Valeur KPI supprimée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la suppression');
+    },
+  });
+}
+
+export function useKpiValueCorrections(kpiId?: string) {
+  return useQuery({
+    queryKey: ['kpi_value_corrections', kpiId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('kpi_value_corrections')
+        .select('*')
+        .eq('kpi_id', kpiId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      // Fetch author profiles separately to avoid FK issues
+      const authorIds = [...new Set(data?.filter(c => c.changed_by).map(c => c.changed_by) || [])];
+      let authorsMap: Record<string, { full_name: string }> = {};
+
+      if (authorIds.length > 0) {
+        const { data: authors } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', authorIds);
+
+        if (authors) {
+          authorsMap = authors.reduce((acc, a) => {
+            acc[a.user_id] = { full_name: a.full_name };
+            return acc;
+          }, {} as Record<string, { full_name: string }>);
+        }
+      }
+
+      return (data || []).map(correction => ({
+        ...correction,
+        author: correction.changed_by ? authorsMap[correction.changed_by] : null,
+      })) as KpiValueCorrection[];
     },
+    enabled: !!kpiId,
   });
 }
 
 // Actions
-export function useActions(categoryId?: string, status?: 'todo' | 'in_progress' | 'completed' | 'overdue') {
+export function useActions(categoryId?: CategoryScope, status?: ActionStatus, boardIds?: string[]) {
+  const categoryIds = toCategoryIds(categoryId);
   return useQuery({
-    queryKey: ['actions', categoryId, status],
+    queryKey: ['actions', categoryIds, status, boardIds],
     queryFn: async () => {
       let query = supabase
         .from('actions')
-        .select('*, category:sfm_categories(*)');
+        .select('*, category:sfm_categories!inner(*), template:action_templates(recurrence_type, recurrence_weekdays, recurrence_day_of_month)')
+        .is('deleted_at', null);
       
-      if (categoryId) {
-        query = query.eq('category_id', categoryId);
+      if (categoryIds) {
+        query = query.in('category_id', categoryIds);
       }
       if (status) {
         query = query.eq('status', status);
       }
+      if (boardIds) {
+        query = query.in('category.board_id', boardIds);
+      }
       
       const { data, error } = await query.order('due_date');
       if (error) throw error;
@@ -169,16 +404,23 @@ export function useActions(categoryId?: string, status?: 'todo' | 'in_progress'
   });
 }
 
-export function useTodayPriorities() {
+export function useTodayPriorities(boardIds?: string[]) {
   const today = new Date().toISOString().split('T')[0];
   return useQuery({
-    queryKey: ['today_priorities'],
+    queryKey: ['today_priorities', boardIds],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('actions')
-        .select('*, category:sfm_categories(*)')
+        .select('*, category:sfm_categories!inner(*), template:action_templates(recurrence_type, recurrence_weekdays, recurrence_day_of_month)')
         .eq('due_date', today)
-        .neq('status', 'completed')
+        .not('status', 'in', '(completed,pending_validation)')
+        .is('deleted_at', null);
+
+      if (boardIds) {
+        query = query.in('category.board_id', boardIds);
+      }
+
+      const { data, error } = await query
         .order('priority')
         .order('due_date');
       if (error) throw error;
@@ -187,16 +429,23 @@ export function useTodayPriorities() {
   });
 }
 
-export function useOverdueActions() {
+export function useOverdueActions(boardIds?: string[]) {
   const today = new Date().toISOString().split('T')[0];
   return useQuery({
-    queryKey: ['overdue_actions'],
+    queryKey: ['overdue_actions', boardIds],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('actions')
-        .select('*, category:sfm_categories(*)')
+        .select('*, category:sfm_categories!inner(*)')
         .lt('due_date', today)
-        .neq('status', 'completed')
+        .not('status', 'in', '(completed,pending_validation)')
+        .is('deleted_at', null);
+
+      if (boardIds) {
+        query = query.in('category.board_id', boardIds);
+      }
+
+      const { data, error } = await query
         .order('priority')
         .order('due_date');
       if (error) throw error;
@@ -205,10 +454,47 @@ export function useOverdueActions() {
   });
 }
 
+// Actions spawned from a problem (RCA countermeasures)
+export function useProblemActions(problemId?: string) {
+  return useQuery({
+    queryKey: ['actions', 'problem', problemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('actions')
+        .select('*')
+        .eq('problem_id', problemId!)
+        .is('deleted_at', null)
+        .order('due_date');
+      if (error) throw error;
+      return data as unknown as Action[];
+    },
+    enabled: !!problemId,
+  });
+}
+
+// Open countermeasures of a KPI
+export function useKpiActions(kpiId?: string) {
+  return useQuery({
+    queryKey: ['actions', 'kpi', kpiId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('actions')
+        .select('*')
+        .eq('kpi_id', kpiId!)
+        .neq('status', 'completed')
+        .is('deleted_at', null)
+        .order('due_date');
+      if (error) throw error;
+      return data as unknown as Action[];
+    },
+    enabled: !!kpiId,
+  });
+}
+
 export function useCreateAction() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (action: { category_id: string; title: string; description?: string; priority?: 'low' | 'medium' | 'high' | 'urgent'; due_date: string; responsible_id?: string; created_by?: string; status?: 'todo' | 'in_progress' | 'completed' | 'overdue' }) => {
+    mutationFn: async (action: { category_id: string; title: string; description?: string; priority?: 'low' | 'medium' | 'high' | 'urgent'; due_date: string; responsible_id?: string; created_by?: string; status?: ActionStatus; template_id?: string; requires_validation?: boolean; problem_id?: string; problem_cause_id?: string; kpi_id?: string; meeting_id?: string }) => {
       const { data, error } = await supabase.from('actions').insert([action]).select().single();
       if (error) throw error;
       return data;
@@ -216,6 +502,8 @@ export function useCreateAction() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['actions'] });
       queryClient.invalidateQueries({ queryKey: ['today_priorities'] });
+      // Linking an action moves its problem back in progress
+      queryClient.invalidateQueries({ queryKey: ['problems'] });
       toast.success('Action créée avec succès');
     },
     onError: () => {
@@ -227,7 +515,7 @@ export function useCreateAction() {
 export function useUpdateAction() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async ({ id, ...updates }: { id: string; status?: 'todo' | 'in_progress' | 'completed' | 'overdue'; completed_at?: string | null }) => {
+    mutationFn: async ({ id, ...updates }: { id: string; status?: ActionStatus; completed_at?: string | null }) => {
       const { data, error } = await supabase
         .from('actions')
         .update(updates)
@@ -237,10 +525,12 @@ export function useUpdateAction() {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['actions'] });
       queryClient.invalidateQueries({ queryKey: ['today_priorities'] });
-      toast.success('Action mise à jour');
+      queryClient.invalidateQueries({ queryKey: ['problems'] });
+      // Completing an action that requires validation sends it to the managers' queue
+      toast.success(data.status === 'pending_validation' ? 'Action soumise à validation' : 'Action mise à jour');
     },
     onError: () => {
       toast.error('Erreur lors de la mise à jour');
@@ -248,17 +538,41 @@ export function useUpdateAction() {
   });
 }
 
+export function useReviewAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, approved, comment }: { id: string; approved: boolean; comment?: string }) => {
+      const { error } = await supabase.rpc('review_action', {
+        _id: id,
+        _approved: approved,
+        _comment: comment,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { approved }) => {
+      queryClient.invalidateQueries({ queryKey: ['actions'] });
+      queryClient.invalidateQueries({ queryKey: ['today_priorities'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast.success(approved ? 'Action validée' : 'Action rejetée');
+    },
+    onError: () => {
+      toast.error('Erreur lors de la validation');
+    },
+  });
+}
+
 export function useDeleteAction() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase.from('actions').delete().eq('id', id);
+      const { error } = await supabase.rpc('soft_delete_item', { _table: 'actions', _id: id });
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['actions'] });
       queryClient.invalidateQueries({ queryKey: ['today_priorities'] });
-      toast.success('Action supprimée');
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success('Action déplacée dans la corbeille');
     },
     onError: () => {
       toast.error('Erreur lors de la suppression');
@@ -267,13 +581,14 @@ export function useDeleteAction() {
 }
 
 // Problems
-export function useProblems(categoryId?: string, status?: 'open' | 'in_progress' | 'resolved') {
+export function useProblems(categoryId?: string, status?: 'open' | 'in_progress' | 'resolved', boardIds?: string[]) {
   return useQuery({
-    queryKey: ['problems', categoryId, status],
+    queryKey: ['problems', categoryId, status, boardIds],
     queryFn: async () => {
       let query = supabase
         .from('problems')
-        .select('*, category:sfm_categories(*)');
+        .select('*, category:sfm_categories!inner(*)')
+        .is('category.deleted_at', null);
       
       if (categoryId) {
         query = query.eq('category_id', categoryId);
@@ -281,23 +596,71 @@ export function useProblems(categoryId?: string, status?: 'open' | 'in_progress'
       if (status) {
         query = query.eq('status', status);
       }
+      if (boardIds) {
+        query = query.in('category.board_id', boardIds);
+      }
       
       const { data, error } = await query.order('created_at', { ascending: false });
       if (error) throw error;
-      return data as unknown as Problem[];
+
+      // Fetch reporter and assignee profiles separately to avoid FK issues
+      const profileIds = [...new Set(data?.flatMap(p => [p.reported_by, p.assigned_to]).filter(Boolean) || [])] as string[];
+      let profilesMap: Record<string, { full_name: string }> = {};
+
+      if (profileIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', profileIds);
+
+        if (profiles) {
+          profilesMap = profiles.reduce((acc, p) => {
+            acc[p.user_id] = { full_name: p.full_name };
+            return acc;
+          }, {} as Record<string, { full_name: string }>);
+        }
+      }
+
+      return (data || []).map(problem => ({
+        ...problem,
+        reporter: problem.reported_by ? profilesMap[problem.reported_by] : null,
+        assignee: problem.assigned_to ? profilesMap[problem.assigned_to] : null,
+      })) as unknown as Problem[];
     },
   });
 }
 
+// Replaying a problem already saved under the same id inserts nothing
+export async function insertProblem(problem: NewProblem) {
+  const { data, error } = await supabase
+    .from('problems')
+    .upsert([problem], { onConflict: 'id', ignoreDuplicates: true })
+    .select();
+  if (error) throw error;
+  return data[0] ?? problem;
+}
+
 export function useCreateProblem() {
   const queryClient = useQueryClient();
+  const { enqueue } = useOffline();
   return useMutation({
-    mutationFn: async (problem: { category_id: string; title: string; description?: string; severity?: 'low' | 'medium' | 'high' | 'critical'; reported_by?: string; status?: 'open' | 'in_progress' | 'resolved'; escalated?: boolean }) => {
-      const { data, error } = await supabase.from('problems').insert([problem]).select().single();
-      if (error) throw error;
-      return data;
+    networkMode: 'always',
+    mutationFn: async (newProblem: NewProblem) => {
+      const problem = { ...newProblem, id: newProblem.id ?? crypto.randomUUID() };
+      try {
+        if (!navigator.onLine) throw new TypeError('Failed to fetch');
+        return await insertProblem(problem);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await enqueue({ kind: 'problem', payload: problem });
+        return null;
+      }
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      if (!data) {
+        toast.info('Hors connexion : le problème sera déclaré au retour du réseau');
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['problems'] });
       toast.success('Problème déclaré');
     },
@@ -310,7 +673,7 @@ export function useCreateProblem() {
 export function useUpdateProblem() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async ({ id, ...updates }: { id: string; status?: 'open' | 'in_progress' | 'resolved'; resolved_at?: string | null }) => {
+    mutationFn: async ({ id, ...updates }: { id: string; status?: 'open' | 'in_progress' | 'resolved'; resolved_at?: string | null; assigned_to?: string | null }) => {
       const { data, error } = await supabase
         .from('problems')
         .update(updates)
@@ -324,8 +687,8 @@ export function useUpdateProblem() {
       queryClient.invalidateQueries({ queryKey: ['problems'] });
       toast.success('Problème mis à jour');
     },
-    onError: () => {
-      toast.error('Erreur lors de la mise à jour');
+    onError: (error) => {
+      toast.error(error.message || 'Erreur lors de la mise à jour');
     },
   });
 }
@@ -335,9 +698,12 @@ export function useNotes(categoryId?: string) {
   return useQuery({
     queryKey: ['notes', categoryId],
     queryFn: async () => {
+      // Notes of a trashed category go away with it; notes without category stay global
       let query = supabase
         .from('notes')
-        .select('*, category:sfm_categories(*)');
+        .select('*, category:sfm_categories(*)')
+        .is('category.deleted_at', null)
+        .or('category_id.is.null,category.not.is.null');
       
       if (categoryId) {
         query = query.eq('category_id', categoryId);
@@ -375,7 +741,7 @@ export function useNotes(categoryId?: string) {
 export function useCreateNote() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (note: { title?: string; content: string; category_id?: string; is_pinned?: boolean; created_by?: string }) => {
+    mutationFn: async (note: { title?: string; content: string; category_id?: string; is_pinned?: boolean; created_by?: string; meeting_id?: string }) => {
       const { data, error } = await supabase.from('notes').insert(note).select().single();
       if (error) throw error;
       return data;
@@ -432,50 +798,165 @@ export function useDeleteNote() {
 
 
 // Smart Alerts
+// Unread alerts of the signed-in user, deliveries are only visible to their recipient
 export function useSmartAlerts() {
   return useQuery({
     queryKey: ['smart_alerts'],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('smart_alerts')
-        .select('*, category:sfm_categories(*)')
-        .eq('is_read', false)
+        .from('alert_deliveries')
+        .select('read_at, alert:smart_alerts!inner(*, category:sfm_categories(*))')
+        .is('read_at', null)
+        .is('alert.resolved_at', null)
+        .or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`, { referencedTable: 'alert' })
         .order('created_at', { ascending: false })
         .limit(50);
       if (error) throw error;
-      return data as (SmartAlert & { category?: SfmCategory })[];
+      return data.map(d => ({ ...d.alert, read_at: d.read_at })) as (SmartAlert & { category?: SfmCategory })[];
     },
   });
 }
 
+// Unresolved alerts plus the last 30 days of resolved ones
 export function useAllAlerts() {
   return useQuery({
     queryKey: ['all_alerts'],
     queryFn: async () => {
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
       const { data, error } = await supabase
         .from('smart_alerts')
         .select('*, category:sfm_categories(*)')
+        .or(`resolved_at.is.null,resolved_at.gte.${since}`)
         .order('created_at', { ascending: false })
-        .limit(100);
+        .limit(200);
       if (error) throw error;
-      return data as (SmartAlert & { category?: SfmCategory })[];
+
+      const namesMap = await fetchProfileNames(data.flatMap(a => [a.acknowledged_by, a.assigned_to, a.resolved_by]));
+      return data.map(a => ({
+        ...a,
+        acknowledger: a.acknowledged_by ? namesMap[a.acknowledged_by] || null : null,
+        assignee: a.assigned_to ? namesMap[a.assigned_to] || null : null,
+        resolver: a.resolved_by ? namesMap[a.resolved_by] || null : null,
+      })) as (SmartAlert & { category?: SfmCategory })[];
     },
   });
 }
 
+// Mean time to acknowledge over the last days, in milliseconds
+export function useAlertMtta(days = 30) {
+  return useQuery({
+    queryKey: ['alert_mtta', days],
+    queryFn: async () => {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('smart_alerts')
+        .select('created_at, acknowledged_at')
+        .not('acknowledged_at', 'is', null)
+        .gte('created_at', since);
+      if (error) throw error;
+      return { mtta: meanTimeToAcknowledge(data), count: data.length };
+    },
+  });
+}
+
+// Read state is per recipient, other users keep the alert unread
 export function useMarkAlertRead() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async ({ alertId, userId }: { alertId: string; userId: string }) => {
+      const { error } = await supabase
+        .from('alert_deliveries')
+        .update({ read_at: new Date().toISOString() })
+        .eq('alert_id', alertId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+    },
+  });
+}
+
+export function useAcknowledgeAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, userId }: { id: string; userId: string }) => {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('smart_alerts')
+        .update({ acknowledged_at: now, acknowledged_by: userId })
+        .eq('id', id);
+      if (error) throw error;
+
+      // Acknowledging implies having read it
+      await supabase
+        .from('alert_deliveries')
+        .update({ read_at: now })
+        .eq('alert_id', id)
+        .eq('user_id', userId)
+        .is('read_at', null);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
+      queryClient.invalidateQueries({ queryKey: ['all_alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['alert_mtta'] });
+    },
+  });
+}
+
+export function useAssignAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, assignedTo }: { id: string; assignedTo: string | null }) => {
+      const { error } = await supabase
+        .from('smart_alerts')
+        .update({ assigned_to: assignedTo })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['all_alerts'] });
+    },
+  });
+}
+
+// A null date ends the snooze
+export function useSnoozeAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, until }: { id: string; until: Date | null }) => {
+      const { error } = await supabase
+        .from('smart_alerts')
+        .update({ snoozed_until: until ? until.toISOString() : null })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
+      queryClient.invalidateQueries({ queryKey: ['all_alerts'] });
+    },
+  });
+}
+
+export function useResolveAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, userId }: { id: string; userId: string }) => {
       const { error } = await supabase
         .from('smart_alerts')
-        .update({ is_read: true })
+        .update({ resolved_at: new Date().toISOString(), resolved_by: userId, auto_resolved: false, snoozed_until: null })
         .eq('id', id);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['smart-alerts-unread'] });
       queryClient.invalidateQueries({ queryKey: ['all_alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
     },
   });
 }
@@ -492,6 +973,7 @@ export function useGenerateAlerts() {
       queryClient.invalidateQueries({ queryKey: ['smart_alerts'] });
       queryClient.invalidateQueries({ queryKey: ['all_alerts'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard_stats'] });
+      queryClient.invalidateQueries({ queryKey: ['alert_runs'] });
     },
   });
 }
@@ -558,17 +1040,18 @@ export function useResponsibleProfiles() {
   });
 }
 
-// Category stats
-export function useCategoryStats(categoryId: string) {
+// Category stats (a list of categories rolls child boards up into one column)
+export function useCategoryStats(categoryId: CategoryScope) {
+  const categoryIds = toCategoryIds(categoryId);
   return useQuery({
-    queryKey: ['category_stats', categoryId],
+    queryKey: ['category_stats', categoryIds],
     queryFn: async () => {
       const today = new Date().toISOString().split('T')[0];
       
       const [actionsRes, problemsRes, kpisRes] = await Promise.all([
-        supabase.from('actions').select('status, due_date').eq('category_id', categoryId).neq('status', 'completed'),
-        supabase.from('problems').select('severity, status').eq('category_id', categoryId).neq('status', 'resolved'),
-        supabase.from('kpis').select('id').eq('category_id', categoryId).eq('is_active', true),
+        supabase.from('actions').select('status, due_date').in('category_id', categoryIds).neq('status', 'completed').is('deleted_at', null),
+        supabase.from('problems').select('severity, status').in('category_id', categoryIds).neq('status', 'resolved'),
+        supabase.from('kpis').select('id').in('category_id', categoryIds).eq('is_active', true).is('deleted_at', null),
       ]);
 
       const actions = actionsRes.data || [];
@@ -582,6 +1065,6 @@ export function useCategoryStats(categoryId: string) {
         kpiCount: kpisRes.data?.length || 0,
       };
     },
-    enabled: !!categoryId,
+    enabled: !!categoryIds?.length,
   });
 }
@@ -0,0 +1,116 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchProfileNames } from '@/hooks/useComments';
+import { TrashItem, TrashTable } from '@/types/sfm';
+import { toast } from 'sonner';
+
+// Everything a soft delete can hide from the lists
+const invalidateBoardData = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['trash'] });
+  queryClient.invalidateQueries({ queryKey: ['categories'] });
+  queryClient.invalidateQueries({ queryKey: ['kpis'] });
+  queryClient.invalidateQueries({ queryKey: ['actions'] });
+  queryClient.invalidateQueries({ queryKey: ['today_priorities'] });
+  queryClient.invalidateQueries({ queryKey: ['problems'] });
+  queryClient.invalidateQueries({ queryKey: ['notes'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+};
+
+export function useTrash() {
+  return useQuery({
+    queryKey: ['trash'],
+    queryFn: async () => {
+      const [categoriesRes, kpisRes, actionsRes] = await Promise.all([
+        supabase.from('sfm_categories').select('id, name, deleted_at, deleted_by').not('deleted_at', 'is', null),
+        supabase.from('kpis').select('id, name, deleted_at, deleted_by, category:sfm_categories(name)').not('deleted_at', 'is', null),
+        supabase.from('actions').select('id, title, deleted_at, deleted_by, category:sfm_categories(name)').not('deleted_at', 'is', null),
+      ]);
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (kpisRes.error) throw kpisRes.error;
+      if (actionsRes.error) throw actionsRes.error;
+
+      const items: Omit<TrashItem, 'deleter'>[] = [
+        ...categoriesRes.data.map(c => ({ id: c.id, table: 'sfm_categories' as const, name: c.name, deleted_at: c.deleted_at!, deleted_by: c.deleted_by })),
+        ...kpisRes.data.map(k => ({ id: k.id, table: 'kpis' as const, name: k.name, context: k.category?.name, deleted_at: k.deleted_at!, deleted_by: k.deleted_by })),
+        ...actionsRes.data.map(a => ({ id: a.id, table: 'actions' as const, name: a.title, context: a.category?.name, deleted_at: a.deleted_at!, deleted_by: a.deleted_by })),
+      ];
+
+      const deletersMap = await fetchProfileNames(items.map(i => i.deleted_by));
+
+      return items
+        .map(item => ({ ...item, deleter: item.deleted_by ? deletersMap[item.deleted_by] : null }))
+        .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)) as TrashItem[];
+    },
+  });
+}
+
+export function useSoftDelete() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ table, id }: { table: TrashTable; id: string }) => {
+      const { error } = await supabase.rpc('soft_delete_item', { _table: table, _id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateBoardData(queryClient);
+      toast.success('Élément déplacé dans la corbeille');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Erreur lors de la suppression');
+    },
+  });
+}
+
+export function useRestoreItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ table, id }: { table: TrashTable; id: string }) => {
+      const { error } = await supabase.rpc('restore_deleted_item', { _table: table, _id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateBoardData(queryClient);
+      toast.success('Élément restauré');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Erreur lors de la restauration');
+    },
+  });
+}
+
+// Rows a purge deletes along with the item, which never appeared in the trash themselves
+export function useTrashDependants(item: Pick<TrashItem, 'table' | 'id'> | null) {
+  return useQuery({
+    queryKey: ['trash', 'dependants', item?.table, item?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('trash_item_dependants', { _table: item!.table, _id: item!.id });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!item,
+  });
+}
+
+// Permanent delete, only for items already in the trash
+export function usePurgeItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ table, id }: { table: TrashTable; id: string }) => {
+      const { data: storagePaths, error } = await supabase.rpc('purge_deleted_item', { _table: table, _id: id });
+      if (error) throw error;
+
+      // The rows are gone already, a leftover file is only logged
+      if (storagePaths?.length) {
+        const { error: storageError } = await supabase.storage.from('attachments').remove(storagePaths);
+        if (storageError) console.error('Error removing purged attachment files:', storageError);
+      }
+    },
+    onSuccess: () => {
+      invalidateBoardData(queryClient);
+      toast.success('Élément supprimé définitivement');
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Erreur lors de la suppression définitive');
+    },
+  });
+}
@@ -14,91 +14,806 @@ export type Database = {
   }
   public: {
     Tables: {
+      action_templates: {
+        Row: {
+          category_id: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          priority: Database["public"]["Enums"]["action_priority"] | null
+          recurrence_day_of_month: number | null
+          recurrence_type: string | null
+          recurrence_weekdays: number[]
+          responsible_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          priority?: Database["public"]["Enums"]["action_priority"] | null
+          recurrence_day_of_month?: number | null
+          recurrence_type?: string | null
+          recurrence_weekdays?: number[]
+          responsible_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          priority?: Database["public"]["Enums"]["action_priority"] | null
+          recurrence_day_of_month?: number | null
+          recurrence_type?: string | null
+          recurrence_weekdays?: number[]
+          responsible_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "action_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "sfm_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       actions: {
         Row: {
           category_id: string
           completed_at: string | null
           created_at: string
           created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           due_date: string
           id: string
+          kpi_id: string | null
+          meeting_id: string | null
           priority: Database["public"]["Enums"]["action_priority"] | null
+          problem_cause_id: string | null
+          problem_id: string | null
           requires_validation: boolean | null
           responsible_id: string | null
           status: Database["public"]["Enums"]["action_status"] | null
+          template_id: string | null
           title: string
           updated_at: string
           validated_at: string | null
           validated_by: string | null
+          validation_comment: string | null
         }
         Insert: {
           category_id: string
           completed_at?: string | null
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date: string
           id?: string
+          kpi_id?: string | null
+          meeting_id?: string | null
           priority?: Database["public"]["Enums"]["action_priority"] | null
+          problem_cause_id?: string | null
+          problem_id?: string | null
           requires_validation?: boolean | null
           responsible_id?: string | null
           status?: Database["public"]["Enums"]["action_status"] | null
+          template_id?: string | null
           title: string
           updated_at?: string
           validated_at?: string | null
           validated_by?: string | null
+          validation_comment?: string | null
         }
         Update: {
           category_id?: string
           completed_at?: string | null
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string
           id?: string
+          kpi_id?: string | null
+          meeting_id?: string | null
           priority?: Database["public"]["Enums"]["action_priority"] | null
+          problem_cause_id?: string | null
+          problem_id?: string | null
           requires_validation?: boolean | null
           responsible_id?: string | null
           status?: Database["public"]["Enums"]["action_status"] | null
+          template_id?: string | null
           title?: string
           updated_at?: string
           validated_at?: string | null
           validated_by?: string | null
+          validation_comment?: string | null
         }
         Relationships: [
           {
             foreignKeyName: "actions_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
-            referencedRelation: "sfm_categories"
+            referencedRelation: "sfm_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "actions_kpi_id_fkey"
+            columns: ["kpi_id"]
+            isOneToOne: false
+            referencedRelation: "kpis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "actions_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "actions_problem_cause_id_fkey"
+            columns: ["problem_cause_id"]
+            isOneToOne: false
+            referencedRelation: "problem_causes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "actions_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "actions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "action_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      activity_log: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          entity_id: string
+          entity_type: string
+          event: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          event: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          event?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Relationships: []
+      }
+      alert_deliveries: {
+        Row: {
+          alert_id: string
+          created_at: string
+          id: string
+          pushed_at: string | null
+          read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          alert_id: string
+          created_at?: string
+          id?: string
+          pushed_at?: string | null
+          read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          alert_id?: string
+          created_at?: string
+          id?: string
+          pushed_at?: string | null
+          read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_deliveries_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "smart_alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          audience_role: Database["public"]["Enums"]["app_role"] | null
+          board_id: string | null
+          category_id: string | null
+          cooldown_minutes: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          kpi_id: string | null
+          name: string
+          params: Json
+          rule_type: string
+          severity: string
+          updated_at: string
+        }
+        Insert: {
+          audience_role?: Database["public"]["Enums"]["app_role"] | null
+          board_id?: string | null
+          category_id?: string | null
+          cooldown_minutes?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kpi_id?: string | null
+          name: string
+          params?: Json
+          rule_type: string
+          severity?: string
+          updated_at?: string
+        }
+        Update: {
+          audience_role?: Database["public"]["Enums"]["app_role"] | null
+          board_id?: string | null
+          category_id?: string | null
+          cooldown_minutes?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          kpi_id?: string | null
+          name?: string
+          params?: Json
+          rule_type?: string
+          severity?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "sfm_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_kpi_id_fkey"
+            columns: ["kpi_id"]
+            isOneToOne: false
+            referencedRelation: "kpis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_runs: {
+        Row: {
+          duplicates_skipped: number
+          error: string | null
+          finished_at: string
+          id: string
+          new_alerts_created: number
+          started_at: string
+          status: string
+          total_checked: number
+          trigger: string
+          triggered_by: string | null
+        }
+        Insert: {
+          duplicates_skipped?: number
+          error?: string | null
+          finished_at?: string
+          id?: string
+          new_alerts_created?: number
+          started_at: string
+          status?: string
+          total_checked?: number
+          trigger: string
+          triggered_by?: string | null
+        }
+        Update: {
+          duplicates_skipped?: number
+          error?: string | null
+          finished_at?: string
+          id?: string
+          new_alerts_created?: number
+          started_at?: string
+          status?: string
+          total_checked?: number
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      alert_schedule: {
+        Row: {
+          enabled: boolean
+          id: boolean
+          interval_minutes: number | null
+          last_checked_at: string | null
+          last_dispatched_at: string | null
+          shift_starts: string[]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          enabled?: boolean
+          id?: boolean
+          interval_minutes?: number | null
+          last_checked_at?: string | null
+          last_dispatched_at?: string | null
+          shift_starts?: string[]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          enabled?: boolean
+          id?: boolean
+          interval_minutes?: number | null
+          last_checked_at?: string | null
+          last_dispatched_at?: string | null
+          shift_starts?: string[]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      app_settings: {
+        Row: {
+          id: string
+          key: string
+          updated_at: string | null
+          updated_by: string | null
+          value: string | null
+        }
+        Insert: {
+          id?: string
+          key: string
+          updated_at?: string | null
+          updated_by?: string | null
+          value?: string | null
+        }
+        Update: {
+          id?: string
+          key?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          value?: string | null
+        }
+        Relationships: []
+      }
+      attachments: {
+        Row: {
+          action_id: string | null
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          note_id: string | null
+          problem_id: string | null
+          size_bytes: number | null
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          action_id?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          note_id?: string | null
+          problem_id?: string | null
+          size_bytes?: number | null
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          action_id?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          note_id?: string | null
+          problem_id?: string | null
+          size_bytes?: number | null
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          actor_id: string | null
+          board_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          actor_id?: string | null
+          board_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          actor_id?: string | null
+          board_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      board_members: {
+        Row: {
+          board_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_members_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boards: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          display_order: number
+          id: string
+          is_active: boolean | null
+          level: Database["public"]["Enums"]["board_level"]
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          display_order?: number
+          id?: string
+          is_active?: boolean | null
+          level?: Database["public"]["Enums"]["board_level"]
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          display_order?: number
+          id?: string
+          is_active?: boolean | null
+          level?: Database["public"]["Enums"]["board_level"]
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boards_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          author_id: string | null
+          content: string
+          created_at: string
+          entity_id: string
+          entity_type: string
+          id: string
+          mentions: string[]
+          updated_at: string
+        }
+        Insert: {
+          author_id?: string | null
+          content: string
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          id?: string
+          mentions?: string[]
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string | null
+          content?: string
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          mentions?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      display_tokens: {
+        Row: {
+          board_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          rotate_seconds: number
+          token_hash: string
+          token_hint: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          rotate_seconds?: number
+          token_hash: string
+          token_hint: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          rotate_seconds?: number
+          token_hash?: string
+          token_hint?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "display_tokens_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_rules: {
+        Row: {
+          after_hours: number
+          created_at: string
+          id: string
+          label: string
+          level: number
+          reassign: boolean
+          severity: Database["public"]["Enums"]["problem_severity"]
+          target_role: Database["public"]["Enums"]["app_role"]
+          target_scope: string
+          updated_at: string
+        }
+        Insert: {
+          after_hours: number
+          created_at?: string
+          id?: string
+          label: string
+          level: number
+          reassign?: boolean
+          severity: Database["public"]["Enums"]["problem_severity"]
+          target_role?: Database["public"]["Enums"]["app_role"]
+          target_scope?: string
+          updated_at?: string
+        }
+        Update: {
+          after_hours?: number
+          created_at?: string
+          id?: string
+          label?: string
+          level?: number
+          reassign?: boolean
+          severity?: Database["public"]["Enums"]["problem_severity"]
+          target_role?: Database["public"]["Enums"]["app_role"]
+          target_scope?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      kpi_value_breakdowns: {
+        Row: {
+          cause: string
+          created_at: string
+          id: string
+          kpi_value_id: string
+          value: number
+        }
+        Insert: {
+          cause: string
+          created_at?: string
+          id?: string
+          kpi_value_id: string
+          value: number
+        }
+        Update: {
+          cause?: string
+          created_at?: string
+          id?: string
+          kpi_value_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kpi_value_breakdowns_kpi_value_id_fkey"
+            columns: ["kpi_value_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_values"
             referencedColumns: ["id"]
           },
         ]
       }
-      app_settings: {
+      kpi_value_corrections: {
         Row: {
+          changed_by: string | null
+          created_at: string
           id: string
-          key: string
-          updated_at: string | null
-          updated_by: string | null
-          value: string | null
+          kpi_id: string
+          kpi_value_id: string | null
+          new_recorded_at: string | null
+          new_value: number | null
+          old_recorded_at: string
+          old_value: number
+          operation: string
+          reason: string
         }
         Insert: {
+          changed_by?: string | null
+          created_at?: string
           id?: string
-          key: string
-          updated_at?: string | null
-          updated_by?: string | null
-          value?: string | null
+          kpi_id: string
+          kpi_value_id?: string | null
+          new_recorded_at?: string | null
+          new_value?: number | null
+          old_recorded_at: string
+          old_value: number
+          operation: string
+          reason: string
         }
         Update: {
+          changed_by?: string | null
+          created_at?: string
           id?: string
-          key?: string
-          updated_at?: string | null
-          updated_by?: string | null
-          value?: string | null
+          kpi_id?: string
+          kpi_value_id?: string | null
+          new_recorded_at?: string | null
+          new_value?: number | null
+          old_recorded_at?: string
+          old_value?: number
+          operation?: string
+          reason?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kpi_value_corrections_kpi_id_fkey"
+            columns: ["kpi_id"]
+            isOneToOne: false
+            referencedRelation: "kpis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kpi_value_corrections_kpi_value_id_fkey"
+            columns: ["kpi_value_id"]
+            isOneToOne: false
+            referencedRelation: "kpi_values"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       kpi_values: {
         Row: {
@@ -154,6 +869,8 @@ export type Database = {
           created_at: string
           created_by: string | null
           critical_threshold: number | null
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           display_order: number | null
           frequency: Database["public"]["Enums"]["kpi_frequency"] | null
@@ -161,6 +878,7 @@ export type Database = {
           is_active: boolean | null
           name: string
           performance_direction: string | null
+          spc_baseline_size: number | null
           target_value: number | null
           unit: string | null
           updated_at: string
@@ -172,6 +890,8 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           critical_threshold?: number | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           display_order?: number | null
           frequency?: Database["public"]["Enums"]["kpi_frequency"] | null
@@ -179,6 +899,7 @@ export type Database = {
           is_active?: boolean | null
           name: string
           performance_direction?: string | null
+          spc_baseline_size?: number | null
           target_value?: number | null
           unit?: string | null
           updated_at?: string
@@ -190,6 +911,8 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           critical_threshold?: number | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           display_order?: number | null
           frequency?: Database["public"]["Enums"]["kpi_frequency"] | null
@@ -197,6 +920,7 @@ export type Database = {
           is_active?: boolean | null
           name?: string
           performance_direction?: string | null
+          spc_baseline_size?: number | null
           target_value?: number | null
           unit?: string | null
           updated_at?: string
@@ -212,6 +936,124 @@ export type Database = {
           },
         ]
       }
+      meeting_attendees: {
+        Row: {
+          meeting_id: string
+          present: boolean
+          user_id: string
+        }
+        Insert: {
+          meeting_id: string
+          present?: boolean
+          user_id: string
+        }
+        Update: {
+          meeting_id?: string
+          present?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_attendees_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_segments: {
+        Row: {
+          category_id: string | null
+          category_name: string
+          comment: string | null
+          id: string
+          meeting_id: string
+          planned_seconds: number
+          position: number
+          spent_seconds: number
+        }
+        Insert: {
+          category_id?: string | null
+          category_name: string
+          comment?: string | null
+          id?: string
+          meeting_id: string
+          planned_seconds: number
+          position: number
+          spent_seconds?: number
+        }
+        Update: {
+          category_id?: string | null
+          category_name?: string
+          comment?: string | null
+          id?: string
+          meeting_id?: string
+          planned_seconds?: number
+          position?: number
+          spent_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_segments_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "sfm_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_segments_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meetings: {
+        Row: {
+          board_id: string
+          created_at: string
+          ended_at: string | null
+          facilitator_id: string | null
+          id: string
+          planned_minutes: number
+          started_at: string
+          summary: string | null
+          updated_at: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          ended_at?: string | null
+          facilitator_id?: string | null
+          id?: string
+          planned_minutes?: number
+          started_at?: string
+          summary?: string | null
+          updated_at?: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          ended_at?: string | null
+          facilitator_id?: string | null
+          id?: string
+          planned_minutes?: number
+          started_at?: string
+          summary?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meetings_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
           category_id: string | null
@@ -220,6 +1062,7 @@ export type Database = {
           created_by: string | null
           id: string
           is_pinned: boolean | null
+          meeting_id: string | null
           title: string | null
         }
         Insert: {
@@ -229,6 +1072,7 @@ export type Database = {
           created_by?: string | null
           id?: string
           is_pinned?: boolean | null
+          meeting_id?: string | null
           title?: string | null
         }
         Update: {
@@ -238,6 +1082,7 @@ export type Database = {
           created_by?: string | null
           id?: string
           is_pinned?: boolean | null
+          meeting_id?: string | null
           title?: string | null
         }
         Relationships: [
@@ -248,6 +1093,143 @@ export type Database = {
             referencedRelation: "sfm_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notes_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problem_causes: {
+        Row: {
+          branch: string
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          is_root_cause: boolean
+          problem_id: string
+        }
+        Insert: {
+          branch: string
+          created_at?: string
+          created_by?: string | null
+          description: string
+          id?: string
+          is_root_cause?: boolean
+          problem_id: string
+        }
+        Update: {
+          branch?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          is_root_cause?: boolean
+          problem_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problem_causes_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problem_escalations: {
+        Row: {
+          assigned_to: string | null
+          escalated_at: string
+          id: string
+          label: string
+          level: number
+          notified_count: number
+          problem_id: string
+          rule_id: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          escalated_at?: string
+          id?: string
+          label: string
+          level: number
+          notified_count?: number
+          problem_id: string
+          rule_id?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          escalated_at?: string
+          id?: string
+          label?: string
+          level?: number
+          notified_count?: number
+          problem_id?: string
+          rule_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problem_escalations_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "problem_escalations_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problem_rca: {
+        Row: {
+          containment_measures: string | null
+          corrective_measures: string | null
+          created_at: string
+          id: string
+          problem_id: string
+          root_cause: string | null
+          updated_at: string
+          updated_by: string | null
+          whys: string[]
+        }
+        Insert: {
+          containment_measures?: string | null
+          corrective_measures?: string | null
+          created_at?: string
+          id?: string
+          problem_id: string
+          root_cause?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          whys?: string[]
+        }
+        Update: {
+          containment_measures?: string | null
+          corrective_measures?: string | null
+          created_at?: string
+          id?: string
+          problem_id?: string
+          root_cause?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          whys?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problem_rca_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: true
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
         ]
       }
       problems: {
@@ -257,6 +1239,7 @@ export type Database = {
           created_at: string
           description: string | null
           escalated: boolean | null
+          escalation_level: number
           id: string
           reported_by: string | null
           resolved_at: string | null
@@ -271,6 +1254,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           escalated?: boolean | null
+          escalation_level?: number
           id?: string
           reported_by?: string | null
           resolved_at?: string | null
@@ -285,6 +1269,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           escalated?: boolean | null
+          escalation_level?: number
           id?: string
           reported_by?: string | null
           resolved_at?: string | null
@@ -336,11 +1321,47 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       sfm_categories: {
         Row: {
+          board_id: string
           code: string
           color: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           display_order: number
           icon: string | null
           id: string
@@ -348,9 +1369,12 @@ export type Database = {
           name: string
         }
         Insert: {
+          board_id: string
           code: string
           color: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           display_order?: number
           icon?: string | null
           id?: string
@@ -358,51 +1382,89 @@ export type Database = {
           name: string
         }
         Update: {
+          board_id?: string
           code?: string
           color?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           display_order?: number
           icon?: string | null
           id?: string
           is_active?: boolean | null
           name?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sfm_categories_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       smart_alerts: {
         Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          assigned_to: string | null
+          audience_role: Database["public"]["Enums"]["app_role"] | null
+          auto_resolved: boolean
           category_id: string | null
           created_at: string
           id: string
-          is_read: boolean | null
           message: string
+          recipient_id: string | null
           related_id: string | null
           related_type: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          rule_id: string | null
           severity: string
+          snoozed_until: string | null
           title: string | null
           type: string
         }
         Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          assigned_to?: string | null
+          audience_role?: Database["public"]["Enums"]["app_role"] | null
+          auto_resolved?: boolean
           category_id?: string | null
           created_at?: string
           id?: string
-          is_read?: boolean | null
           message: string
+          recipient_id?: string | null
           related_id?: string | null
           related_type?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
           severity: string
+          snoozed_until?: string | null
           title?: string | null
           type: string
         }
         Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          assigned_to?: string | null
+          audience_role?: Database["public"]["Enums"]["app_role"] | null
+          auto_resolved?: boolean
           category_id?: string | null
           created_at?: string
           id?: string
-          is_read?: boolean | null
           message?: string
+          recipient_id?: string | null
           related_id?: string | null
           related_type?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
           severity?: string
+          snoozed_until?: string | null
           title?: string | null
           type?: string
         }
@@ -414,6 +1476,13 @@ export type Database = {
             referencedRelation: "sfm_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "smart_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -484,10 +1553,98 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_kpi_value: {
+        Args: {
+          _breakdown?: Json
+          _comment?: string
+          _id?: string
+          _kpi_id: string
+          _recorded_at?: string
+          _recorded_by?: string
+          _value: number
+          _week_number?: number
+        }
+        Returns: string
+      }
+      alert_recipient_ids: {
+        Args: { _alert_id: string }
+        Returns: string[]
+      }
+      can_access_alert_rule_scope: {
+        Args: {
+          _board_id: string
+          _category_id: string
+          _kpi_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_access_attachment_target: {
+        Args: { _entity_id: string; _entity_type: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_board: {
+        Args: { _board_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_category: {
+        Args: { _category_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_meeting: {
+        Args: { _meeting_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_run_meeting: {
+        Args: { _board_id: string; _user_id: string }
+        Returns: boolean
+      }
+      compute_kpi_status: {
+        Args: {
+          _critical_threshold: number
+          _direction: string
+          _target: number
+          _value: number
+          _warning_threshold: number
+        }
+        Returns: Database["public"]["Enums"]["kpi_status"]
+      }
+      compute_kpi_trend: {
+        Args: { _direction: string; _previous_value: number; _value: number }
+        Returns: Database["public"]["Enums"]["kpi_trend"]
+      }
+      create_display_token: {
+        Args: { _board_id: string; _name: string; _rotate_seconds?: number }
+        Returns: string
+      }
+      create_recurring_action: {
+        Args: { _due_date: string; _template_id: string }
+        Returns: undefined
+      }
+      delete_kpi_value: {
+        Args: { _id: string; _reason: string }
+        Returns: undefined
+      }
+      escalate_problems: {
+        Args: never
+        Returns: number
+      }
+      generate_recurring_actions: {
+        Args: never
+        Returns: number
+      }
+      get_display_board: {
+        Args: { _token: string }
+        Returns: Json
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      has_min_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"]; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -495,11 +1652,81 @@ export type Database = {
         }
         Returns: boolean
       }
+      next_recurrence_date: {
+        Args: {
+          _after: string
+          _day_of_month: number
+          _type: string
+          _weekdays: number[]
+        }
+        Returns: string
+      }
+      purge_deleted_item: {
+        Args: { _id: string; _table: string }
+        Returns: string[]
+      }
+      recompute_kpi_values: {
+        Args: { _kpi_id: string }
+        Returns: undefined
+      }
+      register_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent: string
+        }
+        Returns: undefined
+      }
+      restore_deleted_item: {
+        Args: { _id: string; _table: string }
+        Returns: undefined
+      }
+      review_action: {
+        Args: { _approved: boolean; _comment?: string; _id: string }
+        Returns: undefined
+      }
+      root_board_id: {
+        Args: { _board_id: string }
+        Returns: string
+      }
+      set_board_members: {
+        Args: { _board_id: string; _user_ids: string[] }
+        Returns: undefined
+      }
+      soft_delete_item: {
+        Args: { _id: string; _table: string }
+        Returns: undefined
+      }
+      trash_item_dependants: {
+        Args: { _id: string; _table: string }
+        Returns: {
+          kind: string
+          total: number
+        }[]
+      }
+      update_kpi_value: {
+        Args: {
+          _comment: string
+          _id: string
+          _reason: string
+          _recorded_at: string
+          _value: number
+          _week_number: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       action_priority: "low" | "medium" | "high" | "urgent"
-      action_status: "todo" | "in_progress" | "completed" | "overdue"
+      action_status:
+        | "todo"
+        | "in_progress"
+        | "pending_validation"
+        | "completed"
+        | "overdue"
       app_role: "admin" | "manager" | "team_leader" | "operator"
+      board_level: "site" | "area" | "line"
       chart_type:
         | "pareto"
         | "histogram"
@@ -639,8 +1866,15 @@ export const Constants = {
   public: {
     Enums: {
       action_priority: ["low", "medium", "high", "urgent"],
-      action_status: ["todo", "in_progress", "completed", "overdue"],
+      action_status: [
+        "todo",
+        "in_progress",
+        "pending_validation",
+        "completed",
+        "overdue",
+      ],
       app_role: ["admin", "manager", "team_leader", "operator"],
+      board_level: ["site", "area", "line"],
       chart_type: [
         "pareto",
         "histogram",
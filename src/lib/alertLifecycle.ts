@@ -0,0 +1,27 @@
+import { AlertStatus, SmartAlert } from '@/types/sfm';
+
+type LifecycleFields = Pick<SmartAlert, 'acknowledged_at' | 'snoozed_until' | 'resolved_at'>;
+
+// Resolution wins over snooze, and a snooze hides acknowledged alerts too
+export function getAlertStatus(alert: LifecycleFields, now = new Date()): AlertStatus {
+  if (alert.resolved_at) return 'resolved';
+  if (alert.snoozed_until && new Date(alert.snoozed_until) > now) return 'snoozed';
+  if (alert.acknowledged_at) return 'acknowledged';
+  return 'open';
+}
+
+// Average delay between creation and acknowledgement, null without acknowledged alerts
+export function meanTimeToAcknowledge(alerts: Pick<SmartAlert, 'created_at' | 'acknowledged_at'>[]): number | null {
+  const delays = alerts
+    .filter(a => a.acknowledged_at)
+    .map(a => new Date(a.acknowledged_at!).getTime() - new Date(a.created_at).getTime());
+  if (delays.length === 0) return null;
+  return delays.reduce((sum, d) => sum + d, 0) / delays.length;
+}
+
+export const SNOOZE_OPTIONS = [
+  { label: '1 heure', minutes: 60 },
+  { label: '4 heures', minutes: 240 },
+  { label: '24 heures', minutes: 24 * 60 },
+  { label: '1 semaine', minutes: 7 * 24 * 60 },
+];
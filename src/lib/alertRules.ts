@@ -0,0 +1,53 @@
+import { AlertRule, AlertRuleParams, AlertRuleType } from '@/types/sfm';
+
+// Rule types evaluated by the generate-alerts edge function
+export const ALERT_RULE_TYPES: Record<AlertRuleType, { label: string; target: 'kpi' | 'problem' | 'action'; defaultParams: AlertRuleParams }> = {
+  kpi_status: { label: 'Statut du KPI', target: 'kpi', defaultParams: { status: 'red' } },
+  kpi_threshold: { label: 'Seuil sur valeurs consécutives', target: 'kpi', defaultParams: { operator: 'lt', value: 0, consecutive: 3 } },
+  kpi_trend: { label: 'Tendance négative', target: 'kpi', defaultParams: {} },
+  kpi_spc: { label: 'Hors contrôle SPC', target: 'kpi', defaultParams: {} },
+  problem_severity: { label: 'Problèmes par gravité', target: 'problem', defaultParams: { severities: ['critical'] } },
+  open_problems: { label: 'Trop de problèmes ouverts', target: 'problem', defaultParams: { max_open: 5 } },
+  action_overdue: { label: 'Actions en retard', target: 'action', defaultParams: { priorities: [] } },
+  action_due_today: { label: 'Actions à échéance du jour', target: 'action', defaultParams: { priorities: ['urgent', 'high'] } },
+  action_stale: { label: 'Actions sans mise à jour', target: 'action', defaultParams: { days: 7 } },
+};
+
+export const OPERATOR_SYMBOLS: Record<NonNullable<AlertRuleParams['operator']>, string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+};
+
+const SEVERITY_LABELS: Record<string, string> = { critical: 'critique', high: 'haute', medium: 'moyenne', low: 'basse' };
+const PRIORITY_LABELS: Record<string, string> = { urgent: 'urgente', high: 'haute', medium: 'moyenne', low: 'basse' };
+
+// One line summary of the condition, e.g. "Valeur < 85 sur 3 valeurs consécutives"
+export function describeAlertRule(rule: Pick<AlertRule, 'rule_type' | 'params'>): string {
+  const { params } = rule;
+  switch (rule.rule_type) {
+    case 'kpi_status':
+      return params.status === 'orange' ? 'KPI en zone orange' : 'KPI en zone rouge';
+    case 'kpi_threshold':
+      return `Valeur ${OPERATOR_SYMBOLS[params.operator || 'lt']} ${params.value ?? 0} sur ${params.consecutive || 1} valeur(s) consécutive(s)`;
+    case 'kpi_trend':
+      return 'Tendance à la baisse hors zone verte';
+    case 'kpi_spc':
+      return 'Règle SPC enfreinte sur une carte de contrôle';
+    case 'problem_severity':
+      return `Problème non résolu de gravité ${(params.severities || []).map(s => SEVERITY_LABELS[s]).join(' ou ') || 'quelconque'}`;
+    case 'open_problems':
+      return `Plus de ${params.max_open ?? 0} problème(s) ouvert(s) dans une catégorie`;
+    case 'action_overdue':
+      return params.priorities?.length
+        ? `Action en retard, priorité ${params.priorities.map(p => PRIORITY_LABELS[p]).join(' ou ')}`
+        : 'Action en retard';
+    case 'action_due_today':
+      return params.priorities?.length
+        ? `Échéance aujourd'hui, priorité ${params.priorities.map(p => PRIORITY_LABELS[p]).join(' ou ')}`
+        : 'Échéance aujourd\'hui';
+    case 'action_stale':
+      return `Action ouverte sans mise à jour depuis ${params.days || 7} jour(s)`;
+  }
+}
@@ -0,0 +1,36 @@
+import { EscalationRule, Problem } from '@/types/sfm';
+
+export interface SlaStatus {
+  // Next step of the ladder, null once the top level is reached
+  nextRule: EscalationRule | null;
+  deadline: Date | null;
+  remainingMs: number | null;
+}
+
+// Where a problem stands against the escalation matrix of its severity
+export function getSlaStatus(
+  problem: Pick<Problem, 'severity' | 'created_at' | 'escalation_level'>,
+  rules: EscalationRule[],
+  now = new Date()
+): SlaStatus {
+  const nextRule = rules
+    .filter(r => r.severity === problem.severity && r.level > (problem.escalation_level || 0))
+    .sort((a, b) => a.level - b.level)[0] || null;
+
+  if (!nextRule) return { nextRule: null, deadline: null, remainingMs: null };
+
+  const deadline = new Date(new Date(problem.created_at).getTime() + nextRule.after_hours * 3600 * 1000);
+  return { nextRule, deadline, remainingMs: deadline.getTime() - now.getTime() };
+}
+
+// "2 j 4 h", "3 h 20 min" or "12 min"
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days} j ${hours} h`;
+  if (hours > 0) return `${hours} h ${minutes.toString().padStart(2, '0')} min`;
+  return `${minutes} min`;
+}
@@ -0,0 +1,94 @@
+import { format, getISOWeek, getISOWeekYear } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { KpiValue, KpiValueBreakdown } from '@/types/sfm';
+
+export interface ParetoPoint {
+  cause: string;
+  value: number;
+  cumulativePercent: number;
+}
+
+export interface BoxPlotPoint {
+  name: string;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  count: number;
+  range: [number, number];
+}
+
+export type BoxPlotGrouping = 'week' | 'month';
+
+// Causes sorted by total (descending) with the cumulative share of the total
+export function computePareto(breakdowns: KpiValueBreakdown[]): ParetoPoint[] {
+  const totals = new Map<string, number>();
+  for (const b of breakdowns) {
+    const cause = b.cause.trim();
+    totals.set(cause, (totals.get(cause) || 0) + Number(b.value));
+  }
+
+  const sorted = [...totals.entries()]
+    .map(([cause, value]) => ({ cause, value }))
+    .sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, p) => sum + p.value, 0);
+
+  let cumulative = 0;
+  return sorted.map(p => {
+    cumulative += p.value;
+    return {
+      ...p,
+      cumulativePercent: total > 0 ? Math.round((cumulative / total) * 1000) / 10 : 0,
+    };
+  });
+}
+
+// Linear interpolation between closest ranks, on a sorted array
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined
+    ? sorted[base] + rest * (sorted[base + 1] - sorted[base])
+    : sorted[base];
+}
+
+// Min, quartiles and max of the values, grouped by ISO week or by month
+export function computeBoxPlot(values: KpiValue[], grouping: BoxPlotGrouping): BoxPlotPoint[] {
+  const groups = new Map<string, { name: string; values: number[] }>();
+
+  const sorted = [...values].sort(
+    (a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
+  );
+
+  for (const v of sorted) {
+    const date = new Date(v.recorded_at);
+    const key = grouping === 'week'
+      ? `${getISOWeekYear(date)}-${getISOWeek(date)}`
+      : format(date, 'yyyy-MM');
+    const name = grouping === 'week'
+      ? `S${getISOWeek(date)}`
+      : format(date, 'MMM yy', { locale: fr });
+
+    const group = groups.get(key) || { name, values: [] };
+    group.values.push(Number(v.value));
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].map(({ name, values: groupValues }) => {
+    const s = [...groupValues].sort((a, b) => a - b);
+    const min = s[0];
+    const max = s[s.length - 1];
+    return {
+      name,
+      min,
+      q1: quantile(s, 0.25),
+      median: quantile(s, 0.5),
+      q3: quantile(s, 0.75),
+      max,
+      count: s.length,
+      range: [min, max],
+    };
+  });
+}
@@ -0,0 +1,120 @@
+import readXlsxFile from 'read-excel-file';
+import { format, isValid, parse, setISOWeek, startOfISOWeek } from 'date-fns';
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportColumnMapping {
+  kpi: number;
+  date: number;
+  week: number;
+  value: number;
+  comment: number;
+}
+
+export const NO_COLUMN = -1;
+
+// Header names recognised when guessing the column mapping
+const COLUMN_ALIASES: Record<keyof ImportColumnMapping, string[]> = {
+  kpi: ['kpi', 'indicateur', 'kpi_id'],
+  date: ['date', 'recorded_at', 'jour'],
+  week: ['semaine', 'week', 'week_number', 'sem'],
+  value: ['valeur', 'value', 'mesure'],
+  comment: ['commentaire', 'comment', 'remarque'],
+};
+
+// Split CSV text into rows, handling quoted fields and ; , or tab delimiters
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export async function readImportFile(file: File): Promise<ImportCell[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(file);
+    return rows as unknown as ImportCell[][];
+  }
+  return parseCsv(await file.text());
+}
+
+export function guessColumnMapping(headers: ImportCell[]): ImportColumnMapping {
+  const normalized = headers.map(h => String(h ?? '').trim().toLowerCase());
+  const find = (field: keyof ImportColumnMapping) =>
+    normalized.findIndex(h => COLUMN_ALIASES[field].includes(h));
+
+  return {
+    kpi: find('kpi'),
+    date: find('date'),
+    week: find('week'),
+    value: find('value'),
+    comment: find('comment'),
+  };
+}
+
+// Accepts numbers and French-formatted strings ("1 234,5")
+export function parseImportNumber(cell: ImportCell): number | null {
+  if (typeof cell === 'number') return cell;
+  if (typeof cell !== 'string' || cell.trim() === '') return null;
+  const parsed = Number(cell.replace(/\s/g, '').replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Accepts spreadsheet dates, yyyy-MM-dd and dd/MM/yyyy, returned as yyyy-MM-dd
+export function parseImportDate(cell: ImportCell): string | null {
+  if (cell instanceof Date) {
+    return isValid(cell) ? format(cell, 'yyyy-MM-dd') : null;
+  }
+  if (typeof cell !== 'string' || cell.trim() === '') return null;
+
+  for (const pattern of ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd/MM/yy']) {
+    const date = parse(cell.trim(), pattern, new Date());
+    // yyyy also accepts 2-digit years ("01/02/24" would be year 24), leave those to dd/MM/yy
+    if (isValid(date) && date.getFullYear() >= 1000) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+// Monday of the given ISO week of the given year (January 4th is always in week 1)
+export function weekToDate(week: number, year: number): string {
+  return format(startOfISOWeek(setISOWeek(new Date(year, 0, 4), week)), 'yyyy-MM-dd');
+}
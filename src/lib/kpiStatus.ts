@@ -0,0 +1,62 @@
+import { KpiStatus, KpiTrend } from '@/types/sfm';
+
+// Client-side preview only: kpi_values.status and trend are derived by the database
+// (public.compute_kpi_status / public.compute_kpi_trend), keep both in sync
+
+// Calculate status based on value, target, thresholds, and performance direction
+export function calculateStatus(
+  value: number,
+  target: number | null | undefined,
+  warningThreshold: number | null | undefined,
+  criticalThreshold: number | null | undefined,
+  direction: string | null | undefined
+): KpiStatus {
+  if (!target) return 'green';
+  
+  const isHigherBetter = direction !== 'lower_is_better';
+  
+  // Calculate difference from target
+  const diff = isHigherBetter ? target - value : value - target;
+  const percentDiff = Math.abs(diff / target) * 100;
+  
+  // Check against thresholds
+  if (criticalThreshold !== null && criticalThreshold !== undefined) {
+    if (diff > 0 && percentDiff >= criticalThreshold) {
+      return 'red';
+    }
+  }
+  
+  if (warningThreshold !== null && warningThreshold !== undefined) {
+    if (diff > 0 && percentDiff >= warningThreshold) {
+      return 'orange';
+    }
+  }
+  
+  // Simple comparison if no thresholds
+  if (isHigherBetter) {
+    if (value >= target) return 'green';
+    if (value >= target * 0.9) return 'orange';
+    return 'red';
+  } else {
+    if (value <= target) return 'green';
+    if (value <= target * 1.1) return 'orange';
+    return 'red';
+  }
+}
+
+// Calculate trend based on current and previous value ('up' means performance improved)
+export function calculateTrend(
+  currentValue: number,
+  previousValue: number | null | undefined,
+  direction: string | null | undefined
+): KpiTrend {
+  if (previousValue === null || previousValue === undefined) return 'stable';
+  
+  const diff = currentValue - previousValue;
+  const threshold = Math.abs(previousValue * 0.01); // 1% threshold for stability
+  
+  if (Math.abs(diff) <= threshold) return 'stable';
+  
+  const improvement = direction === 'lower_is_better' ? -diff : diff;
+  return improvement > 0 ? 'up' : 'down';
+}
@@ -0,0 +1,25 @@
+import { MeetingSegmentDraft, SfmCategory } from '@/types/sfm';
+
+// Split the meeting time evenly between the categories, in display order
+export function planMeetingSegments(
+  categories: Pick<SfmCategory, 'id' | 'name' | 'display_order'>[],
+  plannedMinutes: number
+): MeetingSegmentDraft[] {
+  const sorted = [...categories].sort((a, b) => a.display_order - b.display_order);
+  const perCategory = sorted.length > 0 ? Math.floor((plannedMinutes * 60) / sorted.length) : 0;
+  return sorted.map((category, index) => ({
+    category_id: category.id,
+    category_name: category.name,
+    position: index,
+    planned_seconds: perCategory,
+    spent_seconds: 0,
+    comment: null,
+  }));
+}
+
+// "4:05", or "-0:30" once over time
+export function formatClock(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(seconds));
+  return `${sign}${Math.floor(abs / 60)}:${(abs % 60).toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,86 @@
+import { QueuedMutation } from '@/types/sfm';
+
+// Minimal IndexedDB wrapper: one store for the persisted react-query cache,
+// one for the mutations typed while offline
+const DB_NAME = 'sfm-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'query_cache';
+const QUEUE_STORE = 'mutation_queue';
+const CACHE_KEY = 'client';
+
+// Persisted queries older than this are not restored, the QueryClient keeps them as long
+export const OFFLINE_CACHE_MAX_AGE = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export interface PersistedCache {
+  user_id: string;
+  saved_at: number;
+  buster: string;
+  state: unknown;
+}
+
+export function loadPersistedCache() {
+  return run<PersistedCache | undefined>(CACHE_STORE, 'readonly', store => store.get(CACHE_KEY));
+}
+
+export function savePersistedCache(cache: PersistedCache) {
+  return run<IDBValidKey>(CACHE_STORE, 'readwrite', store => store.put(cache, CACHE_KEY));
+}
+
+export function clearPersistedCache() {
+  return run<undefined>(CACHE_STORE, 'readwrite', store => store.delete(CACHE_KEY));
+}
+
+export async function getQueuedMutations(userId: string) {
+  const all = await run<QueuedMutation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return all
+    .filter(m => m.user_id === userId)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+export function putQueuedMutation(mutation: QueuedMutation) {
+  return run<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.put(mutation));
+}
+
+export function removeQueuedMutation(id: string) {
+  return run<undefined>(QUEUE_STORE, 'readwrite', store => store.delete(id));
+}
+
+// supabase-js does not throw on fetch failures, it returns them as
+// { message: 'TypeError: Failed to fetch' } (Chrome), 'NetworkError…' (Firefox)
+// or 'Load failed' (Safari)
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string } | null)?.message || '';
+  return /Failed to fetch|NetworkError|Load failed/i.test(message);
+}
@@ -2,7 +2,8 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format, startOfWeek, endOfWeek, startOfDay, endOfDay, subDays, getWeek } from 'date-fns';
 import { fr } from 'date-fns/locale';
-import { SfmCategory, Kpi, KpiValue, Action, Problem } from '@/types/sfm';
+import { SfmCategory, Kpi, KpiValue, Action, Problem, MeetingDetails } from '@/types/sfm';
+import { formatClock } from '@/lib/meeting';
 
 // Extend jsPDF type for autoTable
 declare module 'jspdf' {
@@ -395,6 +396,226 @@ export function generateSfmReport(data: ReportData): void {
   doc.save(filename);
 }
 
+// Minutes of an SFM meeting: attendance, time per category and decisions
+export function generateMeetingMinutes(meeting: MeetingDetails): void {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  let yPosition = margin;
+
+  const startedAt = new Date(meeting.started_at);
+  const endedAt = meeting.ended_at ? new Date(meeting.ended_at) : null;
+  const spentSeconds = endedAt ? (endedAt.getTime() - startedAt.getTime()) / 1000 : 0;
+
+  // Header
+  doc.setFillColor(30, 41, 59); // slate-800
+  doc.rect(0, 0, pageWidth, 40, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(22);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Compte rendu de réunion SFM', margin, 18);
+
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'normal');
+  doc.text(meeting.board?.name || '', margin, 28);
+
+  doc.setFontSize(10);
+  doc.text(format(startedAt, 'EEEE d MMMM yyyy', { locale: fr }), pageWidth - margin, 18, { align: 'right' });
+  doc.text(
+    `${format(startedAt, 'HH:mm')}${endedAt ? ` - ${format(endedAt, 'HH:mm')}` : ''}`,
+    pageWidth - margin,
+    28,
+    { align: 'right' }
+  );
+
+  doc.setFontSize(8);
+  doc.text(`Généré le ${format(new Date(), 'dd/MM/yyyy à HH:mm', { locale: fr })}`, pageWidth - margin, 36, { align: 'right' });
+
+  yPosition = 50;
+
+  // Summary boxes
+  const present = meeting.attendees.filter(a => a.present);
+  const absent = meeting.attendees.filter(a => !a.present);
+  const boxWidth = (pageWidth - 2 * margin - 15) / 4;
+  const boxHeight = 25;
+
+  drawStatBox(doc, margin, yPosition, boxWidth, boxHeight, 'Durée',
+    formatClock(spentSeconds), spentSeconds > meeting.planned_minutes * 60 ? `prévu ${meeting.planned_minutes} min` : null);
+  drawStatBox(doc, margin + boxWidth + 5, yPosition, boxWidth, boxHeight, 'Présents',
+    `${present.length}/${meeting.attendees.length}`, null);
+  drawStatBox(doc, margin + 2 * (boxWidth + 5), yPosition, boxWidth, boxHeight, 'Actions décidées',
+    meeting.actions.length.toString(), null);
+  drawStatBox(doc, margin + 3 * (boxWidth + 5), yPosition, boxWidth, boxHeight, 'Notes',
+    meeting.notes.length.toString(), null);
+
+  yPosition += boxHeight + 10;
+
+  // Attendance
+  doc.setTextColor(30, 41, 59);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Participants', margin, yPosition);
+  yPosition += 7;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const attendanceLines = [
+    `Animateur : ${meeting.facilitator?.full_name || '-'}`,
+    `Présents : ${present.map(a => a.profile?.full_name || 'Inconnu').join(', ') || '-'}`,
+    `Absents : ${absent.map(a => a.profile?.full_name || 'Inconnu').join(', ') || '-'}`,
+  ];
+  for (const line of attendanceLines) {
+    const wrapped = doc.splitTextToSize(line, pageWidth - 2 * margin);
+    doc.text(wrapped, margin, yPosition);
+    yPosition += wrapped.length * 5 + 1;
+  }
+  yPosition += 5;
+
+  // Agenda
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Déroulé', margin, yPosition);
+  yPosition += 4;
+
+  autoTable(doc, {
+    startY: yPosition,
+    head: [['Catégorie', 'Prévu', 'Réel', 'Commentaire']],
+    body: meeting.segments.map(segment => [
+      segment.category_name,
+      formatClock(segment.planned_seconds),
+      formatClock(segment.spent_seconds),
+      segment.comment || '',
+    ]),
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9, cellPadding: 3 },
+    headStyles: { fillColor: [71, 85, 105], textColor: [255, 255, 255] },
+    columnStyles: {
+      0: { cellWidth: 45 },
+      1: { cellWidth: 18, halign: 'center' },
+      2: { cellWidth: 18, halign: 'center' },
+    },
+    didParseCell: function(data) {
+      if (data.section === 'body' && data.column.index === 2) {
+        const segment = meeting.segments[data.row.index];
+        if (segment && segment.spent_seconds > segment.planned_seconds) {
+          data.cell.styles.textColor = [239, 68, 68];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    },
+  });
+  yPosition = doc.lastAutoTable.finalY + 10;
+
+  // Decisions: actions
+  if (yPosition > pageHeight - 60) {
+    doc.addPage();
+    yPosition = margin;
+  }
+
+  doc.setTextColor(30, 41, 59);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Actions décidées', margin, yPosition);
+  yPosition += 4;
+
+  if (meeting.actions.length > 0) {
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Action', 'Cat.', 'Responsable', 'Échéance', 'Priorité']],
+      body: meeting.actions.map(action => [
+        action.title,
+        action.category?.code || '-',
+        action.responsible?.full_name || '-',
+        format(new Date(action.due_date), 'dd/MM/yyyy'),
+        PRIORITY_LABELS[action.priority] || action.priority,
+      ]),
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [71, 85, 105], textColor: [255, 255, 255] },
+      columnStyles: {
+        0: { cellWidth: 70 },
+        1: { cellWidth: 15, halign: 'center' },
+        3: { cellWidth: 25 },
+        4: { cellWidth: 20 },
+      },
+    });
+    yPosition = doc.lastAutoTable.finalY + 10;
+  } else {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(100, 100, 100);
+    doc.text('Aucune action décidée', margin, yPosition + 5);
+    yPosition += 15;
+  }
+
+  // Decisions: notes
+  if (yPosition > pageHeight - 60) {
+    doc.addPage();
+    yPosition = margin;
+  }
+
+  doc.setTextColor(30, 41, 59);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Notes', margin, yPosition);
+  yPosition += 4;
+
+  if (meeting.notes.length > 0) {
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Cat.', 'Note']],
+      body: meeting.notes.map(note => [
+        note.category?.code || '-',
+        note.title ? `${note.title} : ${note.content}` : note.content,
+      ]),
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [71, 85, 105], textColor: [255, 255, 255] },
+      columnStyles: {
+        0: { cellWidth: 15, halign: 'center' },
+      },
+    });
+    yPosition = doc.lastAutoTable.finalY + 10;
+  } else {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(100, 100, 100);
+    doc.text('Aucune note', margin, yPosition + 5);
+    yPosition += 15;
+  }
+
+  // Closing summary
+  if (meeting.summary) {
+    const wrapped = doc.splitTextToSize(meeting.summary, pageWidth - 2 * margin);
+    if (yPosition + wrapped.length * 5 > pageHeight - 30) {
+      doc.addPage();
+      yPosition = margin;
+    }
+    doc.setTextColor(30, 41, 59);
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Synthèse', margin, yPosition);
+    yPosition += 7;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(wrapped, margin, yPosition);
+  }
+
+  // Footer on each page
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150, 150, 150);
+    doc.text(`Page ${i} / ${totalPages}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+    doc.text('SFM Digital - Compte rendu de réunion', margin, pageHeight - 10);
+  }
+
+  doc.save(`Compte_rendu_SFM_${format(startedAt, 'yyyy-MM-dd_HH-mm')}.pdf`);
+}
+
 // Helper functions
 function getPeriodInfo(date: Date, type: 'daily' | 'weekly' | 'custom', dateRange?: { from: Date; to: Date }) {
   if (type === 'daily') {
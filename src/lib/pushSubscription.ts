@@ -0,0 +1,19 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Stops server push to this browser: drops its push_subscriptions row, which needs
+// the session still open, then the subscription itself
+export async function removeDevicePushSubscription() {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) return;
+
+  try {
+    // getRegistration, unlike ready, does not wait forever when no worker was registered
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+    if (subscription) {
+      await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+      await subscription.unsubscribe();
+    }
+  } catch (error) {
+    console.error('Error unsubscribing from push:', error);
+  }
+}
@@ -0,0 +1,13 @@
+import { IshikawaBranch } from '@/types/sfm';
+
+// The 6M branches of the Ishikawa (fishbone) diagram
+export const ISHIKAWA_BRANCHES: { value: IshikawaBranch; label: string }[] = [
+  { value: 'method', label: 'Méthode' },
+  { value: 'machine', label: 'Machine' },
+  { value: 'manpower', label: "Main-d'œuvre" },
+  { value: 'material', label: 'Matière' },
+  { value: 'measurement', label: 'Mesure' },
+  { value: 'environment', label: 'Milieu' },
+];
+
+export const MAX_WHYS = 5;
@@ -0,0 +1,36 @@
+import { ActionTemplate, RecurrenceType } from '@/types/sfm';
+
+export const RECURRENCE_TYPES: { value: RecurrenceType; label: string }[] = [
+  { value: 'daily', label: 'Quotidienne' },
+  { value: 'weekly', label: 'Hebdomadaire' },
+  { value: 'monthly', label: 'Mensuelle' },
+];
+
+// ISO weekdays, 1 = Monday ... 7 = Sunday
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'Lun' },
+  { value: 2, label: 'Mar' },
+  { value: 3, label: 'Mer' },
+  { value: 4, label: 'Jeu' },
+  { value: 5, label: 'Ven' },
+  { value: 6, label: 'Sam' },
+  { value: 7, label: 'Dim' },
+];
+
+type RecurrenceRule = Pick<ActionTemplate, 'recurrence_type' | 'recurrence_weekdays' | 'recurrence_day_of_month'>;
+
+// Human readable recurrence rule, e.g. "Chaque semaine (Lun, Jeu)"
+export function formatRecurrence(rule: RecurrenceRule): string | null {
+  switch (rule.recurrence_type) {
+    case 'daily':
+      return 'Chaque jour';
+    case 'weekly': {
+      const days = WEEKDAYS.filter(d => rule.recurrence_weekdays?.includes(d.value)).map(d => d.label);
+      return days.length > 0 ? `Chaque semaine (${days.join(', ')})` : 'Chaque semaine';
+    }
+    case 'monthly':
+      return `Chaque mois le ${rule.recurrence_day_of_month || 1}`;
+    default:
+      return null;
+  }
+}
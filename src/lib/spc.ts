@@ -0,0 +1,101 @@
+// Statistical process control (SPC) for control_chart KPIs
+
+export type SpcRule =
+  | 'beyond_3_sigma'
+  | 'two_of_three_beyond_2_sigma'
+  | 'four_of_five_beyond_1_sigma'
+  | 'eight_same_side'
+  | 'six_trending';
+
+export interface SpcLimits {
+  mean: number;
+  sigma: number;
+  ucl: number;
+  lcl: number;
+}
+
+export interface SpcViolation {
+  index: number;
+  rules: SpcRule[];
+}
+
+export const SPC_RULE_LABELS: Record<SpcRule, string> = {
+  beyond_3_sigma: '1 point au-delà de ±3σ',
+  two_of_three_beyond_2_sigma: '2 points sur 3 au-delà de 2σ (même côté)',
+  four_of_five_beyond_1_sigma: '4 points sur 5 au-delà de 1σ (même côté)',
+  eight_same_side: '8 points consécutifs du même côté de la moyenne',
+  six_trending: '6 points consécutifs en hausse ou en baisse',
+};
+
+export const DEFAULT_SPC_BASELINE_SIZE = 20;
+
+// Mean and ±3σ limits from the baseline window (sample standard deviation)
+export function computeSpcLimits(baseline: number[]): SpcLimits | null {
+  if (baseline.length < 2) return null;
+
+  const mean = baseline.reduce((sum, v) => sum + v, 0) / baseline.length;
+  const variance = baseline.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (baseline.length - 1);
+  const sigma = Math.sqrt(variance);
+
+  return {
+    mean,
+    sigma,
+    ucl: mean + 3 * sigma,
+    lcl: mean - 3 * sigma,
+  };
+}
+
+// Western Electric / Nelson rules, evaluated for every point of the series
+export function detectSpcViolations(values: number[], limits: SpcLimits): SpcViolation[] {
+  const { mean, sigma } = limits;
+  const violations: SpcViolation[] = [];
+  if (sigma === 0) return violations;
+
+  const zone = (v: number) => (v - mean) / sigma;
+  const side = (v: number) => Math.sign(v - mean);
+
+  for (let i = 0; i < values.length; i++) {
+    const rules: SpcRule[] = [];
+    const z = zone(values[i]);
+
+    // Rule 1: one point beyond 3σ
+    if (Math.abs(z) > 3) {
+      rules.push('beyond_3_sigma');
+    }
+
+    // Rule 2: 2 of 3 consecutive points beyond 2σ on the same side
+    if (i >= 2 && Math.abs(z) > 2) {
+      const window = values.slice(i - 2, i + 1);
+      const sameSide = window.filter(v => side(v) === side(values[i]) && Math.abs(zone(v)) > 2);
+      if (sameSide.length >= 2) rules.push('two_of_three_beyond_2_sigma');
+    }
+
+    // Rule 3: 4 of 5 consecutive points beyond 1σ on the same side
+    if (i >= 4 && Math.abs(z) > 1) {
+      const window = values.slice(i - 4, i + 1);
+      const sameSide = window.filter(v => side(v) === side(values[i]) && Math.abs(zone(v)) > 1);
+      if (sameSide.length >= 4) rules.push('four_of_five_beyond_1_sigma');
+    }
+
+    // Rule 4: 8 consecutive points on the same side of the mean
+    if (i >= 7) {
+      const window = values.slice(i - 7, i + 1);
+      const s = side(values[i]);
+      if (s !== 0 && window.every(v => side(v) === s)) rules.push('eight_same_side');
+    }
+
+    // Nelson rule 3: 6 consecutive points steadily increasing or decreasing
+    if (i >= 5) {
+      const window = values.slice(i - 5, i + 1);
+      const increasing = window.every((v, k) => k === 0 || v > window[k - 1]);
+      const decreasing = window.every((v, k) => k === 0 || v < window[k - 1]);
+      if (increasing || decreasing) rules.push('six_trending');
+    }
+
+    if (rules.length > 0) {
+      violations.push({ index: i, rules });
+    }
+  }
+
+  return violations;
+}
@@ -8,3 +8,13 @@ createRoot(document.getElementById("root")!).render(
     <App />
   </StrictMode>
 );
+
+// The service worker caches the app shell so that tablets can reload the board without network.
+// Not in development, where it would serve stale modules.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service Worker registration failed:', error);
+    });
+  });
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useActions, useCategories, useUpdateAction, useDeleteAction, useOverdueActions } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -10,6 +11,9 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CreateActionDialog } from '@/components/dashboard/CreateActionDialog';
+import { ActionTemplatesDialog } from '@/components/dashboard/ActionTemplatesDialog';
+import { ReviewActionDialog } from '@/components/dashboard/ReviewActionDialog';
+import { formatRecurrence } from '@/lib/recurrence';
 import { 
   CheckSquare, 
   Clock, 
@@ -18,15 +22,22 @@ import {
   AlertTriangle,
   Plus,
   Calendar,
-  Trash2
+  Trash2,
+  Repeat,
+  LayoutTemplate,
+  Hourglass,
+  ShieldCheck,
+  MessageSquareWarning
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { toast } from 'sonner';
+import { Action, ActionStatus } from '@/types/sfm';
 
 const statusConfig = {
   todo: { label: 'À faire', class: 'bg-muted text-muted-foreground', icon: Clock },
   in_progress: { label: 'En cours', class: 'bg-primary/10 text-primary', icon: Play },
+  pending_validation: { label: 'À valider', class: 'bg-[hsl(var(--status-orange))]/10 text-[hsl(var(--status-orange))]', icon: Hourglass },
   completed: { label: 'Terminé', class: 'bg-[hsl(var(--status-green))]/10 text-[hsl(var(--status-green))]', icon: CheckCircle2 },
   overdue: { label: 'En retard', class: 'bg-destructive/10 text-destructive', icon: AlertTriangle },
 };
@@ -48,20 +59,25 @@ const sortByPriority = (actions: any[]) => {
 };
 
 export default function ActionsPage() {
-  const [activeTab, setActiveTab] = useState<'todo' | 'in_progress' | 'completed' | 'overdue'>('todo');
+  const [activeTab, setActiveTab] = useState<ActionStatus>('todo');
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [templatesDialogOpen, setTemplatesDialogOpen] = useState(false);
+  const [reviewingAction, setReviewingAction] = useState<Action | null>(null);
   
-  const { data: todoActions, isLoading: todoLoading } = useActions(undefined, 'todo');
-  const { data: inProgressActions, isLoading: progressLoading } = useActions(undefined, 'in_progress');
-  const { data: completedActions, isLoading: completedLoading } = useActions(undefined, 'completed');
-  const { data: overdueActions, isLoading: overdueLoading } = useOverdueActions();
-  const { data: categories } = useCategories();
+  const { boardIds } = useBoard();
+  const { data: todoActions, isLoading: todoLoading } = useActions(undefined, 'todo', boardIds);
+  const { data: inProgressActions, isLoading: progressLoading } = useActions(undefined, 'in_progress', boardIds);
+  const { data: pendingActions, isLoading: pendingLoading } = useActions(undefined, 'pending_validation', boardIds);
+  const { data: completedActions, isLoading: completedLoading } = useActions(undefined, 'completed', boardIds);
+  const { data: overdueActions, isLoading: overdueLoading } = useOverdueActions(boardIds);
+  const { data: categories } = useCategories(boardIds);
   const { hasPermission, role } = useAuth();
   
   const updateAction = useUpdateAction();
   const deleteAction = useDeleteAction();
 
   const canManage = hasPermission(['admin', 'manager', 'team_leader']);
+  const canValidate = hasPermission(['admin', 'manager']);
 
   const handleUpdateStatus = async (actionId: string, status: string) => {
     try {
@@ -73,10 +89,10 @@ export default function ActionsPage() {
   };
 
   const handleDelete = async (actionId: string) => {
-    if (!confirm('Êtes-vous sûr de vouloir supprimer cette action ?')) return;
+    if (!confirm('Déplacer cette action dans la corbeille ?')) return;
     try {
       await deleteAction.mutateAsync(actionId);
-      toast.success('Action supprimée');
+      toast.success('Action déplacée dans la corbeille');
     } catch (error) {
       toast.error('Erreur lors de la suppression');
     }
@@ -90,6 +106,7 @@ export default function ActionsPage() {
     const status = statusConfig[action.status as keyof typeof statusConfig] || statusConfig.todo;
     const priority = priorityConfig[action.priority as keyof typeof priorityConfig] || priorityConfig.medium;
     const StatusIcon = status.icon;
+    const recurrence = action.template ? formatRecurrence(action.template) : null;
 
     return (
       <div
@@ -119,12 +136,44 @@ export default function ActionsPage() {
                 <Calendar className="h-3 w-3" />
                 Échéance: {format(new Date(action.due_date), 'dd MMM yyyy', { locale: fr })}
               </span>
+              {recurrence && (
+                <span className="flex items-center gap-1">
+                  <Repeat className="h-3 w-3" />
+                  {recurrence}
+                </span>
+              )}
+              {action.status === 'pending_validation' && action.completed_at && (
+                <span className="flex items-center gap-1">
+                  <Hourglass className="h-3 w-3" />
+                  Terminée le {format(new Date(action.completed_at), 'dd MMM yyyy', { locale: fr })}
+                </span>
+              )}
             </div>
+            {action.validation_comment && (action.status === 'todo' || action.status === 'in_progress') && (
+              <p className="flex items-start gap-1 mt-2 text-xs text-destructive">
+                <MessageSquareWarning className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                Rejetée : {action.validation_comment}
+              </p>
+            )}
           </div>
           
           {canManage && (
             <TooltipProvider>
               <div className="flex flex-col gap-2">
+                {action.status === 'pending_validation' && canValidate && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setReviewingAction(action)}
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Valider ou rejeter</TooltipContent>
+                  </Tooltip>
+                )}
                 {action.status === 'todo' && (
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -174,7 +223,7 @@ export default function ActionsPage() {
     );
   };
 
-  const isLoading = todoLoading || progressLoading || completedLoading || overdueLoading;
+  const isLoading = todoLoading || progressLoading || pendingLoading || completedLoading || overdueLoading;
 
   if (isLoading) {
     return (
@@ -245,10 +294,16 @@ export default function ActionsPage() {
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-semibold">Liste des actions</h2>
         {canManage && (
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Nouvelle action
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setTemplatesDialogOpen(true)}>
+              <LayoutTemplate className="h-4 w-4 mr-2" />
+              Modèles
+            </Button>
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nouvelle action
+            </Button>
+          </div>
         )}
       </div>
 
@@ -269,6 +324,10 @@ export default function ActionsPage() {
                 <Play className="h-4 w-4" />
                 En cours ({inProgressActions?.length || 0})
               </TabsTrigger>
+              <TabsTrigger value="pending_validation" className="rounded-none border-b-2 border-transparent data-[state=active]:border-[hsl(var(--status-orange))] gap-2">
+                <Hourglass className="h-4 w-4" />
+                À valider ({pendingActions?.length || 0})
+              </TabsTrigger>
               <TabsTrigger value="completed" className="rounded-none border-b-2 border-transparent data-[state=active]:border-[hsl(var(--status-green))] text-[hsl(var(--status-green))] gap-2">
                 <CheckCircle2 className="h-4 w-4" />
                 Terminées ({completedActions?.length || 0})
@@ -311,6 +370,20 @@ export default function ActionsPage() {
               </div>
             </TabsContent>
 
+            <TabsContent value="pending_validation" className="m-0 p-4">
+              <div className="space-y-3">
+                {pendingActions && pendingActions.length > 0 ? (
+                  [...pendingActions]
+                    .sort((a, b) => (a.completed_at || '').localeCompare(b.completed_at || ''))
+                    .map(renderActionCard)
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Aucune action en attente de validation
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+
             <TabsContent value="completed" className="m-0 p-4">
               <div className="space-y-3">
                 {completedActions && completedActions.length > 0 ? (
@@ -330,6 +403,17 @@ export default function ActionsPage() {
         open={dialogOpen}
         onOpenChange={setDialogOpen}
       />
+
+      <ActionTemplatesDialog
+        open={templatesDialogOpen}
+        onOpenChange={setTemplatesDialogOpen}
+      />
+
+      <ReviewActionDialog
+        open={!!reviewingAction}
+        onOpenChange={(open) => !open && setReviewingAction(null)}
+        action={reviewingAction}
+      />
     </AppLayout>
   );
 }
\ No newline at end of file
@@ -12,6 +12,10 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { CategoryDialog } from '@/components/admin/CategoryDialog';
 import { KpiDialog } from '@/components/admin/KpiDialog';
 import { DeleteConfirmDialog } from '@/components/admin/DeleteConfirmDialog';
+import { EscalationRulesTab } from '@/components/admin/EscalationRulesTab';
+import { AlertRulesTab } from '@/components/admin/AlertRulesTab';
+import { TrashTab } from '@/components/admin/TrashTab';
+import { DisplayTokensTab } from '@/components/admin/DisplayTokensTab';
 import { 
   Plus, 
   Pencil, 
@@ -25,7 +29,10 @@ import {
   TrendingUp,
   Users,
   Settings,
-  AlertTriangle
+  AlertTriangle,
+  ArrowUpCircle,
+  BellRing,
+  Monitor
 } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import { SfmCategory, Kpi } from '@/types/sfm';
@@ -58,6 +65,7 @@ export default function AdminPage() {
       const { data, error } = await supabase
         .from('sfm_categories')
         .select('*')
+        .is('deleted_at', null)
         .order('display_order');
       if (error) throw error;
       return data as SfmCategory[];
@@ -70,6 +78,7 @@ export default function AdminPage() {
       const { data, error } = await supabase
         .from('kpis')
         .select('*, category:sfm_categories(name, color)')
+        .is('deleted_at', null)
         .order('name');
       if (error) throw error;
       return data;
@@ -111,7 +120,7 @@ export default function AdminPage() {
   };
 
   return (
-    <AppLayout title="Administration" subtitle="Gestion des catégories et KPIs">
+    <AppLayout title="Administration" subtitle="Gestion des catégories, KPIs, escalades, alertes et écrans">
       <Tabs defaultValue="categories" className="space-y-6">
         <TabsList className="bg-muted/50">
           <TabsTrigger value="categories" className="gap-2">
@@ -122,6 +131,22 @@ export default function AdminPage() {
             <BarChart3 className="h-4 w-4" />
             KPIs
           </TabsTrigger>
+          <TabsTrigger value="escalation" className="gap-2">
+            <ArrowUpCircle className="h-4 w-4" />
+            Escalade
+          </TabsTrigger>
+          <TabsTrigger value="alert-rules" className="gap-2">
+            <BellRing className="h-4 w-4" />
+            Règles d'alerte
+          </TabsTrigger>
+          <TabsTrigger value="displays" className="gap-2">
+            <Monitor className="h-4 w-4" />
+            Affichage TV
+          </TabsTrigger>
+          <TabsTrigger value="trash" className="gap-2">
+            <Trash2 className="h-4 w-4" />
+            Corbeille
+          </TabsTrigger>
         </TabsList>
 
         {/* Categories Tab */}
@@ -292,6 +317,26 @@ export default function AdminPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Escalation Tab */}
+        <TabsContent value="escalation">
+          <EscalationRulesTab />
+        </TabsContent>
+
+        {/* Alert Rules Tab */}
+        <TabsContent value="alert-rules">
+          <AlertRulesTab />
+        </TabsContent>
+
+        {/* Kiosk Displays Tab */}
+        <TabsContent value="displays">
+          <DisplayTokensTab />
+        </TabsContent>
+
+        {/* Trash Tab */}
+        <TabsContent value="trash">
+          <TrashTab />
+        </TabsContent>
       </Tabs>
 
       {/* Dialogs */}
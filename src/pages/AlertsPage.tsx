@@ -1,7 +1,17 @@
 import { useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { useAllAlerts, useMarkAlertRead, useGenerateAlerts, useDeleteAlert } from '@/hooks/useSfmData';
+import {
+  useAllAlerts,
+  useGenerateAlerts,
+  useDeleteAlert,
+  useAcknowledgeAlert,
+  useAssignAlert,
+  useSnoozeAlert,
+  useResolveAlert,
+  useAlertMtta,
+  useProfiles,
+} from '@/hooks/useSfmData';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -9,6 +19,16 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getAlertStatus, SNOOZE_OPTIONS } from '@/lib/alertLifecycle';
+import { formatDuration } from '@/lib/escalation';
+import { AlertStatus, SmartAlert } from '@/types/sfm';
 
 import { 
   Bell, 
@@ -22,8 +42,19 @@ import {
   TrendingDown,
   Target,
   ClipboardList,
-  Eye,
-  EyeOff
+  BellOff,
+  BellRing,
+  Hand,
+  Timer,
+  UserPlus,
+  Activity,
+  ThumbsUp,
+  ThumbsDown,
+  ArrowUpCircle,
+  AtSign,
+  Gauge,
+  Hourglass,
+  Layers
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -64,24 +95,47 @@ const typeIcons: Record<string, React.ElementType> = {
   kpi_critical: Target,
   kpi_warning: Target,
   kpi_trend: TrendingDown,
+  kpi_threshold: Gauge,
+  kpi_spc_violation: Activity,
   action_overdue: Clock,
   action_urgent: ClipboardList,
+  action_stale: Hourglass,
+  action_validated: ThumbsUp,
+  action_rejected: ThumbsDown,
   problem_critical: AlertTriangle,
   problem_unresolved: AlertCircle,
+  problem_escalated: ArrowUpCircle,
+  problem_backlog: Layers,
+  comment_mention: AtSign,
 };
 
 const typeLabels: Record<string, string> = {
   kpi_critical: 'KPI Critique',
   kpi_warning: 'KPI Alerte',
   kpi_trend: 'Tendance KPI',
+  kpi_threshold: 'Seuil KPI',
+  kpi_spc_violation: 'Hors contrôle SPC',
   action_overdue: 'Action en retard',
   action_urgent: 'Action urgente',
+  action_stale: 'Action sans suivi',
+  action_validated: 'Action validée',
+  action_rejected: 'Action rejetée',
   problem_critical: 'Problème critique',
   problem_unresolved: 'Problème non résolu',
+  problem_escalated: 'Problème escaladé',
+  problem_backlog: 'Problèmes en attente',
+  comment_mention: 'Mention',
 };
 
+const statusTabs: { value: AlertStatus; label: string; icon: React.ElementType; empty: string; emptyHint: string }[] = [
+  { value: 'open', label: 'Ouvertes', icon: BellRing, empty: 'Aucune alerte ouverte', emptyHint: 'Tout fonctionne normalement' },
+  { value: 'acknowledged', label: 'Prises en charge', icon: Hand, empty: 'Aucune alerte prise en charge', emptyHint: 'Les alertes prises en charge apparaîtront ici' },
+  { value: 'snoozed', label: 'En pause', icon: BellOff, empty: 'Aucune alerte en pause', emptyHint: 'Les alertes mises en pause réapparaissent à la fin du délai' },
+  { value: 'resolved', label: 'Résolues', icon: CheckCircle2, empty: 'Aucune alerte résolue', emptyHint: 'Les alertes résolues des 30 derniers jours apparaîtront ici' },
+];
+
 // Sort by severity (critical first), then by date
-const sortAlerts = (alerts: any[]) => {
+const sortAlerts = (alerts: SmartAlert[]) => {
   return [...alerts].sort((a, b) => {
     const orderA = severityConfig[a.severity]?.order ?? 99;
     const orderB = severityConfig[b.severity]?.order ?? 99;
@@ -92,30 +146,67 @@ const sortAlerts = (alerts: any[]) => {
 
 export default function AlertsPage() {
   const { data: alerts, isLoading } = useAllAlerts();
-  const { hasPermission, role } = useAuth();
-  const markRead = useMarkAlertRead();
+  const { data: mtta } = useAlertMtta(30);
+  const { data: profiles } = useProfiles();
+  const { user, hasPermission, role } = useAuth();
   const generateAlerts = useGenerateAlerts();
   const deleteAlert = useDeleteAlert();
+  const acknowledgeAlert = useAcknowledgeAlert();
+  const assignAlert = useAssignAlert();
+  const snoozeAlert = useSnoozeAlert();
+  const resolveAlert = useResolveAlert();
 
-  const [activeTab, setActiveTab] = useState('unread');
+  const [activeTab, setActiveTab] = useState<AlertStatus>('open');
 
   // Admin ne doit pas accéder aux alertes
   if (role === 'admin') {
     return <Navigate to="/users" replace />;
   }
 
-  const unreadAlerts = alerts?.filter(a => !a.is_read) || [];
-  const readAlerts = alerts?.filter(a => a.is_read) || [];
-  
-  const criticalCount = unreadAlerts.filter(a => a.severity === 'critical').length;
-  const highCount = unreadAlerts.filter(a => a.severity === 'high').length;
+  const now = new Date();
+  const alertsByStatus = (status: AlertStatus) => (alerts || []).filter(a => getAlertStatus(a, now) === status);
+  const openAlerts = alertsByStatus('open');
+  const pendingAlerts = [...openAlerts, ...alertsByStatus('acknowledged')];
+
+  const criticalCount = pendingAlerts.filter(a => a.severity === 'critical').length;
+  const highCount = pendingAlerts.filter(a => a.severity === 'high').length;
+
+  const canAssign = hasPermission('team_leader');
+  const canHandle = (alert: SmartAlert) => canAssign || alert.assigned_to === user?.id || alert.recipient_id === user?.id;
+
+  const handleAcknowledge = async (alertId: string) => {
+    if (!user) return;
+    try {
+      await acknowledgeAlert.mutateAsync({ id: alertId, userId: user.id });
+      toast.success('Alerte prise en charge');
+    } catch (error) {
+      toast.error('Erreur lors de la mise à jour');
+    }
+  };
+
+  const handleAssign = async (alertId: string, assignedTo: string) => {
+    try {
+      await assignAlert.mutateAsync({ id: alertId, assignedTo: assignedTo === 'none' ? null : assignedTo });
+      toast.success(assignedTo === 'none' ? 'Assignation retirée' : 'Alerte assignée');
+    } catch (error) {
+      toast.error('Erreur lors de l\'assignation');
+    }
+  };
 
-  const displayAlerts = activeTab === 'unread' ? sortAlerts(unreadAlerts) : sortAlerts(readAlerts);
+  const handleSnooze = async (alertId: string, minutes: number | null) => {
+    try {
+      await snoozeAlert.mutateAsync({ id: alertId, until: minutes ? new Date(Date.now() + minutes * 60 * 1000) : null });
+      toast.success(minutes ? 'Alerte mise en pause' : 'Alerte réactivée');
+    } catch (error) {
+      toast.error('Erreur lors de la mise à jour');
+    }
+  };
 
-  const handleMarkRead = async (alertId: string) => {
+  const handleResolve = async (alertId: string) => {
+    if (!user) return;
     try {
-      await markRead.mutateAsync(alertId);
-      toast.success('Alerte marquée comme lue');
+      await resolveAlert.mutateAsync({ id: alertId, userId: user.id });
+      toast.success('Alerte résolue');
     } catch (error) {
       toast.error('Erreur lors de la mise à jour');
     }
@@ -133,7 +224,7 @@ export default function AlertsPage() {
   const handleRefresh = async () => {
     try {
       const result = await generateAlerts.mutateAsync();
-      toast.success(`Alertes actualisées: ${result.newAlertsCreated} nouvelles alertes`);
+      toast.success(`Alertes actualisées: ${result.newAlertsCreated} nouvelles alertes, ${result.autoResolved ?? 0} résolues automatiquement`);
     } catch (error) {
       toast.error('Erreur lors de la génération des alertes');
     }
@@ -182,11 +273,11 @@ export default function AlertsPage() {
         <Card className="border-primary/30 bg-primary/5">
           <CardContent className="p-4 flex items-center gap-4">
             <div className="p-3 rounded-xl bg-primary/10 text-primary">
-              <EyeOff className="h-6 w-6" />
+              <BellRing className="h-6 w-6" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Non lues</p>
-              <p className="text-2xl font-bold text-primary">{unreadAlerts.length}</p>
+              <p className="text-sm text-muted-foreground">Non prises en charge</p>
+              <p className="text-2xl font-bold text-primary">{openAlerts.length}</p>
             </div>
           </CardContent>
         </Card>
@@ -194,11 +285,16 @@ export default function AlertsPage() {
         <Card className="border-border bg-muted/20">
           <CardContent className="p-4 flex items-center gap-4">
             <div className="p-3 rounded-xl bg-muted text-muted-foreground">
-              <Eye className="h-6 w-6" />
+              <Timer className="h-6 w-6" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Lues</p>
-              <p className="text-2xl font-bold text-muted-foreground">{readAlerts.length}</p>
+              <p className="text-sm text-muted-foreground">Délai moyen de prise en charge</p>
+              <p className="text-2xl font-bold text-foreground font-mono-data">
+                {mtta?.mtta != null ? formatDuration(mtta.mtta) : '—'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {mtta?.count ? `${mtta.count} alerte(s) sur 30 jours` : 'Aucune prise en charge sur 30 jours'}
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -225,42 +321,34 @@ export default function AlertsPage() {
           )}
         </CardHeader>
         <CardContent>
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="mb-4">
-              <TabsTrigger value="unread" className="gap-2">
-                <EyeOff className="h-4 w-4" />
-                Non lues ({unreadAlerts.length})
-              </TabsTrigger>
-              <TabsTrigger value="read" className="gap-2">
-                <Eye className="h-4 w-4" />
-                Historique ({readAlerts.length})
-              </TabsTrigger>
+          <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as AlertStatus)} className="w-full">
+            <TabsList className="mb-4 flex-wrap h-auto">
+              {statusTabs.map(tab => (
+                <TabsTrigger key={tab.value} value={tab.value} className="gap-2">
+                  <tab.icon className="h-4 w-4" />
+                  {tab.label} ({alertsByStatus(tab.value).length})
+                </TabsTrigger>
+              ))}
             </TabsList>
 
-            <TabsContent value="unread" className="mt-0">
-              {renderAlertsList(displayAlerts, true)}
-            </TabsContent>
-
-            <TabsContent value="read" className="mt-0">
-              {renderAlertsList(displayAlerts, false)}
-            </TabsContent>
+            {statusTabs.map(tab => (
+              <TabsContent key={tab.value} value={tab.value} className="mt-0">
+                {renderAlertsList(sortAlerts(alertsByStatus(tab.value)), tab)}
+              </TabsContent>
+            ))}
           </Tabs>
         </CardContent>
       </Card>
     </AppLayout>
   );
 
-  function renderAlertsList(alertsList: any[], showMarkRead: boolean) {
+  function renderAlertsList(alertsList: SmartAlert[], tab: typeof statusTabs[number]) {
     if (alertsList.length === 0) {
       return (
         <div className="text-center py-12">
           <CheckCircle2 className="h-12 w-12 text-[hsl(var(--status-green))] mx-auto mb-4" />
-          <h3 className="text-lg font-semibold text-foreground">
-            {showMarkRead ? 'Aucune alerte non lue' : 'Aucun historique'}
-          </h3>
-          <p className="text-sm text-muted-foreground">
-            {showMarkRead ? 'Tout fonctionne normalement' : 'Les anciennes alertes apparaîtront ici'}
-          </p>
+          <h3 className="text-lg font-semibold text-foreground">{tab.empty}</h3>
+          <p className="text-sm text-muted-foreground">{tab.emptyHint}</p>
         </div>
       );
     }
@@ -271,12 +359,14 @@ export default function AlertsPage() {
           const config = severityConfig[alert.severity] || severityConfig.low;
           const SeverityIcon = config.icon;
           const TypeIcon = typeIcons[alert.type] || Bell;
+          const status = getAlertStatus(alert, now);
+          const isResolved = status === 'resolved';
 
           return (
             <div
               key={alert.id}
               className={`p-4 rounded-lg border transition-all hover:shadow-md ${
-                alert.is_read ? 'border-border/30 bg-muted/20 opacity-70' : config.bgClass
+                isResolved || status === 'snoozed' ? 'border-border/30 bg-muted/20 opacity-70' : config.bgClass
               }`}
             >
               <div className="flex items-start justify-between gap-4">
@@ -308,33 +398,129 @@ export default function AlertsPage() {
                     <h3 className="font-semibold text-foreground mb-1">{alert.title}</h3>
                   )}
                   <p className="text-sm text-muted-foreground">{alert.message}</p>
-                  <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-x-4 gap-y-1 mt-3 text-xs text-muted-foreground flex-wrap">
                     <span className="flex items-center gap-1">
                       <Clock className="h-3 w-3" />
                       {format(new Date(alert.created_at), 'dd MMM yyyy HH:mm', { locale: fr })}
                     </span>
+                    {alert.acknowledged_at && (
+                      <span className="flex items-center gap-1">
+                        <Hand className="h-3 w-3" />
+                        Prise en charge{alert.acknowledger ? ` par ${alert.acknowledger.full_name}` : ''} en {formatDuration(new Date(alert.acknowledged_at).getTime() - new Date(alert.created_at).getTime())}
+                      </span>
+                    )}
+                    {alert.assignee && (
+                      <span className="flex items-center gap-1">
+                        <UserPlus className="h-3 w-3" />
+                        Assignée à {alert.assignee.full_name}
+                      </span>
+                    )}
+                    {status === 'snoozed' && alert.snoozed_until && (
+                      <span className="flex items-center gap-1">
+                        <BellOff className="h-3 w-3" />
+                        En pause jusqu'au {format(new Date(alert.snoozed_until), 'dd MMM HH:mm', { locale: fr })}
+                      </span>
+                    )}
+                    {isResolved && alert.resolved_at && (
+                      <span className="flex items-center gap-1">
+                        <CheckCircle2 className="h-3 w-3" />
+                        {alert.auto_resolved
+                          ? 'Résolue automatiquement'
+                          : `Résolue${alert.resolver ? ` par ${alert.resolver.full_name}` : ''}`} le {format(new Date(alert.resolved_at), 'dd MMM HH:mm', { locale: fr })}
+                      </span>
+                    )}
                   </div>
                 </div>
                 
-                {hasPermission(['admin', 'manager']) && (
-                  <TooltipProvider>
-                    <div className="flex items-center gap-2 flex-shrink-0">
-                      {showMarkRead && !alert.is_read && (
+                <TooltipProvider>
+                  <div className="flex items-center gap-2 flex-shrink-0 flex-wrap justify-end">
+                    {!isResolved && canAssign && (
+                      <Select
+                        value={alert.assigned_to || 'none'}
+                        onValueChange={(v) => handleAssign(alert.id, v)}
+                        disabled={assignAlert.isPending}
+                      >
+                        <SelectTrigger className="h-9 w-40">
+                          <SelectValue placeholder="Assigner" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Non assignée</SelectItem>
+                          {profiles?.map(profile => (
+                            <SelectItem key={profile.user_id} value={profile.user_id}>{profile.full_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {status === 'open' && canHandle(alert) && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleAcknowledge(alert.id)}
+                            disabled={acknowledgeAlert.isPending}
+                          >
+                            <Hand className="h-4 w-4 mr-1" />
+                            <span className="hidden sm:inline">Prendre en charge</span>
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Accuser réception de l'alerte</TooltipContent>
+                      </Tooltip>
+                    )}
+                    {!isResolved && canHandle(alert) && (
+                      status === 'snoozed' ? (
                         <Tooltip>
                           <TooltipTrigger asChild>
                             <Button
                               size="sm"
-                              variant="outline"
-                              onClick={() => handleMarkRead(alert.id)}
-                              disabled={markRead.isPending}
+                              variant="ghost"
+                              onClick={() => handleSnooze(alert.id, null)}
+                              disabled={snoozeAlert.isPending}
                             >
-                              <CheckCircle2 className="h-4 w-4 mr-1" />
-                              <span className="hidden sm:inline">Marquer lu</span>
+                              <BellRing className="h-4 w-4" />
                             </Button>
                           </TooltipTrigger>
-                          <TooltipContent>Marquer comme lu</TooltipContent>
+                          <TooltipContent>Réactiver maintenant</TooltipContent>
                         </Tooltip>
-                      )}
+                      ) : (
+                        <DropdownMenu>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="sm" variant="ghost" disabled={snoozeAlert.isPending}>
+                                  <BellOff className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                            </TooltipTrigger>
+                            <TooltipContent>Mettre en pause</TooltipContent>
+                          </Tooltip>
+                          <DropdownMenuContent align="end">
+                            {SNOOZE_OPTIONS.map(option => (
+                              <DropdownMenuItem key={option.minutes} onClick={() => handleSnooze(alert.id, option.minutes)}>
+                                {option.label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )
+                    )}
+                    {!isResolved && canHandle(alert) && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleResolve(alert.id)}
+                            disabled={resolveAlert.isPending}
+                            className="text-[hsl(var(--status-green))] hover:text-[hsl(var(--status-green))]"
+                          >
+                            <CheckCircle2 className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Marquer comme résolue</TooltipContent>
+                      </Tooltip>
+                    )}
+                    {hasPermission(['admin', 'manager']) && (
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <Button
@@ -349,9 +535,9 @@ export default function AlertsPage() {
                         </TooltipTrigger>
                         <TooltipContent>Supprimer l'alerte</TooltipContent>
                       </Tooltip>
-                    </div>
-                  </TooltipProvider>
-                )}
+                    )}
+                  </div>
+                </TooltipProvider>
               </div>
             </div>
           );
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog, AuditLogFilters } from '@/hooks/useAuditLog';
+import { useMentionableProfiles } from '@/hooks/useComments';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AuditLogEntry, AuditOperation } from '@/types/sfm';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ScrollText, Eye, RotateCcw } from 'lucide-react';
+
+const PAGE_SIZE = 100;
+
+const TABLE_LABELS: Record<string, string> = {
+  kpis: 'KPI',
+  kpi_values: 'Valeur KPI',
+  actions: 'Action',
+  problems: 'Problème',
+  notes: 'Note',
+  sfm_categories: 'Catégorie',
+  user_roles: 'Rôle utilisateur',
+  app_settings: 'Paramètre',
+};
+
+const OPERATION_CONFIG: Record<AuditOperation, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  INSERT: { label: 'Création', variant: 'default' },
+  UPDATE: { label: 'Modification', variant: 'secondary' },
+  DELETE: { label: 'Suppression', variant: 'destructive' },
+};
+
+// Human readable name of the audited record
+const getRecordLabel = (entry: AuditLogEntry) => {
+  const data = entry.new_data || entry.old_data || {};
+  const label = data.name ?? data.title ?? data.key ?? data.code;
+  if (label !== undefined && label !== null) return String(label);
+  if (entry.table_name === 'kpi_values') return `${data.value} (${data.recorded_at})`;
+  if (entry.table_name === 'user_roles') return String(data.role);
+  if (entry.table_name === 'notes') return String(data.content ?? '').slice(0, 60);
+  return entry.record_id || '-';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '∅';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+function AuditEntryDialog({ entry, onOpenChange }: { entry: AuditLogEntry | null; onOpenChange: (open: boolean) => void }) {
+  if (!entry) return null;
+
+  // Only the changed fields for updates, the whole record otherwise
+  const fields = entry.operation === 'UPDATE'
+    ? entry.changed_fields || []
+    : Object.keys(entry.new_data || entry.old_data || {}).sort();
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {OPERATION_CONFIG[entry.operation].label} · {TABLE_LABELS[entry.table_name] || entry.table_name}
+          </DialogTitle>
+          <DialogDescription>
+            {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm:ss', { locale: fr })} par {entry.actor?.full_name || 'Système'}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Champ</TableHead>
+                {entry.operation !== 'INSERT' && <TableHead>Avant</TableHead>}
+                {entry.operation !== 'DELETE' && <TableHead>Après</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field) => (
+                <TableRow key={field}>
+                  <TableCell className="font-mono text-xs">{field}</TableCell>
+                  {entry.operation !== 'INSERT' && (
+                    <TableCell className="text-xs break-all text-muted-foreground">{formatValue(entry.old_data?.[field])}</TableCell>
+                  )}
+                  {entry.operation !== 'DELETE' && (
+                    <TableCell className="text-xs break-all">{formatValue(entry.new_data?.[field])}</TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AuditLogPage() {
+  const { hasPermission } = useAuth();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const { data: entries, isLoading, isFetching } = useAuditLog(filters, limit);
+  const { data: profiles } = useMentionableProfiles();
+
+  if (!hasPermission(['admin', 'manager'])) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const updateFilter = (patch: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <AppLayout title="Journal d'audit" subtitle="Traçabilité des modifications pour les audits qualité">
+      <Card className="bg-card/50 border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Journal d'audit
+          </CardTitle>
+          <CardDescription>
+            Toutes les créations, modifications et suppressions sur les KPIs, actions, problèmes, notes, catégories, rôles et paramètres
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Entité</Label>
+              <Select
+                value={filters.tableName || 'all'}
+                onValueChange={(value) => updateFilter({ tableName: value === 'all' ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toutes</SelectItem>
+                  {Object.entries(TABLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Utilisateur</Label>
+              <Select
+                value={filters.actorId || 'all'}
+                onValueChange={(value) => updateFilter({ actorId: value === 'all' ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous</SelectItem>
+                  {profiles?.map((profile) => (
+                    <SelectItem key={profile.user_id} value={profile.user_id}>{profile.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">Du</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from || ''}
+                onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">Au</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to || ''}
+                onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              />
+            </div>
+            <Button variant="outline" onClick={() => updateFilter({ tableName: undefined, actorId: undefined, from: undefined, to: undefined })}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Réinitialiser
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Utilisateur</TableHead>
+                  <TableHead>Entité</TableHead>
+                  <TableHead>Élément</TableHead>
+                  <TableHead>Opération</TableHead>
+                  <TableHead>Champs modifiés</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries?.length ? entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.actor?.full_name || 'Système'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{TABLE_LABELS[entry.table_name] || entry.table_name}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm max-w-[220px] truncate">{getRecordLabel(entry)}</TableCell>
+                    <TableCell>
+                      <Badge variant={OPERATION_CONFIG[entry.operation].variant}>
+                        {OPERATION_CONFIG[entry.operation].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[220px] truncate">
+                      {entry.changed_fields?.join(', ')}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setSelectedEntry(entry)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      Aucune entrée pour ces filtres
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          {entries && entries.length >= limit && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)} disabled={isFetching}>
+                Afficher plus
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AuditEntryDialog entry={selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)} />
+    </AppLayout>
+  );
+}
@@ -4,12 +4,15 @@ import { AppLayout } from '@/components/layout/AppLayout';
 import { useCategories } from '@/hooks/useSfmData';
 import { useDashboardStats } from '@/hooks/useDashboardStats';
 import { useAuth } from '@/hooks/useAuth';
+import { useBoard } from '@/contexts/BoardContext';
 import { SfmColumn } from '@/components/dashboard/SfmColumn';
 import { CreateActionDialog } from '@/components/dashboard/CreateActionDialog';
 import { CategoryDialog } from '@/components/admin/CategoryDialog';
 import { KpiDialog } from '@/components/admin/KpiDialog';
 import { DeleteConfirmDialog } from '@/components/admin/DeleteConfirmDialog';
-import { SfmCategory, Kpi } from '@/types/sfm';
+import { BoardDialog } from '@/components/admin/BoardDialog';
+import { ImportKpiValuesDialog } from '@/components/dashboard/ImportKpiValuesDialog';
+import { SfmCategory, Kpi, Board } from '@/types/sfm';
 
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent } from '@/components/ui/card';
@@ -20,13 +23,18 @@ import {
   Clock,
   BarChart3,
   Bell,
-  Plus
+  Plus,
+  Network,
+  Pencil,
+  FileSpreadsheet
 } from 'lucide-react';
 
 export default function DashboardPage() {
   const { role } = useAuth();
-  const { data: categories, isLoading: categoriesLoading } = useCategories();
-  const { data: stats, isLoading: statsLoading } = useDashboardStats();
+  const { currentBoard, boardIds, childBoardIds, isLoading: boardsLoading } = useBoard();
+  const { data: categories, isLoading: categoriesLoading } = useCategories(currentBoard ? [currentBoard.id] : undefined);
+  const { data: childCategories } = useCategories(childBoardIds);
+  const { data: stats, isLoading: statsLoading } = useDashboardStats(boardIds);
   
   const [actionDialogOpen, setActionDialogOpen] = useState(false);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string | undefined>();
@@ -40,6 +48,13 @@ export default function DashboardPage() {
   const [kpiDialogOpen, setKpiDialogOpen] = useState(false);
   const [selectedKpi, setSelectedKpi] = useState<Kpi | null>(null);
 
+  // Board management
+  const [boardDialogOpen, setBoardDialogOpen] = useState(false);
+  const [selectedBoard, setSelectedBoard] = useState<Board | null>(null);
+
+  // Bulk KPI value import
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+
   // Permissions - Only manager can manage categories and KPIs (admin manages only users)
   const canManageCategories = role === 'manager';
 
@@ -47,6 +62,20 @@ export default function DashboardPage() {
   if (role === 'admin') {
     return <Navigate to="/users" replace />;
   }
+  const handleAddBoard = () => {
+    setSelectedBoard(null);
+    setBoardDialogOpen(true);
+  };
+
+  const handleEditBoard = () => {
+    setSelectedBoard(currentBoard);
+    setBoardDialogOpen(true);
+  };
+
+  // Child board categories sharing the same code roll up into the parent column
+  const getChildCategories = (category: SfmCategory) =>
+    childCategories?.filter(c => c.code === category.code) || [];
+
   const handleAddCategory = () => {
     setSelectedCategory(null);
     setCategoryDialogOpen(true);
@@ -82,7 +111,7 @@ export default function DashboardPage() {
     setKpiDialogOpen(true);
   };
 
-  const isLoading = categoriesLoading || statsLoading;
+  const isLoading = boardsLoading || categoriesLoading || statsLoading;
 
   if (isLoading) {
     return (
@@ -168,13 +197,39 @@ export default function DashboardPage() {
 
       {/* SFM Columns */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
-        <h2 className="text-lg font-semibold text-foreground">Catégories SFM</h2>
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Catégories SFM</h2>
+          {currentBoard && (
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <Network className="h-3 w-3" />
+              {currentBoard.name}
+              {childBoardIds.length > 0 && ` · ${childBoardIds.length} sous-tableau(x) consolidé(s)`}
+            </p>
+          )}
+        </div>
         {canManageCategories && (
-          <Button onClick={handleAddCategory} size="sm" className="gap-2 self-start sm:self-auto">
-            <Plus className="h-4 w-4" />
-            <span className="hidden sm:inline">Nouvelle catégorie</span>
-            <span className="sm:hidden">Catégorie</span>
-          </Button>
+          <div className="flex items-center gap-2 self-start sm:self-auto">
+            {currentBoard && (
+              <Button onClick={handleEditBoard} size="sm" variant="outline" className="gap-2">
+                <Pencil className="h-4 w-4" />
+                <span className="hidden sm:inline">Modifier le tableau</span>
+              </Button>
+            )}
+            <Button onClick={() => setImportDialogOpen(true)} size="sm" variant="outline" className="gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              <span className="hidden sm:inline">Importer des valeurs</span>
+            </Button>
+            <Button onClick={handleAddBoard} size="sm" variant="outline" className="gap-2">
+              <Network className="h-4 w-4" />
+              <span className="hidden sm:inline">Nouveau tableau</span>
+              <span className="sm:hidden">Tableau</span>
+            </Button>
+            <Button onClick={handleAddCategory} size="sm" className="gap-2" disabled={!currentBoard}>
+              <Plus className="h-4 w-4" />
+              <span className="hidden sm:inline">Nouvelle catégorie</span>
+              <span className="sm:hidden">Catégorie</span>
+            </Button>
+          </div>
         )}
       </div>
 
@@ -183,6 +238,7 @@ export default function DashboardPage() {
           <SfmColumn 
             key={category.id}
             category={category} 
+            childCategories={getChildCategories(category)}
             onAddAction={() => handleAddAction(category.id)}
             onAddKpi={() => handleAddKpi(category.id)}
             onEditCategory={handleEditCategory}
@@ -202,6 +258,19 @@ export default function DashboardPage() {
         open={categoryDialogOpen}
         onOpenChange={setCategoryDialogOpen}
         category={selectedCategory}
+        boardId={currentBoard?.id}
+      />
+
+      <BoardDialog
+        open={boardDialogOpen}
+        onOpenChange={setBoardDialogOpen}
+        board={selectedBoard}
+        defaultParentId={currentBoard?.id}
+      />
+
+      <ImportKpiValuesDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
       />
 
       <KpiDialog
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { AreaChart, Area, ResponsiveContainer, ReferenceLine, YAxis } from 'recharts';
+import { useDisplayBoard } from '@/hooks/useDisplayTokens';
+import { DisplayCategory } from '@/types/sfm';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { AlertTriangle, Clock, Monitor, WifiOff } from 'lucide-react';
+
+const statusColors: Record<string, string> = {
+  green: 'hsl(var(--status-green))',
+  orange: 'hsl(var(--status-orange))',
+  red: 'hsl(var(--status-red))',
+};
+
+const severityConfig: Record<string, { label: string; class: string }> = {
+  critical: { label: 'Critique', class: 'bg-destructive text-destructive-foreground' },
+  high: { label: 'Haute', class: 'bg-[hsl(var(--status-orange))] text-white' },
+  medium: { label: 'Moyenne', class: 'bg-primary text-primary-foreground' },
+  low: { label: 'Basse', class: 'bg-muted text-muted-foreground' },
+};
+
+function KioskKpiTile({ kpi, color }: { kpi: DisplayCategory['kpis'][number]; color: string }) {
+  const latest = kpi.values[kpi.values.length - 1];
+  const statusColor = latest?.status ? statusColors[latest.status] : 'hsl(var(--muted-foreground))';
+
+  return (
+    <div className="rounded-2xl border-2 bg-card p-6 flex flex-col gap-3" style={{ borderColor: statusColor }}>
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-2xl font-semibold leading-tight">{kpi.name}</p>
+        <span className="h-6 w-6 rounded-full flex-shrink-0" style={{ backgroundColor: statusColor }} />
+      </div>
+      <p className="text-6xl font-bold font-mono-data" style={{ color: statusColor }}>
+        {latest ? Number(latest.value).toLocaleString('fr-FR') : '-'}
+        <span className="text-2xl font-medium text-muted-foreground ml-2">{kpi.unit}</span>
+      </p>
+      {kpi.target_value != null && (
+        <p className="text-xl text-muted-foreground">
+          Objectif : {Number(kpi.target_value).toLocaleString('fr-FR')} {kpi.unit}
+        </p>
+      )}
+      {kpi.values.length > 1 && (
+        <div className="h-24">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={kpi.values}>
+              <YAxis hide domain={['auto', 'auto']} />
+              {kpi.target_value != null && (
+                <ReferenceLine y={kpi.target_value} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+              )}
+              <Area type="monotone" dataKey="value" stroke={color} fill={color} fillOpacity={0.2} strokeWidth={3} isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function KioskCategorySlide({ category, today }: { category: DisplayCategory; today: string }) {
+  return (
+    <div className="grid grid-cols-3 gap-8 h-full">
+      <div className="col-span-2 grid grid-cols-2 gap-6 content-start">
+        {category.kpis.length === 0 ? (
+          <p className="col-span-2 text-3xl text-muted-foreground">Aucun KPI dans cette catégorie</p>
+        ) : category.kpis.map(kpi => (
+          <KioskKpiTile key={kpi.id} kpi={kpi} color={category.color} />
+        ))}
+      </div>
+
+      <div className="space-y-8">
+        <section className="space-y-4">
+          <h2 className="text-3xl font-semibold flex items-center gap-3">
+            <Clock className="h-8 w-8" />
+            Actions ouvertes
+            <span className="ml-auto text-4xl font-bold">{category.open_actions}</span>
+          </h2>
+          {category.overdue_actions > 0 && (
+            <p className="text-2xl font-semibold text-destructive">{category.overdue_actions} en retard</p>
+          )}
+          <ul className="space-y-3">
+            {category.actions.map(action => {
+              const isOverdue = action.status === 'overdue' || action.due_date < today;
+              return (
+                <li key={action.id} className={cn('rounded-xl border p-4', isOverdue && 'border-destructive bg-destructive/10')}>
+                  <p className="text-xl font-medium truncate">{action.title}</p>
+                  <p className={cn('text-lg', isOverdue ? 'text-destructive' : 'text-muted-foreground')}>
+                    {format(new Date(action.due_date), 'dd/MM', { locale: fr })}
+                    {action.responsible && ` · ${action.responsible}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-3xl font-semibold flex items-center gap-3">
+            <AlertTriangle className="h-8 w-8" />
+            Problèmes
+            <span className="ml-auto text-4xl font-bold">{category.open_problems}</span>
+          </h2>
+          <ul className="space-y-3">
+            {category.problems.map(problem => (
+              <li key={problem.id} className="rounded-xl border p-4 flex items-center gap-3">
+                <span className={cn('rounded-md px-2 py-1 text-base font-semibold', severityConfig[problem.severity]?.class)}>
+                  {severityConfig[problem.severity]?.label}
+                </span>
+                <p className="text-xl font-medium truncate">{problem.title}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function KioskOverviewSlide({ categories, onSelect }: { categories: DisplayCategory[]; onSelect: (index: number) => void }) {
+  return (
+    <div className="grid grid-cols-3 gap-6 content-start">
+      {categories.map((category, index) => {
+        const redKpis = category.kpis.filter(k => k.values[k.values.length - 1]?.status === 'red').length;
+        return (
+          <button
+            key={category.id}
+            onClick={() => onSelect(index + 1)}
+            className="rounded-2xl border-2 bg-card p-6 text-left space-y-4"
+            style={{ borderColor: category.color }}
+          >
+            <div>
+              <p className="text-3xl font-bold" style={{ color: category.color }}>{category.name}</p>
+              <p className="text-lg text-muted-foreground">{category.board_name}</p>
+            </div>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className={cn('text-5xl font-bold', redKpis > 0 && 'text-[hsl(var(--status-red))]')}>{redKpis}</p>
+                <p className="text-lg text-muted-foreground">KPI rouges</p>
+              </div>
+              <div>
+                <p className={cn('text-5xl font-bold', category.overdue_actions > 0 && 'text-destructive')}>
+                  {category.open_actions}
+                </p>
+                <p className="text-lg text-muted-foreground">Actions</p>
+              </div>
+              <div>
+                <p className="text-5xl font-bold">{category.open_problems}</p>
+                <p className="text-lg text-muted-foreground">Problèmes</p>
+              </div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Read-only wall screen, authenticated by the display token in the URL
+export default function KioskPage() {
+  const { token } = useParams<{ token: string }>();
+  const { data: display, error, isLoading, dataUpdatedAt } = useDisplayBoard(token);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [now, setNow] = useState(() => new Date());
+
+  const categories = display?.categories || [];
+  // Overview first, then one slide per category
+  const slideCount = categories.length + 1;
+  const currentSlide = slideIndex % slideCount;
+  const currentCategory = currentSlide > 0 ? categories[currentSlide - 1] : null;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Restarted on every slide change so that a manual jump gets the full delay
+  const rotateSeconds = display?.rotate_seconds;
+  useEffect(() => {
+    if (!rotateSeconds) return;
+    const timer = setInterval(() => setSlideIndex(i => (i + 1) % slideCount), rotateSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [rotateSeconds, slideCount, slideIndex]);
+
+  // Arrow keys for whoever runs the stand-up from a keyboard
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setSlideIndex(i => (i + 1) % slideCount);
+      if (e.key === 'ArrowLeft') setSlideIndex(i => (i - 1 + slideCount) % slideCount);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [slideCount]);
+
+  // A revoked or unknown token is rejected by get_display_board with RAISE EXCEPTION
+  const isRevoked = (error as { code?: string } | null)?.code === 'P0001';
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Monitor className="h-16 w-16 text-muted-foreground animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!display || isRevoked) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background text-center p-8">
+        <Monitor className="h-16 w-16 text-muted-foreground" />
+        <p className="text-3xl font-semibold">{isRevoked ? 'Écran non autorisé' : 'Connexion impossible'}</p>
+        <p className="text-xl text-muted-foreground">
+          {isRevoked
+            ? 'Ce lien d\'affichage est invalide ou a été révoqué. Demandez un nouveau lien à votre manager.'
+            : 'Nouvelle tentative dans quelques secondes...'}
+        </p>
+      </div>
+    );
+  }
+
+  const today = format(now, 'yyyy-MM-dd');
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8 flex flex-col gap-8">
+      <header className="flex items-center justify-between gap-8">
+        <div>
+          <p className="text-xl text-muted-foreground">{display.board.name}</p>
+          <h1 className="text-5xl font-bold" style={currentCategory ? { color: currentCategory.color } : undefined}>
+            {currentCategory ? currentCategory.name : 'Vue d\'ensemble'}
+          </h1>
+          {currentCategory && currentCategory.board_name !== display.board.name && (
+            <p className="text-xl text-muted-foreground">{currentCategory.board_name}</p>
+          )}
+        </div>
+        <div className="text-right">
+          <p className="text-6xl font-bold font-mono-data">{format(now, 'HH:mm')}</p>
+          <p className="text-xl text-muted-foreground capitalize">{format(now, 'EEEE d MMMM', { locale: fr })}</p>
+        </div>
+      </header>
+
+      <main className="flex-1">
+        {currentCategory ? (
+          <KioskCategorySlide category={currentCategory} today={today} />
+        ) : (
+          <KioskOverviewSlide categories={categories} onSelect={setSlideIndex} />
+        )}
+      </main>
+
+      <footer className="flex items-center justify-between text-lg text-muted-foreground">
+        <div className="flex gap-2">
+          {Array.from({ length: slideCount }, (_, i) => (
+            <span
+              key={i}
+              className={cn('h-3 rounded-full transition-all', i === currentSlide ? 'w-10 bg-primary' : 'w-3 bg-muted')}
+            />
+          ))}
+        </div>
+        {error ? (
+          <span className="flex items-center gap-2 text-destructive">
+            <WifiOff className="h-5 w-5" />
+            Connexion perdue, dernière mise à jour à {format(dataUpdatedAt, 'HH:mm')}
+          </span>
+        ) : (
+          <span>Mis à jour à {format(dataUpdatedAt, 'HH:mm:ss')}</span>
+        )}
+      </footer>
+    </div>
+  );
+}
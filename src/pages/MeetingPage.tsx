@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { MeetingRunner } from '@/components/meeting/MeetingRunner';
+import { useAuth } from '@/hooks/useAuth';
+import { useBoard } from '@/contexts/BoardContext';
+import { useCategories } from '@/hooks/useSfmData';
+import { useMeetings, useStartMeeting, fetchMeetingDetails } from '@/hooks/useMeetings';
+import { generateMeetingMinutes } from '@/lib/pdfReportGenerator';
+import { planMeetingSegments, formatClock } from '@/lib/meeting';
+import { Meeting } from '@/types/sfm';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Download, History, Loader2, Play, Timer } from 'lucide-react';
+
+export default function MeetingPage() {
+  const { user, role, hasPermission } = useAuth();
+  const { currentBoard, isLoading: boardsLoading } = useBoard();
+  const { data: categories, isLoading: categoriesLoading } = useCategories(currentBoard ? [currentBoard.id] : undefined);
+  const { data: meetings, isLoading: meetingsLoading } = useMeetings(currentBoard?.id);
+  const startMeeting = useStartMeeting();
+  const [plannedMinutes, setPlannedMinutes] = useState(15);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  if (role === 'admin') {
+    return <Navigate to="/users" replace />;
+  }
+
+  if (role && !hasPermission('team_leader')) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const activeMeeting = meetings?.find(m => !m.ended_at);
+  const pastMeetings = meetings?.filter(m => m.ended_at) || [];
+  const plan = planMeetingSegments(categories || [], plannedMinutes);
+
+  const handleStart = () => {
+    if (!currentBoard || !user) return;
+    startMeeting.mutate({ boardId: currentBoard.id, plannedMinutes, facilitatorId: user.id });
+  };
+
+  const handleExport = async (meeting: Meeting) => {
+    setExportingId(meeting.id);
+    try {
+      generateMeetingMinutes(await fetchMeetingDetails(meeting.id));
+    } catch {
+      toast.error('Erreur lors de la génération du compte rendu');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const isLoading = boardsLoading || categoriesLoading || meetingsLoading;
+
+  return (
+    <AppLayout title="Réunion SFM" subtitle={currentBoard ? `Point quotidien · ${currentBoard.name}` : 'Point quotidien'}>
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full rounded-xl" />
+          <Skeleton className="h-64 w-full rounded-xl" />
+        </div>
+      ) : activeMeeting ? (
+        <MeetingRunner key={activeMeeting.id} meeting={activeMeeting} categories={categories || []} />
+      ) : (
+        <div className="space-y-6">
+          <Card className="bg-card/50 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Timer className="h-5 w-5" />
+                Nouvelle réunion
+              </CardTitle>
+              <CardDescription>
+                Passage en revue des catégories dans l'ordre du tableau, avec un temps imparti pour chacune
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="planned-minutes">Durée (min)</Label>
+                  <Input
+                    id="planned-minutes"
+                    type="number"
+                    min="1"
+                    max="120"
+                    value={plannedMinutes}
+                    onChange={(e) => setPlannedMinutes(Math.max(1, parseInt(e.target.value) || 15))}
+                    className="w-24"
+                  />
+                </div>
+                <Button onClick={handleStart} disabled={!currentBoard || plan.length === 0 || startMeeting.isPending} className="gap-2">
+                  {startMeeting.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                  Démarrer la réunion
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {plan.map(segment => (
+                  <span key={segment.position} className="rounded-full border bg-background/50 px-3 py-1 text-sm">
+                    {segment.category_name}
+                    <span className="ml-2 font-mono-data text-xs text-muted-foreground">{formatClock(segment.planned_seconds)}</span>
+                  </span>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card/50 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Réunions précédentes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Durée</TableHead>
+                    <TableHead>Animateur</TableHead>
+                    <TableHead>Synthèse</TableHead>
+                    <TableHead className="text-right">Compte rendu</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pastMeetings.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Aucune réunion enregistrée
+                      </TableCell>
+                    </TableRow>
+                  ) : pastMeetings.map(meeting => {
+                    const spent = (new Date(meeting.ended_at!).getTime() - new Date(meeting.started_at).getTime()) / 1000;
+                    return (
+                      <TableRow key={meeting.id}>
+                        <TableCell>{format(new Date(meeting.started_at), 'EEE dd/MM/yyyy HH:mm', { locale: fr })}</TableCell>
+                        <TableCell className={spent > meeting.planned_minutes * 60 ? 'text-destructive font-mono-data' : 'font-mono-data'}>
+                          {formatClock(spent)}
+                        </TableCell>
+                        <TableCell>{meeting.facilitator?.full_name || '-'}</TableCell>
+                        <TableCell className="max-w-[300px] truncate text-sm text-muted-foreground">{meeting.summary}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-2"
+                            onClick={() => handleExport(meeting)}
+                            disabled={exportingId === meeting.id}
+                          >
+                            {exportingId === meeting.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                            PDF
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </AppLayout>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useNotes, useCategories, useUpdateNote, useDeleteNote } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -10,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 import { CreateNoteDialog } from '@/components/dashboard/CreateNoteDialog';
+import { AttachmentGallery } from '@/components/attachments/AttachmentGallery';
 import { 
   FileText, 
   Plus,
@@ -28,7 +30,8 @@ export default function NotesPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const { data: notes, isLoading } = useNotes();
-  const { data: categories } = useCategories();
+  const { boardIds } = useBoard();
+  const { data: categories } = useCategories(boardIds);
   const { hasPermission, user } = useAuth();
   const updateNote = useUpdateNote();
   const deleteNote = useDeleteNote();
@@ -233,6 +236,13 @@ export default function NotesPage() {
                           <p className="text-foreground whitespace-pre-wrap line-clamp-4 text-sm">
                             {note.content}
                           </p>
+
+                          <AttachmentGallery
+                            entity="note"
+                            entityId={note.id}
+                            canUpload={hasPermission(['admin', 'manager', 'team_leader'])}
+                            className="mt-3"
+                          />
                           
                           <div className="flex items-center justify-between mt-4">
                             <div className="flex flex-col gap-1 text-xs text-muted-foreground">
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useTodayPriorities, useUpdateAction } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -27,7 +28,8 @@ const priorityConfig = {
 };
 
 export default function PrioritiesPage() {
-  const { data: priorities, isLoading } = useTodayPriorities();
+  const { boardIds } = useBoard();
+  const { data: priorities, isLoading } = useTodayPriorities(boardIds);
   const { hasPermission } = useAuth();
   const updateAction = useUpdateAction();
 
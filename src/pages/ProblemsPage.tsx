@@ -1,6 +1,7 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { useProblems, useCategories, useUpdateProblem, useCreateProblem } from '@/hooks/useSfmData';
+import { useProblems, useCategories, useUpdateProblem, useCreateProblem, useActions, useResponsibleProfiles } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -8,7 +9,16 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CreateProblemDialog } from '@/components/dashboard/CreateProblemDialog';
+import { ProblemRcaDialog } from '@/components/dashboard/ProblemRcaDialog';
+import { ProblemDetailsDialog } from '@/components/dashboard/ProblemDetailsDialog';
+import { CreateActionDialog } from '@/components/dashboard/CreateActionDialog';
+import { EscalationHistoryPopover } from '@/components/dashboard/EscalationHistoryPopover';
+import { AttachmentGallery } from '@/components/attachments/AttachmentGallery';
+import { useEscalationRules } from '@/hooks/useEscalation';
+import { getSlaStatus, formatDuration } from '@/lib/escalation';
+import { Action, Problem } from '@/types/sfm';
 import { 
   AlertTriangle, 
   Clock, 
@@ -17,7 +27,14 @@ import {
   Plus,
   Calendar,
   AlertCircle,
-  ArrowUpCircle
+  ArrowUpCircle,
+  Microscope,
+  ListPlus,
+  ClipboardCheck,
+  Timer,
+  MessageSquare,
+  User,
+  UserCheck
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -48,20 +65,46 @@ const sortBySeverity = (problems: any[]) => {
 export default function ProblemsPage() {
   const [activeTab, setActiveTab] = useState<'open' | 'in_progress' | 'resolved'>('open');
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [rcaProblem, setRcaProblem] = useState<Problem | null>(null);
+  const [detailsProblem, setDetailsProblem] = useState<Problem | null>(null);
+  const [actionProblem, setActionProblem] = useState<Problem | null>(null);
+  const [mineOnly, setMineOnly] = useState(false);
   
-  const { data: openProblems, isLoading: openLoading } = useProblems(undefined, 'open');
-  const { data: inProgressProblems, isLoading: progressLoading } = useProblems(undefined, 'in_progress');
-  const { data: resolvedProblems, isLoading: resolvedLoading } = useProblems(undefined, 'resolved');
-  const { data: categories } = useCategories();
-  const { hasPermission, role } = useAuth();
+  const { boardIds } = useBoard();
+  const { data: openProblems, isLoading: openLoading } = useProblems(undefined, 'open', boardIds);
+  const { data: inProgressProblems, isLoading: progressLoading } = useProblems(undefined, 'in_progress', boardIds);
+  const { data: resolvedProblems, isLoading: resolvedLoading } = useProblems(undefined, 'resolved', boardIds);
+  const { data: categories } = useCategories(boardIds);
+  const { data: boardActions } = useActions(undefined, undefined, boardIds);
+  const { data: escalationRules } = useEscalationRules();
+  const { data: profiles } = useResponsibleProfiles();
+  const { user, hasPermission, role } = useAuth();
+  const [now, setNow] = useState(() => new Date());
   
   const updateProblem = useUpdateProblem();
 
   const canManage = hasPermission(['admin', 'manager', 'team_leader']);
 
+  // Refresh the SLA countdowns every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
   const criticalCount = openProblems?.filter(p => p.severity === 'critical').length || 0;
   const escalatedCount = openProblems?.filter(p => p.escalated).length || 0;
 
+  // "My problems" keeps only the problems assigned to the current user
+  const filterMine = (problems?: Problem[]) =>
+    mineOnly ? problems?.filter(p => p.assigned_to === user?.id) : problems;
+  const visibleOpen = filterMine(openProblems);
+  const visibleInProgress = filterMine(inProgressProblems);
+  const visibleResolved = filterMine(resolvedProblems);
+
+  const handleAssign = (problemId: string, assignedTo: string) => {
+    updateProblem.mutate({ id: problemId, assigned_to: assignedTo === 'unassigned' ? null : assignedTo });
+  };
+
   const handleUpdateStatus = async (problemId: string, status: string) => {
     try {
       await updateProblem.mutateAsync({ id: problemId, status: status as any });
@@ -71,6 +114,13 @@ export default function ProblemsPage() {
     }
   };
 
+  // Actions linked to each problem
+  const actionsByProblem = new Map<string, Action[]>();
+  boardActions?.forEach((action) => {
+    if (!action.problem_id) return;
+    actionsByProblem.set(action.problem_id, [...(actionsByProblem.get(action.problem_id) || []), action]);
+  });
+
   const getCategoryName = (categoryId: string) => {
     return categories?.find(c => c.id === categoryId)?.name || 'Non catégorisé';
   };
@@ -79,6 +129,12 @@ export default function ProblemsPage() {
     const status = statusConfig[problem.status as keyof typeof statusConfig] || statusConfig.open;
     const severity = severityConfig[problem.severity as keyof typeof severityConfig] || severityConfig.medium;
     const StatusIcon = status.icon;
+    const linkedActions = actionsByProblem.get(problem.id) || [];
+    const completedCount = linkedActions.filter(a => a.status === 'completed').length;
+    const currentRule = escalationRules?.find(r => r.severity === problem.severity && r.level === problem.escalation_level);
+    const sla = problem.status !== 'resolved' && escalationRules
+      ? getSlaStatus(problem, escalationRules, now)
+      : null;
 
     return (
       <div
@@ -99,7 +155,13 @@ export default function ProblemsPage() {
                 <StatusIcon className="h-3 w-3 mr-1" />
                 {status.label}
               </Badge>
-              {problem.escalated && (
+              {problem.escalation_level > 0 ? (
+                <EscalationHistoryPopover
+                  problemId={problem.id}
+                  level={problem.escalation_level}
+                  label={currentRule?.label}
+                />
+              ) : problem.escalated && (
                 <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
                   <ArrowUpCircle className="h-3 w-3 mr-1" />
                   Escaladé
@@ -118,43 +180,157 @@ export default function ProblemsPage() {
                 <Calendar className="h-3 w-3" />
                 Signalé le {format(new Date(problem.created_at), 'dd MMM yyyy', { locale: fr })}
               </span>
+              {problem.reporter && (
+                <span className="flex items-center gap-1">
+                  <User className="h-3 w-3" />
+                  Par {problem.reporter.full_name}
+                </span>
+              )}
+              {canManage && problem.status !== 'resolved' ? (
+                <Select
+                  value={problem.assigned_to || 'unassigned'}
+                  onValueChange={(value) => handleAssign(problem.id, value)}
+                >
+                  <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs">
+                    <UserCheck className="h-3 w-3" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Non assigné</SelectItem>
+                    {/* Keep the current assignee selectable even if no longer in the list */}
+                    {problem.assigned_to && !profiles?.some(p => p.user_id === problem.assigned_to) && (
+                      <SelectItem value={problem.assigned_to}>
+                        {problem.assignee?.full_name || 'Utilisateur inconnu'}
+                      </SelectItem>
+                    )}
+                    {profiles?.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.user_id}>
+                        {profile.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="flex items-center gap-1">
+                  <UserCheck className="h-3 w-3" />
+                  {problem.assignee ? `Assigné à ${problem.assignee.full_name}` : 'Non assigné'}
+                </span>
+              )}
+              {sla?.nextRule && sla.remainingMs !== null && (
+                <span className={`flex items-center gap-1 ${sla.remainingMs <= 0 ? 'text-destructive font-medium' : ''}`}>
+                  <Timer className="h-3 w-3" />
+                  {sla.remainingMs > 0
+                    ? `SLA: ${formatDuration(sla.remainingMs)} avant escalade (${sla.nextRule.label})`
+                    : `SLA dépassé, escalade vers ${sla.nextRule.label}`}
+                </span>
+              )}
+              {linkedActions.length > 0 && (
+                <span className="flex items-center gap-1">
+                  <ClipboardCheck className="h-3 w-3" />
+                  {completedCount}/{linkedActions.length} action(s) terminée(s)
+                </span>
+              )}
             </div>
+            {linkedActions.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {linkedActions.slice(0, 3).map((action) => (
+                  <li key={action.id} className="flex items-center gap-1.5 text-xs">
+                    {action.status === 'completed'
+                      ? <CheckCircle2 className="h-3 w-3 flex-shrink-0 text-[hsl(var(--status-green))]" />
+                      : <Clock className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+                    <span className={action.status === 'completed' ? 'line-through text-muted-foreground' : undefined}>
+                      {action.title}
+                    </span>
+                  </li>
+                ))}
+                {linkedActions.length > 3 && (
+                  <li className="text-xs text-muted-foreground pl-4">+{linkedActions.length - 3} autre(s)</li>
+                )}
+              </ul>
+            )}
+            <AttachmentGallery
+              entity="problem"
+              entityId={problem.id}
+              canUpload={problem.status !== 'resolved'}
+              className="mt-3"
+            />
           </div>
           
-          {canManage && (
-            <TooltipProvider>
-              <div className="flex flex-col gap-2">
-                {problem.status === 'open' && (
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleUpdateStatus(problem.id, 'in_progress')}
-                      >
-                        <Play className="h-4 w-4" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>Marquer en cours</TooltipContent>
-                  </Tooltip>
-                )}
-                {problem.status === 'in_progress' && (
-                  <Tooltip>
-                    <TooltipTrigger asChild>
+          <TooltipProvider>
+            <div className="flex flex-col gap-2">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDetailsProblem(problem)}
+                  >
+                    <MessageSquare className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Commentaires et historique</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRcaProblem(problem)}
+                  >
+                    <Microscope className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Analyse des causes</TooltipContent>
+              </Tooltip>
+              {canManage && problem.status !== 'resolved' && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setActionProblem(problem)}
+                    >
+                      <ListPlus className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Créer une action</TooltipContent>
+                </Tooltip>
+              )}
+              {canManage && problem.status === 'open' && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleUpdateStatus(problem.id, 'in_progress')}
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Marquer en cours</TooltipContent>
+                </Tooltip>
+              )}
+              {canManage && problem.status === 'in_progress' && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span>
                       <Button
                         size="sm"
                         variant="outline"
+                        disabled={completedCount < linkedActions.length}
                         onClick={() => handleUpdateStatus(problem.id, 'resolved')}
                       >
                         <CheckCircle2 className="h-4 w-4" />
                       </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>Marquer résolu</TooltipContent>
-                  </Tooltip>
-                )}
-              </div>
-            </TooltipProvider>
-          )}
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {completedCount < linkedActions.length ? 'Des actions liées sont encore ouvertes' : 'Marquer résolu'}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+            </div>
+          </TooltipProvider>
         </div>
       </div>
     );
@@ -230,10 +406,19 @@ export default function ProblemsPage() {
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-semibold">Liste des problèmes</h2>
-        <Button onClick={() => setDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Signaler un problème
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={mineOnly ? 'default' : 'outline'}
+            onClick={() => setMineOnly(!mineOnly)}
+          >
+            <UserCheck className="h-4 w-4 mr-2" />
+            Mes problèmes
+          </Button>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Signaler un problème
+          </Button>
+        </div>
       </div>
 
       {/* Tabs */}
@@ -242,20 +427,20 @@ export default function ProblemsPage() {
           <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
             <TabsList className="w-full justify-start rounded-none border-b bg-transparent p-0 flex-wrap">
               <TabsTrigger value="open" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
-                Ouverts ({openProblems?.length || 0})
+                Ouverts ({visibleOpen?.length || 0})
               </TabsTrigger>
               <TabsTrigger value="in_progress" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
-                En cours ({inProgressProblems?.length || 0})
+                En cours ({visibleInProgress?.length || 0})
               </TabsTrigger>
               <TabsTrigger value="resolved" className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
-                Résolus ({resolvedProblems?.length || 0})
+                Résolus ({visibleResolved?.length || 0})
               </TabsTrigger>
             </TabsList>
 
             <TabsContent value="open" className="m-0 p-4">
               <div className="space-y-3">
-                {openProblems && openProblems.length > 0 ? (
-                  sortBySeverity(openProblems).map(renderProblemCard)
+                {visibleOpen && visibleOpen.length > 0 ? (
+                  sortBySeverity(visibleOpen).map(renderProblemCard)
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
                     Aucun problème ouvert
@@ -266,8 +451,8 @@ export default function ProblemsPage() {
 
             <TabsContent value="in_progress" className="m-0 p-4">
               <div className="space-y-3">
-                {inProgressProblems && inProgressProblems.length > 0 ? (
-                  sortBySeverity(inProgressProblems).map(renderProblemCard)
+                {visibleInProgress && visibleInProgress.length > 0 ? (
+                  sortBySeverity(visibleInProgress).map(renderProblemCard)
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
                     Aucun problème en cours
@@ -278,8 +463,8 @@ export default function ProblemsPage() {
 
             <TabsContent value="resolved" className="m-0 p-4">
               <div className="space-y-3">
-                {resolvedProblems && resolvedProblems.length > 0 ? (
-                  sortBySeverity(resolvedProblems).map(renderProblemCard)
+                {visibleResolved && visibleResolved.length > 0 ? (
+                  sortBySeverity(visibleResolved).map(renderProblemCard)
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
                     Aucun problème résolu
@@ -295,6 +480,26 @@ export default function ProblemsPage() {
         open={dialogOpen}
         onOpenChange={setDialogOpen}
       />
+
+      <CreateActionDialog
+        open={!!actionProblem}
+        onOpenChange={(open) => !open && setActionProblem(null)}
+        defaultCategoryId={actionProblem?.category_id}
+        defaultTitle={actionProblem?.title}
+        problemId={actionProblem?.id}
+      />
+
+      <ProblemDetailsDialog
+        open={!!detailsProblem}
+        onOpenChange={(open) => !open && setDetailsProblem(null)}
+        problem={detailsProblem}
+      />
+
+      <ProblemRcaDialog
+        open={!!rcaProblem}
+        onOpenChange={(open) => !open && setRcaProblem(null)}
+        problem={rcaProblem}
+      />
     </AppLayout>
   );
 }
\ No newline at end of file
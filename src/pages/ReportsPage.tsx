@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useCategories, useKpis, useActions, useProblems } from '@/hooks/useSfmData';
+import { useBoard } from '@/contexts/BoardContext';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -40,10 +41,11 @@ export default function ReportsPage() {
   const [reportType, setReportType] = useState<'daily' | 'weekly' | 'custom'>('daily');
   const [isGenerating, setIsGenerating] = useState(false);
   
-  const { data: categories, isLoading: categoriesLoading } = useCategories();
-  const { data: kpis, isLoading: kpisLoading } = useKpis();
-  const { data: actions, isLoading: actionsLoading } = useActions();
-  const { data: problems, isLoading: problemsLoading } = useProblems();
+  const { boardIds } = useBoard();
+  const { data: categories, isLoading: categoriesLoading } = useCategories(boardIds);
+  const { data: kpis, isLoading: kpisLoading } = useKpis(undefined, boardIds);
+  const { data: actions, isLoading: actionsLoading } = useActions(undefined, undefined, boardIds);
+  const { data: problems, isLoading: problemsLoading } = useProblems(undefined, undefined, boardIds);
   const { hasPermission } = useAuth();
 
   const isLoading = categoriesLoading || kpisLoading || actionsLoading || problemsLoading;
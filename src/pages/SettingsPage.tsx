@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useAuth } from '@/hooks/useAuth';
 import { usePushNotifications, PushNotificationSettings } from '@/hooks/usePushNotifications';
+import { AlertScheduleCard } from '@/components/notifications/AlertScheduleCard';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -23,7 +24,8 @@ import {
   KeyRound,
   BellRing,
   CheckCircle2,
-  XCircle
+  XCircle,
+  Send
 } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 
@@ -45,11 +47,14 @@ export default function SettingsPage() {
   const queryClient = useQueryClient();
   const { 
     isSupported: pushSupported, 
+    isSubscribed: pushSubscribed,
     permission: pushPermission, 
     settings: pushSettings, 
     requestPermission, 
-    updateSettings: updatePushSettings 
+    updateSettings: updatePushSettings,
+    sendTestNotification,
   } = usePushNotifications();
+  const [sendingTestPush, setSendingTestPush] = useState(false);
 
   // All authenticated users can access settings
 
@@ -198,6 +203,23 @@ export default function SettingsPage() {
     saveAppSettingsMutation.mutate(appSettings);
   };
 
+  const handleTestPush = async () => {
+    setSendingTestPush(true);
+    try {
+      const { sent } = await sendTestNotification();
+      if (sent > 0) {
+        toast.success(`Notification de test envoyée sur ${sent} appareil(s)`);
+      } else {
+        toast.warning('Aucun appareil abonné aux notifications push');
+      }
+    } catch (error) {
+      console.error('Error sending test push:', error);
+      toast.error('Échec de l\'envoi de la notification de test');
+    } finally {
+      setSendingTestPush(false);
+    }
+  };
+
   const isLoading = userSettingsLoading || (role === 'admin' && appSettingsLoading);
 
   return (
@@ -382,11 +404,31 @@ export default function SettingsPage() {
                     />
                   </div>
 
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleTestPush}
+                    disabled={!pushSubscribed || sendingTestPush}
+                  >
+                    {sendingTestPush ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4 mr-2" />
+                    )}
+                    Envoyer une notification de test
+                  </Button>
+
                   {!pushSupported && (
                     <p className="text-xs text-muted-foreground italic">
                       Les notifications push ne sont pas disponibles sur ce navigateur.
                     </p>
                   )}
+                  {pushSupported && pushPermission === 'granted' && pushSettings.push_enabled && !pushSubscribed && (
+                    <p className="text-xs text-muted-foreground italic">
+                      Cet appareil n'est pas abonné au push serveur : les alertes ne s'affichent que lorsque l'application est ouverte.
+                    </p>
+                  )}
                 </div>
 
                 {/* Save Button */}
@@ -409,6 +451,9 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Scheduled alert generation - same roles as the manual refresh */}
+        {hasPermission('manager') && <AlertScheduleCard />}
+
         {/* Application Settings - Admin only */}
         {role === 'admin' && (
           <Card className="bg-card/50 border-border/50">
@@ -132,6 +132,7 @@ export default function UsersPage() {
       const { data, error } = await supabase
         .from('sfm_categories')
         .select('*')
+        .is('deleted_at', null)
         .order('display_order');
       if (error) throw error;
       return data as SfmCategory[];
@@ -1,5 +1,5 @@
 export type AppRole = 'admin' | 'manager' | 'team_leader' | 'operator';
-export type ActionStatus = 'todo' | 'in_progress' | 'completed' | 'overdue';
+export type ActionStatus = 'todo' | 'in_progress' | 'pending_validation' | 'completed' | 'overdue';
 export type ActionPriority = 'low' | 'medium' | 'high' | 'urgent';
 export type ProblemSeverity = 'low' | 'medium' | 'high' | 'critical';
 export type ProblemStatus = 'open' | 'in_progress' | 'resolved';
@@ -7,6 +7,9 @@ export type KpiFrequency = 'daily' | 'weekly' | 'monthly';
 export type KpiTrend = 'up' | 'down' | 'stable';
 export type KpiStatus = 'green' | 'orange' | 'red';
 export type ChartType = 'pareto' | 'histogram' | 'time_series' | 'control_chart' | 'box_plot';
+export type BoardLevel = 'site' | 'area' | 'line';
+export type RecurrenceType = 'daily' | 'weekly' | 'monthly';
+export type IshikawaBranch = 'method' | 'machine' | 'manpower' | 'material' | 'measurement' | 'environment';
 
 export interface Profile {
   id: string;
@@ -25,14 +28,38 @@ export interface UserRole {
   role: AppRole;
 }
 
+export interface Board {
+  id: string;
+  parent_id?: string | null;
+  name: string;
+  code: string;
+  level: BoardLevel;
+  display_order: number;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BoardMember {
+  id: string;
+  board_id: string;
+  user_id: string;
+  created_at: string;
+}
+
 export interface SfmCategory {
   id: string;
+  board_id: string;
   name: string;
   code: string;
   color: string;
   icon?: string;
   display_order: number;
   is_active: boolean;
+  // Set while the category sits in the trash
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   created_at: string;
 }
 
@@ -46,10 +73,13 @@ export interface Kpi {
   warning_threshold?: number;
   critical_threshold?: number;
   performance_direction?: string;
+  spc_baseline_size?: number;
   display_order?: number;
   frequency: KpiFrequency;
   chart_type: ChartType;
   is_active: boolean;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -68,6 +98,29 @@ export interface KpiValue {
   created_at: string;
 }
 
+export interface KpiValueBreakdown {
+  id: string;
+  kpi_value_id: string;
+  cause: string;
+  value: number;
+  created_at: string;
+}
+
+export interface KpiValueCorrection {
+  id: string;
+  kpi_id: string;
+  kpi_value_id?: string;
+  operation: 'update' | 'delete';
+  old_value: number;
+  new_value?: number;
+  old_recorded_at: string;
+  new_recorded_at?: string;
+  reason: string;
+  changed_by?: string;
+  created_at: string;
+  author?: { full_name: string } | null;
+}
+
 export interface Action {
   id: string;
   category_id: string;
@@ -78,11 +131,42 @@ export interface Action {
   responsible_id?: string;
   due_date: string;
   completed_at?: string;
+  requires_validation?: boolean | null;
+  validated_at?: string | null;
+  validated_by?: string | null;
+  // Manager's comment on the last approval or rejection
+  validation_comment?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
   responsible?: Profile;
   category?: SfmCategory;
+  template_id?: string | null;
+  problem_id?: string | null;
+  problem_cause_id?: string | null;
+  kpi_id?: string | null;
+  meeting_id?: string | null;
+  template?: Pick<ActionTemplate, 'recurrence_type' | 'recurrence_weekdays' | 'recurrence_day_of_month'> | null;
+}
+
+export interface ActionTemplate {
+  id: string;
+  category_id: string;
+  title: string;
+  description?: string;
+  priority: ActionPriority;
+  responsible_id?: string;
+  recurrence_type?: RecurrenceType | null;
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  recurrence_weekdays: number[];
+  recurrence_day_of_month?: number | null;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  category?: SfmCategory;
 }
 
 export interface Problem {
@@ -95,26 +179,273 @@ export interface Problem {
   reported_by?: string;
   assigned_to?: string;
   escalated: boolean;
+  // Step reached on the escalation ladder, 0 = team leader
+  escalation_level: number;
   resolved_at?: string;
   created_at: string;
   updated_at: string;
-  reporter?: Profile;
-  assignee?: Profile;
+  reporter?: Pick<Profile, 'full_name'> | null;
+  assignee?: Pick<Profile, 'full_name'> | null;
   category?: SfmCategory;
 }
 
+export type EscalationScope = 'board' | 'site';
+
+export interface EscalationRule {
+  id: string;
+  severity: ProblemSeverity;
+  level: number;
+  label: string;
+  after_hours: number;
+  target_role: AppRole;
+  target_scope: EscalationScope;
+  reassign: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProblemEscalation {
+  id: string;
+  problem_id: string;
+  rule_id?: string | null;
+  level: number;
+  label: string;
+  assigned_to?: string | null;
+  notified_count: number;
+  escalated_at: string;
+  assignee?: Pick<Profile, 'full_name'> | null;
+}
+
+export interface ProblemRca {
+  id: string;
+  problem_id: string;
+  whys: string[];
+  root_cause?: string | null;
+  containment_measures?: string | null;
+  corrective_measures?: string | null;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProblemCause {
+  id: string;
+  problem_id: string;
+  branch: IshikawaBranch;
+  description: string;
+  is_root_cause: boolean;
+  created_by?: string | null;
+  created_at: string;
+}
+
 export interface Note {
   id: string;
   category_id?: string;
   title?: string;
   content: string;
   is_pinned: boolean;
+  // Set when the note records a decision taken during an SFM meeting
+  meeting_id?: string | null;
   created_by?: string;
   created_at: string;
   author?: Profile;
   category?: SfmCategory;
 }
 
+export type AttachmentEntity = 'problem' | 'action' | 'note';
+
+export interface Attachment {
+  id: string;
+  problem_id?: string | null;
+  action_id?: string | null;
+  note_id?: string | null;
+  storage_path: string;
+  file_name: string;
+  mime_type?: string | null;
+  size_bytes?: number | null;
+  uploaded_by?: string | null;
+  created_at: string;
+  // Short-lived signed URL, the bucket is private
+  url?: string;
+}
+
+export type DiscussionEntity = 'action' | 'problem';
+
+export interface Comment {
+  id: string;
+  entity_type: DiscussionEntity;
+  entity_id: string;
+  content: string;
+  author_id?: string | null;
+  // Profiles (user_id) mentioned with @ in the content
+  mentions: string[];
+  created_at: string;
+  updated_at: string;
+  author?: Pick<Profile, 'full_name'> | null;
+}
+
+export type ActivityEvent = 'created' | 'status_changed' | 'reassigned' | 'due_date_changed' | 'escalated';
+
+export interface ActivityEntry {
+  id: string;
+  entity_type: DiscussionEntity;
+  entity_id: string;
+  event: ActivityEvent;
+  old_value?: string | null;
+  new_value?: string | null;
+  actor_id?: string | null;
+  board_id?: string | null;
+  created_at: string;
+  actor?: Pick<Profile, 'full_name'> | null;
+}
+
+export type TrashTable = 'sfm_categories' | 'kpis' | 'actions';
+
+export interface TrashItem {
+  id: string;
+  table: TrashTable;
+  name: string;
+  // Category name for KPIs and actions
+  context?: string | null;
+  deleted_at: string;
+  deleted_by?: string | null;
+  deleter?: Pick<Profile, 'full_name'> | null;
+}
+
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id?: string | null;
+  operation: AuditOperation;
+  old_data?: Record<string, unknown> | null;
+  new_data?: Record<string, unknown> | null;
+  changed_fields?: string[] | null;
+  actor_id?: string | null;
+  board_id?: string | null;
+  created_at: string;
+  actor?: Pick<Profile, 'full_name'> | null;
+}
+
+export interface Meeting {
+  id: string;
+  board_id: string;
+  planned_minutes: number;
+  started_at: string;
+  ended_at?: string | null;
+  facilitator_id?: string | null;
+  summary?: string | null;
+  created_at: string;
+  updated_at: string;
+  facilitator?: Pick<Profile, 'full_name'> | null;
+}
+
+export interface MeetingAttendee {
+  meeting_id: string;
+  user_id: string;
+  present: boolean;
+  profile?: Pick<Profile, 'full_name'> | null;
+}
+
+export interface MeetingSegment {
+  id: string;
+  meeting_id: string;
+  category_id?: string | null;
+  category_name: string;
+  position: number;
+  planned_seconds: number;
+  spent_seconds: number;
+  comment?: string | null;
+}
+
+// A segment being timed, before the meeting is saved
+export type MeetingSegmentDraft = Pick<MeetingSegment, 'category_id' | 'category_name' | 'position' | 'planned_seconds' | 'spent_seconds' | 'comment'>;
+
+// Everything the meeting minutes are made of
+export interface MeetingDetails extends Meeting {
+  board?: Pick<Board, 'name'> | null;
+  attendees: MeetingAttendee[];
+  segments: MeetingSegment[];
+  notes: Note[];
+  actions: Action[];
+}
+
+export interface DisplayToken {
+  id: string;
+  name: string;
+  board_id: string;
+  token_hint: string;
+  rotate_seconds: number;
+  created_by?: string | null;
+  created_at: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  board?: Pick<Board, 'name'> | null;
+}
+
+// Read-only snapshot returned by get_display_board for kiosk screens
+export interface DisplayCategory {
+  id: string;
+  name: string;
+  code: string;
+  color: string;
+  board_name: string;
+  kpis: (Pick<Kpi, 'id' | 'name' | 'unit' | 'target_value' | 'performance_direction'> & {
+    values: Pick<KpiValue, 'value' | 'recorded_at' | 'status'>[];
+  })[];
+  open_actions: number;
+  overdue_actions: number;
+  actions: (Pick<Action, 'id' | 'title' | 'status' | 'priority' | 'due_date'> & { responsible: string | null })[];
+  open_problems: number;
+  problems: Pick<Problem, 'id' | 'title' | 'severity' | 'status' | 'created_at'>[];
+}
+
+export interface DisplayBoard {
+  name: string;
+  rotate_seconds: number;
+  generated_at: string;
+  board: Pick<Board, 'id' | 'name'>;
+  categories: DisplayCategory[];
+}
+
+// Offline entries get their id on the tablet so that a replay is idempotent
+export interface NewKpiValue {
+  id?: string;
+  kpi_id: string;
+  value: number;
+  week_number?: number;
+  recorded_at?: string;
+  comment?: string;
+  recorded_by?: string;
+  breakdown?: { cause: string; value: number }[];
+}
+
+export interface NewProblem {
+  id?: string;
+  category_id: string;
+  title: string;
+  description?: string;
+  severity?: ProblemSeverity;
+  reported_by?: string;
+  assigned_to?: string | null;
+  status?: ProblemStatus;
+  escalated?: boolean;
+}
+
+export type OfflineMutation =
+  | { kind: 'kpi_value'; payload: NewKpiValue }
+  | { kind: 'problem'; payload: NewProblem };
+
+// Entry typed on a tablet while the network was down, waiting to be sent
+export type QueuedMutation = OfflineMutation & {
+  id: string;
+  user_id: string;
+  queued_at: string;
+  // Why the replay was held back, null while it can be sent as is
+  conflict: string | null;
+};
+
 export interface SmartAlert {
   id: string;
   type: string;
@@ -124,9 +455,101 @@ export interface SmartAlert {
   related_id?: string;
   related_type?: string;
   category_id?: string;
-  is_read: boolean;
+  rule_id?: string | null;
+  recipient_id?: string | null;
+  acknowledged_at?: string | null;
+  acknowledged_by?: string | null;
+  assigned_to?: string | null;
+  snoozed_until?: string | null;
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+  auto_resolved?: boolean;
   created_at: string;
   category?: SfmCategory;
+  acknowledger?: Pick<Profile, 'full_name'> | null;
+  assignee?: Pick<Profile, 'full_name'> | null;
+  resolver?: Pick<Profile, 'full_name'> | null;
+}
+
+// Copy of an alert for one recipient, carrying their own read state
+export interface AlertDelivery {
+  id: string;
+  alert_id: string;
+  user_id: string;
+  read_at: string | null;
+  created_at: string;
+  alert?: SmartAlert;
+}
+
+// Derived from the lifecycle columns, see src/lib/alertLifecycle.ts
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export type AlertRuleType =
+  | 'kpi_status'
+  | 'kpi_threshold'
+  | 'kpi_trend'
+  | 'kpi_spc'
+  | 'problem_severity'
+  | 'open_problems'
+  | 'action_overdue'
+  | 'action_due_today'
+  | 'action_stale';
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Settings of a rule, each type reads its own keys
+export interface AlertRuleParams {
+  status?: 'red' | 'orange';
+  operator?: 'lt' | 'lte' | 'gt' | 'gte';
+  value?: number;
+  consecutive?: number;
+  severities?: ProblemSeverity[];
+  max_open?: number;
+  priorities?: ActionPriority[];
+  days?: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  rule_type: AlertRuleType;
+  board_id?: string | null;
+  category_id?: string | null;
+  kpi_id?: string | null;
+  params: AlertRuleParams;
+  severity: AlertSeverity;
+  // Lowest role that sees the alerts, null for every board member
+  audience_role?: AppRole | null;
+  cooldown_minutes: number;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertSchedule {
+  enabled: boolean;
+  // null: shift starts only
+  interval_minutes: number | null;
+  // Local 'HH:MM' times
+  shift_starts: string[];
+  last_dispatched_at?: string | null;
+  updated_at: string;
+}
+
+export interface AlertRun {
+  id: string;
+  trigger: 'manual' | 'schedule';
+  triggered_by?: string | null;
+  status: 'success' | 'error';
+  total_checked: number;
+  new_alerts_created: number;
+  duplicates_skipped: number;
+  error?: string | null;
+  started_at: string;
+  finished_at: string;
+  author?: Pick<Profile, 'full_name'> | null;
 }
 
 export interface CategoryStats {
@@ -0,0 +1,94 @@
+import webpush from 'npm:web-push@3.6.7';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Payload read by the push handler of public/sw.js
+export interface PushMessage {
+  id: string;
+  title: string;
+  message: string;
+  severity: string;
+  url: string;
+}
+
+export type PushSettingKey = 'push_kpi_alerts' | 'push_action_reminders' | 'push_problem_alerts';
+
+// VAPID keys are function secrets, push stays disabled until they are set
+export function configureWebPush(): boolean {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) {
+    console.log('VAPID keys missing, web push disabled');
+    return false;
+  }
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') || 'mailto:admin@sfm-digiboard.app', publicKey, privateKey);
+  return true;
+}
+
+// User setting that lets a type of alert through, null when only push_enabled applies
+export function pushSettingFor(alertType: string): PushSettingKey | null {
+  if (alertType.startsWith('kpi_')) return 'push_kpi_alerts';
+  if (alertType.startsWith('action_')) return 'push_action_reminders';
+  if (alertType.startsWith('problem_')) return 'push_problem_alerts';
+  return null;
+}
+
+// Page opened when the notification is clicked
+export function pushUrlFor(relatedType?: string | null): string {
+  if (relatedType === 'action') return '/actions';
+  if (relatedType === 'kpi') return '/dashboard';
+  if (relatedType === 'problem') return '/problems';
+  return '/alerts';
+}
+
+// Sends each message to every device of its user; subscriptions the push service
+// reports as gone (404/410) are deleted
+export async function sendPushMessages(
+  supabaseAdmin: SupabaseClient,
+  messages: { userId: string; message: PushMessage }[]
+): Promise<{ sent: number; removed: number }> {
+  const userIds = [...new Set(messages.map(m => m.userId))];
+  if (userIds.length === 0) return { sent: 0, removed: 0 };
+
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from('push_subscriptions')
+    .select('id, user_id, endpoint, p256dh, auth')
+    .in('user_id', userIds);
+  if (error) throw error;
+
+  const expired = new Set<string>();
+  const used = new Set<string>();
+  const deliveries = messages.flatMap(({ userId, message }) =>
+    (subscriptions || []).filter(s => s.user_id === userId).map(subscription => ({ subscription, message }))
+  );
+
+  const results = await Promise.allSettled(deliveries.map(({ subscription, message }) =>
+    webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(message),
+      { TTL: 24 * 60 * 60, urgency: message.severity === 'critical' || message.severity === 'high' ? 'high' : 'normal' }
+    )
+  ));
+
+  let sent = 0;
+  results.forEach((result, i) => {
+    const { subscription } = deliveries[i];
+    if (result.status === 'fulfilled') {
+      sent++;
+      used.add(subscription.id);
+    } else if (result.reason?.statusCode === 404 || result.reason?.statusCode === 410) {
+      expired.add(subscription.id);
+    } else {
+      console.error('Error sending push notification:', result.reason);
+    }
+  });
+
+  if (expired.size > 0) {
+    console.log(`Removing ${expired.size} expired push subscriptions...`);
+    await supabaseAdmin.from('push_subscriptions').delete().in('id', [...expired]);
+  }
+  if (used.size > 0) {
+    await supabaseAdmin.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).in('id', [...used]);
+  }
+
+  return { sent, removed: expired.size };
+}
@@ -1,4 +1,5 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { configureWebPush, pushSettingFor, pushUrlFor, sendPushMessages } from '../_shared/webPush.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +14,178 @@ interface AlertData {
   related_id?: string;
   related_type?: string;
   category_id?: string;
+  rule_id: string;
+  audience_role: string | null;
+}
+
+// Row of alert_rules, see the rule types in src/lib/alertRules.ts
+interface AlertRule {
+  id: string;
+  name: string;
+  rule_type: string;
+  board_id: string | null;
+  category_id: string | null;
+  kpi_id: string | null;
+  params: {
+    status?: string;
+    operator?: string;
+    value?: number;
+    consecutive?: number;
+    severities?: string[];
+    max_open?: number;
+    priorities?: string[];
+    days?: number;
+  };
+  severity: string;
+  audience_role: string | null;
+  cooldown_minutes: number;
+}
+
+// Row of kpi_alert_series()
+interface KpiSeries {
+  kpi_id: string;
+  name: string;
+  category_id: string;
+  chart_type: string | null;
+  spc_baseline_size: number | null;
+  value: number;
+  status: string | null;
+  trend: string | null;
+  series: number[] | null;
+}
+
+const OPERATOR_LABELS = {
+  lt: 'inférieur à',
+  lte: 'inférieur ou égal à',
+  gt: 'supérieur à',
+  gte: 'supérieur ou égal à',
+};
+
+function compare(value: number, operator: keyof typeof OPERATOR_LABELS, threshold: number): boolean {
+  switch (operator) {
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+  }
+}
+
+// SPC rule labels, mirrored from src/lib/spc.ts
+const SPC_RULE_LABELS: Record<string, string> = {
+  beyond_3_sigma: '1 point au-delà de ±3σ',
+  two_of_three_beyond_2_sigma: '2 points sur 3 au-delà de 2σ',
+  four_of_five_beyond_1_sigma: '4 points sur 5 au-delà de 1σ',
+  eight_same_side: '8 points consécutifs du même côté de la moyenne',
+  six_trending: '6 points consécutifs en hausse ou en baisse',
+};
+
+// Western Electric / Nelson rules broken by the last point of the series
+function detectLatestSpcViolations(values: number[], baselineSize: number): string[] {
+  const baseline = values.slice(0, baselineSize);
+  if (baseline.length < 2) return [];
+
+  const mean = baseline.reduce((sum, v) => sum + v, 0) / baseline.length;
+  const sigma = Math.sqrt(baseline.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (baseline.length - 1));
+  if (sigma === 0) return [];
+
+  const zone = (v: number) => (v - mean) / sigma;
+  const side = (v: number) => Math.sign(v - mean);
+  const i = values.length - 1;
+  const latest = values[i];
+  const rules: string[] = [];
+
+  if (Math.abs(zone(latest)) > 3) rules.push('beyond_3_sigma');
+
+  if (i >= 2 && Math.abs(zone(latest)) > 2) {
+    const count = values.slice(i - 2).filter(v => side(v) === side(latest) && Math.abs(zone(v)) > 2).length;
+    if (count >= 2) rules.push('two_of_three_beyond_2_sigma');
+  }
+
+  if (i >= 4 && Math.abs(zone(latest)) > 1) {
+    const count = values.slice(i - 4).filter(v => side(v) === side(latest) && Math.abs(zone(v)) > 1).length;
+    if (count >= 4) rules.push('four_of_five_beyond_1_sigma');
+  }
+
+  if (i >= 7 && side(latest) !== 0 && values.slice(i - 7).every(v => side(v) === side(latest))) {
+    rules.push('eight_same_side');
+  }
+
+  if (i >= 5) {
+    const window = values.slice(i - 5);
+    const increasing = window.every((v, k) => k === 0 || v > window[k - 1]);
+    const decreasing = window.every((v, k) => k === 0 || v < window[k - 1]);
+    if (increasing || decreasing) rules.push('six_trending');
+  }
+
+  return rules;
+}
+
+// PostgREST returns at most 1000 rows per request: read every page of an ordered query
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[] | null; error: unknown }> {
+  const pageSize = 1000;
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await fetchPage(from, from + pageSize - 1);
+    if (error) return { data: null, error };
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) return { data: rows, error: null };
+  }
+}
+
+// Pushes the deliveries of the last 24 hours not pushed yet, including the alerts
+// raised by database triggers (escalations, mentions) since the previous run
+async function pushPendingDeliveries(supabaseAdmin: SupabaseClient) {
+  if (!configureWebPush()) return { sent: 0, removed: 0 };
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const { data: deliveries, error } = await supabaseAdmin
+    .from('alert_deliveries')
+    .select('id, user_id, alert:smart_alerts!inner(id, type, title, message, severity, related_type, resolved_at)')
+    .is('pushed_at', null)
+    .is('read_at', null)
+    .gte('created_at', since);
+  if (error) {
+    console.error('Error fetching deliveries to push:', error);
+    return { sent: 0, removed: 0 };
+  }
+  if (!deliveries || deliveries.length === 0) return { sent: 0, removed: 0 };
+
+  const userIds = [...new Set(deliveries.map(d => d.user_id))];
+  const { data: settings } = await supabaseAdmin
+    .from('user_settings')
+    .select('user_id, push_enabled, push_kpi_alerts, push_action_reminders, push_problem_alerts')
+    .in('user_id', userIds);
+  const settingsByUser = new Map((settings || []).map(s => [s.user_id, s]));
+
+  const messages = deliveries
+    .filter(d => {
+      const userSettings = settingsByUser.get(d.user_id);
+      if (!userSettings?.push_enabled || d.alert.resolved_at) return false;
+      const key = pushSettingFor(d.alert.type);
+      return !key || userSettings[key] !== false;
+    })
+    .map(d => ({
+      userId: d.user_id,
+      message: {
+        id: d.alert.id,
+        title: d.alert.title || 'Nouvelle alerte',
+        message: d.alert.message,
+        severity: d.alert.severity,
+        url: pushUrlFor(d.alert.related_type),
+      },
+    }));
+
+  const result = await sendPushMessages(supabaseAdmin, messages);
+
+  // Filtered out deliveries are settled too, they are never pushed later
+  await supabaseAdmin
+    .from('alert_deliveries')
+    .update({ pushed_at: new Date().toISOString() })
+    .in('id', deliveries.map(d => d.id));
+
+  return result;
 }
 
 Deno.serve(async (req) => {
@@ -21,13 +194,19 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+  const startedAt = new Date().toISOString();
+  // Scheduled runs come from pg_cron (dispatch_scheduled_alerts) with the service role key
+  let trigger: 'manual' | 'schedule' = 'manual';
+  let triggeredBy: string | null = null;
+
   try {
     console.log('Starting alert generation...');
 
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-
     // 1. Verify JWT token
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
@@ -38,216 +217,338 @@ Deno.serve(async (req) => {
       );
     }
 
-    // 2. Create client with user context to verify authentication
-    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } }
-    });
-
-    // 3. Verify user authentication
-    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
-    if (authError || !user) {
-      console.log('Invalid token:', authError?.message);
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized - invalid token' }), 
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    console.log('User authenticated:', user.id);
+    if (authHeader === `Bearer ${supabaseServiceKey}`) {
+      trigger = 'schedule';
+      console.log('Scheduled run');
+    } else {
+      // 2. Create client with user context to verify authentication
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } }
+      });
+
+      // 3. Verify user authentication
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+      if (authError || !user) {
+        console.log('Invalid token:', authError?.message);
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized - invalid token' }), 
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    // 4. Check if user has admin or manager role using service role for the check
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
-    const { data: roleData, error: roleError } = await supabaseAdmin
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
+      console.log('User authenticated:', user.id);
+
+      // 4. Check if user has admin or manager role using service role for the check
+      const { data: roleData, error: roleError } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+      if (roleError) {
+        console.log('Error fetching user role:', roleError.message);
+        return new Response(
+          JSON.stringify({ error: 'Forbidden - unable to verify role' }), 
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    if (roleError) {
-      console.log('Error fetching user role:', roleError.message);
-      return new Response(
-        JSON.stringify({ error: 'Forbidden - unable to verify role' }), 
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+      if (!roleData || !['admin', 'manager'].includes(roleData.role)) {
+        console.log('User does not have required role:', roleData?.role);
+        return new Response(
+          JSON.stringify({ error: 'Forbidden - admin or manager role required' }), 
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    if (!roleData || !['admin', 'manager'].includes(roleData.role)) {
-      console.log('User does not have required role:', roleData?.role);
-      return new Response(
-        JSON.stringify({ error: 'Forbidden - admin or manager role required' }), 
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      console.log('User role verified:', roleData.role);
+      triggeredBy = user.id;
     }
 
-    console.log('User role verified:', roleData.role);
-
     // 5. Now proceed with alert generation using service role
     const today = new Date().toISOString().split('T')[0];
     const alertsToCreate: AlertData[] = [];
 
-    // Check for KPI alerts (critical status or negative trend)
-    console.log('Checking KPI alerts...');
-    const { data: kpiValues, error: kpiError } = await supabaseAdmin
-      .from('kpi_values')
-      .select(`
-        id,
-        kpi_id,
-        value,
-        status,
-        trend,
-        recorded_at,
-        kpi:kpis(id, name, category_id)
-      `)
-      .order('recorded_at', { ascending: false });
-
-    if (kpiError) {
-      console.error('Error fetching KPI values:', kpiError);
-    } else if (kpiValues) {
-      // Group by KPI to get latest value per KPI
-      const latestByKpi = new Map<string, any>();
-      for (const value of kpiValues) {
-        if (!latestByKpi.has(value.kpi_id)) {
-          latestByKpi.set(value.kpi_id, value);
+    const { data: rulesData, error: rulesError } = await supabaseAdmin
+      .from('alert_rules')
+      .select('id, name, rule_type, board_id, category_id, kpi_id, params, severity, audience_role, cooldown_minutes')
+      .eq('is_active', true);
+    if (rulesError) throw rulesError;
+    const rules = (rulesData || []) as AlertRule[];
+    const rulesOfType = (...types: string[]) => rules.filter(r => types.includes(r.rule_type));
+    console.log(`Evaluating ${rules.length} alert rules...`);
+
+    // Rule scopes: a category belongs to a board, a board includes its sub-boards
+    const { data: categories, error: categoriesError } = await supabaseAdmin
+      .from('sfm_categories')
+      .select('id, name, board_id')
+      .is('deleted_at', null);
+    if (categoriesError) throw categoriesError;
+    const { data: boards, error: boardsError } = await supabaseAdmin.from('boards').select('id, parent_id');
+    if (boardsError) throw boardsError;
+
+    const categoriesById = new Map((categories || []).map(c => [c.id, c]));
+    const boardScopes = new Map<string, Set<string>>();
+    const boardsUnder = (boardId: string) => {
+      if (!boardScopes.has(boardId)) {
+        const ids = new Set([boardId]);
+        let added = true;
+        while (added) {
+          added = false;
+          for (const board of boards || []) {
+            if (board.parent_id && ids.has(board.parent_id) && !ids.has(board.id)) {
+              ids.add(board.id);
+              added = true;
+            }
+          }
         }
+        boardScopes.set(boardId, ids);
       }
+      return boardScopes.get(boardId)!;
+    };
 
-      for (const [kpiId, latestValue] of latestByKpi) {
-        const kpi = latestValue.kpi as any;
-        if (!kpi) continue;
-
-        // KPI critical (red status)
-        if (latestValue.status === 'red') {
-          alertsToCreate.push({
-            type: 'kpi_critical',
-            title: `KPI critique: ${kpi.name}`,
-            message: `Le KPI "${kpi.name}" est en zone critique (rouge). Valeur actuelle: ${latestValue.value}`,
-            severity: 'critical',
-            related_id: kpiId,
-            related_type: 'kpi',
-            category_id: kpi.category_id,
-          });
-        }
+    const inScope = (rule: AlertRule, categoryId: string, kpiId?: string) => {
+      const category = categoriesById.get(categoryId);
+      if (!category) return false;
+      if (rule.kpi_id && rule.kpi_id !== kpiId) return false;
+      if (rule.category_id && rule.category_id !== categoryId) return false;
+      if (rule.board_id && !boardsUnder(rule.board_id).has(category.board_id)) return false;
+      return true;
+    };
 
-        // KPI warning (orange status)
-        if (latestValue.status === 'orange') {
-          alertsToCreate.push({
-            type: 'kpi_warning',
-            title: `KPI en alerte: ${kpi.name}`,
-            message: `Le KPI "${kpi.name}" est en zone d'alerte (orange). Valeur actuelle: ${latestValue.value}`,
-            severity: 'high',
-            related_id: kpiId,
-            related_type: 'kpi',
-            category_id: kpi.category_id,
-          });
-        }
+    const raise = (rule: AlertRule, alert: Omit<AlertData, 'severity' | 'rule_id' | 'audience_role'>) => {
+      alertsToCreate.push({ ...alert, severity: rule.severity, rule_id: rule.id, audience_role: rule.audience_role });
+    };
 
-        // KPI negative trend (declining performance)
-        if (latestValue.trend === 'down' && latestValue.status !== 'green') {
-          alertsToCreate.push({
-            type: 'kpi_trend',
-            title: `Tendance négative: ${kpi.name}`,
-            message: `Le KPI "${kpi.name}" montre une tendance à la baisse.`,
-            severity: 'medium',
-            related_id: kpiId,
-            related_type: 'kpi',
-            category_id: kpi.category_id,
-          });
+    // Rules whose data could be read in full, and rule/item pairs that were checked:
+    // only their alerts may be auto-resolved
+    const evaluatedRuleIds = new Set<string>();
+    const evaluatedKeys = new Set<string>();
+
+    // KPI rules
+    const kpiRules = rulesOfType('kpi_status', 'kpi_threshold', 'kpi_trend', 'kpi_spc');
+    if (kpiRules.length > 0) {
+      console.log('Checking KPI rules...');
+      // One row per KPI with its latest value and whole series
+      const { data: kpiSeries, error: kpiError } = await fetchAllRows<KpiSeries>((from, to) =>
+        supabaseAdmin.rpc('kpi_alert_series').range(from, to)
+      );
+
+      if (kpiError) {
+        console.error('Error fetching KPI values:', kpiError);
+      } else if (kpiSeries) {
+        for (const kpi of kpiSeries) {
+          const kpiId = kpi.kpi_id;
+          const series = (kpi.series || []).map(Number);
+          const target = { related_id: kpiId, related_type: 'kpi', category_id: kpi.category_id };
+
+          for (const rule of kpiRules) {
+            if (!inScope(rule, kpi.category_id, kpiId)) continue;
+            evaluatedKeys.add(`${rule.id}-${kpiId}`);
+
+            if (rule.rule_type === 'kpi_status' && kpi.status === rule.params.status) {
+              const isRed = kpi.status === 'red';
+              raise(rule, {
+                ...target,
+                type: isRed ? 'kpi_critical' : 'kpi_warning',
+                title: isRed ? `KPI critique: ${kpi.name}` : `KPI en alerte: ${kpi.name}`,
+                message: isRed
+                  ? `Le KPI "${kpi.name}" est en zone critique (rouge). Valeur actuelle: ${kpi.value}`
+                  : `Le KPI "${kpi.name}" est en zone d'alerte (orange). Valeur actuelle: ${kpi.value}`,
+              });
+            }
+
+            // Declining performance
+            if (rule.rule_type === 'kpi_trend' && kpi.trend === 'down' && kpi.status !== 'green') {
+              raise(rule, {
+                ...target,
+                type: 'kpi_trend',
+                title: `Tendance négative: ${kpi.name}`,
+                message: `Le KPI "${kpi.name}" montre une tendance à la baisse.`,
+              });
+            }
+
+            // SPC rule violations on control chart KPIs
+            if (rule.rule_type === 'kpi_spc' && kpi.chart_type === 'control_chart') {
+              const spcRules = detectLatestSpcViolations(series, kpi.spc_baseline_size || 20);
+              if (spcRules.length > 0) {
+                raise(rule, {
+                  ...target,
+                  type: 'kpi_spc_violation',
+                  title: `Hors contrôle SPC: ${kpi.name}`,
+                  message: `Le KPI "${kpi.name}" est hors contrôle statistique (${spcRules.map(r => SPC_RULE_LABELS[r]).join(', ')}). Valeur actuelle: ${kpi.value}`,
+                });
+              }
+            }
+
+            // e.g. below 85 for 3 consecutive values
+            if (rule.rule_type === 'kpi_threshold') {
+              const operator = rule.params.operator as keyof typeof OPERATOR_LABELS;
+              const threshold = Number(rule.params.value);
+              const consecutive = Math.max(1, Number(rule.params.consecutive) || 1);
+              const lastValues = series.slice(-consecutive);
+              if (
+                OPERATOR_LABELS[operator] && !isNaN(threshold)
+                && lastValues.length === consecutive
+                && lastValues.every(v => compare(v, operator, threshold))
+              ) {
+                raise(rule, {
+                  ...target,
+                  type: 'kpi_threshold',
+                  title: `Seuil franchi: ${kpi.name}`,
+                  message: `Le KPI "${kpi.name}" est ${OPERATOR_LABELS[operator]} ${threshold} sur ${consecutive} valeur(s) consécutive(s). Valeur actuelle: ${kpi.value}`,
+                });
+              }
+            }
+          }
         }
       }
     }
 
-    // Check for overdue actions
-    console.log('Checking overdue actions...');
-    const { data: overdueActions, error: actionsError } = await supabaseAdmin
-      .from('actions')
-      .select('id, title, due_date, priority, category_id')
-      .lt('due_date', today)
-      .neq('status', 'completed');
-
-    if (actionsError) {
-      console.error('Error fetching overdue actions:', actionsError);
-    } else if (overdueActions) {
-      for (const action of overdueActions) {
-        const isUrgent = action.priority === 'urgent' || action.priority === 'high';
-        alertsToCreate.push({
-          type: 'action_overdue',
-          title: `Action en retard: ${action.title}`,
-          message: `L'action "${action.title}" est en retard (échéance: ${action.due_date})`,
-          severity: isUrgent ? 'critical' : 'high',
-          related_id: action.id,
-          related_type: 'action',
-          category_id: action.category_id,
-        });
+    // Action rules
+    const actionRules = rulesOfType('action_overdue', 'action_due_today', 'action_stale');
+    if (actionRules.length > 0) {
+      console.log('Checking action rules...');
+      const { data: openActions, error: actionsError } = await fetchAllRows((from, to) =>
+        supabaseAdmin
+          .from('actions')
+          .select('id, title, due_date, priority, category_id, updated_at')
+          .not('status', 'in', '(completed,pending_validation)')
+          .is('deleted_at', null)
+          .order('id')
+          .range(from, to)
+      );
+
+      if (actionsError) {
+        console.error('Error fetching open actions:', actionsError);
+      } else if (openActions) {
+        actionRules.forEach(r => evaluatedRuleIds.add(r.id));
+        for (const action of openActions) {
+          const target = { related_id: action.id, related_type: 'action', category_id: action.category_id };
+
+          for (const rule of actionRules) {
+            if (!inScope(rule, action.category_id)) continue;
+            const priorities: string[] = rule.params.priorities || [];
+            const priorityMatches = priorities.length === 0 || priorities.includes(action.priority);
+
+            if (rule.rule_type === 'action_overdue' && priorityMatches && action.due_date < today) {
+              raise(rule, {
+                ...target,
+                type: 'action_overdue',
+                title: `Action en retard: ${action.title}`,
+                message: `L'action "${action.title}" est en retard (échéance: ${action.due_date})`,
+              });
+            }
+
+            if (rule.rule_type === 'action_due_today' && priorityMatches && action.due_date === today) {
+              raise(rule, {
+                ...target,
+                type: 'action_urgent',
+                title: `Action urgente aujourd'hui: ${action.title}`,
+                message: `L'action urgente "${action.title}" doit être terminée aujourd'hui.`,
+              });
+            }
+
+            if (rule.rule_type === 'action_stale') {
+              const days = Math.max(1, Number(rule.params.days) || 7);
+              if (Date.now() - new Date(action.updated_at).getTime() > days * 24 * 60 * 60 * 1000) {
+                raise(rule, {
+                  ...target,
+                  type: 'action_stale',
+                  title: `Action sans suivi: ${action.title}`,
+                  message: `L'action "${action.title}" n'a pas été mise à jour depuis plus de ${days} jour(s).`,
+                });
+              }
+            }
+          }
+        }
       }
     }
 
-    // Check for critical/high priority actions due today
-    console.log('Checking urgent actions due today...');
-    const { data: urgentTodayActions, error: urgentError } = await supabaseAdmin
-      .from('actions')
-      .select('id, title, priority, category_id')
-      .eq('due_date', today)
-      .in('priority', ['urgent', 'high'])
-      .neq('status', 'completed');
-
-    if (urgentError) {
-      console.error('Error fetching urgent actions:', urgentError);
-    } else if (urgentTodayActions) {
-      for (const action of urgentTodayActions) {
-        alertsToCreate.push({
-          type: 'action_urgent',
-          title: `Action urgente aujourd'hui: ${action.title}`,
-          message: `L'action urgente "${action.title}" doit être terminée aujourd'hui.`,
-          severity: 'high',
-          related_id: action.id,
-          related_type: 'action',
-          category_id: action.category_id,
-        });
-      }
+    // Climb the escalation ladder before looking at problems
+    console.log('Escalating problems past their SLA...');
+    const { data: escalationSteps, error: escalationError } = await supabaseAdmin.rpc('escalate_problems');
+    if (escalationError) {
+      console.error('Error escalating problems:', escalationError);
+    } else {
+      console.log(`Escalation steps taken: ${escalationSteps}`);
     }
 
-    // Check for critical/high severity problems
-    console.log('Checking critical problems...');
-    const { data: criticalProblems, error: problemsError } = await supabaseAdmin
-      .from('problems')
-      .select('id, title, severity, category_id, created_at')
-      .in('severity', ['critical', 'high'])
-      .neq('status', 'resolved');
-
-    if (problemsError) {
-      console.error('Error fetching problems:', problemsError);
-    } else if (criticalProblems) {
-      for (const problem of criticalProblems) {
-        const isCritical = problem.severity === 'critical';
-        
-        // Check if problem is old (more than 3 days)
-        const createdDate = new Date(problem.created_at);
-        const daysSinceCreation = Math.floor((Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
-        const isOld = daysSinceCreation > 3;
-
-        alertsToCreate.push({
-          type: isOld ? 'problem_unresolved' : 'problem_critical',
-          title: `Problème ${isCritical ? 'critique' : 'important'}: ${problem.title}`,
-          message: isOld 
-            ? `Le problème "${problem.title}" n'est pas résolu depuis ${daysSinceCreation} jours.`
-            : `Problème de gravité ${isCritical ? 'critique' : 'élevée'}: "${problem.title}"`,
-          severity: isCritical ? 'critical' : 'high',
-          related_id: problem.id,
-          related_type: 'problem',
-          category_id: problem.category_id,
-        });
+    // Problem rules
+    const problemRules = rulesOfType('problem_severity', 'open_problems');
+    if (problemRules.length > 0) {
+      console.log('Checking problem rules...');
+      const { data: openProblems, error: problemsError } = await fetchAllRows((from, to) =>
+        supabaseAdmin
+          .from('problems')
+          .select('id, title, severity, category_id, created_at, escalation_level')
+          .neq('status', 'resolved')
+          .order('id')
+          .range(from, to)
+      );
+
+      if (problemsError) {
+        console.error('Error fetching problems:', problemsError);
+      } else if (openProblems) {
+        problemRules.forEach(r => evaluatedRuleIds.add(r.id));
+        for (const rule of problemRules) {
+          const severities: string[] = rule.params.severities || [];
+          const matching = openProblems.filter(p =>
+            inScope(rule, p.category_id) && (severities.length === 0 || severities.includes(p.severity))
+          );
+
+          if (rule.rule_type === 'problem_severity') {
+            for (const problem of matching) {
+              const isCritical = problem.severity === 'critical';
+
+              // Escalated problems are past the SLA of their severity
+              const isEscalated = problem.escalation_level > 0;
+              const daysSinceCreation = Math.floor((Date.now() - new Date(problem.created_at).getTime()) / (1000 * 60 * 60 * 24));
+
+              raise(rule, {
+                type: isEscalated ? 'problem_unresolved' : 'problem_critical',
+                title: `Problème ${isCritical ? 'critique' : 'important'}: ${problem.title}`,
+                message: isEscalated
+                  ? `Le problème "${problem.title}" n'est pas résolu depuis ${daysSinceCreation} jour(s) (escalade niveau ${problem.escalation_level}).`
+                  : `Problème de gravité ${isCritical ? 'critique' : 'élevée'}: "${problem.title}"`,
+                related_id: problem.id,
+                related_type: 'problem',
+                category_id: problem.category_id,
+              });
+            }
+          }
+
+          // e.g. more than 5 open problems in category Q
+          if (rule.rule_type === 'open_problems') {
+            const maxOpen = Number(rule.params.max_open) || 0;
+            const countByCategory = new Map<string, number>();
+            for (const problem of matching) {
+              countByCategory.set(problem.category_id, (countByCategory.get(problem.category_id) || 0) + 1);
+            }
+            for (const [categoryId, count] of countByCategory) {
+              if (count <= maxOpen) continue;
+              const categoryName = categoriesById.get(categoryId)?.name;
+              raise(rule, {
+                type: 'problem_backlog',
+                title: `Trop de problèmes ouverts: ${categoryName}`,
+                message: `${count} problèmes ouverts dans la catégorie "${categoryName}" (seuil: ${maxOpen}).`,
+                related_id: categoryId,
+                related_type: 'category',
+                category_id: categoryId,
+              });
+            }
+          }
+        }
       }
     }
 
-    // Delete old read alerts (cleanup - older than 7 days)
+    // Resolved alerts are kept 90 days for the handling history
     console.log('Cleaning up old alerts...');
-    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString();
     const { error: deleteError } = await supabaseAdmin
       .from('smart_alerts')
       .delete()
-      .eq('is_read', true)
-      .lt('created_at', sevenDaysAgo);
+      .lt('resolved_at', ninetyDaysAgo);
 
     if (deleteError) {
       console.error('Error deleting old alerts:', deleteError);
@@ -255,24 +556,63 @@ Deno.serve(async (req) => {
 
     // Check for existing alerts to avoid duplicates
     console.log(`Processing ${alertsToCreate.length} potential alerts...`);
-    
-    const { data: existingAlerts, error: existingError } = await supabaseAdmin
-      .from('smart_alerts')
-      .select('related_id, type')
-      .eq('is_read', false);
+
+    // Resolved alerts only matter within the longest cooldown
+    const maxCooldown = Math.max(0, ...rules.map(r => r.cooldown_minutes));
+    const cooldownStart = new Date(Date.now() - maxCooldown * 60 * 1000).toISOString();
+    const { data: existingAlerts, error: existingError } = await fetchAllRows((from, to) =>
+      supabaseAdmin
+        .from('smart_alerts')
+        .select('id, rule_id, related_id, type, resolved_at, created_at')
+        .or(`resolved_at.is.null,created_at.gte.${cooldownStart}`)
+        .order('id')
+        .range(from, to)
+    );
 
     if (existingError) {
       console.error('Error fetching existing alerts:', existingError);
     }
 
-    const existingSet = new Set(
-      existingAlerts?.map(a => `${a.type}-${a.related_id}`) || []
-    );
+    // Auto-resolve alerts whose condition cleared, e.g. the KPI went green or the action was completed
+    const raisedKeys = new Set(alertsToCreate.map(a => `${a.rule_id}-${a.related_id}`));
+    const clearedIds = (existingAlerts || [])
+      .filter(a => {
+        if (a.resolved_at || !a.rule_id) return false;
+        const key = `${a.rule_id}-${a.related_id}`;
+        return (evaluatedRuleIds.has(a.rule_id) || evaluatedKeys.has(key)) && !raisedKeys.has(key);
+      })
+      .map(a => a.id);
+    if (clearedIds.length > 0) {
+      console.log(`Auto-resolving ${clearedIds.length} alerts...`);
+      const { error: resolveError } = await supabaseAdmin
+        .from('smart_alerts')
+        .update({ resolved_at: new Date().toISOString(), auto_resolved: true, snoozed_until: null })
+        .in('id', clearedIds);
+      if (resolveError) {
+        console.error('Error auto-resolving alerts:', resolveError);
+      }
+    }
+    const clearedSet = new Set(clearedIds);
 
-    // Filter out duplicates
-    const newAlerts = alertsToCreate.filter(
-      alert => !existingSet.has(`${alert.type}-${alert.related_id}`)
+    // Alerts without a rule (raised by database triggers) are matched on their type
+    const activeSet = new Set(
+      existingAlerts?.filter(a => !a.resolved_at && !clearedSet.has(a.id)).map(a => a.rule_id ? `${a.rule_id}-${a.related_id}` : `${a.type}-${a.related_id}`) || []
     );
+    const lastRaised = new Map<string, number>();
+    for (const alert of existingAlerts || []) {
+      if (!alert.rule_id) continue;
+      const key = `${alert.rule_id}-${alert.related_id}`;
+      lastRaised.set(key, Math.max(lastRaised.get(key) || 0, new Date(alert.created_at).getTime()));
+    }
+    const cooldownByRule = new Map(rules.map(r => [r.id, r.cooldown_minutes]));
+
+    // Filter out duplicates and alerts still in their rule's cooldown
+    const newAlerts = alertsToCreate.filter(alert => {
+      const key = `${alert.rule_id}-${alert.related_id}`;
+      if (activeSet.has(key) || activeSet.has(`${alert.type}-${alert.related_id}`)) return false;
+      const last = lastRaised.get(key);
+      return !last || Date.now() - last >= (cooldownByRule.get(alert.rule_id) || 0) * 60 * 1000;
+    });
 
     console.log(`Creating ${newAlerts.length} new alerts...`);
 
@@ -280,10 +620,7 @@ Deno.serve(async (req) => {
     if (newAlerts.length > 0) {
       const { error: insertError } = await supabaseAdmin
         .from('smart_alerts')
-        .insert(newAlerts.map(alert => ({
-          ...alert,
-          is_read: false,
-        })));
+        .insert(newAlerts);
 
       if (insertError) {
         console.error('Error inserting alerts:', insertError);
@@ -291,14 +628,40 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Web Push to the recipients' devices, a failure must not fail the run
+    let push = { sent: 0, removed: 0 };
+    try {
+      push = await pushPendingDeliveries(supabaseAdmin);
+    } catch (pushError) {
+      console.error('Error sending push notifications:', pushError);
+    }
+
     const summary = {
       totalChecked: alertsToCreate.length,
       newAlertsCreated: newAlerts.length,
       duplicatesSkipped: alertsToCreate.length - newAlerts.length,
+      autoResolved: clearedIds.length,
+      pushSent: push.sent,
+      pushSubscriptionsRemoved: push.removed,
     };
 
     console.log('Alert generation completed:', summary);
 
+    // Run history, shown in the settings page; kept for 90 days
+    const { error: runError } = await supabaseAdmin.from('alert_runs').insert({
+      trigger,
+      triggered_by: triggeredBy,
+      status: 'success',
+      total_checked: summary.totalChecked,
+      new_alerts_created: summary.newAlertsCreated,
+      duplicates_skipped: summary.duplicatesSkipped,
+      started_at: startedAt,
+    });
+    if (runError) {
+      console.error('Error recording alert run:', runError);
+    }
+    await supabaseAdmin.from('alert_runs').delete().lt('started_at', ninetyDaysAgo);
+
     return new Response(
       JSON.stringify({ success: true, ...summary }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -307,6 +670,13 @@ Deno.serve(async (req) => {
   } catch (error) {
     console.error('Error generating alerts:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await supabaseAdmin.from('alert_runs').insert({
+      trigger,
+      triggered_by: triggeredBy,
+      status: 'error',
+      error: errorMessage,
+      started_at: startedAt,
+    });
     return new Response(
       JSON.stringify({ success: false, error: errorMessage }),
       { 
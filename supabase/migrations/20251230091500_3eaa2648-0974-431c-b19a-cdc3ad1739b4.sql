@@ -0,0 +1,261 @@
+-- Create enum for board hierarchy levels
+CREATE TYPE public.board_level AS ENUM ('site', 'area', 'line');
+
+-- Create boards table (site -> area -> line)
+CREATE TABLE public.boards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES public.boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  code TEXT NOT NULL,
+  level board_level NOT NULL DEFAULT 'line',
+  display_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (parent_id, code)
+);
+
+-- Create board members table
+CREATE TABLE public.board_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (board_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_boards_parent_id ON public.boards(parent_id);
+CREATE INDEX IF NOT EXISTS idx_board_members_user_id ON public.board_members(user_id);
+
+ALTER TABLE public.boards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.board_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_boards_updated_at BEFORE UPDATE ON public.boards FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The creator of a board automatically becomes a member
+CREATE OR REPLACE FUNCTION public.add_board_creator_as_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.board_members (board_id, user_id)
+    VALUES (NEW.id, NEW.created_by)
+    ON CONFLICT (board_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_board_created
+  AFTER INSERT ON public.boards
+  FOR EACH ROW EXECUTE FUNCTION public.add_board_creator_as_member();
+
+-- Default site board for the existing flat board
+INSERT INTO public.boards (name, code, level, display_order)
+VALUES ('Site principal', 'SITE', 'site', 1);
+
+-- Attach categories to a board (code is now unique per board)
+ALTER TABLE public.sfm_categories
+ADD COLUMN IF NOT EXISTS board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE;
+
+UPDATE public.sfm_categories
+SET board_id = (SELECT id FROM public.boards WHERE code = 'SITE' AND parent_id IS NULL)
+WHERE board_id IS NULL;
+
+ALTER TABLE public.sfm_categories ALTER COLUMN board_id SET NOT NULL;
+ALTER TABLE public.sfm_categories DROP CONSTRAINT IF EXISTS sfm_categories_code_key;
+ALTER TABLE public.sfm_categories ADD CONSTRAINT sfm_categories_board_id_code_key UNIQUE (board_id, code);
+CREATE INDEX IF NOT EXISTS idx_sfm_categories_board_id ON public.sfm_categories(board_id);
+
+-- A user can access a board if they are a member of it or of one of its ancestors.
+-- Users start without any board until an admin or a manager adds them
+CREATE OR REPLACE FUNCTION public.can_access_board(_user_id UUID, _board_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id FROM public.boards WHERE id = _board_id
+    UNION ALL
+    SELECT b.id, b.parent_id
+    FROM public.boards b
+    JOIN ancestors a ON b.id = a.parent_id
+  )
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.board_members m
+      JOIN ancestors a ON a.id = m.board_id
+      WHERE m.user_id = _user_id
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_category(_user_id UUID, _category_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.sfm_categories c
+    WHERE c.id = _category_id
+      AND public.can_access_board(_user_id, c.board_id)
+  )
+$$;
+
+-- RLS Policies for boards
+CREATE POLICY "Members can view their boards"
+ON public.boards
+FOR SELECT
+USING (can_access_board(auth.uid(), id));
+
+-- Managers handle the sub-boards they can access; root boards are created
+-- and re-parented by admins only
+CREATE POLICY "Managers and admins can create boards"
+ON public.boards
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR (has_role(auth.uid(), 'manager'::app_role) AND parent_id IS NOT NULL AND can_access_board(auth.uid(), parent_id)));
+
+CREATE POLICY "Managers and admins can update boards"
+ON public.boards
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR (has_role(auth.uid(), 'manager'::app_role) AND parent_id IS NOT NULL AND can_access_board(auth.uid(), id)))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR (has_role(auth.uid(), 'manager'::app_role) AND parent_id IS NOT NULL AND can_access_board(auth.uid(), parent_id)));
+
+-- Deleting a board cascades to all of its content, bypassing the trash
+CREATE POLICY "Admins can delete boards"
+ON public.boards
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- RLS Policies for board_members
+CREATE POLICY "Members can view board memberships"
+ON public.board_members
+FOR SELECT
+USING (auth.uid() = user_id OR can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Managers and admins can manage board memberships"
+ON public.board_members
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role) OR (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), board_id)))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), board_id)));
+
+-- Replace the members of a board in one transaction. New members are added first,
+-- so that a manager can still remove their own membership in the same call
+CREATE OR REPLACE FUNCTION public.set_board_members(_board_id UUID, _user_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.board_members (board_id, user_id)
+  SELECT _board_id, u FROM unnest(_user_ids) AS u
+  ON CONFLICT (board_id, user_id) DO NOTHING;
+
+  DELETE FROM public.board_members
+  WHERE board_id = _board_id AND user_id <> ALL(_user_ids);
+END;
+$$;
+
+-- Restrict sfm_categories to board members
+DROP POLICY IF EXISTS "Anyone can view categories" ON public.sfm_categories;
+DROP POLICY IF EXISTS "Managers and admins can manage categories" ON public.sfm_categories;
+
+CREATE POLICY "Members can view categories"
+ON public.sfm_categories
+FOR SELECT
+USING (can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Managers and admins can manage categories"
+ON public.sfm_categories
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_board(auth.uid(), board_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_board(auth.uid(), board_id));
+
+-- Restrict kpis to board members
+DROP POLICY IF EXISTS "Anyone can view KPIs" ON public.kpis;
+DROP POLICY IF EXISTS "Managers and admins can manage KPIs" ON public.kpis;
+
+CREATE POLICY "Members can view KPIs"
+ON public.kpis
+FOR SELECT
+USING (can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Managers and admins can manage KPIs"
+ON public.kpis
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+-- Restrict kpi_values to board members
+DROP POLICY IF EXISTS "Anyone can view KPI values" ON public.kpi_values;
+DROP POLICY IF EXISTS "Managers and admins can manage KPI values" ON public.kpi_values;
+
+CREATE POLICY "Members can view KPI values"
+ON public.kpi_values
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.kpis k WHERE k.id = kpi_id AND can_access_category(auth.uid(), k.category_id)));
+
+CREATE POLICY "Managers and admins can manage KPI values"
+ON public.kpi_values
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND EXISTS (SELECT 1 FROM public.kpis k WHERE k.id = kpi_id AND can_access_category(auth.uid(), k.category_id)))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND EXISTS (SELECT 1 FROM public.kpis k WHERE k.id = kpi_id AND can_access_category(auth.uid(), k.category_id)));
+
+-- Restrict actions to board members
+DROP POLICY IF EXISTS "Anyone can view actions" ON public.actions;
+DROP POLICY IF EXISTS "Team leaders and above can manage actions" ON public.actions;
+
+CREATE POLICY "Members can view actions"
+ON public.actions
+FOR SELECT
+USING (can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Team leaders and above can manage actions"
+ON public.actions
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+-- Restrict problems to board members
+DROP POLICY IF EXISTS "Anyone can view problems" ON public.problems;
+DROP POLICY IF EXISTS "Anyone can create problems" ON public.problems;
+DROP POLICY IF EXISTS "Team leaders and above can manage problems" ON public.problems;
+
+CREATE POLICY "Members can view problems"
+ON public.problems
+FOR SELECT
+USING (can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Members can create problems"
+ON public.problems
+FOR INSERT
+WITH CHECK (can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Team leaders and above can manage problems"
+ON public.problems
+FOR UPDATE
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+-- Restrict notes to board members (notes without category stay global)
+DROP POLICY IF EXISTS "Anyone can view notes" ON public.notes;
+
+CREATE POLICY "Members can view notes"
+ON public.notes
+FOR SELECT
+USING (category_id IS NULL OR can_access_category(auth.uid(), category_id));
+
+-- Restrict category alerts to board members
+DROP POLICY IF EXISTS "Anyone can view alerts" ON public.smart_alerts;
+
+CREATE POLICY "Members can view alerts"
+ON public.smart_alerts
+FOR SELECT
+USING (category_id IS NULL OR can_access_category(auth.uid(), category_id));
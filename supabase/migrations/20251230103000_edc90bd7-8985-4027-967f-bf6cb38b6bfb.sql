@@ -0,0 +1,6 @@
+-- Baseline window (number of first values) used to compute SPC control limits
+ALTER TABLE public.kpis
+ADD COLUMN IF NOT EXISTS spc_baseline_size INTEGER DEFAULT 20;
+
+ALTER TABLE public.kpis
+ADD CONSTRAINT kpis_spc_baseline_size_check CHECK (spc_baseline_size IS NULL OR spc_baseline_size >= 2);
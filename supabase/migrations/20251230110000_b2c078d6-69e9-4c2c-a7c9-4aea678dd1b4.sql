@@ -0,0 +1,64 @@
+-- Per-value cause breakdown, used by Pareto charts
+CREATE TABLE public.kpi_value_breakdowns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kpi_value_id UUID REFERENCES public.kpi_values(id) ON DELETE CASCADE NOT NULL,
+  cause TEXT NOT NULL,
+  value NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_value_breakdowns_kpi_value_id ON public.kpi_value_breakdowns(kpi_value_id);
+
+ALTER TABLE public.kpi_value_breakdowns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view KPI value breakdowns"
+ON public.kpi_value_breakdowns
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.kpi_values v
+  JOIN public.kpis k ON k.id = v.kpi_id
+  WHERE v.id = kpi_value_id AND can_access_category(auth.uid(), k.category_id)
+));
+
+CREATE POLICY "Managers and admins can manage KPI value breakdowns"
+ON public.kpi_value_breakdowns
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND EXISTS (
+  SELECT 1 FROM public.kpi_values v
+  JOIN public.kpis k ON k.id = v.kpi_id
+  WHERE v.id = kpi_value_id AND can_access_category(auth.uid(), k.category_id)
+))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND EXISTS (
+  SELECT 1 FROM public.kpi_values v
+  JOIN public.kpis k ON k.id = v.kpi_id
+  WHERE v.id = kpi_value_id AND can_access_category(auth.uid(), k.category_id)
+));
+
+-- A value and its breakdown are saved together or not at all
+CREATE OR REPLACE FUNCTION public.add_kpi_value(
+  _kpi_id UUID,
+  _value NUMERIC,
+  _recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _week_number INTEGER DEFAULT NULL,
+  _comment TEXT DEFAULT NULL,
+  _recorded_by UUID DEFAULT NULL,
+  _breakdown JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _value_id UUID;
+BEGIN
+  INSERT INTO public.kpi_values (kpi_id, value, recorded_at, week_number, comment, recorded_by)
+  VALUES (_kpi_id, _value, COALESCE(_recorded_at, now()), _week_number, _comment, _recorded_by)
+  RETURNING id INTO _value_id;
+
+  INSERT INTO public.kpi_value_breakdowns (kpi_value_id, cause, value)
+  SELECT _value_id, b.cause, b.value
+  FROM jsonb_to_recordset(COALESCE(_breakdown, '[]'::jsonb)) AS b(cause TEXT, value NUMERIC);
+
+  RETURN _value_id;
+END;
+$$;
@@ -0,0 +1,203 @@
+-- KPI value status from target, thresholds (% deviation) and performance direction
+CREATE OR REPLACE FUNCTION public.compute_kpi_status(
+  _value NUMERIC,
+  _target NUMERIC,
+  _warning_threshold NUMERIC,
+  _critical_threshold NUMERIC,
+  _direction TEXT
+)
+RETURNS kpi_status
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _higher_is_better BOOLEAN := COALESCE(_direction, 'higher_is_better') <> 'lower_is_better';
+  _diff NUMERIC;
+  _percent_diff NUMERIC;
+BEGIN
+  IF _target IS NULL OR _target = 0 THEN
+    RETURN 'green';
+  END IF;
+
+  -- Positive difference means the value is on the wrong side of the target
+  _diff := CASE WHEN _higher_is_better THEN _target - _value ELSE _value - _target END;
+  _percent_diff := abs(_diff / _target) * 100;
+
+  IF _critical_threshold IS NOT NULL AND _diff > 0 AND _percent_diff >= _critical_threshold THEN
+    RETURN 'red';
+  END IF;
+
+  IF _warning_threshold IS NOT NULL AND _diff > 0 AND _percent_diff >= _warning_threshold THEN
+    RETURN 'orange';
+  END IF;
+
+  IF _higher_is_better THEN
+    IF _value >= _target THEN RETURN 'green'; END IF;
+    IF _value >= _target * 0.9 THEN RETURN 'orange'; END IF;
+  ELSE
+    IF _value <= _target THEN RETURN 'green'; END IF;
+    IF _value <= _target * 1.1 THEN RETURN 'orange'; END IF;
+  END IF;
+
+  RETURN 'red';
+END;
+$$;
+
+-- KPI value trend: 'up' means performance improved, taking the direction into account
+CREATE OR REPLACE FUNCTION public.compute_kpi_trend(
+  _value NUMERIC,
+  _previous_value NUMERIC,
+  _direction TEXT
+)
+RETURNS kpi_trend
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _diff NUMERIC;
+BEGIN
+  IF _previous_value IS NULL THEN
+    RETURN 'stable';
+  END IF;
+
+  _diff := _value - _previous_value;
+
+  -- 1% threshold for stability
+  IF abs(_diff) <= abs(_previous_value * 0.01) THEN
+    RETURN 'stable';
+  END IF;
+
+  IF COALESCE(_direction, 'higher_is_better') = 'lower_is_better' THEN
+    _diff := -_diff;
+  END IF;
+
+  RETURN CASE WHEN _diff > 0 THEN 'up'::kpi_trend ELSE 'down'::kpi_trend END;
+END;
+$$;
+
+-- Derive status and trend of a value whenever it is written
+CREATE OR REPLACE FUNCTION public.set_kpi_value_status_trend()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _kpi public.kpis%ROWTYPE;
+  _previous_value NUMERIC;
+BEGIN
+  SELECT * INTO _kpi FROM public.kpis WHERE id = NEW.kpi_id;
+
+  SELECT v.value INTO _previous_value
+  FROM public.kpi_values v
+  WHERE v.kpi_id = NEW.kpi_id
+    AND v.id <> NEW.id
+    AND v.recorded_at < NEW.recorded_at
+  ORDER BY v.recorded_at DESC, v.created_at DESC
+  LIMIT 1;
+
+  NEW.status := public.compute_kpi_status(
+    NEW.value, _kpi.target_value, _kpi.warning_threshold, _kpi.critical_threshold, _kpi.performance_direction
+  );
+  NEW.trend := public.compute_kpi_trend(NEW.value, _previous_value, _kpi.performance_direction);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_kpi_value_status_trend
+  BEFORE INSERT OR UPDATE OF value, recorded_at, kpi_id ON public.kpi_values
+  FOR EACH ROW EXECUTE FUNCTION public.set_kpi_value_status_trend();
+
+-- Recompute status and trend of every value of a KPI
+CREATE OR REPLACE FUNCTION public.recompute_kpi_values(_kpi_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.kpi_values v
+  SET
+    status = public.compute_kpi_status(v.value, k.target_value, k.warning_threshold, k.critical_threshold, k.performance_direction),
+    trend = public.compute_kpi_trend(v.value, s.previous_value, k.performance_direction)
+  FROM public.kpis k,
+    (
+      SELECT id, LAG(value) OVER (ORDER BY recorded_at, created_at) AS previous_value
+      FROM public.kpi_values
+      WHERE kpi_id = _kpi_id
+    ) s
+  WHERE k.id = _kpi_id
+    AND v.kpi_id = _kpi_id
+    AND s.id = v.id;
+END;
+$$;
+
+-- Editing a KPI's target, thresholds or direction recomputes its history
+CREATE OR REPLACE FUNCTION public.recompute_kpi_values_on_kpi_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recompute_kpi_values(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_kpi_values_on_kpi_change
+  AFTER UPDATE OF target_value, warning_threshold, critical_threshold, performance_direction ON public.kpis
+  FOR EACH ROW
+  WHEN (
+    OLD.target_value IS DISTINCT FROM NEW.target_value
+    OR OLD.warning_threshold IS DISTINCT FROM NEW.warning_threshold
+    OR OLD.critical_threshold IS DISTINCT FROM NEW.critical_threshold
+    OR OLD.performance_direction IS DISTINCT FROM NEW.performance_direction
+  )
+  EXECUTE FUNCTION public.recompute_kpi_values_on_kpi_change();
+
+-- A value inserted, moved or removed changes the trend of the values after it
+CREATE OR REPLACE FUNCTION public.recompute_kpi_trends_on_value_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.recompute_kpi_values(OLD.kpi_id);
+    RETURN OLD;
+  END IF;
+
+  -- Only needed when the value is not the latest one of its KPI
+  IF EXISTS (
+    SELECT 1 FROM public.kpi_values
+    WHERE kpi_id = NEW.kpi_id AND recorded_at > NEW.recorded_at
+  ) THEN
+    PERFORM public.recompute_kpi_values(NEW.kpi_id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.kpi_id <> NEW.kpi_id THEN
+    PERFORM public.recompute_kpi_values(OLD.kpi_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_kpi_trends_on_value_change
+  AFTER INSERT OR DELETE OR UPDATE OF value, recorded_at, kpi_id ON public.kpi_values
+  FOR EACH ROW EXECUTE FUNCTION public.recompute_kpi_trends_on_value_change();
+
+-- Backfill existing values
+DO $$
+DECLARE
+  _kpi_id UUID;
+BEGIN
+  FOR _kpi_id IN SELECT id FROM public.kpis LOOP
+    PERFORM public.recompute_kpi_values(_kpi_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,127 @@
+-- Audit trail of corrections made to recorded KPI values
+CREATE TABLE public.kpi_value_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kpi_id UUID REFERENCES public.kpis(id) ON DELETE CASCADE NOT NULL,
+  kpi_value_id UUID REFERENCES public.kpi_values(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('update', 'delete')),
+  old_value NUMERIC NOT NULL,
+  new_value NUMERIC,
+  old_recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  new_recorded_at TIMESTAMP WITH TIME ZONE,
+  reason TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_value_corrections_kpi_id ON public.kpi_value_corrections(kpi_id);
+
+ALTER TABLE public.kpi_value_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view KPI value corrections"
+ON public.kpi_value_corrections
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.kpis k WHERE k.id = kpi_id AND can_access_category(auth.uid(), k.category_id)));
+
+CREATE POLICY "Managers and admins can record KPI value corrections"
+ON public.kpi_value_corrections
+FOR INSERT
+WITH CHECK (
+  changed_by = auth.uid()
+  AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+  AND EXISTS (SELECT 1 FROM public.kpis k WHERE k.id = kpi_id AND can_access_category(auth.uid(), k.category_id))
+);
+
+-- Correct a value and record why, in one transaction (runs with the caller's rights)
+CREATE OR REPLACE FUNCTION public.update_kpi_value(
+  _id UUID,
+  _value NUMERIC,
+  _recorded_at TIMESTAMP WITH TIME ZONE,
+  _week_number INTEGER,
+  _comment TEXT,
+  _reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old public.kpi_values%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to correct a KPI value';
+  END IF;
+
+  SELECT * INTO _old FROM public.kpi_values WHERE id = _id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KPI value % not found', _id;
+  END IF;
+
+  INSERT INTO public.kpi_value_corrections
+    (kpi_id, kpi_value_id, operation, old_value, new_value, old_recorded_at, new_recorded_at, reason, changed_by)
+  VALUES
+    (_old.kpi_id, _id, 'update', _old.value, _value, _old.recorded_at, _recorded_at, trim(_reason), auth.uid());
+
+  UPDATE public.kpi_values
+  SET value = _value,
+      recorded_at = _recorded_at,
+      week_number = _week_number,
+      comment = _comment
+  WHERE id = _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_kpi_value(_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old public.kpi_values%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to delete a KPI value';
+  END IF;
+
+  SELECT * INTO _old FROM public.kpi_values WHERE id = _id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KPI value % not found', _id;
+  END IF;
+
+  INSERT INTO public.kpi_value_corrections
+    (kpi_id, kpi_value_id, operation, old_value, old_recorded_at, reason, changed_by)
+  VALUES
+    (_old.kpi_id, _id, 'delete', _old.value, _old.recorded_at, trim(_reason), auth.uid());
+
+  DELETE FROM public.kpi_values WHERE id = _id;
+END;
+$$;
+
+-- Moving a value in time also changes the trend of the values around its old position
+CREATE OR REPLACE FUNCTION public.recompute_kpi_trends_on_value_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.recompute_kpi_values(OLD.kpi_id);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.kpi_id <> NEW.kpi_id THEN
+    PERFORM public.recompute_kpi_values(OLD.kpi_id);
+  END IF;
+
+  -- Only needed when the value is not (and was not) the latest one of its KPI
+  IF (TG_OP = 'UPDATE' AND OLD.recorded_at IS DISTINCT FROM NEW.recorded_at)
+    OR EXISTS (
+      SELECT 1 FROM public.kpi_values
+      WHERE kpi_id = NEW.kpi_id AND recorded_at > NEW.recorded_at
+    ) THEN
+    PERFORM public.recompute_kpi_values(NEW.kpi_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,191 @@
+-- Reusable action templates per category, optionally recurring
+CREATE TABLE public.action_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID REFERENCES public.sfm_categories(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority action_priority DEFAULT 'medium',
+  responsible_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Recurrence rule: daily, weekly on ISO weekdays (1 = Monday ... 7 = Sunday) or monthly on a day
+  recurrence_type TEXT CHECK (recurrence_type IN ('daily', 'weekly', 'monthly')),
+  recurrence_weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  recurrence_day_of_month INTEGER CHECK (recurrence_day_of_month BETWEEN 1 AND 31),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_templates_category_id ON public.action_templates(category_id);
+
+ALTER TABLE public.action_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_action_templates_updated_at BEFORE UPDATE ON public.action_templates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Members can view action templates"
+ON public.action_templates
+FOR SELECT
+USING (can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Team leaders and above can manage action templates"
+ON public.action_templates
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+-- Actions created from a template
+ALTER TABLE public.actions
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.action_templates(id) ON DELETE SET NULL;
+
+-- One occurrence per template and due date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_actions_template_due_date
+ON public.actions(template_id, due_date)
+WHERE template_id IS NOT NULL;
+
+-- First occurrence of a recurrence rule strictly after a date
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  _type TEXT,
+  _weekdays INTEGER[],
+  _day_of_month INTEGER,
+  _after DATE
+)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _candidate DATE;
+  _month_start DATE;
+BEGIN
+  IF _type = 'daily' THEN
+    RETURN _after + 1;
+  END IF;
+
+  IF _type = 'weekly' THEN
+    IF COALESCE(array_length(_weekdays, 1), 0) = 0 THEN
+      RETURN _after + 7;
+    END IF;
+    FOR i IN 1..7 LOOP
+      _candidate := _after + i;
+      IF EXTRACT(ISODOW FROM _candidate)::INTEGER = ANY(_weekdays) THEN
+        RETURN _candidate;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF _type = 'monthly' THEN
+    -- Days past the end of a month fall on its last day
+    _month_start := date_trunc('month', _after)::DATE;
+    FOR i IN 0..1 LOOP
+      _candidate := LEAST(
+        _month_start + (COALESCE(_day_of_month, 1) - 1),
+        (_month_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE
+      );
+      IF _candidate > _after THEN
+        RETURN _candidate;
+      END IF;
+      _month_start := (_month_start + INTERVAL '1 month')::DATE;
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Create the occurrence of a recurring template for a due date, unless it already exists
+CREATE OR REPLACE FUNCTION public.create_recurring_action(_template_id UUID, _due_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.actions (category_id, title, description, priority, responsible_id, due_date, status, created_by, template_id)
+  SELECT t.category_id, t.title, t.description, t.priority, t.responsible_id, _due_date, 'todo', t.created_by, t.id
+  FROM public.action_templates t
+  WHERE t.id = _template_id
+    AND t.is_active
+    AND t.recurrence_type IS NOT NULL
+  ON CONFLICT (template_id, due_date) WHERE template_id IS NOT NULL DO NOTHING;
+END;
+$$;
+
+-- Completing a recurring action schedules the next one
+CREATE OR REPLACE FUNCTION public.schedule_next_recurring_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template public.action_templates%ROWTYPE;
+BEGIN
+  SELECT * INTO _template FROM public.action_templates WHERE id = NEW.template_id;
+  IF NOT FOUND OR _template.recurrence_type IS NULL OR NOT _template.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_recurring_action(
+    _template.id,
+    public.next_recurrence_date(
+      _template.recurrence_type,
+      _template.recurrence_weekdays,
+      _template.recurrence_day_of_month,
+      GREATEST(NEW.due_date, CURRENT_DATE - 1)
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_next_recurring_action
+  AFTER UPDATE OF status ON public.actions
+  FOR EACH ROW
+  WHEN (NEW.template_id IS NOT NULL AND NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.schedule_next_recurring_action();
+
+-- Daily job: create the occurrences whose period starts today
+CREATE OR REPLACE FUNCTION public.generate_recurring_actions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template public.action_templates%ROWTYPE;
+  _created INTEGER := 0;
+  _rows INTEGER;
+BEGIN
+  FOR _template IN
+    SELECT * FROM public.action_templates
+    WHERE is_active AND recurrence_type IS NOT NULL
+  LOOP
+    IF public.next_recurrence_date(
+      _template.recurrence_type,
+      _template.recurrence_weekdays,
+      _template.recurrence_day_of_month,
+      CURRENT_DATE - 1
+    ) = CURRENT_DATE THEN
+      INSERT INTO public.actions (category_id, title, description, priority, responsible_id, due_date, status, created_by, template_id)
+      VALUES (_template.category_id, _template.title, _template.description, _template.priority, _template.responsible_id, CURRENT_DATE, 'todo', _template.created_by, _template.id)
+      ON CONFLICT (template_id, due_date) WHERE template_id IS NOT NULL DO NOTHING;
+      GET DIAGNOSTICS _rows = ROW_COUNT;
+      _created := _created + _rows;
+    END IF;
+  END LOOP;
+  RETURN _created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_recurring_action(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_actions() FROM PUBLIC, anon, authenticated;
+
+-- Run the daily job shortly after midnight
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'generate-recurring-actions',
+  '5 0 * * *',
+  $$SELECT public.generate_recurring_actions()$$
+);
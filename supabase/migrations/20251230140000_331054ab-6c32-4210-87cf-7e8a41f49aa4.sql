@@ -0,0 +1,157 @@
+-- Validation workflow: completed actions flagged requires_validation wait for a manager
+ALTER TYPE public.action_status ADD VALUE IF NOT EXISTS 'pending_validation' AFTER 'in_progress';
+
+ALTER TABLE public.actions
+ADD COLUMN IF NOT EXISTS validation_comment TEXT;
+
+-- Alerts addressed to a single user (e.g. the responsible of an action)
+ALTER TABLE public.smart_alerts
+ADD COLUMN IF NOT EXISTS recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_smart_alerts_recipient_id ON public.smart_alerts(recipient_id);
+
+-- Responsibles can update the status of their own actions
+CREATE POLICY "Responsibles can update their actions"
+ON public.actions
+FOR UPDATE
+USING (responsible_id = auth.uid() AND can_access_category(auth.uid(), category_id))
+WITH CHECK (responsible_id = auth.uid() AND can_access_category(auth.uid(), category_id));
+
+-- Route completions through validation and keep validation fields in managers' hands
+CREATE OR REPLACE FUNCTION public.enforce_action_validation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _is_validator BOOLEAN := has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role);
+  _is_team_leader BOOLEAN := _is_validator OR has_role(auth.uid(), 'team_leader'::app_role);
+BEGIN
+  -- Scheduled jobs and service calls are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Operators may only move their own actions through the status workflow
+  IF NOT _is_team_leader AND (
+    NEW.title, NEW.description, NEW.priority, NEW.responsible_id, NEW.due_date, NEW.category_id, NEW.requires_validation
+  ) IS DISTINCT FROM (
+    OLD.title, OLD.description, OLD.priority, OLD.responsible_id, OLD.due_date, OLD.category_id, OLD.requires_validation
+  ) THEN
+    RAISE EXCEPTION 'Seul le statut de l''action peut être modifié';
+  END IF;
+
+  IF NOT _is_validator THEN
+    NEW.validated_at := OLD.validated_at;
+    NEW.validated_by := OLD.validated_by;
+    NEW.validation_comment := OLD.validation_comment;
+
+    IF OLD.status = 'pending_validation' AND NEW.status = 'completed' THEN
+      RAISE EXCEPTION 'Cette action doit être validée par un manager';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' AND COALESCE(NEW.requires_validation, false) THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+    IF _is_validator THEN
+      NEW.validated_at := now();
+      NEW.validated_by := auth.uid();
+    ELSE
+      NEW.status := 'pending_validation';
+    END IF;
+  END IF;
+
+  -- Reopening an action clears its previous validation
+  IF NEW.status IN ('todo', 'in_progress') AND OLD.status IN ('completed', 'pending_validation') THEN
+    NEW.completed_at := NULL;
+    NEW.validated_at := NULL;
+    NEW.validated_by := NULL;
+    IF OLD.status = 'completed' THEN
+      NEW.validation_comment := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_action_validation ON public.actions;
+CREATE TRIGGER enforce_action_validation
+  BEFORE UPDATE ON public.actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_action_validation();
+
+-- Approve or reject an action pending validation and notify its responsible
+CREATE OR REPLACE FUNCTION public.review_action(_id UUID, _approved BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _action public.actions%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) THEN
+    RAISE EXCEPTION 'Seul un manager peut valider une action';
+  END IF;
+
+  IF NOT _approved AND COALESCE(trim(_comment), '') = '' THEN
+    RAISE EXCEPTION 'Un commentaire est requis pour rejeter une action';
+  END IF;
+
+  SELECT * INTO _action FROM public.actions WHERE id = _id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Action introuvable';
+  END IF;
+  IF _action.status <> 'pending_validation' THEN
+    RAISE EXCEPTION 'Cette action n''est pas en attente de validation';
+  END IF;
+
+  IF _approved THEN
+    UPDATE public.actions
+    SET status = 'completed',
+        validated_at = now(),
+        validated_by = auth.uid(),
+        validation_comment = NULLIF(trim(_comment), '')
+    WHERE id = _id
+    RETURNING * INTO _action;
+  ELSE
+    UPDATE public.actions
+    SET status = 'in_progress',
+        completed_at = NULL,
+        validated_at = NULL,
+        validated_by = NULL,
+        validation_comment = trim(_comment)
+    WHERE id = _id
+    RETURNING * INTO _action;
+  END IF;
+
+  IF _action.responsible_id IS NOT NULL THEN
+    INSERT INTO public.smart_alerts (type, severity, title, message, category_id, related_id, related_type, recipient_id)
+    VALUES (
+      CASE WHEN _approved THEN 'action_validated' ELSE 'action_rejected' END,
+      CASE WHEN _approved THEN 'low' ELSE 'medium' END,
+      CASE WHEN _approved THEN 'Action validée' ELSE 'Action rejetée' END,
+      CASE WHEN _approved
+        THEN format('"%s" a été validée.', _action.title)
+        ELSE format('"%s" a été rejetée : %s', _action.title, trim(_comment))
+      END,
+      _action.category_id,
+      _action.id,
+      'action',
+      _action.responsible_id
+    );
+  END IF;
+END;
+$$;
+
+-- Alerts addressed to a single user stay private to them
+DROP POLICY IF EXISTS "Members can view alerts" ON public.smart_alerts;
+
+CREATE POLICY "Members can view alerts"
+ON public.smart_alerts
+FOR SELECT
+USING (
+  (recipient_id IS NULL OR recipient_id = auth.uid())
+  AND (category_id IS NULL OR can_access_category(auth.uid(), category_id))
+);
@@ -0,0 +1,110 @@
+-- Root-cause analysis workspace: 5 Whys, countermeasures and Ishikawa causes per problem
+CREATE TABLE public.problem_rca (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  problem_id UUID REFERENCES public.problems(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  -- Ordered answers to "Pourquoi ?", the last one being the root cause
+  whys TEXT[] NOT NULL DEFAULT '{}',
+  root_cause TEXT,
+  containment_measures TEXT,
+  corrective_measures TEXT,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Ishikawa causes, one row per cause on one of the 6M branches
+CREATE TABLE public.problem_causes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  problem_id UUID REFERENCES public.problems(id) ON DELETE CASCADE NOT NULL,
+  branch TEXT NOT NULL CHECK (branch IN ('method', 'machine', 'manpower', 'material', 'measurement', 'environment')),
+  description TEXT NOT NULL,
+  is_root_cause BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_problem_causes_problem_id ON public.problem_causes(problem_id);
+
+ALTER TABLE public.problem_rca ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.problem_causes ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_problem_rca_updated_at BEFORE UPDATE ON public.problem_rca FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Members can view problem RCA"
+ON public.problem_rca
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)));
+
+CREATE POLICY "Team leaders and above can manage problem RCA"
+ON public.problem_rca
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)));
+
+CREATE POLICY "Members can view problem causes"
+ON public.problem_causes
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)));
+
+CREATE POLICY "Team leaders and above can manage problem causes"
+ON public.problem_causes
+FOR ALL
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)));
+
+-- Actions spawned from a problem, optionally from one of its root causes
+ALTER TABLE public.actions
+ADD COLUMN IF NOT EXISTS problem_id UUID REFERENCES public.problems(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS problem_cause_id UUID REFERENCES public.problem_causes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_actions_problem_id ON public.actions(problem_id);
+
+-- A problem cannot be resolved while one of its actions is still open, including
+-- actions on boards the user cannot see
+CREATE OR REPLACE FUNCTION public.enforce_problem_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+    IF EXISTS (SELECT 1 FROM public.actions WHERE problem_id = NEW.id AND status <> 'completed') THEN
+      RAISE EXCEPTION 'Toutes les actions liées au problème doivent être terminées';
+    END IF;
+    NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+  ELSIF NEW.status <> 'resolved' THEN
+    NEW.resolved_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_problem_resolution ON public.problems;
+CREATE TRIGGER enforce_problem_resolution
+  BEFORE UPDATE OF status ON public.problems
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_problem_resolution();
+
+-- Linking an open action to a problem puts (or keeps) the problem in progress
+CREATE OR REPLACE FUNCTION public.sync_problem_status_from_actions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.problem_id IS NOT NULL AND NEW.status <> 'completed' THEN
+    UPDATE public.problems
+    SET status = 'in_progress'
+    WHERE id = NEW.problem_id AND status IS DISTINCT FROM 'in_progress';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_problem_status_from_actions ON public.actions;
+CREATE TRIGGER sync_problem_status_from_actions
+  AFTER INSERT OR UPDATE OF status, problem_id ON public.actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_problem_status_from_actions();
@@ -0,0 +1,5 @@
+-- Actions taken as countermeasures for a KPI
+ALTER TABLE public.actions
+ADD COLUMN IF NOT EXISTS kpi_id UUID REFERENCES public.kpis(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_actions_kpi_id ON public.actions(kpi_id);
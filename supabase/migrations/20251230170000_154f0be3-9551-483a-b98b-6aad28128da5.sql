@@ -0,0 +1,174 @@
+-- Escalation matrix: after N hours unresolved, a problem climbs from the team leader (level 0)
+-- to the board's managers (level 1) and to the plant managers, the admins of its site (level 2)
+CREATE TABLE public.escalation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  severity problem_severity NOT NULL,
+  level INTEGER NOT NULL CHECK (level >= 1),
+  label TEXT NOT NULL,
+  -- Hours since the problem was reported
+  after_hours INTEGER NOT NULL CHECK (after_hours > 0),
+  target_role app_role NOT NULL DEFAULT 'manager',
+  -- 'board': users with access to the problem's board, 'site': users with access to its site (root) board
+  target_scope TEXT NOT NULL DEFAULT 'board' CHECK (target_scope IN ('board', 'site')),
+  reassign BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (severity, level)
+);
+
+ALTER TABLE public.escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_escalation_rules_updated_at BEFORE UPDATE ON public.escalation_rules FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Authenticated users can view escalation rules"
+ON public.escalation_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers and admins can manage escalation rules"
+ON public.escalation_rules
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+INSERT INTO public.escalation_rules (severity, level, label, after_hours, target_role, target_scope) VALUES
+  ('critical', 1, 'Manager', 2, 'manager', 'board'),
+  ('critical', 2, 'Directeur d''usine', 8, 'admin', 'site'),
+  ('high', 1, 'Manager', 8, 'manager', 'board'),
+  ('high', 2, 'Directeur d''usine', 24, 'admin', 'site'),
+  ('medium', 1, 'Manager', 24, 'manager', 'board'),
+  ('medium', 2, 'Directeur d''usine', 72, 'admin', 'site'),
+  ('low', 1, 'Manager', 72, 'manager', 'board'),
+  ('low', 2, 'Directeur d''usine', 168, 'admin', 'site')
+ON CONFLICT (severity, level) DO NOTHING;
+
+-- Current level on the ladder; escalated is kept for existing readers
+ALTER TABLE public.problems
+ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0;
+
+-- Problems flagged by hand before the ladder existed start at the manager level
+UPDATE public.problems SET escalation_level = 1 WHERE escalated = true;
+
+-- One row per step climbed
+CREATE TABLE public.problem_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  problem_id UUID REFERENCES public.problems(id) ON DELETE CASCADE NOT NULL,
+  rule_id UUID REFERENCES public.escalation_rules(id) ON DELETE SET NULL,
+  level INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notified_count INTEGER NOT NULL DEFAULT 0,
+  escalated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_problem_escalations_problem_id ON public.problem_escalations(problem_id);
+
+ALTER TABLE public.problem_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view problem escalations"
+ON public.problem_escalations
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.problems p WHERE p.id = problem_id AND can_access_category(auth.uid(), p.category_id)));
+
+-- Top-level (site) board above a board
+CREATE OR REPLACE FUNCTION public.root_board_id(_board_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id FROM public.boards WHERE id = _board_id
+    UNION ALL
+    SELECT b.id, b.parent_id
+    FROM public.boards b
+    JOIN ancestors a ON b.id = a.parent_id
+  )
+  SELECT id FROM ancestors WHERE parent_id IS NULL LIMIT 1
+$$;
+
+-- Climb the ladder for every unresolved problem past its SLA, one level per run so that
+-- a late problem does not send every level's alerts at once; returns the number of steps taken
+CREATE OR REPLACE FUNCTION public.escalate_problems()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _problem RECORD;
+  _rule public.escalation_rules%ROWTYPE;
+  _targets UUID[];
+  _assignee UUID;
+  _steps INTEGER := 0;
+BEGIN
+  FOR _problem IN
+    SELECT p.*, c.board_id
+    FROM public.problems p
+    JOIN public.sfm_categories c ON c.id = p.category_id
+    WHERE p.status IS DISTINCT FROM 'resolved'
+  LOOP
+    SELECT * INTO _rule FROM public.escalation_rules r
+    WHERE r.severity = COALESCE(_problem.severity, 'medium')
+      AND r.level > _problem.escalation_level
+      AND _problem.created_at + make_interval(hours => r.after_hours) <= now()
+    ORDER BY r.level
+    LIMIT 1;
+
+    IF FOUND THEN
+      SELECT array_agg(ur.user_id) INTO _targets
+      FROM public.user_roles ur
+      JOIN public.profiles pr ON pr.user_id = ur.user_id AND pr.status = 'approved'
+      WHERE ur.role = _rule.target_role
+        AND public.can_access_board(ur.user_id, CASE
+          WHEN _rule.target_scope = 'site' THEN public.root_board_id(_problem.board_id)
+          ELSE _problem.board_id
+        END);
+
+      -- The new owner is the longest-standing target who is a member of the problem's own board
+      _assignee := NULL;
+      IF _rule.reassign THEN
+        SELECT m.user_id INTO _assignee
+        FROM public.board_members m
+        WHERE m.board_id = _problem.board_id AND m.user_id = ANY(_targets)
+        ORDER BY m.created_at
+        LIMIT 1;
+      END IF;
+
+      INSERT INTO public.problem_escalations (problem_id, rule_id, level, label, assigned_to, notified_count)
+      VALUES (_problem.id, _rule.id, _rule.level, _rule.label, _assignee, COALESCE(array_length(_targets, 1), 0));
+
+      INSERT INTO public.smart_alerts (type, severity, title, message, category_id, related_id, related_type, recipient_id)
+      SELECT
+        'problem_escalated',
+        CASE WHEN _problem.severity = 'critical' THEN 'critical' ELSE 'high' END,
+        format('Problème escaladé: %s', _problem.title),
+        format('"%s" n''est pas résolu après %s h et est escaladé au niveau %s (%s).', _problem.title, _rule.after_hours, _rule.level, _rule.label),
+        _problem.category_id,
+        _problem.id,
+        'problem',
+        target
+      FROM unnest(_targets) AS target;
+
+      UPDATE public.problems
+      SET escalation_level = _rule.level,
+          escalated = true,
+          assigned_to = COALESCE(_assignee, assigned_to)
+      WHERE id = _problem.id;
+
+      _steps := _steps + 1;
+    END IF;
+  END LOOP;
+  RETURN _steps;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_problems() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'escalate-problems',
+  '*/15 * * * *',
+  $$SELECT public.escalate_problems()$$
+);
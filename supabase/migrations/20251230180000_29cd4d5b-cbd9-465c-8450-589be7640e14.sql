@@ -0,0 +1,124 @@
+-- Photo and file attachments on problems, actions and notes
+
+-- Private bucket: files are served through signed URLs only
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  problem_id UUID REFERENCES public.problems(id) ON DELETE CASCADE,
+  action_id UUID REFERENCES public.actions(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes INTEGER,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT attachments_single_target CHECK (num_nonnulls(problem_id, action_id, note_id) = 1)
+);
+
+CREATE INDEX idx_attachments_problem ON public.attachments(problem_id) WHERE problem_id IS NOT NULL;
+CREATE INDEX idx_attachments_action ON public.attachments(action_id) WHERE action_id IS NOT NULL;
+CREATE INDEX idx_attachments_note ON public.attachments(note_id) WHERE note_id IS NOT NULL;
+
+-- Whether a user can see the problem, action or note a file is attached to
+CREATE OR REPLACE FUNCTION public.can_access_attachment_target(_user_id UUID, _entity_type TEXT, _entity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _entity_type
+    WHEN 'problem' THEN EXISTS (
+      SELECT 1 FROM public.problems p
+      WHERE p.id = _entity_id AND public.can_access_category(_user_id, p.category_id)
+    )
+    WHEN 'action' THEN EXISTS (
+      SELECT 1 FROM public.actions a
+      WHERE a.id = _entity_id AND public.can_access_category(_user_id, a.category_id)
+    )
+    WHEN 'note' THEN EXISTS (
+      SELECT 1 FROM public.notes n
+      WHERE n.id = _entity_id AND (n.category_id IS NULL OR public.can_access_category(_user_id, n.category_id))
+    )
+    ELSE false
+  END
+$$;
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view attachments"
+ON public.attachments
+FOR SELECT
+USING (
+  can_access_attachment_target(auth.uid(), 'problem', problem_id)
+  OR can_access_attachment_target(auth.uid(), 'action', action_id)
+  OR can_access_attachment_target(auth.uid(), 'note', note_id)
+);
+
+CREATE POLICY "Members can add attachments"
+ON public.attachments
+FOR INSERT
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND (
+    can_access_attachment_target(auth.uid(), 'problem', problem_id)
+    OR can_access_attachment_target(auth.uid(), 'action', action_id)
+    OR can_access_attachment_target(auth.uid(), 'note', note_id)
+  )
+);
+
+CREATE POLICY "Uploaders and managers can delete attachments"
+ON public.attachments
+FOR DELETE
+USING (
+  (
+    uploaded_by = auth.uid()
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+  )
+  AND (
+    can_access_attachment_target(auth.uid(), 'problem', problem_id)
+    OR can_access_attachment_target(auth.uid(), 'action', action_id)
+    OR can_access_attachment_target(auth.uid(), 'note', note_id)
+  )
+);
+
+-- Objects are stored under <entity_type>/<entity_id>/<file>
+CREATE POLICY "Members can view attachment files"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'attachments'
+  AND public.can_access_attachment_target(auth.uid(), (storage.foldername(name))[1], ((storage.foldername(name))[2])::uuid)
+);
+
+CREATE POLICY "Members can upload attachment files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'attachments'
+  AND public.can_access_attachment_target(auth.uid(), (storage.foldername(name))[1], ((storage.foldername(name))[2])::uuid)
+);
+
+CREATE POLICY "Uploaders and managers can delete attachment files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'attachments'
+  AND (
+    owner = auth.uid()
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+    OR public.has_role(auth.uid(), 'manager'::app_role)
+  )
+  AND public.can_access_attachment_target(auth.uid(), (storage.foldername(name))[1], ((storage.foldername(name))[2])::uuid)
+);
@@ -0,0 +1,204 @@
+-- Comment threads with @mentions and activity timeline on actions and problems
+
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('action', 'problem')),
+  entity_id UUID NOT NULL,
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_comments_entity ON public.comments(entity_type, entity_id, created_at);
+
+CREATE TRIGGER update_comments_updated_at BEFORE UPDATE ON public.comments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as attachments: whoever sees the action or problem
+CREATE POLICY "Members can view comments"
+ON public.comments
+FOR SELECT
+USING (can_access_attachment_target(auth.uid(), entity_type, entity_id));
+
+CREATE POLICY "Members can add comments"
+ON public.comments
+FOR INSERT
+WITH CHECK (author_id = auth.uid() AND can_access_attachment_target(auth.uid(), entity_type, entity_id));
+
+CREATE POLICY "Authors can edit their comments"
+ON public.comments
+FOR UPDATE
+USING (author_id = auth.uid())
+WITH CHECK (author_id = auth.uid() AND can_access_attachment_target(auth.uid(), entity_type, entity_id));
+
+-- Editing a comment only changes its text; mentions were notified when it was posted
+CREATE OR REPLACE FUNCTION public.enforce_comment_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.entity_type, NEW.entity_id, NEW.author_id, NEW.mentions, NEW.created_at)
+    IS DISTINCT FROM (OLD.entity_type, OLD.entity_id, OLD.author_id, OLD.mentions, OLD.created_at) THEN
+    RAISE EXCEPTION 'Seul le texte d''un commentaire peut être modifié';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_comment_edit
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_comment_edit();
+
+CREATE POLICY "Authors and managers can delete comments"
+ON public.comments
+FOR DELETE
+USING (author_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+-- Notify every mentioned user who can see the commented item
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _author_name TEXT;
+  _title TEXT;
+  _category_id UUID;
+BEGIN
+  IF cardinality(NEW.mentions) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO _author_name FROM public.profiles WHERE user_id = NEW.author_id;
+
+  IF NEW.entity_type = 'action' THEN
+    SELECT title, category_id INTO _title, _category_id FROM public.actions WHERE id = NEW.entity_id;
+  ELSE
+    SELECT title, category_id INTO _title, _category_id FROM public.problems WHERE id = NEW.entity_id;
+  END IF;
+
+  INSERT INTO public.smart_alerts (type, severity, title, message, category_id, related_id, related_type, recipient_id)
+  SELECT
+    'comment_mention',
+    'medium',
+    'Vous avez été mentionné',
+    format('%s vous a mentionné sur "%s" : %s', COALESCE(_author_name, 'Un utilisateur'), _title, left(NEW.content, 200)),
+    _category_id,
+    NEW.entity_id,
+    NEW.entity_type,
+    m.user_id
+  FROM (SELECT DISTINCT unnest(NEW.mentions) AS user_id) m
+  WHERE m.user_id IS DISTINCT FROM NEW.author_id
+    AND public.can_access_attachment_target(m.user_id, NEW.entity_type, NEW.entity_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_mentions
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment_mentions();
+
+-- Automatic timeline of what happened to an action or a problem
+CREATE TABLE public.activity_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('action', 'problem')),
+  entity_id UUID NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('created', 'status_changed', 'reassigned', 'due_date_changed', 'escalated')),
+  old_value TEXT,
+  new_value TEXT,
+  -- NULL when the change was made by a scheduled job
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_activity_log_entity ON public.activity_log(entity_type, entity_id, created_at);
+
+ALTER TABLE public.activity_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers only
+CREATE POLICY "Members can view activity"
+ON public.activity_log
+FOR SELECT
+USING (can_access_attachment_target(auth.uid(), entity_type, entity_id));
+
+CREATE OR REPLACE FUNCTION public.log_action_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, new_value, actor_id)
+    VALUES ('action', NEW.id, 'created', NEW.status::text, auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, old_value, new_value, actor_id)
+    VALUES ('action', NEW.id, 'status_changed', OLD.status::text, NEW.status::text, auth.uid());
+  END IF;
+
+  IF NEW.responsible_id IS DISTINCT FROM OLD.responsible_id THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, old_value, new_value, actor_id)
+    VALUES ('action', NEW.id, 'reassigned', OLD.responsible_id::text, NEW.responsible_id::text, auth.uid());
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, old_value, new_value, actor_id)
+    VALUES ('action', NEW.id, 'due_date_changed', OLD.due_date::text, NEW.due_date::text, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_action_activity
+  AFTER INSERT OR UPDATE ON public.actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_action_activity();
+
+CREATE OR REPLACE FUNCTION public.log_problem_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, new_value, actor_id)
+    VALUES ('problem', NEW.id, 'created', NEW.status::text, auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, old_value, new_value, actor_id)
+    VALUES ('problem', NEW.id, 'status_changed', OLD.status::text, NEW.status::text, auth.uid());
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, old_value, new_value, actor_id)
+    VALUES ('problem', NEW.id, 'reassigned', OLD.assigned_to::text, NEW.assigned_to::text, auth.uid());
+  END IF;
+
+  IF NEW.escalation_level > COALESCE(OLD.escalation_level, 0) THEN
+    INSERT INTO public.activity_log (entity_type, entity_id, event, old_value, new_value, actor_id)
+    VALUES ('problem', NEW.id, 'escalated', OLD.escalation_level::text, NEW.escalation_level::text, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_problem_activity
+  AFTER INSERT OR UPDATE ON public.problems
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_problem_activity();
@@ -0,0 +1,110 @@
+-- Generic audit trail of board entities for quality audits (ISO 9001 / IATF 16949)
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  -- Board of the audited record, NULL for global tables (roles, settings) which only admins read.
+  -- No foreign key: the history outlives the board, whose deletion is audited too
+  board_id UUID,
+  -- NULL when the change was made by a scheduled job or the service role
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_table ON public.audit_log(table_name, created_at DESC);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log(record_id);
+CREATE INDEX idx_audit_log_board ON public.audit_log(board_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only: rows are written by the trigger and never updated or deleted.
+-- Managers only read the history of the boards they can access
+CREATE POLICY "Admins and managers can view audit log"
+ON public.audit_log
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR (has_role(auth.uid(), 'manager'::app_role) AND board_id IS NOT NULL AND can_access_board(auth.uid(), board_id))
+);
+
+CREATE OR REPLACE FUNCTION public.audit_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changed TEXT[];
+  _record JSONB;
+  _board_id UUID;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    _new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO _changed
+    FROM jsonb_each(_new) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM _old -> n.key;
+
+    -- Touching updated_at alone is not worth a line in the journal
+    IF _changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  _record := COALESCE(_new, _old);
+  IF TG_TABLE_NAME = 'sfm_categories' THEN
+    _board_id := (_record ->> 'board_id')::uuid;
+  ELSIF TG_TABLE_NAME = 'kpi_values' THEN
+    SELECT c.board_id INTO _board_id
+    FROM public.kpis k
+    JOIN public.sfm_categories c ON c.id = k.category_id
+    WHERE k.id = (_record ->> 'kpi_id')::uuid;
+  ELSIF _record ? 'category_id' THEN
+    SELECT board_id INTO _board_id FROM public.sfm_categories WHERE id = (_record ->> 'category_id')::uuid;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, operation, old_data, new_data, changed_fields, actor_id, board_id)
+  VALUES (
+    TG_TABLE_NAME,
+    (_record ->> 'id')::uuid,
+    TG_OP,
+    _old,
+    _new,
+    _changed,
+    auth.uid(),
+    _board_id
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY['kpis', 'kpi_values', 'actions', 'problems', 'notes', 'sfm_categories', 'user_roles', 'app_settings']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON public.%1$I', _table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I FOR EACH ROW EXECUTE FUNCTION public.audit_trigger()',
+      _table
+    );
+  END LOOP;
+END;
+$$;
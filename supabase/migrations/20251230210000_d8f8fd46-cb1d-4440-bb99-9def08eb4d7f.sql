@@ -0,0 +1,404 @@
+-- Soft delete (trash bin) for categories, KPIs and actions
+
+ALTER TABLE public.sfm_categories
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.kpis
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.actions
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sfm_categories_deleted_at ON public.sfm_categories(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_kpis_deleted_at ON public.kpis(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_actions_deleted_at ON public.actions(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Move an item to the trash. Deleting a category also trashes its KPIs and
+-- actions with the same timestamp, so that restoring it brings them back.
+-- Runs with the caller's rights: RLS decides who may delete what.
+CREATE OR REPLACE FUNCTION public.soft_delete_item(_table TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMP WITH TIME ZONE := now();
+  _rows INTEGER;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) THEN
+    RAISE EXCEPTION 'Seul un chef d''équipe peut mettre un élément à la corbeille';
+  END IF;
+
+  IF _table = 'sfm_categories' THEN
+    UPDATE public.sfm_categories SET deleted_at = _now, deleted_by = auth.uid() WHERE id = _id AND deleted_at IS NULL;
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    IF _rows > 0 THEN
+      UPDATE public.kpis SET deleted_at = _now, deleted_by = auth.uid() WHERE category_id = _id AND deleted_at IS NULL;
+      UPDATE public.actions SET deleted_at = _now, deleted_by = auth.uid() WHERE category_id = _id AND deleted_at IS NULL;
+    END IF;
+  ELSIF _table = 'kpis' THEN
+    UPDATE public.kpis SET deleted_at = _now, deleted_by = auth.uid() WHERE id = _id AND deleted_at IS NULL;
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+  ELSIF _table = 'actions' THEN
+    UPDATE public.actions SET deleted_at = _now, deleted_by = auth.uid() WHERE id = _id AND deleted_at IS NULL;
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+  ELSE
+    RAISE EXCEPTION 'Type d''élément non pris en charge : %', _table;
+  END IF;
+
+  IF _rows = 0 THEN
+    RAISE EXCEPTION 'Élément introuvable ou accès refusé';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_deleted_item(_table TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at TIMESTAMP WITH TIME ZONE;
+  _category_id UUID;
+BEGIN
+  IF _table = 'sfm_categories' THEN
+    SELECT deleted_at INTO _deleted_at FROM public.sfm_categories WHERE id = _id;
+  ELSIF _table = 'kpis' THEN
+    SELECT deleted_at, category_id INTO _deleted_at, _category_id FROM public.kpis WHERE id = _id;
+  ELSIF _table = 'actions' THEN
+    SELECT deleted_at, category_id INTO _deleted_at, _category_id FROM public.actions WHERE id = _id;
+  ELSE
+    RAISE EXCEPTION 'Type d''élément non pris en charge : %', _table;
+  END IF;
+
+  IF _deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Élément introuvable ou absent de la corbeille';
+  END IF;
+
+  IF _category_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.sfm_categories WHERE id = _category_id AND deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Restaurez d''abord la catégorie de cet élément';
+  END IF;
+
+  IF _table = 'sfm_categories' THEN
+    UPDATE public.sfm_categories SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+    UPDATE public.kpis SET deleted_at = NULL, deleted_by = NULL WHERE category_id = _id AND deleted_at = _deleted_at;
+    UPDATE public.actions SET deleted_at = NULL, deleted_by = NULL WHERE category_id = _id AND deleted_at = _deleted_at;
+  ELSIF _table = 'kpis' THEN
+    UPDATE public.kpis SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+  ELSE
+    UPDATE public.actions SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+  END IF;
+END;
+$$;
+
+-- Trashed actions no longer block the resolution of their problem
+CREATE OR REPLACE FUNCTION public.enforce_problem_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.actions
+      WHERE problem_id = NEW.id AND status <> 'completed' AND deleted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Toutes les actions liées au problème doivent être terminées';
+    END IF;
+    NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+  ELSIF NEW.status <> 'resolved' THEN
+    NEW.resolved_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Templates of a trashed category stop generating actions
+CREATE OR REPLACE FUNCTION public.generate_recurring_actions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template public.action_templates%ROWTYPE;
+  _created INTEGER := 0;
+  _rows INTEGER;
+BEGIN
+  FOR _template IN
+    SELECT t.* FROM public.action_templates t
+    JOIN public.sfm_categories c ON c.id = t.category_id
+    WHERE t.is_active AND t.recurrence_type IS NOT NULL AND c.deleted_at IS NULL
+  LOOP
+    IF public.next_recurrence_date(
+      _template.recurrence_type,
+      _template.recurrence_weekdays,
+      _template.recurrence_day_of_month,
+      CURRENT_DATE - 1
+    ) = CURRENT_DATE THEN
+      INSERT INTO public.actions (category_id, title, description, priority, responsible_id, due_date, status, created_by, template_id)
+      VALUES (_template.category_id, _template.title, _template.description, _template.priority, _template.responsible_id, CURRENT_DATE, 'todo', _template.created_by, _template.id)
+      ON CONFLICT (template_id, due_date) WHERE template_id IS NOT NULL DO NOTHING;
+      GET DIAGNOSTICS _rows = ROW_COUNT;
+      _created := _created + _rows;
+    END IF;
+  END LOOP;
+  RETURN _created;
+END;
+$$;
+
+-- Problems of a trashed category are no longer escalated
+CREATE OR REPLACE FUNCTION public.escalate_problems()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _problem RECORD;
+  _rule public.escalation_rules%ROWTYPE;
+  _targets UUID[];
+  _assignee UUID;
+  _steps INTEGER := 0;
+BEGIN
+  FOR _problem IN
+    SELECT p.*, c.board_id
+    FROM public.problems p
+    JOIN public.sfm_categories c ON c.id = p.category_id
+    WHERE p.status IS DISTINCT FROM 'resolved' AND c.deleted_at IS NULL
+  LOOP
+    SELECT * INTO _rule FROM public.escalation_rules r
+    WHERE r.severity = COALESCE(_problem.severity, 'medium')
+      AND r.level > _problem.escalation_level
+      AND _problem.created_at + make_interval(hours => r.after_hours) <= now()
+    ORDER BY r.level
+    LIMIT 1;
+
+    IF FOUND THEN
+      SELECT array_agg(ur.user_id) INTO _targets
+      FROM public.user_roles ur
+      JOIN public.profiles pr ON pr.user_id = ur.user_id AND pr.status = 'approved'
+      WHERE ur.role = _rule.target_role
+        AND public.can_access_board(ur.user_id, CASE
+          WHEN _rule.target_scope = 'site' THEN public.root_board_id(_problem.board_id)
+          ELSE _problem.board_id
+        END);
+
+      -- The new owner is the longest-standing target who is a member of the problem's own board
+      _assignee := NULL;
+      IF _rule.reassign THEN
+        SELECT m.user_id INTO _assignee
+        FROM public.board_members m
+        WHERE m.board_id = _problem.board_id AND m.user_id = ANY(_targets)
+        ORDER BY m.created_at
+        LIMIT 1;
+      END IF;
+
+      INSERT INTO public.problem_escalations (problem_id, rule_id, level, label, assigned_to, notified_count)
+      VALUES (_problem.id, _rule.id, _rule.level, _rule.label, _assignee, COALESCE(array_length(_targets, 1), 0));
+
+      INSERT INTO public.smart_alerts (type, severity, title, message, category_id, related_id, related_type, recipient_id)
+      SELECT
+        'problem_escalated',
+        CASE WHEN _problem.severity = 'critical' THEN 'critical' ELSE 'high' END,
+        format('Problème escaladé: %s', _problem.title),
+        format('"%s" n''est pas résolu après %s h et est escaladé au niveau %s (%s).', _problem.title, _rule.after_hours, _rule.level, _rule.label),
+        _problem.category_id,
+        _problem.id,
+        'problem',
+        target
+      FROM unnest(_targets) AS target;
+
+      UPDATE public.problems
+      SET escalation_level = _rule.level,
+          escalated = true,
+          assigned_to = COALESCE(_assignee, assigned_to)
+      WHERE id = _problem.id;
+
+      _steps := _steps + 1;
+    END IF;
+  END LOOP;
+  RETURN _steps;
+END;
+$$;
+
+-- The trash replaces hard deletes: live rows can only be trashed, and only
+-- trashed rows can be purged
+DROP POLICY IF EXISTS "Managers and admins can manage categories" ON public.sfm_categories;
+DROP POLICY IF EXISTS "Managers and admins can manage KPIs" ON public.kpis;
+DROP POLICY IF EXISTS "Team leaders and above can manage actions" ON public.actions;
+
+CREATE POLICY "Managers and admins can create categories"
+ON public.sfm_categories
+FOR INSERT
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Managers and admins can update categories"
+ON public.sfm_categories
+FOR UPDATE
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_board(auth.uid(), board_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Managers and admins can purge trashed categories"
+ON public.sfm_categories
+FOR DELETE
+USING (deleted_at IS NOT NULL AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Managers and admins can create KPIs"
+ON public.kpis
+FOR INSERT
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Managers and admins can update KPIs"
+ON public.kpis
+FOR UPDATE
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Managers and admins can purge trashed KPIs"
+ON public.kpis
+FOR DELETE
+USING (deleted_at IS NOT NULL AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Team leaders and above can create actions"
+ON public.actions
+FOR INSERT
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Team leaders and above can update actions"
+ON public.actions
+FOR UPDATE
+USING ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id))
+WITH CHECK ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'team_leader'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+CREATE POLICY "Managers and admins can purge trashed actions"
+ON public.actions
+FOR DELETE
+USING (deleted_at IS NOT NULL AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) AND can_access_category(auth.uid(), category_id));
+
+-- What a purge takes with it through ON DELETE CASCADE, shown before confirming.
+-- Runs with the caller's rights, like the purge itself
+CREATE OR REPLACE FUNCTION public.trash_item_dependants(_table TEXT, _id UUID)
+RETURNS TABLE (kind TEXT, total BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.kind, d.total
+  FROM (
+    SELECT 'kpis' AS kind, count(*) AS total
+    FROM public.kpis
+    WHERE _table = 'sfm_categories' AND category_id = _id
+    UNION ALL
+    SELECT 'kpi_values', count(*)
+    FROM public.kpi_values v
+    JOIN public.kpis k ON k.id = v.kpi_id
+    WHERE (_table = 'sfm_categories' AND k.category_id = _id) OR (_table = 'kpis' AND k.id = _id)
+    UNION ALL
+    SELECT 'actions', count(*)
+    FROM public.actions
+    WHERE _table = 'sfm_categories' AND category_id = _id
+    UNION ALL
+    SELECT 'action_templates', count(*)
+    FROM public.action_templates
+    WHERE _table = 'sfm_categories' AND category_id = _id
+    UNION ALL
+    SELECT 'problems', count(*)
+    FROM public.problems
+    WHERE _table = 'sfm_categories' AND category_id = _id
+    UNION ALL
+    SELECT 'notes', count(*)
+    FROM public.notes
+    WHERE _table = 'sfm_categories' AND category_id = _id
+    UNION ALL
+    SELECT 'attachments', count(*)
+    FROM public.attachments at
+    LEFT JOIN public.problems p ON p.id = at.problem_id
+    LEFT JOIN public.actions a ON a.id = at.action_id
+    LEFT JOIN public.notes n ON n.id = at.note_id
+    WHERE (_table = 'sfm_categories' AND _id IN (p.category_id, a.category_id, n.category_id))
+      OR (_table = 'actions' AND at.action_id = _id)
+  ) d
+  WHERE d.total > 0
+$$;
+
+-- Permanent delete of a trashed item. Comments and activity have no foreign key to
+-- what they describe and are deleted here; returns the storage paths of the cascaded
+-- attachments, whose files the caller removes from the bucket
+CREATE OR REPLACE FUNCTION public.purge_deleted_item(_table TEXT, _id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed BOOLEAN;
+  _action_ids UUID[] := '{}';
+  _problem_ids UUID[] := '{}';
+  _note_ids UUID[] := '{}';
+  _paths TEXT[];
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) THEN
+    RAISE EXCEPTION 'Seul un manager peut supprimer définitivement un élément';
+  END IF;
+
+  IF _table = 'sfm_categories' THEN
+    SELECT can_access_board(auth.uid(), board_id) INTO _allowed
+    FROM public.sfm_categories WHERE id = _id AND deleted_at IS NOT NULL;
+    SELECT COALESCE(array_agg(id), '{}') INTO _action_ids FROM public.actions WHERE category_id = _id;
+    SELECT COALESCE(array_agg(id), '{}') INTO _problem_ids FROM public.problems WHERE category_id = _id;
+    SELECT COALESCE(array_agg(id), '{}') INTO _note_ids FROM public.notes WHERE category_id = _id;
+  ELSIF _table = 'kpis' THEN
+    SELECT can_access_category(auth.uid(), category_id) INTO _allowed
+    FROM public.kpis WHERE id = _id AND deleted_at IS NOT NULL;
+  ELSIF _table = 'actions' THEN
+    SELECT can_access_category(auth.uid(), category_id) INTO _allowed
+    FROM public.actions WHERE id = _id AND deleted_at IS NOT NULL;
+    _action_ids := ARRAY[_id];
+  ELSE
+    RAISE EXCEPTION 'Type d''élément non pris en charge : %', _table;
+  END IF;
+
+  IF NOT COALESCE(_allowed, false) THEN
+    RAISE EXCEPTION 'Élément introuvable ou accès refusé';
+  END IF;
+
+  SELECT array_agg(storage_path) INTO _paths
+  FROM public.attachments
+  WHERE action_id = ANY(_action_ids) OR problem_id = ANY(_problem_ids) OR note_id = ANY(_note_ids);
+
+  DELETE FROM public.comments
+  WHERE (entity_type = 'action' AND entity_id = ANY(_action_ids))
+    OR (entity_type = 'problem' AND entity_id = ANY(_problem_ids));
+
+  DELETE FROM public.activity_log
+  WHERE (entity_type = 'action' AND entity_id = ANY(_action_ids))
+    OR (entity_type = 'problem' AND entity_id = ANY(_problem_ids));
+
+  IF _table = 'sfm_categories' THEN
+    DELETE FROM public.sfm_categories WHERE id = _id;
+  ELSIF _table = 'kpis' THEN
+    DELETE FROM public.kpis WHERE id = _id;
+  ELSE
+    DELETE FROM public.actions WHERE id = _id;
+  END IF;
+
+  RETURN COALESCE(_paths, '{}');
+END;
+$$;
+
+-- Files whose attachment row is gone (e.g. purged with its item) can no longer be
+-- checked against their target
+CREATE POLICY "Managers and admins can delete orphaned attachment files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'attachments'
+  AND (public.has_role(auth.uid(), 'admin'::app_role) OR public.has_role(auth.uid(), 'manager'::app_role))
+  AND NOT EXISTS (SELECT 1 FROM public.attachments a WHERE a.storage_path = storage.objects.name)
+);
@@ -0,0 +1,9 @@
+-- Live board updates: stream changes of board entities to connected clients
+
+-- Full old rows so that UPDATE and DELETE events carry the category and KPI ids
+ALTER TABLE public.actions REPLICA IDENTITY FULL;
+ALTER TABLE public.problems REPLICA IDENTITY FULL;
+ALTER TABLE public.kpi_values REPLICA IDENTITY FULL;
+ALTER TABLE public.notes REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.actions, public.problems, public.kpi_values, public.notes;
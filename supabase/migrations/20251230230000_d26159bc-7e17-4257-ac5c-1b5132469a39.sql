@@ -0,0 +1,192 @@
+-- Read-only TV / kiosk display of a board, authenticated by a revocable token
+
+CREATE TABLE public.display_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  -- Only the SHA-256 of the token is kept, the token itself is shown once
+  token_hash TEXT NOT NULL UNIQUE,
+  token_hint TEXT NOT NULL,
+  rotate_seconds INTEGER NOT NULL DEFAULT 20 CHECK (rotate_seconds BETWEEN 5 AND 600),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_display_tokens_board ON public.display_tokens(board_id);
+
+ALTER TABLE public.display_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view display tokens"
+ON public.display_tokens
+FOR SELECT
+USING (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), board_id));
+
+-- Used to revoke a token or change its rotation delay
+CREATE POLICY "Managers can update display tokens"
+ON public.display_tokens
+FOR UPDATE
+USING (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), board_id))
+WITH CHECK (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Managers can delete display tokens"
+ON public.display_tokens
+FOR DELETE
+USING (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), board_id));
+
+-- Tokens are generated here so that the plain value never reaches the table
+CREATE OR REPLACE FUNCTION public.create_display_token(_name TEXT, _board_id UUID, _rotate_seconds INTEGER DEFAULT 20)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'manager'::app_role) AND can_access_board(auth.uid(), _board_id)) THEN
+    RAISE EXCEPTION 'Accès refusé';
+  END IF;
+
+  _token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO public.display_tokens (name, board_id, token_hash, token_hint, rotate_seconds, created_by)
+  VALUES (
+    _name,
+    _board_id,
+    encode(sha256(convert_to(_token, 'UTF8')), 'hex'),
+    right(_token, 4),
+    _rotate_seconds,
+    auth.uid()
+  );
+
+  RETURN _token;
+END;
+$$;
+
+-- Snapshot of a board and its sub-boards for the kiosk screen. Callable
+-- without a session: the token is the only credential.
+CREATE OR REPLACE FUNCTION public.get_display_board(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _display public.display_tokens%ROWTYPE;
+  _result JSONB;
+BEGIN
+  SELECT * INTO _display
+  FROM public.display_tokens
+  WHERE token_hash = encode(sha256(convert_to(_token, 'UTF8')), 'hex')
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Jeton d''affichage invalide ou révoqué';
+  END IF;
+
+  -- A screen refreshes every few seconds, no need to write on each call
+  IF _display.last_used_at IS NULL OR _display.last_used_at < now() - interval '5 minutes' THEN
+    UPDATE public.display_tokens SET last_used_at = now() WHERE id = _display.id;
+  END IF;
+
+  WITH RECURSIVE board_tree AS (
+    SELECT b.id, b.name, b.display_order, 0 AS depth
+    FROM public.boards b
+    WHERE b.id = _display.board_id
+    UNION ALL
+    SELECT b.id, b.name, b.display_order, t.depth + 1
+    FROM public.boards b
+    JOIN board_tree t ON b.parent_id = t.id
+    WHERE COALESCE(b.is_active, true)
+  )
+  SELECT jsonb_build_object(
+    'name', _display.name,
+    'rotate_seconds', _display.rotate_seconds,
+    'generated_at', now(),
+    'board', (SELECT jsonb_build_object('id', b.id, 'name', b.name) FROM public.boards b WHERE b.id = _display.board_id),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'code', c.code,
+        'color', c.color,
+        'board_name', t.name,
+        'kpis', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', k.id,
+            'name', k.name,
+            'unit', k.unit,
+            'target_value', k.target_value,
+            'performance_direction', k.performance_direction,
+            'values', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('value', v.value, 'recorded_at', v.recorded_at, 'status', v.status) ORDER BY v.recorded_at)
+              FROM (
+                SELECT value, recorded_at, status FROM public.kpi_values
+                WHERE kpi_id = k.id
+                ORDER BY recorded_at DESC
+                LIMIT 12
+              ) v
+            ), '[]'::jsonb)
+          ) ORDER BY k.display_order NULLS LAST, k.name)
+          FROM public.kpis k
+          WHERE k.category_id = c.id AND COALESCE(k.is_active, true) AND k.deleted_at IS NULL
+        ), '[]'::jsonb),
+        'open_actions', (
+          SELECT count(*) FROM public.actions a
+          WHERE a.category_id = c.id AND a.deleted_at IS NULL AND a.status <> 'completed'
+        ),
+        'overdue_actions', (
+          SELECT count(*) FROM public.actions a
+          WHERE a.category_id = c.id AND a.deleted_at IS NULL AND a.status <> 'completed' AND a.due_date < CURRENT_DATE
+        ),
+        'actions', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', a.id,
+            'title', a.title,
+            'status', a.status,
+            'priority', a.priority,
+            'due_date', a.due_date,
+            'responsible', a.responsible
+          ) ORDER BY a.due_date)
+          FROM (
+            SELECT a.id, a.title, a.status, a.priority, a.due_date, p.full_name AS responsible
+            FROM public.actions a
+            LEFT JOIN public.profiles p ON p.user_id = a.responsible_id
+            WHERE a.category_id = c.id AND a.deleted_at IS NULL AND a.status <> 'completed'
+            ORDER BY a.due_date
+            LIMIT 6
+          ) a
+        ), '[]'::jsonb),
+        'open_problems', (
+          SELECT count(*) FROM public.problems p
+          WHERE p.category_id = c.id AND p.status <> 'resolved'
+        ),
+        'problems', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', p.id,
+            'title', p.title,
+            'severity', p.severity,
+            'status', p.status,
+            'created_at', p.created_at
+          ) ORDER BY p.created_at DESC)
+          FROM (
+            SELECT id, title, severity, status, created_at FROM public.problems
+            WHERE category_id = c.id AND status <> 'resolved'
+            ORDER BY created_at DESC
+            LIMIT 5
+          ) p
+        ), '[]'::jsonb)
+      ) ORDER BY t.depth, t.display_order, c.display_order)
+      FROM public.sfm_categories c
+      JOIN board_tree t ON t.id = c.board_id
+      WHERE COALESCE(c.is_active, true) AND c.deleted_at IS NULL
+    ), '[]'::jsonb)
+  ) INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_display_board(TEXT) TO anon;
@@ -0,0 +1,121 @@
+-- Guided daily SFM meeting: attendance, time spent per category and decisions
+
+CREATE TABLE public.meetings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  planned_minutes INTEGER NOT NULL DEFAULT 15 CHECK (planned_minutes > 0),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- NULL while the meeting is running
+  ended_at TIMESTAMP WITH TIME ZONE,
+  facilitator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  summary TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meetings_board ON public.meetings(board_id, started_at DESC);
+
+CREATE TRIGGER update_meetings_updated_at BEFORE UPDATE ON public.meetings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.meeting_attendees (
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  present BOOLEAN NOT NULL DEFAULT true,
+  PRIMARY KEY (meeting_id, user_id)
+);
+
+-- One row per category reviewed; the name is kept so old minutes stay readable
+CREATE TABLE public.meeting_segments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.sfm_categories(id) ON DELETE SET NULL,
+  category_name TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  planned_seconds INTEGER NOT NULL,
+  spent_seconds INTEGER NOT NULL DEFAULT 0,
+  comment TEXT
+);
+
+CREATE INDEX idx_meeting_segments_meeting ON public.meeting_segments(meeting_id, position);
+
+-- Decisions taken during a meeting are regular notes and actions
+ALTER TABLE public.notes ADD COLUMN meeting_id UUID REFERENCES public.meetings(id) ON DELETE SET NULL;
+ALTER TABLE public.actions ADD COLUMN meeting_id UUID REFERENCES public.meetings(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_notes_meeting ON public.notes(meeting_id) WHERE meeting_id IS NOT NULL;
+CREATE INDEX idx_actions_meeting ON public.actions(meeting_id) WHERE meeting_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.can_access_meeting(_user_id UUID, _meeting_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.meetings m
+    WHERE m.id = _meeting_id AND public.can_access_board(_user_id, m.board_id)
+  )
+$$;
+
+-- Team leaders and above run meetings
+CREATE OR REPLACE FUNCTION public.can_run_meeting(_user_id UUID, _board_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    public.has_role(_user_id, 'admin'::app_role)
+    OR public.has_role(_user_id, 'manager'::app_role)
+    OR public.has_role(_user_id, 'team_leader'::app_role)
+  ) AND public.can_access_board(_user_id, _board_id)
+$$;
+
+ALTER TABLE public.meetings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.meeting_attendees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.meeting_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view meetings"
+ON public.meetings
+FOR SELECT
+USING (can_access_board(auth.uid(), board_id));
+
+CREATE POLICY "Team leaders can start meetings"
+ON public.meetings
+FOR INSERT
+WITH CHECK (facilitator_id = auth.uid() AND can_run_meeting(auth.uid(), board_id));
+
+CREATE POLICY "Team leaders can update meetings"
+ON public.meetings
+FOR UPDATE
+USING (can_run_meeting(auth.uid(), board_id))
+WITH CHECK (can_run_meeting(auth.uid(), board_id));
+
+CREATE POLICY "Team leaders can delete meetings"
+ON public.meetings
+FOR DELETE
+USING (can_run_meeting(auth.uid(), board_id));
+
+CREATE POLICY "Members can view meeting attendance"
+ON public.meeting_attendees
+FOR SELECT
+USING (can_access_meeting(auth.uid(), meeting_id));
+
+CREATE POLICY "Team leaders can record attendance"
+ON public.meeting_attendees
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.meetings m WHERE m.id = meeting_id AND can_run_meeting(auth.uid(), m.board_id)))
+WITH CHECK (EXISTS (SELECT 1 FROM public.meetings m WHERE m.id = meeting_id AND can_run_meeting(auth.uid(), m.board_id)));
+
+CREATE POLICY "Members can view meeting segments"
+ON public.meeting_segments
+FOR SELECT
+USING (can_access_meeting(auth.uid(), meeting_id));
+
+CREATE POLICY "Team leaders can record meeting segments"
+ON public.meeting_segments
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.meetings m WHERE m.id = meeting_id AND can_run_meeting(auth.uid(), m.board_id)))
+WITH CHECK (EXISTS (SELECT 1 FROM public.meetings m WHERE m.id = meeting_id AND can_run_meeting(auth.uid(), m.board_id)));
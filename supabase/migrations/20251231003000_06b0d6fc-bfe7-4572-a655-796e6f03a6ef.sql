@@ -0,0 +1,38 @@
+-- Entries typed offline carry an id generated on the tablet, so that replaying one
+-- whose first send was committed but whose response was lost inserts nothing twice
+DROP FUNCTION IF EXISTS public.add_kpi_value(UUID, NUMERIC, TIMESTAMP WITH TIME ZONE, INTEGER, TEXT, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.add_kpi_value(
+  _kpi_id UUID,
+  _value NUMERIC,
+  _recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _week_number INTEGER DEFAULT NULL,
+  _comment TEXT DEFAULT NULL,
+  _recorded_by UUID DEFAULT NULL,
+  _breakdown JSONB DEFAULT '[]'::jsonb,
+  _id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _value_id UUID;
+BEGIN
+  INSERT INTO public.kpi_values (id, kpi_id, value, recorded_at, week_number, comment, recorded_by)
+  VALUES (COALESCE(_id, gen_random_uuid()), _kpi_id, _value, COALESCE(_recorded_at, now()), _week_number, _comment, _recorded_by)
+  ON CONFLICT (id) DO NOTHING
+  RETURNING id INTO _value_id;
+
+  -- Already saved with its breakdown by a previous send
+  IF _value_id IS NULL THEN
+    RETURN _id;
+  END IF;
+
+  INSERT INTO public.kpi_value_breakdowns (kpi_value_id, cause, value)
+  SELECT _value_id, b.cause, b.value
+  FROM jsonb_to_recordset(COALESCE(_breakdown, '[]'::jsonb)) AS b(cause TEXT, value NUMERIC);
+
+  RETURN _value_id;
+END;
+$$;
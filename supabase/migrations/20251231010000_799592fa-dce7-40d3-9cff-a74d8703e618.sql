@@ -0,0 +1,147 @@
+-- Scheduled alert generation: pg_cron wakes a dispatcher every 5 minutes, which calls the
+-- generate-alerts edge function with the service role key when a run is due.
+-- The project URL and key are read from the vault, to be set once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+-- Single row configuration
+CREATE TABLE public.alert_schedule (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Periodic run, null to run at shift starts only
+  interval_minutes INTEGER CHECK (interval_minutes IS NULL OR interval_minutes BETWEEN 15 AND 1440),
+  -- Local 'HH:MM' times, in the timezone of app_settings
+  shift_starts TEXT[] NOT NULL DEFAULT '{}' CHECK (
+    cardinality(shift_starts) = 0
+    OR array_to_string(shift_starts, ',') ~ '^([01][0-9]|2[0-3]):[0-5][0-9](,([01][0-9]|2[0-3]):[0-5][0-9])*$'
+  ),
+  last_dispatched_at TIMESTAMP WITH TIME ZONE,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.alert_schedule ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_alert_schedule_updated_at BEFORE UPDATE ON public.alert_schedule FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Managers and admins can view the alert schedule"
+ON public.alert_schedule
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Managers and admins can update the alert schedule"
+ON public.alert_schedule
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+INSERT INTO public.alert_schedule (id, interval_minutes, shift_starts)
+VALUES (true, 60, ARRAY['06:00', '14:00', '22:00'])
+ON CONFLICT (id) DO NOTHING;
+
+-- One row per execution of generate-alerts, written by the edge function
+CREATE TABLE public.alert_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'schedule')),
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error')),
+  total_checked INTEGER NOT NULL DEFAULT 0,
+  new_alerts_created INTEGER NOT NULL DEFAULT 0,
+  duplicates_skipped INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_runs_started_at ON public.alert_runs(started_at DESC);
+
+ALTER TABLE public.alert_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins can view alert runs"
+ON public.alert_runs
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+-- Called by pg_cron; returns whether a run was requested
+CREATE OR REPLACE FUNCTION public.dispatch_scheduled_alerts()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _schedule public.alert_schedule;
+  _now TIMESTAMP WITH TIME ZONE := now();
+  _since TIMESTAMP WITH TIME ZONE;
+  _tz TEXT;
+  _today DATE;
+  _due BOOLEAN := false;
+  _url TEXT;
+  _key TEXT;
+BEGIN
+  SELECT * INTO _schedule FROM public.alert_schedule FOR UPDATE;
+  IF NOT FOUND OR NOT _schedule.enabled THEN
+    RETURN false;
+  END IF;
+
+  SELECT value INTO _tz FROM public.app_settings WHERE key = 'timezone';
+  IF _tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _tz) THEN
+    _tz := 'Europe/Paris';
+  END IF;
+
+  _since := COALESCE(_schedule.last_checked_at, _now - interval '5 minutes');
+  _today := (_now AT TIME ZONE _tz)::date;
+
+  IF _schedule.interval_minutes IS NOT NULL
+     AND (_schedule.last_dispatched_at IS NULL
+          OR _schedule.last_dispatched_at <= _now - make_interval(mins => _schedule.interval_minutes)) THEN
+    _due := true;
+  END IF;
+
+  -- A shift started since the previous check, today or just before midnight
+  IF NOT _due AND EXISTS (
+    SELECT 1
+    FROM unnest(_schedule.shift_starts) AS s(start_time)
+    CROSS JOIN (VALUES (_today), (_today - 1)) AS d(day)
+    WHERE ((d.day + s.start_time::time) AT TIME ZONE _tz) > _since
+      AND ((d.day + s.start_time::time) AT TIME ZONE _tz) <= _now
+  ) THEN
+    _due := true;
+  END IF;
+
+  UPDATE public.alert_schedule
+  SET last_checked_at = _now,
+      last_dispatched_at = CASE WHEN _due THEN _now ELSE last_dispatched_at END
+  WHERE id;
+
+  IF NOT _due THEN
+    RETURN false;
+  END IF;
+
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF _url IS NULL OR _key IS NULL THEN
+    RAISE WARNING 'Scheduled alerts skipped: project_url or service_role_key missing from the vault';
+    RETURN false;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url || '/functions/v1/generate-alerts',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || _key),
+    body := jsonb_build_object('trigger', 'schedule')
+  );
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_scheduled_alerts() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'dispatch-scheduled-alerts',
+  '*/5 * * * *',
+  $$SELECT public.dispatch_scheduled_alerts()$$
+);
@@ -0,0 +1,132 @@
+-- Alert rules evaluated by generate-alerts, replacing its hardcoded checks
+CREATE TABLE public.alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  rule_type TEXT NOT NULL CHECK (rule_type IN (
+    'kpi_status', 'kpi_threshold', 'kpi_trend', 'kpi_spc',
+    'problem_severity', 'open_problems',
+    'action_overdue', 'action_due_today', 'action_stale'
+  )),
+  -- Scope, all boards when null; a board includes its sub-boards
+  board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.sfm_categories(id) ON DELETE CASCADE,
+  kpi_id UUID REFERENCES public.kpis(id) ON DELETE CASCADE,
+  -- Type specific settings, e.g. {"operator": "lt", "value": 85, "consecutive": 3}
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  severity TEXT NOT NULL DEFAULT 'high' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  -- Lowest role that sees the alerts, every member of the board when null
+  audience_role app_role,
+  -- Minimum delay before the same rule alerts again on the same item
+  cooldown_minutes INTEGER NOT NULL DEFAULT 0 CHECK (cooldown_minutes >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON public.alert_rules FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether a user can access every board, category and KPI a rule is scoped to
+CREATE OR REPLACE FUNCTION public.can_access_alert_rule_scope(_user_id UUID, _board_id UUID, _category_id UUID, _kpi_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (_board_id IS NULL OR public.can_access_board(_user_id, _board_id))
+    AND (_category_id IS NULL OR public.can_access_category(_user_id, _category_id))
+    AND (_kpi_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.kpis k
+      WHERE k.id = _kpi_id AND public.can_access_category(_user_id, k.category_id)
+    ))
+$$;
+
+CREATE POLICY "Managers and admins can view alert rules"
+ON public.alert_rules
+FOR SELECT
+USING (
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+  AND can_access_alert_rule_scope(auth.uid(), board_id, category_id, kpi_id)
+);
+
+CREATE POLICY "Managers and admins can manage alert rules"
+ON public.alert_rules
+FOR ALL
+USING (
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+  AND can_access_alert_rule_scope(auth.uid(), board_id, category_id, kpi_id)
+)
+WITH CHECK (
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+  AND can_access_alert_rule_scope(auth.uid(), board_id, category_id, kpi_id)
+);
+
+-- The previous hardcoded checks, now editable
+INSERT INTO public.alert_rules (name, rule_type, params, severity) VALUES
+  ('KPI en zone rouge', 'kpi_status', '{"status": "red"}', 'critical'),
+  ('KPI en zone orange', 'kpi_status', '{"status": "orange"}', 'high'),
+  ('Tendance négative', 'kpi_trend', '{}', 'medium'),
+  ('Hors contrôle SPC', 'kpi_spc', '{}', 'high'),
+  ('Actions urgentes en retard', 'action_overdue', '{"priorities": ["urgent", "high"]}', 'critical'),
+  ('Actions en retard', 'action_overdue', '{"priorities": ["medium", "low"]}', 'high'),
+  ('Actions urgentes du jour', 'action_due_today', '{"priorities": ["urgent", "high"]}', 'high'),
+  ('Problèmes critiques', 'problem_severity', '{"severities": ["critical"]}', 'critical'),
+  ('Problèmes importants', 'problem_severity', '{"severities": ["high"]}', 'high');
+
+-- Alerts remember the rule that raised them, for cooldowns and audience
+ALTER TABLE public.smart_alerts
+ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES public.alert_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS audience_role app_role;
+
+CREATE INDEX IF NOT EXISTS idx_smart_alerts_rule_related ON public.smart_alerts(rule_id, related_id, created_at DESC);
+
+-- Alerts raised by the hardcoded checks take the seeded rule that replaces them,
+-- so that generate-alerts deduplicates and auto-resolves them like any other
+UPDATE public.smart_alerts sa
+SET rule_id = r.id
+FROM public.alert_rules r
+WHERE sa.rule_id IS NULL
+  AND sa.recipient_id IS NULL
+  AND r.created_by IS NULL
+  AND r.name = CASE
+    WHEN sa.type = 'kpi_critical' THEN 'KPI en zone rouge'
+    WHEN sa.type = 'kpi_warning' THEN 'KPI en zone orange'
+    WHEN sa.type = 'kpi_trend' THEN 'Tendance négative'
+    WHEN sa.type = 'kpi_spc_violation' THEN 'Hors contrôle SPC'
+    WHEN sa.type = 'action_overdue' AND sa.severity = 'critical' THEN 'Actions urgentes en retard'
+    WHEN sa.type = 'action_overdue' THEN 'Actions en retard'
+    WHEN sa.type = 'action_urgent' THEN 'Actions urgentes du jour'
+    WHEN sa.type IN ('problem_critical', 'problem_unresolved') AND sa.severity = 'critical' THEN 'Problèmes critiques'
+    WHEN sa.type IN ('problem_critical', 'problem_unresolved') THEN 'Problèmes importants'
+  END;
+
+-- Role hierarchy: admin > manager > team_leader > operator
+CREATE OR REPLACE FUNCTION public.has_min_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id
+      AND array_position(ARRAY['operator', 'team_leader', 'manager', 'admin']::app_role[], role)
+          >= array_position(ARRAY['operator', 'team_leader', 'manager', 'admin']::app_role[], _role)
+  )
+$$;
+
+DROP POLICY IF EXISTS "Members can view alerts" ON public.smart_alerts;
+
+CREATE POLICY "Members can view alerts"
+ON public.smart_alerts
+FOR SELECT
+USING (
+  (recipient_id IS NULL OR recipient_id = auth.uid())
+  AND (category_id IS NULL OR can_access_category(auth.uid(), category_id))
+  AND (audience_role IS NULL OR has_min_role(auth.uid(), audience_role))
+);
@@ -0,0 +1,67 @@
+-- Alert lifecycle: open -> acknowledged -> resolved, with assignment and snooze
+ALTER TABLE public.smart_alerts
+ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE,
+-- Null with resolved_at set when generate-alerts saw the condition clear
+ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS auto_resolved BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_smart_alerts_resolved_at ON public.smart_alerts(resolved_at);
+CREATE INDEX IF NOT EXISTS idx_smart_alerts_assigned_to ON public.smart_alerts(assigned_to);
+
+-- Alerts already marked as read were handled, keep them as history
+UPDATE public.smart_alerts
+SET resolved_at = created_at
+WHERE is_read = true AND resolved_at IS NULL;
+
+-- Team leaders, the assignee and the recipient can handle alerts they can see
+CREATE POLICY "Handlers can update alerts"
+ON public.smart_alerts
+FOR UPDATE
+USING (
+  (category_id IS NULL OR can_access_category(auth.uid(), category_id))
+  AND (has_min_role(auth.uid(), 'team_leader'::app_role) OR assigned_to = auth.uid() OR recipient_id = auth.uid())
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_values_kpi_recorded_at ON public.kpi_values(kpi_id, recorded_at);
+
+-- Latest value and full chronological series of every KPI, one row per KPI, read by
+-- generate-alerts so that no KPI is left out of the evaluation
+CREATE OR REPLACE FUNCTION public.kpi_alert_series()
+RETURNS TABLE (
+  kpi_id UUID,
+  name TEXT,
+  category_id UUID,
+  chart_type chart_type,
+  spc_baseline_size INTEGER,
+  value NUMERIC,
+  status kpi_status,
+  trend kpi_trend,
+  series NUMERIC[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT k.id, k.name, k.category_id, k.chart_type, k.spc_baseline_size, latest.value, latest.status, latest.trend, s.series
+  FROM public.kpis k
+  JOIN LATERAL (
+    SELECT v.value, v.status, v.trend
+    FROM public.kpi_values v
+    WHERE v.kpi_id = k.id
+    ORDER BY v.recorded_at DESC
+    LIMIT 1
+  ) latest ON true
+  CROSS JOIN LATERAL (
+    SELECT array_agg(v.value ORDER BY v.recorded_at) AS series
+    FROM public.kpi_values v
+    WHERE v.kpi_id = k.id
+  ) s
+  WHERE k.deleted_at IS NULL
+  ORDER BY k.id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kpi_alert_series() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,97 @@
+-- One delivery per recipient of an alert, each user has their own read state
+CREATE TABLE public.alert_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES public.smart_alerts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (alert_id, user_id)
+);
+
+CREATE INDEX idx_alert_deliveries_user_unread ON public.alert_deliveries(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the delivery trigger only
+CREATE POLICY "Users can view their deliveries"
+ON public.alert_deliveries
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their deliveries read"
+ON public.alert_deliveries
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Recipients of an alert: its single recipient, otherwise the non-admin members
+-- of its category holding at least its audience role
+CREATE OR REPLACE FUNCTION public.alert_recipient_ids(_alert_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.recipient_id
+  FROM public.smart_alerts a
+  WHERE a.id = _alert_id AND a.recipient_id IS NOT NULL
+  UNION
+  SELECT ur.user_id
+  FROM public.smart_alerts a
+  CROSS JOIN public.user_roles ur
+  WHERE a.id = _alert_id
+    AND a.recipient_id IS NULL
+    AND NOT has_role(ur.user_id, 'admin'::app_role)
+    AND (a.audience_role IS NULL OR has_min_role(ur.user_id, a.audience_role))
+    AND (a.category_id IS NULL OR can_access_category(ur.user_id, a.category_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.deliver_smart_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.alert_deliveries (alert_id, user_id)
+  SELECT NEW.id, r.user_id
+  FROM public.alert_recipient_ids(NEW.id) AS r(user_id)
+  ON CONFLICT (alert_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deliver_smart_alert
+  AFTER INSERT ON public.smart_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.deliver_smart_alert();
+
+-- Deliver the alerts still pending, keeping the old global flag as read state
+INSERT INTO public.alert_deliveries (alert_id, user_id, read_at)
+SELECT a.id, r.user_id, CASE WHEN a.is_read THEN now() END
+FROM public.smart_alerts a
+CROSS JOIN LATERAL public.alert_recipient_ids(a.id) AS r(user_id)
+WHERE a.resolved_at IS NULL
+ON CONFLICT (alert_id, user_id) DO NOTHING;
+
+-- The global flag is replaced by the deliveries
+DROP INDEX IF EXISTS public.idx_smart_alerts_is_read;
+ALTER TABLE public.smart_alerts DROP COLUMN IF EXISTS is_read;
+
+-- Alerts addressed to one user are no longer visible to the whole category
+DROP POLICY IF EXISTS "Members can view alerts" ON public.smart_alerts;
+
+CREATE POLICY "Members can view alerts"
+ON public.smart_alerts
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.alert_deliveries d WHERE d.alert_id = smart_alerts.id AND d.user_id = auth.uid())
+  OR (
+    recipient_id IS NULL
+    AND (category_id IS NULL OR can_access_category(auth.uid(), category_id))
+    AND (audience_role IS NULL OR has_min_role(auth.uid(), audience_role))
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.alert_deliveries;
@@ -0,0 +1,45 @@
+-- Web Push subscriptions, one per browser or device of a user
+CREATE TABLE public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can manage their push subscriptions"
+ON public.push_subscriptions
+FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Set once generate-alerts has pushed the delivery to the recipient's devices
+ALTER TABLE public.alert_deliveries
+ADD COLUMN IF NOT EXISTS pushed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_not_pushed ON public.alert_deliveries(created_at) WHERE pushed_at IS NULL;
+
+-- A browser keeps its subscription across sign-ins, the device goes to the user signed in last
+CREATE OR REPLACE FUNCTION public.register_push_subscription(_endpoint TEXT, _p256dh TEXT, _auth TEXT, _user_agent TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id, p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth, user_agent = EXCLUDED.user_agent
+$$;
@@ -0,0 +1,60 @@
+-- Operators keep out of the trash and of the links of their actions: a new problem_id
+-- would let sync_problem_status_from_actions reopen any problem
+CREATE OR REPLACE FUNCTION public.enforce_action_validation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _is_validator BOOLEAN := has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role);
+  _is_team_leader BOOLEAN := _is_validator OR has_role(auth.uid(), 'team_leader'::app_role);
+BEGIN
+  -- Scheduled jobs and service calls are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Operators may only move their own actions through the status workflow
+  IF NOT _is_team_leader AND (
+    NEW.title, NEW.description, NEW.priority, NEW.responsible_id, NEW.due_date, NEW.category_id, NEW.requires_validation,
+    NEW.deleted_at, NEW.deleted_by, NEW.problem_id, NEW.problem_cause_id, NEW.kpi_id, NEW.meeting_id
+  ) IS DISTINCT FROM (
+    OLD.title, OLD.description, OLD.priority, OLD.responsible_id, OLD.due_date, OLD.category_id, OLD.requires_validation,
+    OLD.deleted_at, OLD.deleted_by, OLD.problem_id, OLD.problem_cause_id, OLD.kpi_id, OLD.meeting_id
+  ) THEN
+    RAISE EXCEPTION 'Seul le statut de l''action peut être modifié';
+  END IF;
+
+  IF NOT _is_validator THEN
+    NEW.validated_at := OLD.validated_at;
+    NEW.validated_by := OLD.validated_by;
+    NEW.validation_comment := OLD.validation_comment;
+
+    IF OLD.status = 'pending_validation' AND NEW.status = 'completed' THEN
+      RAISE EXCEPTION 'Cette action doit être validée par un manager';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' AND COALESCE(NEW.requires_validation, false) THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+    IF _is_validator THEN
+      NEW.validated_at := now();
+      NEW.validated_by := auth.uid();
+    ELSE
+      NEW.status := 'pending_validation';
+    END IF;
+  END IF;
+
+  -- Reopening an action clears its previous validation
+  IF NEW.status IN ('todo', 'in_progress') AND OLD.status IN ('completed', 'pending_validation') THEN
+    NEW.completed_at := NULL;
+    NEW.validated_at := NULL;
+    NEW.validated_by := NULL;
+    IF OLD.status = 'completed' THEN
+      NEW.validation_comment := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;